@@ -0,0 +1,215 @@
+/**
+ * /api/compare - Tests
+ *
+ * Requests are built with Node's Request and FormData (as the route receives
+ * them, hence the node environment) and passed to the route handler directly.
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  COMPARE_API_VERSION,
+  DEFAULT_COMPARE_OPTIONS,
+  parseCompareOptions,
+} from "@/app/lib/compare-api";
+import { docx, p } from "@/app/lib/document-diff/__fixtures__/docx";
+import { POST } from "./route";
+
+async function docxFile(text: string): Promise<Blob> {
+  const data = await docx(p(text));
+  return new Blob([data as Uint8Array<ArrayBuffer>], {
+    type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  });
+}
+
+/**
+ * POST a form to the route
+ */
+async function post(fields: Record<string, string | [Blob, string]>) {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    if (typeof value === "string") form.append(name, value);
+    else form.append(name, value[0], value[1]);
+  }
+  const response = await POST(
+    new Request("http://localhost/api/compare", { method: "POST", body: form })
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+describe("POST /api/compare", () => {
+  it("should return the versioned diff of two DOCX files", async () => {
+    const { status, body } = await post({
+      original: [await docxFile("Rent is due monthly."), "v1.docx"],
+      modified: [await docxFile("Rent is due quarterly."), "v2.docx"],
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      version: COMPARE_API_VERSION,
+      original: { name: "v1.docx" },
+      modified: { name: "v2.docx" },
+      summary: { replacements: 1 },
+      changes: [{ type: "replacement", oldContent: "monthly", content: "quarterly" }],
+      formattingChanges: [],
+      partChanges: [],
+    });
+  });
+
+  it("should apply the options field", async () => {
+    const { status, body } = await post({
+      original: [await docxFile("Rent is due monthly."), "v1.docx"],
+      modified: [await docxFile("RENT IS DUE MONTHLY."), "v2.docx"],
+      options: JSON.stringify({ comparison: { ignoreCase: true } }),
+    });
+
+    expect(status).toBe(200);
+    expect(body.changes).toEqual([]);
+  });
+
+  it("should reject a request that is not multipart", async () => {
+    const response = await POST(
+      new Request("http://localhost/api/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: "{}",
+      })
+    );
+
+    expect(response.status).toBe(415);
+    expect(await response.json()).toMatchObject({
+      version: COMPARE_API_VERSION,
+      error: { code: "unsupported_media_type" },
+    });
+  });
+
+  it("should reject a missing file", async () => {
+    const { status, body } = await post({
+      original: [await docxFile("Rent"), "v1.docx"],
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toMatchObject({ code: "missing_file", field: "modified" });
+  });
+
+  it("should reject a corrupt file with the field it came from", async () => {
+    const { status, body } = await post({
+      original: [await docxFile("Rent"), "v1.docx"],
+      modified: [new Blob(["this is not a zip archive"]), "v2.docx"],
+    });
+
+    expect(status).toBe(422);
+    expect(body.error).toMatchObject({ code: "invalid_docx", field: "modified" });
+    expect(body.error.details[0]).toMatch(/Not a zip archive/);
+  });
+
+  it("should reject a file that expands past the size limit before inflating it", async () => {
+    const bomb = await docx(p("Rent"));
+    // Declare every entry as 150 MB in the central directory
+    const view = new DataView(bomb.buffer, bomb.byteOffset, bomb.byteLength);
+    for (let offset = 0; offset + 4 <= bomb.length; offset++) {
+      if (view.getUint32(offset, true) === 0x02014b50) {
+        view.setUint32(offset + 24, 150 * 1024 * 1024, true);
+      }
+    }
+
+    const { status, body } = await post({
+      original: [await docxFile("Rent"), "v1.docx"],
+      modified: [new Blob([bomb as Uint8Array<ArrayBuffer>]), "v2.docx"],
+    });
+
+    expect(status).toBe(422);
+    expect(body.error).toMatchObject({ code: "invalid_docx", field: "modified" });
+    expect(body.error.details[0]).toMatch(/expands to more than/);
+  });
+
+  it("should reject invalid options", async () => {
+    const { status, body } = await post({
+      original: [await docxFile("Rent"), "v1.docx"],
+      modified: [await docxFile("Rent"), "v2.docx"],
+      options: JSON.stringify({ granularity: "letter" }),
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toMatchObject({ code: "invalid_options", field: "options" });
+  });
+});
+
+describe("parseCompareOptions", () => {
+  it("should use the defaults without options", () => {
+    expect(parseCompareOptions(null)).toEqual({
+      success: true,
+      options: DEFAULT_COMPARE_OPTIONS,
+    });
+  });
+
+  it("should validate ignore rules in the rules file format", () => {
+    const valid = parseCompareOptions(
+      JSON.stringify({
+        ignoreRules: {
+          version: 1,
+          rules: [{ id: "dates", description: "Dates", pattern: "\\d{4}-\\d{2}-\\d{2}" }],
+        },
+      })
+    );
+    const invalid = parseCompareOptions(
+      JSON.stringify({
+        ignoreRules: { version: 1, rules: [{ id: "bad", description: "", pattern: "(" }] },
+      })
+    );
+
+    expect(valid).toMatchObject({ success: true, options: { ignoreRules: [{ id: "dates" }] } });
+    expect(invalid).toEqual({
+      success: false,
+      errors: ["ignoreRules: rules.0.pattern: Invalid regular expression"],
+    });
+  });
+
+  it("should reject ignore rules the server cannot run safely", () => {
+    const rules = (...patterns: string[]) =>
+      parseCompareOptions(
+        JSON.stringify({
+          ignoreRules: {
+            version: 1,
+            rules: patterns.map((pattern, i) => ({ id: `rule-${i}`, description: "", pattern })),
+          },
+        })
+      );
+
+    expect(
+      rules("Draft v\\d+", "(?:Page \\d+ of \\d+)", "[(a+)+]+", "\\d+\\s+\\d+", "\\d{4}").success
+    ).toBe(true);
+    expect(rules("(a+)+$", "(?:x|xy)*z", "(\\d{2,})+", "a".repeat(201))).toEqual({
+      success: false,
+      errors: [
+        "ignoreRules: rules.0.pattern: Repeats a group that itself repeats or alternates",
+        "ignoreRules: rules.1.pattern: Repeats a group that itself repeats or alternates",
+        "ignoreRules: rules.2.pattern: Repeats a group that itself repeats or alternates",
+        "ignoreRules: rules.3.pattern: Longer than 200 characters",
+      ],
+    });
+    expect(rules("(a+){1,10}", "\\w*\\w*\\w*x", "\\w+\\s*\\w+", "(a+){1,1000}", "a{101}")).toEqual({
+      success: false,
+      errors: [
+        "ignoreRules: rules.0.pattern: Repeats a group that itself repeats or alternates",
+        "ignoreRules: rules.1.pattern: Repeats overlapping items one after another",
+        "ignoreRules: rules.2.pattern: Repeats overlapping items one after another",
+        "ignoreRules: rules.3.pattern: Repeats more than 100 times",
+        "ignoreRules: rules.4.pattern: Repeats more than 100 times",
+      ],
+    });
+    expect(rules(...Array.from({ length: 21 }, () => "Draft"))).toEqual({
+      success: false,
+      errors: ["ignoreRules: At most 20 rules are allowed"],
+    });
+  });
+
+  it("should reject unknown options and malformed JSON", () => {
+    expect(parseCompareOptions('{"granularity":"word","colour":true}').success).toBe(false);
+    expect(parseCompareOptions("{granularity: word}")).toEqual({
+      success: false,
+      errors: ["Options must be valid JSON"],
+    });
+  });
+});
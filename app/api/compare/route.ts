@@ -0,0 +1,44 @@
+import {
+  COMPARE_API_VERSION,
+  readCompareRequest,
+  type CompareErrorResponse,
+  type CompareResponse,
+} from "@/app/lib/compare-api";
+import { compareImportedDocx } from "@/app/lib/document-diff";
+import { NextResponse } from "next/server";
+
+// Importing and diffing DOCX files needs the Node.js runtime
+export const runtime = "nodejs";
+
+function errorResponse(status: number, error: CompareErrorResponse["error"]) {
+  const body: CompareErrorResponse = { version: COMPARE_API_VERSION, error };
+  return NextResponse.json(body, { status });
+}
+
+export async function POST(request: Request) {
+  const read = await readCompareRequest(request);
+  if (!read.success) {
+    return errorResponse(read.status, read.error);
+  }
+
+  try {
+    const result = compareImportedDocx(
+      read.original.document,
+      read.modified.document,
+      read.options
+    );
+    const body: CompareResponse = {
+      version: COMPARE_API_VERSION,
+      original: read.original.file,
+      modified: read.modified.file,
+      ...result,
+    };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error("Error comparing documents:", error);
+    return errorResponse(500, {
+      code: "comparison_failed",
+      message: "Failed to compare documents",
+    });
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * /api/redline - Tests
+ *
+ * Requests are built with Node's Request and FormData (as the route receives
+ * them, hence the node environment) and passed to the route handler directly.
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from "vitest";
+import { COMPARE_API_VERSION } from "@/app/lib/compare-api";
+import { docx, p } from "@/app/lib/document-diff/__fixtures__/docx";
+import { readZip } from "@/app/lib/document-diff/docx-package";
+import { POST } from "./route";
+
+async function docxFile(text: string): Promise<Blob> {
+  const data = await docx(p(text));
+  return new Blob([data as Uint8Array<ArrayBuffer>], {
+    type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  });
+}
+
+/**
+ * POST a form to the route
+ */
+async function post(fields: Record<string, string | [Blob, string]>) {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    if (typeof value === "string") form.append(name, value);
+    else form.append(name, value[0], value[1]);
+  }
+  return POST(new Request("http://localhost/api/redline", { method: "POST", body: form }));
+}
+
+describe("POST /api/redline", () => {
+  it("should return the modified DOCX with the changes as revisions", async () => {
+    const response = await post({
+      original: [await docxFile("Rent is due monthly."), "lease_v1.docx"],
+      modified: [await docxFile("Rent is due quarterly."), "lease_v2.docx"],
+      author: "Legal Review",
+      date: "2026-03-01T09:30:00.000Z",
+    });
+    const entries = await readZip(new Uint8Array(await response.arrayBuffer()));
+    const document = new TextDecoder().decode(entries.get("word/document.xml"));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe(
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+    );
+    expect(response.headers.get("content-disposition")).toContain(
+      'filename="lease_v2-redline.docx"'
+    );
+    expect(JSON.parse(response.headers.get("x-diff-summary")!)).toMatchObject({
+      replacements: 1,
+    });
+    expect(document).toContain(
+      '<w:del w:id="1" w:author="Legal Review" w:date="2026-03-01T09:30:00Z">'
+    );
+    expect(document).toContain(
+      '<w:ins w:id="2" w:author="Legal Review" w:date="2026-03-01T09:30:00Z">'
+    );
+  });
+
+  it("should reject a date that is not a date", async () => {
+    const response = await post({
+      original: [await docxFile("Rent"), "v1.docx"],
+      modified: [await docxFile("Rent"), "v2.docx"],
+      date: "next Tuesday",
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      version: COMPARE_API_VERSION,
+      error: { code: "invalid_options", field: "date" },
+    });
+  });
+
+  it("should reject a corrupt file with the field it came from", async () => {
+    const response = await post({
+      original: [new Blob(["this is not a zip archive"]), "v1.docx"],
+      modified: [await docxFile("Rent"), "v2.docx"],
+    });
+
+    expect(response.status).toBe(422);
+    expect((await response.json()).error).toMatchObject({
+      code: "invalid_docx",
+      field: "original",
+    });
+  });
+});
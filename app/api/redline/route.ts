@@ -0,0 +1,77 @@
+import {
+  COMPARE_API_VERSION,
+  readCompareRequest,
+  type CompareErrorResponse,
+} from "@/app/lib/compare-api";
+import { createImportedRedlineDocx } from "@/app/lib/document-diff";
+import { NextResponse } from "next/server";
+
+// Importing, diffing and zipping DOCX files needs the Node.js runtime
+export const runtime = "nodejs";
+
+const DOCX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+function errorResponse(status: number, error: CompareErrorResponse["error"]) {
+  const body: CompareErrorResponse = { version: COMPARE_API_VERSION, error };
+  return NextResponse.json(body, { status });
+}
+
+// "lease_v2.docx" -> "lease_v2-redline.docx"; the plain filename parameter
+// gets an ASCII fallback, filename* the name as uploaded
+function contentDisposition(modifiedName: string): string {
+  const name = `${modifiedName.replace(/\.docx$/i, "") || "document"}-redline.docx`;
+  const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
+
+export async function POST(request: Request) {
+  const read = await readCompareRequest(request);
+  if (!read.success) {
+    return errorResponse(read.status, read.error);
+  }
+
+  const author = read.form.get("author");
+  const date = read.form.get("date");
+  if (author !== null && typeof author !== "string") {
+    return errorResponse(400, {
+      code: "invalid_options",
+      message: "The author must be a text field",
+      field: "author",
+    });
+  }
+  if (date !== null && (typeof date !== "string" || Number.isNaN(Date.parse(date)))) {
+    return errorResponse(400, {
+      code: "invalid_options",
+      message: "The date must be an ISO 8601 date and time, such as 2026-03-01T09:30:00Z",
+      field: "date",
+    });
+  }
+
+  try {
+    const result = await createImportedRedlineDocx(
+      read.original.document,
+      read.modified.document,
+      read.modified.data,
+      {
+        ...read.options,
+        author: author?.trim() || undefined,
+        date: date ? new Date(date).toISOString() : undefined,
+      }
+    );
+    return new NextResponse(result.docx as Uint8Array<ArrayBuffer>, {
+      headers: {
+        "Content-Type": DOCX_CONTENT_TYPE,
+        "Content-Disposition": contentDisposition(read.modified.file.name),
+        // Counts per change type, so callers need not compare again
+        "X-Diff-Summary": JSON.stringify(result.summary),
+      },
+    });
+  } catch (error) {
+    console.error("Error writing redline:", error);
+    return errorResponse(500, {
+      code: "comparison_failed",
+      message: "Failed to compare documents",
+    });
+  }
+}
@@ -1,6 +1,8 @@
 import {
   changeSummarySchema,
+  formatSummarizePrompt,
   openai,
+  SUMMARIZE_MODEL,
   SUMMARIZE_SYSTEM_PROMPT,
   type SummarizeRequest,
 } from "@/app/lib/openai";
@@ -20,27 +22,11 @@ export async function POST(request: Request) {
     }
 
     // Format changes for the LLM
-    const changesText = changes
-      .map((change, index) => {
-        let description = `${index + 1}. [${change.type.toUpperCase()}]`;
-        if (change.oldContent) {
-          description += ` Changed from: "${change.oldContent}" to: "${change.content}"`;
-        } else if (change.type === "deletion") {
-          description += ` Removed: "${change.content}"`;
-        } else {
-          description += ` Added: "${change.content}"`;
-        }
-        return description;
-      })
-      .join("\n");
-
-    const userMessage = documentName
-      ? `Document: ${documentName}\n\nChanges detected:\n${changesText}`
-      : `Changes detected:\n${changesText}`;
+    const userMessage = formatSummarizePrompt({ changes, documentName });
 
     // Use Vercel AI SDK with streaming structured output
     const result = streamObject({
-      model: openai("gpt-5.2"),
+      model: openai(SUMMARIZE_MODEL),
       schema: changeSummarySchema,
       system: SUMMARIZE_SYSTEM_PROMPT,
       prompt: userMessage,
@@ -19,13 +19,13 @@ import {
 import { CheckIcon } from "@heroicons/react/24/solid";
 import { AnimatePresence, motion } from "motion/react";
 import dynamic from "next/dynamic";
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import DocumentUploader from "./DocumentUploader";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const M = motion as any;
 
-// Dynamic import for DocumentComparison to avoid SSR issues
+// Dynamic imports for the review views to avoid SSR issues
 const DocumentComparison = dynamic(() => import("./DocumentComparison"), {
   ssr: false,
   loading: () => (
@@ -40,17 +40,93 @@ const DocumentComparison = dynamic(() => import("./DocumentComparison"), {
   ),
 });
 
+const DocumentMerge = dynamic(() => import("./DocumentMerge"), {
+  ssr: false,
+  loading: () => (
+    <div className="w-full h-full bg-zinc-100 dark:bg-zinc-900 rounded-lg flex items-center justify-center">
+      <div className="flex flex-col items-center gap-3">
+        <div className="w-6 h-6 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-500 dark:border-t-zinc-400 rounded-full animate-spin" />
+        <span className="text-sm text-zinc-500 dark:text-zinc-400">
+          Loading editor...
+        </span>
+      </div>
+    </div>
+  ),
+});
+
+/**
+ * Compare two versions, merge two versions edited from the same base, or
+ * review a series of versions
+ */
+type AppMode = "compare" | "merge" | "history";
+
+const MODE_OPTIONS: ReadonlyArray<{ value: AppMode; label: string }> = [
+  { value: "compare", label: "Compare two versions" },
+  { value: "merge", label: "Three-way merge" },
+  { value: "history", label: "Version history" },
+];
+
+/** Labels of the three progress steps in each mode */
+const STEP_LABELS: Record<
+  AppMode,
+  ReadonlyArray<{ label: string; description: string }>
+> = {
+  compare: [
+    { label: "Upload Original", description: "Base version" },
+    { label: "Upload Modified", description: "Changed version" },
+    { label: "Compare", description: "Review changes" },
+  ],
+  merge: [
+    { label: "Upload Base", description: "Shared draft" },
+    { label: "Upload Versions", description: "Ours and theirs" },
+    { label: "Merge", description: "Resolve conflicts" },
+  ],
+  history: [
+    { label: "Upload First", description: "Earliest version" },
+    { label: "Add Versions", description: "In order" },
+    { label: "Compare", description: "Review history" },
+  ],
+};
+
 interface DocumentVersion {
   file: File;
   base64: string;
   name: string;
 }
 
+/** Indexes of the first and last versions compared in a version history */
+interface VersionRange {
+  from: number;
+  to: number;
+}
+
 export default function DocComparisonApp() {
   const [v1Document, setV1Document] = useState<DocumentVersion | null>(null);
   const [v2Document, setV2Document] = useState<DocumentVersion | null>(null);
+  // Their version, only used when merging
+  const [v3Document, setV3Document] = useState<DocumentVersion | null>(null);
+  const [mode, setMode] = useState<AppMode>("compare");
+  // Versions in order, only used for the version history
+  const [historyDocuments, setHistoryDocuments] = useState<DocumentVersion[]>([]);
+  const [historyStarted, setHistoryStarted] = useState(false);
+  const [historyRange, setHistoryRange] = useState<VersionRange>({ from: 0, to: 0 });
 
-  const isComparing = v1Document && v2Document;
+  const isComparing =
+    mode !== "history" && v1Document && v2Document && (mode === "compare" || v3Document);
+  const isReviewingHistory = mode === "history" && historyStarted;
+  const isReviewing = !!isComparing || isReviewingHistory;
+  const canStartHistory = mode === "history" && historyDocuments.length >= 2;
+
+  // The versions compared: the two chosen on the timeline and those in between
+  const history = useMemo(
+    () =>
+      historyDocuments.slice(historyRange.from, historyRange.to + 1).map((version) => ({
+        base64: version.base64,
+        name: version.name,
+        date: new Date(version.file.lastModified).toISOString(),
+      })),
+    [historyDocuments, historyRange]
+  );
 
   const handleV1Upload = useCallback((file: File, base64: string) => {
     setV1Document({ file, base64, name: file.name });
@@ -60,14 +136,37 @@ export default function DocComparisonApp() {
     setV2Document({ file, base64, name: file.name });
   }, []);
 
+  const handleV3Upload = useCallback((file: File, base64: string) => {
+    setV3Document({ file, base64, name: file.name });
+  }, []);
+
+  const handleHistoryUpload = useCallback((file: File, base64: string) => {
+    setHistoryDocuments((prev) => [...prev, { file, base64, name: file.name }]);
+  }, []);
+
+  const handleStartHistory = useCallback(() => {
+    if (historyDocuments.length < 2) return;
+    setHistoryRange({ from: 0, to: historyDocuments.length - 1 });
+    setHistoryStarted(true);
+  }, [historyDocuments.length]);
+
   const handleReset = useCallback(() => {
     setV1Document(null);
     setV2Document(null);
+    setV3Document(null);
+    setHistoryDocuments([]);
+    setHistoryStarted(false);
   }, []);
 
   // Determine current step
   const currentStep =
-    !v1Document && !v2Document ? 1 : v1Document && v2Document ? 3 : 2;
+    mode === "history"
+      ? Math.min(historyDocuments.length + 1, 3)
+      : !v1Document && !v2Document
+      ? 1
+      : isComparing
+      ? 3
+      : 2;
 
   return (
     <div className="min-h-screen bg-zinc-950">
@@ -81,7 +180,7 @@ export default function DocComparisonApp() {
       <header className="border-b border-white/5 bg-zinc-950/50 backdrop-blur-xl sticky top-0 z-40">
         <div
           className={`mx-auto px-6 h-16 flex items-center justify-between ${
-            isComparing ? "max-w-[1920px]" : "max-w-7xl"
+            isReviewing ? "max-w-[1920px]" : "max-w-7xl"
           }`}
         >
           <div className="flex items-center gap-3">
@@ -100,7 +199,7 @@ export default function DocComparisonApp() {
           </div>
 
           <AnimatePresence>
-            {(v1Document || v2Document) && (
+            {(v1Document || v2Document || v3Document || historyDocuments.length > 0) && (
               <M.button
                 initial={{ opacity: 0, x: 20 }}
                 animate={{ opacity: 1, x: 0 }}
@@ -119,12 +218,12 @@ export default function DocComparisonApp() {
       {/* Main Content */}
       <main
         className={`mx-auto px-6 ${
-          isComparing ? "max-w-[1920px]" : "max-w-7xl"
+          isReviewing ? "max-w-[1920px]" : "max-w-7xl"
         }`}
       >
         <AnimatePresence mode="wait">
           {/* Upload State */}
-          {!isComparing && (
+          {!isReviewing && (
             <M.div
               key="upload"
               initial={{ opacity: 0 }}
@@ -167,6 +266,32 @@ export default function DocComparisonApp() {
                   changed. Get AI-powered summaries and review changes with
                   ease.
                 </M.p>
+
+                {/* Mode toggle */}
+                <M.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.22 }}
+                  role="radiogroup"
+                  aria-label="Review mode"
+                  className="inline-flex mt-8 p-1 rounded-lg bg-zinc-900 border border-white/5"
+                >
+                  {MODE_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      role="radio"
+                      aria-checked={mode === option.value}
+                      onClick={() => setMode(option.value)}
+                      className={`px-4 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                        mode === option.value
+                          ? "bg-white/10 text-white"
+                          : "text-zinc-500 hover:text-zinc-300"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </M.div>
               </div>
 
               {/* Elegant Steps Section */}
@@ -202,8 +327,8 @@ export default function DocComparisonApp() {
                       <StepItemEnhanced
                         step={1}
                         currentStep={currentStep}
-                        label="Upload Original"
-                        description="Base version"
+                        label={STEP_LABELS[mode][0].label}
+                        description={STEP_LABELS[mode][0].description}
                         icon={
                           <DocumentTextIcon className="h-5 w-5" />
                         }
@@ -211,8 +336,8 @@ export default function DocComparisonApp() {
                       <StepItemEnhanced
                         step={2}
                         currentStep={currentStep}
-                        label="Upload Modified"
-                        description="Changed version"
+                        label={STEP_LABELS[mode][1].label}
+                        description={STEP_LABELS[mode][1].description}
                         icon={
                           <DocumentDuplicateIcon className="h-5 w-5" />
                         }
@@ -220,8 +345,8 @@ export default function DocComparisonApp() {
                       <StepItemEnhanced
                         step={3}
                         currentStep={currentStep}
-                        label="Compare"
-                        description="Review changes"
+                        label={STEP_LABELS[mode][2].label}
+                        description={STEP_LABELS[mode][2].description}
                         icon={
                           <SparklesIcon className="h-5 w-5" />
                         }
@@ -232,42 +357,77 @@ export default function DocComparisonApp() {
               </M.div>
 
               {/* Upload Cards */}
-              <M.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.3 }}
-                className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-4xl mx-auto"
-              >
-                {/* Original Document */}
-                <UploadCardEnhanced
-                  title="Original Document"
-                  subtitle="The base version to compare against"
-                  step={1}
-                  isActive={!v1Document}
-                  isComplete={!!v1Document}
-                  document={v1Document}
-                  onUpload={handleV1Upload}
-                  onRemove={() => setV1Document(null)}
-                  icon={<DocumentTextIcon className="h-6 w-6" />}
+              {mode === "history" ? (
+                <HistoryUploadCards
+                  documents={historyDocuments}
+                  onUpload={handleHistoryUpload}
+                  onRemove={(index) =>
+                    setHistoryDocuments((prev) => prev.filter((_, i) => i !== index))
+                  }
                 />
+              ) : (
+                <M.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.3 }}
+                  className={`grid grid-cols-1 gap-6 mx-auto ${
+                    mode === "merge" ? "md:grid-cols-3 max-w-6xl" : "md:grid-cols-2 max-w-4xl"
+                  }`}
+                >
+                  {/* Original Document (the base when merging) */}
+                  <UploadCardEnhanced
+                    title={mode === "merge" ? "Base Document" : "Original Document"}
+                    subtitle={
+                      mode === "merge"
+                        ? "The draft both versions were edited from"
+                        : "The base version to compare against"
+                    }
+                    step={1}
+                    isActive={!v1Document}
+                    isComplete={!!v1Document}
+                    document={v1Document}
+                    onUpload={handleV1Upload}
+                    onRemove={() => setV1Document(null)}
+                    icon={<DocumentTextIcon className="h-6 w-6" />}
+                  />
 
-                {/* Modified Document */}
-                <UploadCardEnhanced
-                  title="Modified Document"
-                  subtitle="The updated version with changes"
-                  step={2}
-                  isActive={!!v1Document && !v2Document}
-                  isComplete={!!v2Document}
-                  document={v2Document}
-                  onUpload={handleV2Upload}
-                  onRemove={() => setV2Document(null)}
-                  icon={<DocumentDuplicateIcon className="h-6 w-6" />}
-                />
-              </M.div>
+                  {/* Modified Document (our version when merging) */}
+                  <UploadCardEnhanced
+                    title={mode === "merge" ? "Our Version" : "Modified Document"}
+                    subtitle={
+                      mode === "merge"
+                        ? "The base with our edits"
+                        : "The updated version with changes"
+                    }
+                    step={2}
+                    isActive={!!v1Document && !v2Document}
+                    isComplete={!!v2Document}
+                    document={v2Document}
+                    onUpload={handleV2Upload}
+                    onRemove={() => setV2Document(null)}
+                    icon={<DocumentDuplicateIcon className="h-6 w-6" />}
+                  />
+
+                  {/* Their Version (merging only) */}
+                  {mode === "merge" && (
+                    <UploadCardEnhanced
+                      title="Their Version"
+                      subtitle="The base with the other side's edits"
+                      step={3}
+                      isActive={!!v1Document && !!v2Document && !v3Document}
+                      isComplete={!!v3Document}
+                      document={v3Document}
+                      onUpload={handleV3Upload}
+                      onRemove={() => setV3Document(null)}
+                      icon={<UsersIcon className="h-6 w-6" />}
+                    />
+                  )}
+                </M.div>
+              )}
 
               {/* Compare Button */}
               <AnimatePresence>
-                {v1Document && v2Document && (
+                {(isComparing || canStartHistory) && (
                   <M.div
                     initial={{ opacity: 0, y: 20, scale: 0.95 }}
                     animate={{ opacity: 1, y: 0, scale: 1 }}
@@ -279,7 +439,9 @@ export default function DocComparisonApp() {
                       {/* Glow effect */}
                       <div className="absolute -inset-1 bg-gradient-to-r from-violet-600 to-indigo-600 rounded-2xl blur-lg opacity-50 group-hover:opacity-75 transition-opacity" />
 
-                      <button className="group relative inline-flex items-center gap-3 px-10 py-4 text-base font-semibold text-white rounded-xl overflow-hidden transition-all hover:scale-[1.02] active:scale-[0.98]">
+                      <button
+                        onClick={handleStartHistory}
+                        className="group relative inline-flex items-center gap-3 px-10 py-4 text-base font-semibold text-white rounded-xl overflow-hidden transition-all hover:scale-[1.02] active:scale-[0.98]">
                         <div className="absolute inset-0 bg-gradient-to-r from-violet-600 to-indigo-600" />
                         <div className="absolute inset-0 bg-gradient-to-r from-violet-500 to-indigo-500 opacity-0 group-hover:opacity-100 transition-opacity" />
 
@@ -570,12 +732,48 @@ export default function DocComparisonApp() {
               animate={{ opacity: 1, y: 0 }}
               className="py-6 h-[calc(100vh-100px)]"
             >
-              <DocumentComparison
-                originalBase64={v1Document.base64}
-                modifiedBase64={v2Document.base64}
-                originalName={v1Document.name}
-                modifiedName={v2Document.name}
+              {mode === "merge" && v3Document ? (
+                <DocumentMerge
+                  baseBase64={v1Document.base64}
+                  oursBase64={v2Document.base64}
+                  theirsBase64={v3Document.base64}
+                  baseName={v1Document.name}
+                  oursName={v2Document.name}
+                  theirsName={v3Document.name}
+                />
+              ) : (
+                <DocumentComparison
+                  originalBase64={v1Document.base64}
+                  modifiedBase64={v2Document.base64}
+                  originalName={v1Document.name}
+                  modifiedName={v2Document.name}
+                />
+              )}
+            </M.div>
+          )}
+
+          {/* Version History View */}
+          {isReviewingHistory && (
+            <M.div
+              key="history"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="py-6 h-[calc(100vh-100px)] flex flex-col gap-4"
+            >
+              <VersionTimeline
+                names={historyDocuments.map((d) => d.name)}
+                range={historyRange}
+                onChange={setHistoryRange}
               />
+              <div className="flex-1 min-h-0">
+                <DocumentComparison
+                  originalBase64={history[0].base64}
+                  modifiedBase64={history[history.length - 1].base64}
+                  originalName={history[0].name}
+                  modifiedName={history[history.length - 1].name}
+                  history={history}
+                />
+              </div>
             </M.div>
           )}
         </AnimatePresence>
@@ -585,6 +783,106 @@ export default function DocComparisonApp() {
 }
 
 // Enhanced Step Item Component
+// Version history: an upload card per version, then one to add the next
+function HistoryUploadCards({
+  documents,
+  onUpload,
+  onRemove,
+}: {
+  documents: DocumentVersion[];
+  onUpload: (file: File, base64: string) => void;
+  onRemove: (index: number) => void;
+}) {
+  return (
+    <M.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+      className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-6xl mx-auto"
+    >
+      {documents.map((document, index) => (
+        <UploadCardEnhanced
+          key={`${index}-${document.name}`}
+          title={`Version ${index + 1}`}
+          subtitle={index === 0 ? "The earliest version" : "A later version"}
+          step={index + 1}
+          isActive={false}
+          isComplete
+          document={document}
+          onUpload={onUpload}
+          onRemove={() => onRemove(index)}
+          icon={<ClockIcon className="h-6 w-6" />}
+        />
+      ))}
+      <UploadCardEnhanced
+        key={`next-${documents.length}`}
+        title={`Version ${documents.length + 1}`}
+        subtitle={
+          documents.length === 0
+            ? "The earliest version"
+            : "The next version, in the order they were made"
+        }
+        step={documents.length + 1}
+        isActive
+        isComplete={false}
+        document={null}
+        onUpload={onUpload}
+        onRemove={() => {}}
+        icon={<ClockIcon className="h-6 w-6" />}
+      />
+    </M.div>
+  );
+}
+
+// Timeline of a version history: the two versions whose changes are shown
+function VersionTimeline({
+  names,
+  range,
+  onChange,
+}: {
+  names: string[];
+  range: VersionRange;
+  onChange: (range: VersionRange) => void;
+}) {
+  const last = names.length - 1;
+
+  return (
+    <div className="flex items-center gap-6 px-4 py-3 rounded-lg bg-zinc-900 border border-white/5">
+      <ClockIcon className="h-5 w-5 shrink-0 text-zinc-500" />
+      <div className="flex-1 grid grid-cols-2 gap-6">
+        {(["from", "to"] as const).map((end) => (
+          <label key={end} className="flex flex-col gap-1">
+            <span className="text-xs text-zinc-400">
+              {end === "from" ? "From" : "To"}:{" "}
+              <span className="text-white">
+                v{range[end] + 1} · {names[range[end]]}
+              </span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={last}
+              step={1}
+              value={range[end]}
+              aria-label={end === "from" ? "First version compared" : "Last version compared"}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                const value = Number(e.target.value);
+                // The first version compared stays before the last
+                onChange(
+                  end === "from"
+                    ? { from: Math.min(value, range.to - 1), to: range.to }
+                    : { from: range.from, to: Math.max(value, range.from + 1) }
+                );
+              }}
+              className="accent-violet-500"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function StepItemEnhanced({
   step,
   currentStep,
@@ -0,0 +1,518 @@
+"use client";
+
+import { SuperDoc } from "@harbour-enterprises/superdoc";
+import "@harbour-enterprises/superdoc/style.css";
+import { AnimatePresence, motion } from "motion/react";
+
+// Motion wrapper to handle TypeScript issues with motion v12
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const M = motion as any;
+
+import {
+  applyMergeEdits,
+  computeThreeWayMerge,
+  extractTextWithFormattingFromEditor,
+  extractTextWithFormattingFromJson,
+  navigateToMergeConflict,
+  resolveConflict,
+  type ConflictResolution,
+  type MergeConflict,
+  type MergeEdit,
+  type MergeSide,
+  type ProseMirrorJsonNode,
+  type SuperDocEditor,
+  type TrackChangeUser,
+} from "@/app/lib/document-diff";
+import { useCallback, useEffect, useRef, useState } from "react";
+import ProgressBar from "./ui/ProgressBar";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface DocumentMergeProps {
+  baseBase64: string;
+  oursBase64: string;
+  theirsBase64: string;
+  baseName: string;
+  oursName: string;
+  theirsName: string;
+}
+
+/** A conflict and how the reviewer resolved it, once they have */
+interface ReviewedConflict {
+  readonly conflict: MergeConflict;
+  readonly resolution: ConflictResolution | null;
+}
+
+const SIDE_LABELS: Record<MergeSide, string> = {
+  ours: "Ours",
+  theirs: "Theirs",
+  both: "Both",
+};
+
+const SIDE_DOT_COLORS: Record<MergeSide, string> = {
+  ours: "bg-sky-500",
+  theirs: "bg-violet-500",
+  both: "bg-emerald-500",
+};
+
+const RESOLUTION_OPTIONS: ReadonlyArray<{
+  value: ConflictResolution;
+  label: string;
+}> = [
+  { value: "ours", label: "Keep ours" },
+  { value: "theirs", label: "Keep theirs" },
+  { value: "both", label: "Keep both" },
+];
+
+// =============================================================================
+// Utilities
+// =============================================================================
+
+function base64ToBlob(base64: string): Blob {
+  const data = base64.includes(",") ? base64.split(",")[1] : base64;
+  const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+  return new Blob([bytes], {
+    type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  });
+}
+
+/** Who each side's edits are attributed to in the merged document */
+function mergeAttribution(
+  oursName: string,
+  theirsName: string
+): Record<MergeSide, TrackChangeUser> {
+  return {
+    ours: { name: oursName, email: "ours@superdoc.diff" },
+    theirs: { name: theirsName, email: "theirs@superdoc.diff" },
+    both: { name: `${oursName} and ${theirsName}`, email: "both@superdoc.diff" },
+  };
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export default function DocumentMerge({
+  baseBase64,
+  oursBase64,
+  theirsBase64,
+  baseName,
+  oursName,
+  theirsName,
+}: DocumentMergeProps) {
+  const superdocRef = useRef<SuperDoc | null>(null);
+  const baseTextRef = useRef<string>("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [mergedEdits, setMergedEdits] = useState<MergeEdit[]>([]);
+  const [conflicts, setConflicts] = useState<ReviewedConflict[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const resolvedCount = conflicts.filter((c) => c.resolution !== null).length;
+
+  const getEditor = useCallback(
+    () => superdocRef.current?.activeEditor as unknown as SuperDocEditor | undefined,
+    []
+  );
+
+  const handleDownload = useCallback(() => {
+    if (!superdocRef.current) return;
+    try {
+      (superdocRef.current as unknown as { export: () => void }).export();
+    } catch (e) {
+      console.warn("Export failed:", e);
+    }
+  }, []);
+
+  const handleNavigateToConflict = useCallback(
+    (conflict: MergeConflict) => {
+      const editor = getEditor();
+      if (!editor) return;
+      setSelectedId(conflict.id);
+      navigateToMergeConflict(editor, conflict, baseTextRef.current);
+    },
+    [getEditor]
+  );
+
+  const handleResolveConflict = useCallback(
+    (conflict: MergeConflict, resolution: ConflictResolution) => {
+      const editor = getEditor();
+      if (!editor) return;
+      const result = applyMergeEdits(
+        editor,
+        resolveConflict(conflict, resolution),
+        baseTextRef.current,
+        mergeAttribution(oursName, theirsName)
+      );
+      if (result.errors.length > 0) {
+        console.warn("Could not apply conflict resolution:", result.errors);
+        return;
+      }
+      setConflicts((prev) =>
+        prev.map((c) => (c.conflict.id === conflict.id ? { ...c, resolution } : c))
+      );
+    },
+    [getEditor, oursName, theirsName]
+  );
+
+  useEffect(() => {
+    let mounted = true;
+    let oursJson: ProseMirrorJsonNode | null = null;
+    let theirsJson: ProseMirrorJsonNode | null = null;
+    let mainSuperdoc: SuperDoc | null = null;
+    let baseReady = false;
+    const hiddenSuperdocs: SuperDoc[] = [];
+
+    const onAllLoaded = () => {
+      if (!mounted || !baseReady || !oursJson || !theirsJson || !mainSuperdoc?.activeEditor) {
+        return;
+      }
+
+      const editor = mainSuperdoc.activeEditor as unknown as SuperDocEditor;
+      const baseText = extractTextWithFormattingFromEditor(editor).text;
+      baseTextRef.current = baseText;
+
+      const merge = computeThreeWayMerge(
+        baseText,
+        extractTextWithFormattingFromJson(oursJson).text,
+        extractTextWithFormattingFromJson(theirsJson).text,
+        { granularity: "word", semanticCleanup: true }
+      );
+
+      // Edits that merge cleanly go straight into the base as track changes;
+      // conflicts wait for the reviewer
+      if (merge.edits.length > 0) {
+        applyMergeEdits(editor, merge.edits, baseText, mergeAttribution(oursName, theirsName));
+      }
+
+      setMergedEdits(merge.edits);
+      setConflicts(merge.conflicts.map((conflict) => ({ conflict, resolution: null })));
+      setIsLoading(false);
+    };
+
+    for (const id of ["superdoc-main", "superdoc-ours", "superdoc-theirs"]) {
+      document.getElementById(id)?.replaceChildren();
+    }
+
+    mainSuperdoc = new SuperDoc({
+      selector: "#superdoc-main",
+      documents: [{ id: "base", data: base64ToBlob(baseBase64), type: "docx" }],
+      user: { name: "Document Reviewer", email: "reviewer@system" },
+      rulers: true,
+      documentMode: "editing",
+      modules: {
+        toolbar: {
+          selector: "#superdoc-toolbar",
+          groups: {
+            center: [
+              "fontFamily",
+              "fontSize",
+              "bold",
+              "italic",
+              "underline",
+              "color",
+              "highlight",
+            ],
+          },
+        },
+      },
+      onReady: () => {
+        if (!mounted) return;
+        superdocRef.current = mainSuperdoc;
+        baseReady = true;
+        onAllLoaded();
+      },
+    });
+
+    // Both edited versions are only read, so they load in hidden viewers
+    const loadHidden = (
+      id: "ours" | "theirs",
+      base64: string,
+      onJson: (json: ProseMirrorJsonNode) => void
+    ) => {
+      const superdoc: SuperDoc = new SuperDoc({
+        selector: `#superdoc-${id}`,
+        documents: [{ id, data: base64ToBlob(base64), type: "docx" }],
+        documentMode: "viewing",
+        onReady: () => {
+          if (!mounted || !superdoc.activeEditor) return;
+          onJson(superdoc.activeEditor.getJSON() as ProseMirrorJsonNode);
+          onAllLoaded();
+        },
+      });
+      hiddenSuperdocs.push(superdoc);
+    };
+    loadHidden("ours", oursBase64, (json) => (oursJson = json));
+    loadHidden("theirs", theirsBase64, (json) => (theirsJson = json));
+
+    return () => {
+      mounted = false;
+      superdocRef.current = null;
+      try {
+        for (const superdoc of [mainSuperdoc, ...hiddenSuperdocs]) {
+          (superdoc as { destroy?: () => void } | null)?.destroy?.();
+        }
+      } catch {}
+      for (const id of ["superdoc-main", "superdoc-ours", "superdoc-theirs"]) {
+        document.getElementById(id)?.replaceChildren();
+      }
+    };
+  }, [baseBase64, oursBase64, theirsBase64, oursName, theirsName]);
+
+  return (
+    <div className="flex h-full gap-6">
+      <div
+        id="superdoc-ours"
+        className="absolute -left-[9999px] w-px h-px overflow-hidden"
+      />
+      <div
+        id="superdoc-theirs"
+        className="absolute -left-[9999px] w-px h-px overflow-hidden"
+      />
+
+      {/* Main document area */}
+      <div className="flex-1 flex flex-col min-w-0 bg-white dark:bg-zinc-800 rounded-lg border border-zinc-200 dark:border-zinc-700 overflow-hidden">
+        <div className="px-4 py-3 border-b border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800">
+          <div className="flex items-center justify-between">
+            <div className="min-w-0">
+              <h2 className="text-sm font-medium text-zinc-900 dark:text-zinc-100 truncate">
+                {baseName}
+              </h2>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400 truncate">
+                Merging {oursName} and {theirsName}
+              </p>
+            </div>
+            <button
+              onClick={handleDownload}
+              disabled={isLoading}
+              className="px-4 py-1.5 text-xs font-medium bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 hover:bg-zinc-700 dark:hover:bg-zinc-100 disabled:opacity-40 disabled:cursor-not-allowed rounded-md transition-colors"
+            >
+              Export
+            </button>
+          </div>
+        </div>
+        <div
+          id="superdoc-toolbar"
+          className="border-b border-zinc-200 dark:border-zinc-700 px-3 py-1.5 bg-zinc-50 dark:bg-zinc-800/50"
+        />
+        <div className="flex-1 overflow-auto relative bg-zinc-100 dark:bg-zinc-900">
+          {isLoading && (
+            <div className="absolute inset-0 flex items-center justify-center bg-zinc-100 dark:bg-zinc-900 z-10">
+              <div className="flex flex-col items-center gap-3">
+                <div className="w-6 h-6 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-500 dark:border-t-zinc-400 rounded-full animate-spin" />
+                <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                  Loading documents...
+                </span>
+              </div>
+            </div>
+          )}
+          <div id="superdoc-main" className="w-full h-full" />
+        </div>
+      </div>
+
+      {/* Sidebar */}
+      <div
+        className="w-[420px] flex flex-col bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg overflow-hidden"
+        role="region"
+        aria-label="Merge review panel"
+      >
+        {conflicts.length > 0 && (
+          <div className="px-4 py-3 border-b border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800/50">
+            <ProgressBar
+              current={resolvedCount}
+              total={conflicts.length}
+              label="Conflicts resolved"
+            />
+          </div>
+        )}
+        <div className="px-4 py-3 border-b border-zinc-100 dark:border-zinc-700/50">
+          <p className="text-xs text-zinc-500 dark:text-zinc-400">
+            {isLoading
+              ? "Merging..."
+              : `${mergedEdits.length} merged automatically, ${conflicts.length} ${
+                  conflicts.length === 1 ? "conflict" : "conflicts"
+                }`}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-zinc-100 dark:divide-zinc-700/50">
+          {!isLoading && conflicts.length > 0 && (
+            <>
+              <SectionHeader title={`Conflicts (${conflicts.length})`} />
+              <AnimatePresence mode="popLayout">
+                {conflicts.map(({ conflict, resolution }, index) => (
+                  <ConflictCard
+                    key={conflict.id}
+                    conflict={conflict}
+                    resolution={resolution}
+                    index={index}
+                    oursName={oursName}
+                    theirsName={theirsName}
+                    isSelected={selectedId === conflict.id}
+                    onSelect={() => handleNavigateToConflict(conflict)}
+                    onResolve={(next) => handleResolveConflict(conflict, next)}
+                  />
+                ))}
+              </AnimatePresence>
+            </>
+          )}
+
+          {!isLoading && mergedEdits.length > 0 && (
+            <>
+              <SectionHeader title={`Merged automatically (${mergedEdits.length})`} />
+              {mergedEdits.map((edit) => (
+                <MergedEditRow key={edit.id} edit={edit} />
+              ))}
+            </>
+          )}
+
+          {!isLoading && mergedEdits.length === 0 && conflicts.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-16 px-4">
+              <p className="text-sm font-medium text-zinc-600 dark:text-zinc-300">
+                Nothing to merge
+              </p>
+              <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+                Neither version changed the base document
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Sidebar Sections
+// =============================================================================
+
+function SectionHeader({ title }: { title: string }) {
+  return (
+    <div className="px-4 py-2 bg-zinc-50 dark:bg-zinc-700/30">
+      <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wide">
+        {title}
+      </p>
+    </div>
+  );
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max) + "..." : text;
+}
+
+function MergedEditRow({ edit }: { edit: MergeEdit }) {
+  return (
+    <div className="px-4 py-2.5">
+      <div className="flex items-center gap-2 mb-1">
+        <span className={`w-2 h-2 rounded-full ${SIDE_DOT_COLORS[edit.side]}`} />
+        <span className="text-xs font-medium text-zinc-600 dark:text-zinc-300">
+          {SIDE_LABELS[edit.side]}
+        </span>
+      </div>
+      <div className="pl-4 space-y-0.5">
+        {edit.oldContent && (
+          <p className="text-sm text-zinc-400 dark:text-zinc-500 line-through leading-relaxed">
+            {truncate(edit.oldContent, 60)}
+          </p>
+        )}
+        {edit.content && (
+          <p className="text-sm text-zinc-700 dark:text-zinc-200 leading-relaxed">
+            {truncate(edit.content, 60)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ConflictCardProps {
+  conflict: MergeConflict;
+  resolution: ConflictResolution | null;
+  index: number;
+  oursName: string;
+  theirsName: string;
+  isSelected: boolean;
+  onSelect: () => void;
+  onResolve: (resolution: ConflictResolution) => void;
+}
+
+function ConflictCard({
+  conflict,
+  resolution,
+  index,
+  oursName,
+  theirsName,
+  isSelected,
+  onSelect,
+  onResolve,
+}: ConflictCardProps) {
+  const versions: ReadonlyArray<{ side: "ours" | "theirs"; name: string; text: string }> = [
+    { side: "ours", name: oursName, text: conflict.ours },
+    { side: "theirs", name: theirsName, text: conflict.theirs },
+  ];
+
+  return (
+    <M.div
+      className={`px-4 py-3 cursor-pointer transition-colors ${
+        isSelected
+          ? "bg-zinc-50 dark:bg-zinc-700/50"
+          : "hover:bg-zinc-50/50 dark:hover:bg-zinc-700/30"
+      }`}
+      onClick={onSelect}
+      initial={{ opacity: 0, y: 15 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.25, delay: Math.min(index * 0.05, 0.3) }}
+      layout
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <span className="w-2 h-2 rounded-full bg-amber-500" />
+        <span className="text-xs font-medium text-zinc-600 dark:text-zinc-300">
+          {resolution
+            ? `Resolved: ${SIDE_LABELS[resolution].toLowerCase()}`
+            : "Conflict"}
+        </span>
+        <span className="text-xs text-zinc-400 dark:text-zinc-500 ml-auto">
+          #{index + 1}
+        </span>
+      </div>
+
+      <div className="mb-3 pl-4 space-y-1.5">
+        {conflict.base && (
+          <p className="text-sm text-zinc-400 dark:text-zinc-500 line-through leading-relaxed">
+            {truncate(conflict.base, 60)}
+          </p>
+        )}
+        {versions.map(({ side, name, text }) => (
+          <div key={side} className="flex items-baseline gap-2">
+            <span className={`shrink-0 w-1.5 h-1.5 rounded-full ${SIDE_DOT_COLORS[side]}`} />
+            <p className="text-sm text-zinc-700 dark:text-zinc-200 leading-relaxed">
+              <span className="text-xs text-zinc-400 dark:text-zinc-500">{name}: </span>
+              {text ? truncate(text, 60) : <em className="text-zinc-400">(removed)</em>}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {!resolution && (
+        <div className="flex gap-2 pl-4">
+          {RESOLUTION_OPTIONS.map(({ value, label }) => (
+            <M.button
+              key={value}
+              onClick={(e: React.MouseEvent) => {
+                e.stopPropagation();
+                onResolve(value);
+              }}
+              aria-label={`${label} for conflict ${index + 1}`}
+              className="flex-1 px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-600 hover:bg-zinc-100 dark:hover:bg-zinc-700 rounded transition-colors"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              {label}
+            </M.button>
+          ))}
+        </div>
+      )}
+    </M.div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { motion } from "motion/react";
+import type {
+  ChangeAttribution,
+  ChangeWithPosition,
+  TableChangeKind,
+  TableLocation,
+} from "@/app/lib/document-diff";
+import type { MoveEnd } from "./types";
+
+// Motion wrapper to handle TypeScript issues with motion v12
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const M = motion as any;
+
+interface ChangeCardProps {
+  change: ChangeWithPosition;
+  index: number;
+  isSelected: boolean;
+  onSelect: () => void;
+  onSelectEnd: (end: MoveEnd) => void;
+  onApprove: () => void;
+  onReject: () => void;
+  /** Hide accept/reject (the change is not marked in any editor) */
+  readOnly?: boolean;
+}
+
+const TABLE_CHANGE_LABELS: Record<TableChangeKind, string> = {
+  rowInserted: "Row added",
+  rowDeleted: "Row removed",
+  columnInserted: "Column added",
+  columnDeleted: "Column removed",
+  cellChanged: "Cell",
+};
+
+/**
+ * Describe where a table change is, e.g. "Table 1 · Cell: row 3, column 2"
+ * (indexes are shown one-based)
+ */
+function describeTableLocation(location: TableLocation): string {
+  const parts = [
+    location.row !== undefined ? `row ${location.row + 1}` : null,
+    location.column !== undefined ? `column ${location.column + 1}` : null,
+  ].filter(Boolean);
+  return `Table ${location.tableIndex + 1} · ${TABLE_CHANGE_LABELS[location.kind]}: ${parts.join(", ")}`;
+}
+
+/** Which version introduced a change, for a change in a version history */
+function describeAttribution(attribution: ChangeAttribution): string {
+  const { user, date } = attribution;
+  return date
+    ? `Introduced in ${user.name} (${new Date(date).toLocaleDateString()})`
+    : `Introduced in ${user.name}`;
+}
+
+export default function ChangeCard({
+  change,
+  index,
+  isSelected,
+  onSelect,
+  onSelectEnd,
+  onApprove,
+  onReject,
+  readOnly = false,
+}: ChangeCardProps) {
+  const truncate = (text: string, max: number) =>
+    text.length > max ? text.slice(0, max) + "..." : text;
+
+  const typeConfig = {
+    insertion: { label: "Added", dotColor: "bg-emerald-500" },
+    deletion: { label: "Removed", dotColor: "bg-zinc-400" },
+    replacement: { label: "Changed", dotColor: "bg-amber-500" },
+    move: { label: "Moved", dotColor: "bg-sky-500" },
+    split: { label: "Paragraph split", dotColor: "bg-violet-500" },
+    merge: { label: "Paragraphs merged", dotColor: "bg-violet-500" },
+  }[change.type];
+
+  return (
+    <M.div
+      className={`px-4 py-3 cursor-pointer transition-colors ${
+        isSelected
+          ? "bg-zinc-50 dark:bg-zinc-700/50"
+          : "hover:bg-zinc-50/50 dark:hover:bg-zinc-700/30"
+      }`}
+      onClick={onSelect}
+      initial={{ opacity: 0, y: 15 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, x: -20 }}
+      transition={{
+        duration: 0.25,
+        delay: Math.min(index * 0.05, 0.3),
+      }}
+      layout
+    >
+      {/* Header */}
+      <div className="flex items-center gap-2 mb-2">
+        <M.span
+          className={`w-2 h-2 rounded-full ${typeConfig.dotColor}`}
+          layoutId={`dot-${change.id}`}
+        />
+        <span className="text-xs font-medium text-zinc-600 dark:text-zinc-300">
+          {typeConfig.label}
+        </span>
+        {change.granularity && change.granularity !== "character" && (
+          <span className="text-[10px] uppercase tracking-wide text-zinc-400 dark:text-zinc-500">
+            {change.granularity}
+          </span>
+        )}
+        <span className="text-xs text-zinc-400 dark:text-zinc-500 ml-auto">
+          #{index + 1}
+        </span>
+      </div>
+
+      {change.table && (
+        <p className="mb-2 pl-4 text-[11px] text-zinc-500 dark:text-zinc-400">
+          {describeTableLocation(change.table)}
+        </p>
+      )}
+
+      {change.attribution && (
+        <p className="mb-2 pl-4 text-[11px] text-zinc-500 dark:text-zinc-400">
+          {describeAttribution(change.attribution)}
+        </p>
+      )}
+
+      {/* Content preview */}
+      <div className="mb-3 pl-4">
+        {change.type === "replacement" ? (
+          <div className="space-y-1.5">
+            <p className="text-sm text-zinc-400 dark:text-zinc-500 line-through leading-relaxed">
+              {truncate(change.oldContent || "", 60)}
+            </p>
+            <p className="text-sm text-zinc-700 dark:text-zinc-200 leading-relaxed">
+              {truncate(change.content, 60)}
+            </p>
+          </div>
+        ) : (
+          <p
+            className={`text-sm leading-relaxed ${
+              change.type === "deletion"
+                ? "text-zinc-400 dark:text-zinc-500 line-through"
+                : "text-zinc-700 dark:text-zinc-200"
+            }`}
+          >
+            {truncate(change.content, 80)}
+          </p>
+        )}
+        {change.type === "move" && (
+          <div className="flex gap-3 mt-1.5">
+            {(["source", "destination"] as const).map((end) => (
+              <button
+                key={end}
+                onClick={(e: React.MouseEvent) => {
+                  e.stopPropagation();
+                  onSelectEnd(end);
+                }}
+                aria-label={`Jump to move ${end}`}
+                className="text-xs text-sky-600 dark:text-sky-400 hover:underline"
+              >
+                {end === "source" ? "↑ Source" : "↓ Destination"}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Actions */}
+      {!readOnly && (
+        <div className="flex gap-2 pl-4">
+          <M.button
+            onClick={(e: React.MouseEvent) => {
+              e.stopPropagation();
+              onApprove();
+            }}
+            aria-label={`Accept change: ${change.type}`}
+            className="flex-1 px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 hover:border-emerald-300 dark:hover:border-emerald-700 hover:text-emerald-700 dark:hover:text-emerald-300 rounded transition-colors"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Accept
+          </M.button>
+          <M.button
+            onClick={(e: React.MouseEvent) => {
+              e.stopPropagation();
+              onReject();
+            }}
+            aria-label={`Reject change: ${change.type}`}
+            className="flex-1 px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-600 hover:bg-red-50 dark:hover:bg-red-900/20 hover:border-red-300 dark:hover:border-red-700 hover:text-red-700 dark:hover:text-red-300 rounded transition-colors"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Reject
+          </M.button>
+        </div>
+      )}
+    </M.div>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { motion } from "motion/react";
+import {
+  describeFormatAttributeChange,
+  getMarkTypeLabel,
+  type FormattingChangeWithPosition,
+} from "@/app/lib/document-diff";
+
+// Motion wrapper to handle TypeScript issues with motion v12
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const M = motion as any;
+
+interface FormattingChangeCardProps {
+  change: FormattingChangeWithPosition;
+  index: number;
+  isSelected: boolean;
+  onSelect: () => void;
+  onApprove: () => void;
+  onReject: () => void;
+}
+
+export default function FormattingChangeCard({
+  change,
+  index,
+  isSelected,
+  onSelect,
+  onApprove,
+  onReject,
+}: FormattingChangeCardProps) {
+  const truncate = (text: string, max: number) =>
+    text.length > max ? text.slice(0, max) + "..." : text;
+
+  const typeConfig = {
+    formatAdded: {
+      label: "Added",
+      description: `${getMarkTypeLabel(change.markType)} applied`,
+      dotColor: "bg-blue-500",
+      icon: (
+        <svg
+          className="w-3.5 h-3.5"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 4v16m8-8H4"
+          />
+        </svg>
+      ),
+    },
+    formatRemoved: {
+      label: "Removed",
+      description: `${getMarkTypeLabel(change.markType)} removed`,
+      dotColor: "bg-orange-500",
+      icon: (
+        <svg
+          className="w-3.5 h-3.5"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M20 12H4"
+          />
+        </svg>
+      ),
+    },
+    formatModified: {
+      label: "Changed",
+      description: `${getMarkTypeLabel(change.markType)} modified`,
+      dotColor: "bg-purple-500",
+      icon: (
+        <svg
+          className="w-3.5 h-3.5"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4"
+          />
+        </svg>
+      ),
+    },
+  }[change.type];
+
+  // Get human-readable attribute description
+  const getAttrDescription = () => {
+    if (change.type === "formatAdded" && change.newAttrs) {
+      if (change.newAttrs.color) return `Color: ${change.newAttrs.color}`;
+      if (change.newAttrs.href) return `Link: ${change.newAttrs.href}`;
+    }
+    if (change.type === "formatRemoved" && change.oldAttrs) {
+      if (change.oldAttrs.color) return `Was: ${change.oldAttrs.color}`;
+      if (change.oldAttrs.href) return `Was: ${change.oldAttrs.href}`;
+    }
+    if (change.type === "formatModified" && change.attributes?.length) {
+      return change.attributes
+        .map((attribute) => describeFormatAttributeChange(change.markType, attribute))
+        .join(", ");
+    }
+    return null;
+  };
+
+  const attrDescription = getAttrDescription();
+
+  return (
+    <M.div
+      className={`px-4 py-3 cursor-pointer transition-colors ${
+        isSelected
+          ? "bg-zinc-50 dark:bg-zinc-700/50"
+          : "hover:bg-zinc-50/50 dark:hover:bg-zinc-700/30"
+      }`}
+      onClick={onSelect}
+      initial={{ opacity: 0, y: 15 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, x: -20 }}
+      transition={{
+        duration: 0.25,
+        delay: Math.min(index * 0.05, 0.3),
+      }}
+      layout
+    >
+      {/* Header */}
+      <div className="flex items-center gap-2 mb-2">
+        <M.span
+          className={`w-2 h-2 rounded-full ${typeConfig.dotColor}`}
+          layoutId={`dot-${change.id}`}
+        />
+        <span className="text-xs font-medium text-zinc-600 dark:text-zinc-300 flex items-center gap-1.5">
+          {typeConfig.icon}
+          {typeConfig.description}
+        </span>
+        <span className="text-xs text-zinc-400 dark:text-zinc-500 ml-auto">
+          #{index + 1}
+        </span>
+      </div>
+
+      {/* Content preview */}
+      <div className="mb-3 pl-4">
+        <p className="text-sm text-zinc-700 dark:text-zinc-200 leading-relaxed">
+          &ldquo;{truncate(change.content, 60)}&rdquo;
+        </p>
+        {attrDescription && (
+          <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+            {attrDescription}
+          </p>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="flex gap-2 pl-4">
+        <M.button
+          onClick={(e: React.MouseEvent) => {
+            e.stopPropagation();
+            onApprove();
+          }}
+          aria-label={`Accept formatting change: ${change.type}`}
+          className="flex-1 px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 hover:border-emerald-300 dark:hover:border-emerald-700 hover:text-emerald-700 dark:hover:text-emerald-300 rounded transition-colors"
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          Accept
+        </M.button>
+        <M.button
+          onClick={(e: React.MouseEvent) => {
+            e.stopPropagation();
+            onReject();
+          }}
+          aria-label={`Reject formatting change: ${change.type}`}
+          className="flex-1 px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-600 hover:bg-red-50 dark:hover:bg-red-900/20 hover:border-red-300 dark:hover:border-red-700 hover:text-red-700 dark:hover:text-red-300 rounded transition-colors"
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          Reject
+        </M.button>
+      </div>
+    </M.div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { motion } from "motion/react";
+import Image from "next/image";
+import {
+  describeObjectChange,
+  getObjectTypeLabel,
+  type ObjectChange,
+  type ObjectSnapshot,
+} from "@/app/lib/document-diff";
+
+// Motion wrapper to handle TypeScript issues with motion v12
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const M = motion as any;
+
+/** Image sources a thumbnail can load (unresolved media paths cannot) */
+function isDisplayableSource(src: string | undefined): src is string {
+  return src !== undefined && /^(data:image\/|blob:|https?:)/.test(src);
+}
+
+interface ObjectChangeCardProps {
+  change: ObjectChange;
+  index: number;
+  isSelected: boolean;
+  onSelect: () => void;
+}
+
+export default function ObjectChangeCard({
+  change,
+  index,
+  isSelected,
+  onSelect,
+}: ObjectChangeCardProps) {
+  return (
+    <M.div
+      className={`px-4 py-3 cursor-pointer transition-colors ${
+        isSelected
+          ? "bg-zinc-50 dark:bg-zinc-700/50"
+          : "hover:bg-zinc-50/50 dark:hover:bg-zinc-700/30"
+      }`}
+      onClick={onSelect}
+      initial={{ opacity: 0, y: 15 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, x: -20 }}
+      transition={{
+        duration: 0.25,
+        delay: Math.min(index * 0.05, 0.3),
+      }}
+      layout
+    >
+      {/* Header */}
+      <div className="flex items-center gap-2 mb-2">
+        <M.span
+          className="w-2 h-2 rounded-full bg-sky-500"
+          layoutId={`dot-${change.id}`}
+        />
+        <span className="text-xs font-medium text-zinc-600 dark:text-zinc-300 flex items-center gap-1.5">
+          <svg
+            className="w-3.5 h-3.5"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M4 16l4.6-4.6a2 2 0 012.8 0L16 16m-2-2l1.6-1.6a2 2 0 012.8 0L20 14M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+            />
+          </svg>
+          {describeObjectChange(change)}
+        </span>
+        <span className="text-xs text-zinc-400 dark:text-zinc-500 ml-auto">
+          #{index + 1}
+        </span>
+      </div>
+
+      {/* Before and after thumbnails */}
+      <div className="flex items-center gap-2 pl-4">
+        {change.original && (
+          <ObjectThumbnail object={change.original} label="Before" removed />
+        )}
+        {change.original && change.modified && (
+          <span className="text-zinc-300 dark:text-zinc-600">→</span>
+        )}
+        {change.modified && <ObjectThumbnail object={change.modified} label="After" />}
+      </div>
+    </M.div>
+  );
+}
+
+function ObjectThumbnail({
+  object,
+  label,
+  removed = false,
+}: {
+  object: ObjectSnapshot;
+  label: string;
+  removed?: boolean;
+}) {
+  return (
+    <figure className="flex flex-col items-center gap-1">
+      <div
+        className={`w-16 h-16 rounded border flex items-center justify-center overflow-hidden bg-white dark:bg-zinc-900 ${
+          removed
+            ? "border-red-200 dark:border-red-900/50 opacity-60"
+            : "border-emerald-200 dark:border-emerald-900/50"
+        }`}
+      >
+        {isDisplayableSource(object.src) ? (
+          <Image
+            src={object.src}
+            alt={`${label}: ${getObjectTypeLabel(object.type)}`}
+            width={64}
+            height={64}
+            unoptimized
+            className="max-w-full max-h-full object-contain"
+          />
+        ) : (
+          <span className="text-[10px] text-zinc-400 dark:text-zinc-500">
+            {getObjectTypeLabel(object.type)}
+          </span>
+        )}
+      </div>
+      <figcaption className="text-[10px] text-zinc-400 dark:text-zinc-500">
+        {label}
+        {object.width !== undefined && object.height !== undefined &&
+          ` · ${object.width}×${object.height}`}
+      </figcaption>
+    </figure>
+  );
+}
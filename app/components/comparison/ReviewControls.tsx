@@ -0,0 +1,290 @@
+"use client";
+
+import {
+  parseIgnoreRules,
+  serializeIgnoreRules,
+  type ComparisonOptions,
+  type DiffGranularity,
+  type IgnoreRule,
+  type RevisionCount,
+  type RevisionView,
+} from "@/app/lib/document-diff";
+import { useState } from "react";
+import type { PendingRevisions } from "./types";
+
+const GRANULARITY_OPTIONS: ReadonlyArray<{
+  value: DiffGranularity;
+  label: string;
+}> = [
+  { value: "character", label: "Char" },
+  { value: "word", label: "Word" },
+  { value: "sentence", label: "Sentence" },
+  { value: "paragraph", label: "Paragraph" },
+];
+
+const REVISION_VIEW_OPTIONS: ReadonlyArray<{
+  value: RevisionView;
+  label: string;
+}> = [
+  { value: "asIs", label: "As is" },
+  { value: "accepted", label: "Accepted" },
+  { value: "rejected", label: "Rejected" },
+];
+
+const COMPARISON_TOGGLES: ReadonlyArray<{
+  key: keyof ComparisonOptions;
+  label: string;
+  description: string;
+}> = [
+  { key: "ignoreWhitespace", label: "Spaces", description: "Ignore extra and non-breaking spaces" },
+  { key: "ignoreCase", label: "Case", description: "Ignore capitalization" },
+  { key: "ignorePunctuation", label: "Punctuation", description: "Ignore punctuation" },
+  { key: "ignoreQuoteStyle", label: "Quotes", description: "Treat curly and straight quotes alike" },
+  { key: "ignoreDashStyle", label: "Dashes", description: "Treat hyphens and dashes alike" },
+  { key: "normalizeUnicode", label: "Unicode", description: "Ignore Unicode encoding differences" },
+];
+
+interface IgnoreRulesControlProps {
+  rules: IgnoreRule[];
+  disabled: boolean;
+  onChange: (rules: IgnoreRule[]) => void;
+}
+
+/**
+ * Ignore rules are edited as their shareable JSON form, so a team can paste
+ * in the same rules file everyone uses.
+ */
+export function IgnoreRulesControl({ rules, disabled, onChange }: IgnoreRulesControlProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const open = () => {
+    setDraft(serializeIgnoreRules(rules));
+    setErrors([]);
+    setIsOpen(true);
+  };
+
+  const apply = () => {
+    const parsed = parseIgnoreRules(draft);
+    if (!parsed.success) {
+      setErrors(parsed.errors);
+      return;
+    }
+    setIsOpen(false);
+    onChange(parsed.rules);
+  };
+
+  return (
+    <div className="px-4 py-2 border-b border-zinc-100 dark:border-zinc-700/50">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] text-zinc-400 dark:text-zinc-500">
+          {rules.length} ignore {rules.length === 1 ? "rule" : "rules"}
+        </span>
+        <button
+          onClick={isOpen ? () => setIsOpen(false) : open}
+          disabled={disabled}
+          aria-expanded={isOpen}
+          className="text-[11px] font-medium text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isOpen ? "Close" : "Edit rules"}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            rows={8}
+            aria-label="Ignore rules JSON"
+            className="w-full px-2 py-1.5 font-mono text-[11px] text-zinc-700 dark:text-zinc-200 bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-600 rounded"
+          />
+          {errors.length > 0 && (
+            <ul className="text-[11px] text-red-600 dark:text-red-400 space-y-0.5" role="alert">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+          <button
+            onClick={apply}
+            className="w-full px-3 py-1.5 text-xs font-medium text-white dark:text-zinc-900 bg-zinc-900 dark:bg-white hover:bg-zinc-800 dark:hover:bg-zinc-100 rounded transition-colors"
+          >
+            Apply rules
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+interface GranularityControlProps {
+  value: DiffGranularity;
+  disabled: boolean;
+  onChange: (granularity: DiffGranularity) => void;
+}
+
+export function GranularityControl({ value, disabled, onChange }: GranularityControlProps) {
+  return (
+    <div
+      className="flex shrink-0 rounded-md border border-zinc-200 dark:border-zinc-600 overflow-hidden"
+      role="radiogroup"
+      aria-label="Diff granularity"
+    >
+      {GRANULARITY_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          role="radio"
+          aria-checked={value === option.value}
+          disabled={disabled}
+          onClick={() => onChange(option.value)}
+          className={`px-2 py-1 text-[11px] font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            value === option.value
+              ? "bg-zinc-900 dark:bg-white text-white dark:text-zinc-900"
+              : "text-zinc-500 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-700"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function describeRevisionCount(count: RevisionCount): string {
+  const parts = [
+    count.insertions > 0 && `${count.insertions} inserted`,
+    count.deletions > 0 && `${count.deletions} deleted`,
+    count.formatting > 0 && `${count.formatting} formatted`,
+  ].filter(Boolean);
+  return `${count.total} pending ${count.total === 1 ? "revision" : "revisions"} (${parts.join(", ")})`;
+}
+
+interface PendingRevisionsControlProps {
+  pending: PendingRevisions;
+  value: RevisionView;
+  disabled: boolean;
+  onChange: (view: RevisionView) => void;
+  detectStealthEdits: boolean;
+  onDetectStealthEditsChange: (detect: boolean) => void;
+}
+
+/**
+ * Warning shown when an input already contains tracked changes, with a
+ * choice of comparing the inputs as is or with their revisions accepted or
+ * rejected. When the modified document has revisions, it can instead be
+ * checked for edits made without one. Hidden when neither input has pending
+ * revisions.
+ */
+export function PendingRevisionsControl({
+  pending,
+  value,
+  disabled,
+  onChange,
+  detectStealthEdits,
+  onDetectStealthEditsChange,
+}: PendingRevisionsControlProps) {
+  const documents = [
+    { label: "Original", count: pending.original },
+    { label: "Modified", count: pending.modified },
+  ].filter((d): d is { label: string; count: RevisionCount } => !!d.count && d.count.total > 0);
+  if (documents.length === 0) return null;
+
+  return (
+    <div
+      className="px-4 py-2 border-b border-amber-100 dark:border-amber-900/40 bg-amber-50 dark:bg-amber-900/10 space-y-1.5"
+      role="group"
+      aria-label="Pending revisions"
+    >
+      <ul className="text-[11px] text-amber-800 dark:text-amber-300">
+        {documents.map((d) => (
+          <li key={d.label}>
+            {d.label} has {describeRevisionCount(d.count)}
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-center gap-2">
+        <span className="text-[11px] text-amber-700 dark:text-amber-400">Revisions</span>
+        <div
+          className="flex shrink-0 rounded-md border border-amber-200 dark:border-amber-800 overflow-hidden"
+          role="radiogroup"
+          aria-label="Treat pending revisions"
+        >
+          {REVISION_VIEW_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              role="radio"
+              aria-checked={value === option.value}
+              disabled={disabled}
+              onClick={() => onChange(option.value)}
+              className={`px-2 py-0.5 text-[11px] font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                value === option.value
+                  ? "bg-amber-600 text-white"
+                  : "text-amber-700 dark:text-amber-400 hover:bg-amber-100 dark:hover:bg-amber-900/30"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {pending.modified && pending.modified.total > 0 && (
+        <button
+          aria-pressed={detectStealthEdits}
+          title="Compare against the modified document with its revisions rejected: whatever still differs was not tracked"
+          disabled={disabled}
+          onClick={() => onDetectStealthEditsChange(!detectStealthEdits)}
+          className={`px-2 py-0.5 text-[11px] font-medium rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            detectStealthEdits
+              ? "border-amber-600 bg-amber-600 text-white"
+              : "border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-400 hover:bg-amber-100 dark:hover:bg-amber-900/30"
+          }`}
+        >
+          Find untracked edits
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface ComparisonOptionsControlProps {
+  value: ComparisonOptions;
+  disabled: boolean;
+  onChange: (options: ComparisonOptions) => void;
+}
+
+export function ComparisonOptionsControl({
+  value,
+  disabled,
+  onChange,
+}: ComparisonOptionsControlProps) {
+  return (
+    <div
+      className="px-4 py-2 border-b border-zinc-100 dark:border-zinc-700/50 flex flex-wrap items-center gap-1.5"
+      role="group"
+      aria-label="Differences to ignore"
+    >
+      <span className="text-[11px] text-zinc-400 dark:text-zinc-500 mr-0.5">Ignore</span>
+      {COMPARISON_TOGGLES.map((toggle) => {
+        const active = value[toggle.key] === true;
+        return (
+          <button
+            key={toggle.key}
+            aria-pressed={active}
+            title={toggle.description}
+            disabled={disabled}
+            onClick={() => onChange({ ...value, [toggle.key]: !active })}
+            className={`px-2 py-0.5 text-[11px] font-medium rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              active
+                ? "border-zinc-900 dark:border-white bg-zinc-900 dark:bg-white text-white dark:text-zinc-900"
+                : "border-zinc-200 dark:border-zinc-600 text-zinc-500 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-700"
+            }`}
+          >
+            {toggle.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
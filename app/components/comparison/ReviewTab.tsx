@@ -0,0 +1,464 @@
+"use client";
+
+import { AnimatePresence } from "motion/react";
+import {
+  canRejectStructuralChange,
+  type ChangeType,
+  type ChangeWithPosition,
+  type ComparisonOptions,
+  type DiffGranularity,
+  type FormattingChangeWithPosition,
+  type IgnoreRule,
+  type ObjectChange,
+  type RevisionView,
+  type StructuralChangeWithPosition,
+  type TrackedRevision,
+} from "@/app/lib/document-diff";
+import { useState } from "react";
+import ChangeCard from "./ChangeCard";
+import FormattingChangeCard from "./FormattingChangeCard";
+import ObjectChangeCard from "./ObjectChangeCard";
+import {
+  ComparisonOptionsControl,
+  GranularityControl,
+  IgnoreRulesControl,
+  PendingRevisionsControl,
+} from "./ReviewControls";
+import StructuralChangeCard from "./StructuralChangeCard";
+import type {
+  MoveEnd,
+  PartChangeHandler,
+  PendingRevisions,
+  ReviewedPartChanges,
+} from "./types";
+
+interface ReviewTabProps {
+  changes: ChangeWithPosition[];
+  formattingChanges: FormattingChangeWithPosition[];
+  structuralChanges: StructuralChangeWithPosition[];
+  objectChanges: ObjectChange[];
+  selectedId: string | null;
+  isLoading: boolean;
+  granularity: DiffGranularity;
+  onGranularityChange: (granularity: DiffGranularity) => void;
+  comparisonOptions: ComparisonOptions;
+  onComparisonOptionsChange: (options: ComparisonOptions) => void;
+  ignoreRules: IgnoreRule[];
+  onIgnoreRulesChange: (rules: IgnoreRule[]) => void;
+  ignoredChanges: ChangeWithPosition[];
+  revisionView: RevisionView;
+  onRevisionViewChange: (view: RevisionView) => void;
+  pendingRevisions: PendingRevisions;
+  detectStealthEdits: boolean;
+  onDetectStealthEditsChange: (detect: boolean) => void;
+  /** Revisions tracked in the modified document, listed when looking for untracked edits */
+  disclosedRevisions: ReadonlyArray<TrackedRevision>;
+  onSelectChange: (change: ChangeWithPosition, end?: MoveEnd) => void;
+  onSelectFormattingChange: (
+    change: FormattingChangeWithPosition | StructuralChangeWithPosition
+  ) => void;
+  onSelectObjectChange: (change: ObjectChange) => void;
+  onApprove: (
+    changeId: string,
+    changeType: ChangeType
+  ) => void;
+  onReject: (
+    changeId: string,
+    changeType: ChangeType
+  ) => void;
+  onApproveFormatting: (changeId: string) => void;
+  onRejectFormatting: (changeId: string) => void;
+  onApproveStructural: (changeId: string) => void;
+  onRejectStructural: (changeId: string) => void;
+  partChanges: ReviewedPartChanges[];
+  onSelectPartChange: PartChangeHandler;
+  onApprovePartChange: PartChangeHandler;
+  onRejectPartChange: PartChangeHandler;
+}
+
+export default function ReviewTab({
+  changes,
+  formattingChanges,
+  structuralChanges,
+  objectChanges,
+  selectedId,
+  isLoading,
+  granularity,
+  onGranularityChange,
+  comparisonOptions,
+  onComparisonOptionsChange,
+  ignoreRules,
+  onIgnoreRulesChange,
+  ignoredChanges,
+  revisionView,
+  onRevisionViewChange,
+  pendingRevisions,
+  detectStealthEdits,
+  onDetectStealthEditsChange,
+  disclosedRevisions,
+  onSelectChange,
+  onSelectFormattingChange,
+  onSelectObjectChange,
+  onApprove,
+  onReject,
+  onApproveFormatting,
+  onRejectFormatting,
+  onApproveStructural,
+  onRejectStructural,
+  partChanges,
+  onSelectPartChange,
+  onApprovePartChange,
+  onRejectPartChange,
+}: ReviewTabProps) {
+  const bodyChangeCount =
+    changes.length +
+    formattingChanges.length +
+    structuralChanges.length +
+    objectChanges.length;
+  const totalChanges =
+    bodyChangeCount + partChanges.reduce((n, p) => n + p.changes.length, 0);
+
+  return (
+    <div className="h-full flex flex-col" role="region" aria-label="Change review panel">
+      <div className="px-4 py-3 border-b border-zinc-100 dark:border-zinc-700/50 flex items-center justify-between gap-3">
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          {isLoading
+            ? "Analyzing..."
+            : `${totalChanges} ${
+                totalChanges === 1 ? "change" : "changes"
+              } to review`}
+        </p>
+        <GranularityControl
+          value={granularity}
+          disabled={isLoading}
+          onChange={onGranularityChange}
+        />
+      </div>
+      <ComparisonOptionsControl
+        value={comparisonOptions}
+        disabled={isLoading}
+        onChange={onComparisonOptionsChange}
+      />
+      <IgnoreRulesControl
+        rules={ignoreRules}
+        disabled={isLoading}
+        onChange={onIgnoreRulesChange}
+      />
+      <PendingRevisionsControl
+        pending={pendingRevisions}
+        value={revisionView}
+        disabled={isLoading}
+        onChange={onRevisionViewChange}
+        detectStealthEdits={detectStealthEdits}
+        onDetectStealthEditsChange={onDetectStealthEditsChange}
+      />
+
+      <div className="flex-1 overflow-y-auto">
+        {isLoading && (
+          <div className="flex items-center justify-center py-16">
+            <div className="w-5 h-5 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-500 dark:border-t-zinc-400 rounded-full animate-spin" />
+          </div>
+        )}
+
+        {!isLoading && totalChanges === 0 && (
+          <div className="flex flex-col items-center justify-center py-16 px-4">
+            <div className="w-12 h-12 rounded-full bg-zinc-100 dark:bg-zinc-700 flex items-center justify-center mb-3">
+              <svg
+                className="w-6 h-6 text-zinc-400 dark:text-zinc-500"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={1.5}
+                  d="M5 13l4 4L19 7"
+                />
+              </svg>
+            </div>
+            <p className="text-sm font-medium text-zinc-600 dark:text-zinc-300">
+              All done
+            </p>
+            <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+              {detectStealthEdits ? "No untracked edits" : "No changes to review"}
+            </p>
+          </div>
+        )}
+
+        {!isLoading && totalChanges > 0 && (
+          <div className="divide-y divide-zinc-100 dark:divide-zinc-700/50">
+            {/* Content changes section (untracked edits when looking for them) */}
+            {changes.length > 0 && (
+              <>
+                {detectStealthEdits ? (
+                  <UntrackedEditsHeader count={changes.length} />
+                ) : (
+                  <div className="px-4 py-2 bg-zinc-50 dark:bg-zinc-700/30">
+                    <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wide">
+                      Content Changes ({changes.length})
+                    </p>
+                  </div>
+                )}
+                <AnimatePresence mode="popLayout">
+                  {changes.map((change, index) => (
+                    <ChangeCard
+                      key={change.id}
+                      change={change}
+                      index={index}
+                      isSelected={selectedId === change.id}
+                      onSelect={() => onSelectChange(change)}
+                      onSelectEnd={(end) => onSelectChange(change, end)}
+                      onApprove={() => onApprove(change.id, change.type)}
+                      onReject={() => onReject(change.id, change.type)}
+                    />
+                  ))}
+                </AnimatePresence>
+              </>
+            )}
+
+            {/* Formatting changes section */}
+            {formattingChanges.length > 0 && (
+              <>
+                <div className="px-4 py-2 bg-zinc-50 dark:bg-zinc-700/30">
+                  <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wide">
+                    Formatting Changes ({formattingChanges.length})
+                  </p>
+                </div>
+                <AnimatePresence mode="popLayout">
+                  {formattingChanges.map((change, index) => (
+                    <FormattingChangeCard
+                      key={change.id}
+                      change={change}
+                      index={changes.length + index}
+                      isSelected={selectedId === change.id}
+                      onSelect={() => onSelectFormattingChange(change)}
+                      onApprove={() => onApproveFormatting(change.id)}
+                      onReject={() => onRejectFormatting(change.id)}
+                    />
+                  ))}
+                </AnimatePresence>
+              </>
+            )}
+
+            {/* Structural changes section */}
+            {structuralChanges.length > 0 && (
+              <>
+                <div className="px-4 py-2 bg-zinc-50 dark:bg-zinc-700/30">
+                  <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wide">
+                    Structural Changes ({structuralChanges.length})
+                  </p>
+                </div>
+                <AnimatePresence mode="popLayout">
+                  {structuralChanges.map((change, index) => (
+                    <StructuralChangeCard
+                      key={change.id}
+                      change={change}
+                      index={changes.length + formattingChanges.length + index}
+                      isSelected={selectedId === change.id}
+                      onSelect={() => onSelectFormattingChange(change)}
+                      onApprove={() => onApproveStructural(change.id)}
+                      onReject={() => onRejectStructural(change.id)}
+                      canReject={canRejectStructuralChange(change)}
+                    />
+                  ))}
+                </AnimatePresence>
+              </>
+            )}
+
+            {/* Image and object changes section */}
+            {objectChanges.length > 0 && (
+              <>
+                <div className="px-4 py-2 bg-zinc-50 dark:bg-zinc-700/30">
+                  <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wide">
+                    Images &amp; Objects ({objectChanges.length})
+                  </p>
+                </div>
+                <AnimatePresence mode="popLayout">
+                  {objectChanges.map((change, index) => (
+                    <ObjectChangeCard
+                      key={change.id}
+                      change={change}
+                      index={
+                        changes.length +
+                        formattingChanges.length +
+                        structuralChanges.length +
+                        index
+                      }
+                      isSelected={selectedId === change.id}
+                      onSelect={() => onSelectObjectChange(change)}
+                    />
+                  ))}
+                </AnimatePresence>
+              </>
+            )}
+
+            {/* Header, footer and note sections */}
+            {partChanges.map(({ part, changes: partChangeList, tracked }, partIndex) => {
+              const firstIndex =
+                bodyChangeCount +
+                partChanges
+                  .slice(0, partIndex)
+                  .reduce((n, p) => n + p.changes.length, 0);
+              return (
+                <div key={part.id}>
+                  <div className="px-4 py-2 bg-zinc-50 dark:bg-zinc-700/30">
+                    <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wide">
+                      {part.name} ({partChangeList.length})
+                      {detectStealthEdits && <UntrackedBadge />}
+                    </p>
+                    {!tracked && (
+                      <p className="text-[11px] text-zinc-400 dark:text-zinc-500 mt-0.5">
+                        Not marked in the document
+                      </p>
+                    )}
+                  </div>
+                  <AnimatePresence mode="popLayout">
+                    {partChangeList.map((change, index) => (
+                      <ChangeCard
+                        key={change.id}
+                        change={change}
+                        index={firstIndex + index}
+                        isSelected={selectedId === change.id}
+                        readOnly={!tracked}
+                        onSelect={() => onSelectPartChange(part, change)}
+                        onSelectEnd={() => onSelectPartChange(part, change)}
+                        onApprove={() => onApprovePartChange(part, change)}
+                        onReject={() => onRejectPartChange(part, change)}
+                      />
+                    ))}
+                  </AnimatePresence>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {!isLoading && ignoredChanges.length > 0 && (
+          <IgnoredChangesSection changes={ignoredChanges} rules={ignoreRules} />
+        )}
+
+        {!isLoading && disclosedRevisions.length > 0 && (
+          <DisclosedRevisionsSection revisions={disclosedRevisions} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function UntrackedBadge() {
+  return (
+    <span
+      className="ml-1.5 inline-flex items-center gap-0.5 px-1.5 py-px rounded-full bg-amber-100 dark:bg-amber-900/40 text-[10px] font-semibold text-amber-700 dark:text-amber-300 normal-case tracking-normal"
+      title="Changed without a tracked revision"
+    >
+      <span aria-hidden>⚠</span> Untracked
+    </span>
+  );
+}
+
+function UntrackedEditsHeader({ count }: { count: number }) {
+  return (
+    <div className="px-4 py-2 bg-amber-50 dark:bg-amber-900/10" role="alert">
+      <p className="text-xs font-medium text-amber-800 dark:text-amber-300 uppercase tracking-wide">
+        Untracked Edits ({count})
+        <UntrackedBadge />
+      </p>
+      <p className="text-[11px] text-amber-700/80 dark:text-amber-400/80 mt-0.5">
+        Still differ from the original with every revision rejected
+      </p>
+    </div>
+  );
+}
+
+const REVISION_TYPE_LABELS: Record<TrackedRevision["type"], string> = {
+  insertion: "Inserted",
+  deletion: "Deleted",
+  formatting: "Formatted",
+};
+
+/**
+ * The counterparty's own tracked revisions, listed next to the untracked
+ * edits. They are reviewed in the document itself.
+ */
+function DisclosedRevisionsSection({
+  revisions,
+}: {
+  revisions: ReadonlyArray<TrackedRevision>;
+}) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="border-t border-zinc-100 dark:border-zinc-700/50">
+      <button
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+        aria-expanded={isExpanded}
+        className="w-full px-4 py-2 flex items-center justify-between bg-zinc-50 dark:bg-zinc-700/30 text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wide"
+      >
+        <span>Disclosed Revisions ({revisions.length})</span>
+        <span aria-hidden>{isExpanded ? "−" : "+"}</span>
+      </button>
+      {isExpanded && (
+        <ul className="divide-y divide-zinc-100 dark:divide-zinc-700/50">
+          {revisions.map((revision) => (
+            <li key={`${revision.type}-${revision.id}-${revision.charStart}`} className="px-4 py-2">
+              <p className="text-xs text-zinc-500 dark:text-zinc-400 leading-relaxed">
+                <span className={revision.type === "deletion" ? "line-through" : ""}>
+                  {revision.content}
+                </span>
+              </p>
+              <p className="text-[10px] text-zinc-400 dark:text-zinc-500 mt-0.5">
+                {REVISION_TYPE_LABELS[revision.type]}
+                {revision.author && ` by ${revision.author}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+
+interface IgnoredChangesSectionProps {
+  changes: ChangeWithPosition[];
+  rules: IgnoreRule[];
+}
+
+function IgnoredChangesSection({ changes, rules }: IgnoredChangesSectionProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const describeRule = (id: string | undefined) =>
+    rules.find((rule) => rule.id === id)?.description || id;
+
+  return (
+    <div className="border-t border-zinc-100 dark:border-zinc-700/50">
+      <button
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+        aria-expanded={isExpanded}
+        className="w-full px-4 py-2 flex items-center justify-between bg-zinc-50 dark:bg-zinc-700/30 text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wide"
+      >
+        <span>Ignored ({changes.length})</span>
+        <span aria-hidden>{isExpanded ? "−" : "+"}</span>
+      </button>
+      {isExpanded && (
+        <ul className="divide-y divide-zinc-100 dark:divide-zinc-700/50">
+          {changes.map((change) => (
+            <li key={change.id} className="px-4 py-2">
+              <p className="text-xs text-zinc-500 dark:text-zinc-400 leading-relaxed">
+                {change.oldContent && (
+                  <span className="line-through mr-1">{change.oldContent}</span>
+                )}
+                <span className={change.type === "deletion" ? "line-through" : ""}>
+                  {change.content}
+                </span>
+              </p>
+              <p className="text-[10px] text-zinc-400 dark:text-zinc-500 mt-0.5">
+                {describeRule(change.ignoredBy)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import { AnimatePresence, motion } from "motion/react";
+import type {
+  ChangeType,
+  ChangeWithPosition,
+  ComparisonOptions,
+  DiffGranularity,
+  FormattingChangeWithPosition,
+  IgnoreRule,
+  ObjectChange,
+  RevisionView,
+  StructuralChangeWithPosition,
+  TrackedRevision,
+} from "@/app/lib/document-diff";
+import type { SummarizeResponse } from "@/app/lib/openai";
+import ProgressBar from "../ui/ProgressBar";
+import ReviewTab from "./ReviewTab";
+import SummaryTab from "./SummaryTab";
+import type {
+  MoveEnd,
+  PartChangeHandler,
+  PendingRevisions,
+  ReviewedPartChanges,
+  SidebarTab,
+} from "./types";
+
+// Motion wrapper to handle TypeScript issues with motion v12
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const M = motion as any;
+
+interface SidebarProps {
+  activeTab: SidebarTab;
+  onTabChange: (tab: SidebarTab) => void;
+  changes: ChangeWithPosition[];
+  formattingChanges: FormattingChangeWithPosition[];
+  structuralChanges: StructuralChangeWithPosition[];
+  objectChanges: ObjectChange[];
+  selectedId: string | null;
+  isLoading: boolean;
+  granularity: DiffGranularity;
+  onGranularityChange: (granularity: DiffGranularity) => void;
+  comparisonOptions: ComparisonOptions;
+  onComparisonOptionsChange: (options: ComparisonOptions) => void;
+  ignoreRules: IgnoreRule[];
+  onIgnoreRulesChange: (rules: IgnoreRule[]) => void;
+  ignoredChanges: ChangeWithPosition[];
+  revisionView: RevisionView;
+  onRevisionViewChange: (view: RevisionView) => void;
+  pendingRevisions: PendingRevisions;
+  detectStealthEdits: boolean;
+  onDetectStealthEditsChange: (detect: boolean) => void;
+  /** Revisions tracked in the modified document, listed when looking for untracked edits */
+  disclosedRevisions: ReadonlyArray<TrackedRevision>;
+  onSelectChange: (change: ChangeWithPosition, end?: MoveEnd) => void;
+  onSelectFormattingChange: (
+    change: FormattingChangeWithPosition | StructuralChangeWithPosition
+  ) => void;
+  onSelectObjectChange: (change: ObjectChange) => void;
+  onApprove: (
+    changeId: string,
+    changeType: ChangeType
+  ) => void;
+  onReject: (
+    changeId: string,
+    changeType: ChangeType
+  ) => void;
+  onApproveFormatting: (changeId: string) => void;
+  onRejectFormatting: (changeId: string) => void;
+  onApproveStructural: (changeId: string) => void;
+  onRejectStructural: (changeId: string) => void;
+  partChanges: ReviewedPartChanges[];
+  onSelectPartChange: PartChangeHandler;
+  onApprovePartChange: PartChangeHandler;
+  onRejectPartChange: PartChangeHandler;
+  aiSummary: Partial<SummarizeResponse> | null;
+  isSummaryLoading: boolean;
+  isStreaming: boolean;
+  summaryError: string | null;
+  onRetrySummary: () => void;
+  initialChangeCount: number;
+  reviewedCount: number;
+}
+
+export default function Sidebar({
+  activeTab,
+  onTabChange,
+  changes,
+  formattingChanges,
+  structuralChanges,
+  objectChanges,
+  selectedId,
+  isLoading,
+  granularity,
+  onGranularityChange,
+  comparisonOptions,
+  onComparisonOptionsChange,
+  ignoreRules,
+  onIgnoreRulesChange,
+  ignoredChanges,
+  revisionView,
+  onRevisionViewChange,
+  pendingRevisions,
+  detectStealthEdits,
+  onDetectStealthEditsChange,
+  disclosedRevisions,
+  onSelectChange,
+  onSelectFormattingChange,
+  onSelectObjectChange,
+  onApprove,
+  onReject,
+  onApproveFormatting,
+  onRejectFormatting,
+  onApproveStructural,
+  onRejectStructural,
+  partChanges,
+  onSelectPartChange,
+  onApprovePartChange,
+  onRejectPartChange,
+  aiSummary,
+  isSummaryLoading,
+  isStreaming,
+  summaryError,
+  onRetrySummary,
+  initialChangeCount,
+  reviewedCount,
+}: SidebarProps) {
+  return (
+    <div className="w-[420px] flex flex-col bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg overflow-hidden">
+      {/* Progress bar */}
+      {initialChangeCount > 0 && (
+        <div className="px-4 py-3 border-b border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800/50">
+          <ProgressBar
+            current={reviewedCount}
+            total={initialChangeCount}
+            label="Review progress"
+          />
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="flex border-b border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800/80 relative">
+        {/* Animated tab indicator */}
+        <M.div
+          className="absolute bottom-0 h-0.5 bg-zinc-900 dark:bg-white"
+          layoutId="tab-indicator"
+          initial={false}
+          animate={{
+            left: activeTab === "review" ? "0%" : "50%",
+            width: "50%",
+          }}
+          transition={{ type: "spring", stiffness: 500, damping: 35 }}
+        />
+
+        <button
+          onClick={() => onTabChange("review")}
+          className={`flex-1 px-4 py-3 text-sm font-medium transition-colors relative ${
+            activeTab === "review"
+              ? "text-zinc-900 dark:text-zinc-100"
+              : "text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-300"
+          }`}
+        >
+          <M.span
+            className="flex items-center justify-center gap-1.5"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            <svg
+              className="w-4 h-4"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={1.5}
+                d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+              />
+            </svg>
+            Review
+          </M.span>
+        </button>
+
+        <button
+          onClick={() => onTabChange("summary")}
+          className={`flex-1 px-4 py-3 text-sm font-medium transition-colors relative ${
+            activeTab === "summary"
+              ? "text-zinc-900 dark:text-zinc-100"
+              : "text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-300"
+          }`}
+        >
+          <M.span
+            className="flex items-center justify-center gap-1.5"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            <M.svg
+              className={`w-4 h-4 ${isSummaryLoading ? "text-violet-500" : ""}`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              animate={
+                isSummaryLoading
+                  ? { rotate: [0, 10, -10, 0], scale: [1, 1.1, 1] }
+                  : { rotate: 0, scale: 1 }
+              }
+              transition={
+                isSummaryLoading
+                  ? { duration: 1.5, repeat: Infinity, ease: "easeInOut" }
+                  : { duration: 0.2 }
+              }
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={1.5}
+                d="M9.813 15.904L9 18.75l-.813-2.846a4.5 4.5 0 00-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 003.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 003.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 00-3.09 3.09z"
+              />
+            </M.svg>
+            <AnimatePresence mode="wait">
+              {isSummaryLoading ? (
+                <M.span
+                  key="loading"
+                  className="text-violet-500"
+                  initial={{ opacity: 0, y: 5 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -5 }}
+                  transition={{ duration: 0.15 }}
+                >
+                  Analyzing...
+                </M.span>
+              ) : (
+                <M.span
+                  key="static"
+                  initial={{ opacity: 0, y: 5 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -5 }}
+                  transition={{ duration: 0.15 }}
+                >
+                  AI Summary
+                </M.span>
+              )}
+            </AnimatePresence>
+          </M.span>
+        </button>
+      </div>
+
+      {/* Tab Content */}
+      <div className="flex-1 overflow-hidden">
+        <AnimatePresence mode="wait">
+          {activeTab === "review" ? (
+            <M.div
+              key="review"
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 10 }}
+              transition={{ duration: 0.15 }}
+              className="h-full"
+            >
+              <ReviewTab
+                changes={changes}
+                formattingChanges={formattingChanges}
+                structuralChanges={structuralChanges}
+                objectChanges={objectChanges}
+                selectedId={selectedId}
+                isLoading={isLoading}
+                granularity={granularity}
+                onGranularityChange={onGranularityChange}
+                comparisonOptions={comparisonOptions}
+                onComparisonOptionsChange={onComparisonOptionsChange}
+                ignoreRules={ignoreRules}
+                onIgnoreRulesChange={onIgnoreRulesChange}
+                ignoredChanges={ignoredChanges}
+                revisionView={revisionView}
+                onRevisionViewChange={onRevisionViewChange}
+                pendingRevisions={pendingRevisions}
+                detectStealthEdits={detectStealthEdits}
+                onDetectStealthEditsChange={onDetectStealthEditsChange}
+                disclosedRevisions={disclosedRevisions}
+                onSelectChange={onSelectChange}
+                onSelectFormattingChange={onSelectFormattingChange}
+                onSelectObjectChange={onSelectObjectChange}
+                onApprove={onApprove}
+                onReject={onReject}
+                onApproveFormatting={onApproveFormatting}
+                onRejectFormatting={onRejectFormatting}
+                onApproveStructural={onApproveStructural}
+                onRejectStructural={onRejectStructural}
+                partChanges={partChanges}
+                onSelectPartChange={onSelectPartChange}
+                onApprovePartChange={onApprovePartChange}
+                onRejectPartChange={onRejectPartChange}
+              />
+            </M.div>
+          ) : (
+            <M.div
+              key="summary"
+              initial={{ opacity: 0, x: 10 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -10 }}
+              transition={{ duration: 0.15 }}
+              className="h-full"
+            >
+              <SummaryTab
+                aiSummary={aiSummary}
+                isLoading={isSummaryLoading}
+                isStreaming={isStreaming}
+                error={summaryError}
+                onRetry={onRetrySummary}
+                hasChanges={
+                  changes.length > 0 ||
+                  structuralChanges.length > 0 ||
+                  objectChanges.length > 0
+                }
+              />
+            </M.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
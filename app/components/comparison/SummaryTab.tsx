@@ -0,0 +1,398 @@
+"use client";
+
+import { AnimatePresence, motion } from "motion/react";
+import type { SummarizeResponse } from "@/app/lib/openai";
+import { useCallback, useState } from "react";
+
+// Motion wrapper to handle TypeScript issues with motion v12
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const M = motion as any;
+
+interface SummaryTabProps {
+  aiSummary: Partial<SummarizeResponse> | null;
+  isLoading: boolean;
+  isStreaming: boolean;
+  error: string | null;
+  onRetry: () => void;
+  hasChanges: boolean;
+}
+
+export default function SummaryTab({
+  aiSummary,
+  isLoading,
+  isStreaming,
+  error,
+  onRetry,
+  hasChanges,
+}: SummaryTabProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopyToClipboard = useCallback(() => {
+    if (!aiSummary) return;
+
+    const textParts: string[] = [];
+
+    if (aiSummary.documentContext) {
+      textParts.push(`About this document:\n${aiSummary.documentContext}\n`);
+    }
+    if (aiSummary.overview) {
+      textParts.push(`Overview:\n${aiSummary.overview}\n`);
+    }
+    if (aiSummary.summary) {
+      textParts.push(`Summary:\n${aiSummary.summary}\n`);
+    }
+    if (aiSummary.textChanges?.length) {
+      textParts.push(`Text Changes:\n${aiSummary.textChanges.map(c => `• ${c}`).join('\n')}\n`);
+    }
+    if (aiSummary.formattingChanges?.length) {
+      textParts.push(`Formatting Changes:\n${aiSummary.formattingChanges.map(c => `• ${c}`).join('\n')}\n`);
+    }
+    if (aiSummary.structuralChanges?.length) {
+      textParts.push(`Structural Changes:\n${aiSummary.structuralChanges.map(c => `• ${c}`).join('\n')}`);
+    }
+
+    navigator.clipboard.writeText(textParts.join('\n')).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  }, [aiSummary]);
+
+  if (!hasChanges) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full px-4">
+        <div className="w-12 h-12 rounded-full bg-zinc-100 dark:bg-zinc-700 flex items-center justify-center mb-3">
+          <svg
+            className="w-6 h-6 text-zinc-400 dark:text-zinc-500"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={1.5}
+              d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+            />
+          </svg>
+        </div>
+        <p className="text-sm font-medium text-zinc-600 dark:text-zinc-300">
+          No changes to summarize
+        </p>
+        <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1 text-center">
+          The documents appear to be identical
+        </p>
+      </div>
+    );
+  }
+
+  // Show initial loading state only when no data has arrived yet
+  if (isLoading && !aiSummary) {
+    return (
+      <M.div
+        className="flex flex-col items-center justify-center h-full px-6"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.3 }}
+      >
+        {/* Minimal bouncing dots */}
+        <div className="flex items-center gap-2 mb-5">
+          {[0, 1, 2].map((i) => (
+            <M.div
+              key={i}
+              className="w-2.5 h-2.5 rounded-full bg-violet-500 dark:bg-violet-400"
+              animate={{
+                y: [0, -10, 0],
+                opacity: [0.4, 1, 0.4],
+              }}
+              transition={{
+                duration: 0.6,
+                repeat: Infinity,
+                delay: i * 0.15,
+                ease: "easeInOut",
+              }}
+            />
+          ))}
+        </div>
+
+        {/* Text */}
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          Analyzing changes...
+        </p>
+      </M.div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full px-4">
+        <div className="w-12 h-12 rounded-full bg-red-50 dark:bg-red-900/20 flex items-center justify-center mb-3">
+          <svg
+            className="w-6 h-6 text-red-500 dark:text-red-400"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={1.5}
+              d="M12 9v3.75m9-.75a9 9 0 11-18 0 9 9 0 0118 0zm-9 3.75h.008v.008H12v-.008z"
+            />
+          </svg>
+        </div>
+        <p className="text-sm font-medium text-zinc-600 dark:text-zinc-300">
+          Failed to generate
+        </p>
+        <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1 text-center mb-4">
+          {error}
+        </p>
+        <button
+          onClick={onRetry}
+          className="px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-600 hover:bg-zinc-50 dark:hover:bg-zinc-700 rounded-md transition-colors"
+        >
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  if (!aiSummary) {
+    return null;
+  }
+
+  // Safely access arrays with fallback to empty arrays
+  const textChanges = aiSummary.textChanges || [];
+  const formattingChangesArr = aiSummary.formattingChanges || [];
+  const structuralChanges = aiSummary.structuralChanges || [];
+
+  return (
+    <div className="h-full overflow-y-auto">
+      {/* Sticky header with streaming indicator and copy button */}
+      <div className="sticky top-0 z-10 border-b border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800/80">
+        <div className="px-4 py-2 flex items-center justify-between">
+          {isStreaming ? (
+            <div className="flex items-center gap-2">
+              <M.div
+                className="w-2 h-2 rounded-full bg-violet-500"
+                animate={{ scale: [1, 1.3, 1], opacity: [0.5, 1, 0.5] }}
+                transition={{ duration: 1, repeat: Infinity }}
+              />
+              <span className="text-xs text-violet-600 dark:text-violet-300">
+                Generating summary...
+              </span>
+            </div>
+          ) : (
+            <span className="text-xs text-zinc-500 dark:text-zinc-400">
+              AI-generated summary
+            </span>
+          )}
+          <M.button
+            onClick={handleCopyToClipboard}
+            disabled={isStreaming}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-md transition-colors"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            <AnimatePresence mode="wait">
+              {copied ? (
+                <M.svg
+                  key="check"
+                  initial={{ scale: 0 }}
+                  animate={{ scale: 1 }}
+                  exit={{ scale: 0 }}
+                  className="w-3.5 h-3.5 text-emerald-500"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                </M.svg>
+              ) : (
+                <M.svg
+                  key="copy"
+                  initial={{ scale: 0 }}
+                  animate={{ scale: 1 }}
+                  exit={{ scale: 0 }}
+                  className="w-3.5 h-3.5"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                </M.svg>
+              )}
+            </AnimatePresence>
+            {copied ? "Copied!" : "Copy"}
+          </M.button>
+        </div>
+      </div>
+
+      <M.div
+        className="p-4 space-y-4"
+        initial="hidden"
+        animate="visible"
+        variants={{
+          hidden: { opacity: 0 },
+          visible: { opacity: 1, transition: { staggerChildren: 0.08 } },
+        }}
+      >
+        {/* Document Context */}
+        {aiSummary.documentContext && (
+          <M.div
+            className="p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800/30 rounded-lg"
+            variants={{
+              hidden: { opacity: 0, y: 15 },
+              visible: { opacity: 1, y: 0 },
+            }}
+          >
+            <div className="flex items-start gap-2">
+              <svg
+                className="w-4 h-4 text-blue-500 dark:text-blue-400 mt-0.5 flex-shrink-0"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={1.5}
+                  d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                />
+              </svg>
+              <div>
+                <h4 className="text-xs font-medium text-blue-700 dark:text-blue-300 uppercase tracking-wide mb-1">
+                  About this document
+                </h4>
+                <p className="text-sm text-blue-800 dark:text-blue-200 leading-relaxed">
+                  {aiSummary.documentContext}
+                </p>
+              </div>
+            </div>
+          </M.div>
+        )}
+
+        {/* Overview */}
+        {aiSummary.overview && (
+          <M.div
+            className="p-3 bg-zinc-50 dark:bg-zinc-700/50 rounded-lg"
+            variants={{
+              hidden: { opacity: 0, y: 15 },
+              visible: { opacity: 1, y: 0 },
+            }}
+          >
+            <p className="text-sm text-zinc-700 dark:text-zinc-200 leading-relaxed">
+              {aiSummary.overview}
+            </p>
+          </M.div>
+        )}
+
+        {/* Detailed Summary */}
+        {aiSummary.summary && (
+          <M.div
+            variants={{
+              hidden: { opacity: 0, y: 15 },
+              visible: { opacity: 1, y: 0 },
+            }}
+          >
+            <h4 className="text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wide mb-2">
+              Summary
+            </h4>
+            <p className="text-sm text-zinc-600 dark:text-zinc-300 leading-relaxed">
+              {aiSummary.summary}
+            </p>
+          </M.div>
+        )}
+
+        {/* Text Changes */}
+        {textChanges.length > 0 && (
+          <M.div
+            variants={{
+              hidden: { opacity: 0, y: 15 },
+              visible: { opacity: 1, y: 0 },
+            }}
+          >
+            <h4 className="text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wide mb-2">
+              Text Changes
+            </h4>
+            <ul className="space-y-1.5">
+              {textChanges.map((change, i) => (
+                <M.li
+                  key={i}
+                  className="flex gap-2 text-sm text-zinc-600 dark:text-zinc-300"
+                  initial={{ opacity: 0, x: -10 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: 0.3 + i * 0.03 }}
+                >
+                  <span className="text-zinc-400 dark:text-zinc-500 select-none">
+                    •
+                  </span>
+                  <span>{change}</span>
+                </M.li>
+              ))}
+            </ul>
+          </M.div>
+        )}
+
+        {/* Formatting Changes */}
+        {formattingChangesArr.length > 0 && (
+          <M.div
+            variants={{
+              hidden: { opacity: 0, y: 15 },
+              visible: { opacity: 1, y: 0 },
+            }}
+          >
+            <h4 className="text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wide mb-2">
+              Formatting Changes
+            </h4>
+            <ul className="space-y-1.5">
+              {formattingChangesArr.map((change, i) => (
+                <M.li
+                  key={i}
+                  className="flex gap-2 text-sm text-zinc-600 dark:text-zinc-300"
+                  initial={{ opacity: 0, x: -10 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: 0.4 + i * 0.03 }}
+                >
+                  <span className="text-zinc-400 dark:text-zinc-500 select-none">
+                    •
+                  </span>
+                  <span>{change}</span>
+                </M.li>
+              ))}
+            </ul>
+          </M.div>
+        )}
+
+        {/* Structural Changes */}
+        {structuralChanges.length > 0 && (
+          <M.div
+            variants={{
+              hidden: { opacity: 0, y: 15 },
+              visible: { opacity: 1, y: 0 },
+            }}
+          >
+            <h4 className="text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wide mb-2">
+              Structural Changes
+            </h4>
+            <ul className="space-y-1.5">
+              {structuralChanges.map((change, i) => (
+                <M.li
+                  key={i}
+                  className="flex gap-2 text-sm text-zinc-600 dark:text-zinc-300"
+                  initial={{ opacity: 0, x: -10 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: 0.5 + i * 0.03 }}
+                >
+                  <span className="text-zinc-400 dark:text-zinc-500 select-none">
+                    •
+                  </span>
+                  <span>{change}</span>
+                </M.li>
+              ))}
+            </ul>
+          </M.div>
+        )}
+      </M.div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type {
+  ChangeWithPosition,
+  DocumentPartChanges,
+  RevisionCount,
+} from "@/app/lib/document-diff";
+
+/** One version of a document in a version history */
+export interface HistoryVersion {
+  base64: string;
+  name: string;
+  /** When the version was saved, as an ISO 8601 date */
+  date?: string;
+}
+
+export type SidebarTab = "review" | "summary";
+
+/** Which end of a moved block to jump to */
+export type MoveEnd = "source" | "destination";
+
+/** Changes in a header, footer or note, and whether they are marked in its editor */
+export interface ReviewedPartChanges extends DocumentPartChanges {
+  readonly tracked: boolean;
+}
+
+export type PartChangeHandler = (
+  part: DocumentPartChanges["part"],
+  change: ChangeWithPosition
+) => void;
+
+/** Revisions pending in each input document when it was loaded */
+export interface PendingRevisions {
+  original: RevisionCount | null;
+  modified: RevisionCount | null;
+}
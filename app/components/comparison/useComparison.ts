@@ -0,0 +1,434 @@
+"use client";
+
+import { SuperDoc } from "@harbour-enterprises/superdoc";
+import {
+  applyFormattingTrackChanges,
+  applyStructuralTrackChanges,
+  applyTrackChanges,
+  compareInWorker,
+  countRevisions,
+  extractDocumentParts,
+  extractTextWithFormattingFromEditor,
+  extractTextWithFormattingFromJson,
+  getDocumentPartEditor,
+  resolveRevisionsInEditor,
+  resolveRevisionsInJson,
+  type ChangeWithPosition,
+  type ComparisonOptions,
+  type ComparisonProgress,
+  type DiffGranularity,
+  type DocumentPart,
+  type FormattingChangeWithPosition,
+  type IgnoreRule,
+  type ObjectChange,
+  type PositionMapWithFormatting,
+  type ProseMirrorJsonNode,
+  type RevisionView,
+  type StructuralChangeWithPosition,
+  type SuperDocEditor,
+  type TrackedRevision,
+  type VersionSnapshot,
+} from "@/app/lib/document-diff";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { HistoryVersion, PendingRevisions, ReviewedPartChanges } from "./types";
+
+interface ComparisonInput {
+  originalBase64: string;
+  modifiedBase64: string;
+  /** Every version from the original to the modified document, in order */
+  history?: ReadonlyArray<HistoryVersion>;
+  granularity: DiffGranularity;
+  comparisonOptions: ComparisonOptions;
+  ignoreRules: IgnoreRule[];
+  revisionView: RevisionView;
+  detectStealthEdits: boolean;
+}
+
+function base64ToBlob(base64: string): Blob {
+  const data = base64.includes(",") ? base64.split(",")[1] : base64;
+  const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+  return new Blob([bytes], {
+    type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  });
+}
+
+/**
+ * Loads both documents into SuperDoc, compares them in the worker and marks
+ * the changes in the modified document's editor. The comparison runs again
+ * whenever an input changes; reset() clears the previous result first.
+ */
+export function useComparison({
+  originalBase64,
+  modifiedBase64,
+  history,
+  granularity,
+  comparisonOptions,
+  ignoreRules,
+  revisionView,
+  detectStealthEdits,
+}: ComparisonInput) {
+  const superdocRef = useRef<SuperDoc | null>(null);
+  const posMapRef = useRef<PositionMapWithFormatting | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [progress, setProgress] = useState<ComparisonProgress | null>(null);
+  const [changes, setChanges] = useState<ChangeWithPosition[]>([]);
+  const [formattingChanges, setFormattingChanges] = useState<
+    FormattingChangeWithPosition[]
+  >([]);
+  const [structuralChanges, setStructuralChanges] = useState<
+    StructuralChangeWithPosition[]
+  >([]);
+  const [objectChanges, setObjectChanges] = useState<ObjectChange[]>([]);
+  const [partChanges, setPartChanges] = useState<ReviewedPartChanges[]>([]);
+  const [pendingRevisions, setPendingRevisions] = useState<PendingRevisions>({
+    original: null,
+    modified: null,
+  });
+  const [disclosedRevisions, setDisclosedRevisions] = useState<ReadonlyArray<TrackedRevision>>([]);
+  const [ignoredChanges, setIgnoredChanges] = useState<ChangeWithPosition[]>([]);
+
+  // Track initial change count for progress tracking
+  const [initialChangeCount, setInitialChangeCount] = useState(0);
+
+  const reset = useCallback(() => {
+    setIsLoading(true);
+    setProgress(null);
+    setChanges([]);
+    setIgnoredChanges([]);
+    setFormattingChanges([]);
+    setStructuralChanges([]);
+    setObjectChanges([]);
+    setPartChanges([]);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    let originalJson: ProseMirrorJsonNode | null = null;
+    let modifiedJson: ProseMirrorJsonNode | null = null;
+    let originalParts: DocumentPart[] = [];
+    let originalMedia: Readonly<Record<string, string>> | undefined;
+    let mainSuperdoc: SuperDoc | null = null;
+    let hiddenSuperdoc: SuperDoc | null = null;
+    // Versions between the original and the modified are only read for their
+    // text, to attribute changes to the version that introduced them
+    const intermediateVersions = history?.slice(1, -1) ?? [];
+    const intermediateTexts: Array<string | null> = intermediateVersions.map(() => null);
+    const versionSuperdocs: SuperDoc[] = [];
+    // Cancels the comparison worker when the documents change or the view unmounts
+    const comparisonAbort = new AbortController();
+
+    const onBothLoaded = async () => {
+      if (
+        !originalJson ||
+        !modifiedJson ||
+        !mounted ||
+        !mainSuperdoc?.activeEditor ||
+        intermediateTexts.includes(null)
+      )
+        return;
+
+      const editor = mainSuperdoc.activeEditor as unknown as SuperDocEditor;
+
+      // Revisions already in the modified document are resolved in the live
+      // editor, so the position map matches what is shown; the worker resolves
+      // the original document and the parts. Looking for untracked edits
+      // keeps the counterparty's revisions in view.
+      resolveRevisionsInEditor(editor, detectStealthEdits ? "asIs" : revisionView);
+
+      // The modified document's position map must come from the live editor;
+      // everything else runs in the comparison worker
+      const modifiedPosMap = extractTextWithFormattingFromEditor(editor);
+      posMapRef.current = modifiedPosMap;
+      setDisclosedRevisions(modifiedPosMap.revisions ?? []);
+      const modifiedParts = extractDocumentParts(editor);
+      // The pipeline fills in the compared texts of the first and last versions
+      const versions: VersionSnapshot[] | undefined = history?.map((version, i) => ({
+        name: version.name,
+        date: version.date,
+        text: intermediateTexts[i - 1] ?? "",
+      }));
+
+      let computed: ChangeWithPosition[];
+      let formatChanges: FormattingChangeWithPosition[];
+      let structChanges: StructuralChangeWithPosition[];
+      let objChanges: ObjectChange[];
+      let parts: ReviewedPartChanges[];
+      try {
+        const result = await compareInWorker(
+          {
+            originalJson,
+            modifiedText: modifiedPosMap.text,
+            modifiedFormatting: modifiedPosMap.formatting,
+            modifiedTables: modifiedPosMap.tables,
+            modifiedBlocks: modifiedPosMap.blocks,
+            modifiedObjects: modifiedPosMap.objects,
+            originalMedia,
+            originalParts,
+            modifiedParts,
+            revisionView,
+            detectStealthEdits,
+            modifiedRevisions: modifiedPosMap.revisions,
+            versions,
+            options: {
+              granularity,
+              semanticCleanup: true,
+              detectMoves: true,
+              comparison: comparisonOptions,
+              ignoreRules,
+            },
+          },
+          {
+            onProgress: (next) => {
+              if (mounted) setProgress(next);
+            },
+            signal: comparisonAbort.signal,
+          }
+        );
+        // Changes matched by an ignore rule are listed but never marked up
+        computed = result.changes.filter((c) => !c.ignoredBy);
+        parts = result.partChanges
+          .map((p) => ({
+            ...p,
+            changes: p.changes.filter((c) => !c.ignoredBy),
+            tracked: false,
+          }))
+          .filter((p) => p.changes.length > 0);
+        setIgnoredChanges(
+          [...result.changes, ...result.partChanges.flatMap((p) => p.changes)].filter(
+            (c) => c.ignoredBy
+          )
+        );
+        formatChanges = result.formattingChanges;
+        structChanges = result.structuralChanges;
+        objChanges = result.objectChanges;
+      } catch (error) {
+        if (!comparisonAbort.signal.aborted) {
+          console.error("Document comparison failed:", error);
+          if (mounted) setIsLoading(false);
+        }
+        return;
+      }
+      if (!mounted) return;
+
+      setChanges(computed);
+      setFormattingChanges(formatChanges);
+      setStructuralChanges(structChanges);
+      setObjectChanges(objChanges);
+      setPartChanges(parts);
+
+      // Set initial change count for progress tracking
+      setInitialChangeCount(
+        computed.length +
+          formatChanges.length +
+          structChanges.length +
+          objChanges.length +
+          parts.reduce((n, p) => n + p.changes.length, 0)
+      );
+
+      setIsLoading(false);
+
+      if (
+        superdocRef.current &&
+        (computed.length > 0 ||
+          formatChanges.length > 0 ||
+          structChanges.length > 0 ||
+          parts.length > 0)
+      ) {
+        setTimeout(() => {
+          if (!superdocRef.current?.activeEditor || !mounted) return;
+          const currentEditor = superdocRef.current
+            .activeEditor as unknown as SuperDocEditor;
+
+          // IMPORTANT: Apply structural and formatting track changes FIRST
+          // (before content changes) because content changes (especially
+          // deletions) will shift positions. Structural marks cover whole
+          // blocks, so they go before the formatting marks inside them.
+          if (structChanges.length > 0) {
+            applyStructuralTrackChanges(currentEditor, structChanges, modifiedPosMap);
+          }
+
+          if (formatChanges.length > 0) {
+            applyFormattingTrackChanges(
+              currentEditor,
+              formatChanges,
+              modifiedPosMap
+            );
+          }
+
+          // Apply content track changes after formatting
+          if (computed.length > 0) {
+            applyTrackChanges(currentEditor, computed, modifiedPosMap);
+          }
+
+          // Header and footer changes go into their own editors, positioned
+          // by each editor's own position map. Notes have no editor and are
+          // only listed in the sidebar.
+          const trackedParts = new Set<string>();
+          for (const { part, changes: partChangeList } of parts) {
+            const partEditor = getDocumentPartEditor(currentEditor, part);
+            const modifiedPart = modifiedParts.find((p) => p.id === part.id);
+            if (!partEditor || !modifiedPart) continue;
+
+            // Untracked edits in a part are found with its revisions
+            // rejected, so they can only be marked in a part without any
+            resolveRevisionsInEditor(partEditor, detectStealthEdits ? "asIs" : revisionView);
+            const partPosMap = extractTextWithFormattingFromEditor(partEditor);
+            const comparedJson = resolveRevisionsInJson(
+              modifiedPart.json,
+              detectStealthEdits ? "rejected" : revisionView
+            );
+            if (partPosMap.text !== extractTextWithFormattingFromJson(comparedJson).text) {
+              console.warn(`${part.name} editor text differs from the compared text`);
+              continue;
+            }
+            applyTrackChanges(partEditor, partChangeList, partPosMap);
+            trackedParts.add(part.id);
+          }
+          if (trackedParts.size > 0) {
+            setPartChanges((prev) =>
+              prev.map((p) =>
+                trackedParts.has(p.part.id) ? { ...p, tracked: true } : p
+              )
+            );
+          }
+
+          // Update position map after changes applied
+          const updatedPosMap = extractTextWithFormattingFromEditor(currentEditor);
+          posMapRef.current = updatedPosMap;
+        }, 300);
+      }
+    };
+
+    const mainContainer = document.getElementById("superdoc-main");
+    const hiddenContainer = document.getElementById("superdoc-hidden");
+    if (mainContainer) mainContainer.innerHTML = "";
+    if (hiddenContainer) hiddenContainer.innerHTML = "";
+
+    mainSuperdoc = new SuperDoc({
+      selector: "#superdoc-main",
+      documents: [
+        { id: "modified", data: base64ToBlob(modifiedBase64), type: "docx" },
+      ],
+      user: { name: "Document Reviewer", email: "reviewer@system" },
+      rulers: true,
+      documentMode: "editing",
+      modules: {
+        toolbar: {
+          selector: "#superdoc-toolbar",
+          groups: {
+            center: [
+              "fontFamily",
+              "fontSize",
+              "bold",
+              "italic",
+              "underline",
+              "color",
+              "highlight",
+            ],
+          },
+        },
+      },
+      onReady: () => {
+        if (!mounted) return;
+        modifiedJson =
+          mainSuperdoc?.activeEditor?.getJSON() as ProseMirrorJsonNode;
+        const modifiedRevisions = modifiedJson ? countRevisions(modifiedJson) : null;
+        setPendingRevisions((prev) => ({ ...prev, modified: modifiedRevisions }));
+        superdocRef.current = mainSuperdoc;
+        onBothLoaded();
+      },
+      onContentError: ({ error, documentId }) => {
+        console.error(`Error loading document ${documentId}:`, error);
+      },
+    });
+
+    hiddenSuperdoc = new SuperDoc({
+      selector: "#superdoc-hidden",
+      documents: [
+        { id: "original", data: base64ToBlob(originalBase64), type: "docx" },
+      ],
+      documentMode: "viewing",
+      onReady: () => {
+        if (!mounted) return;
+        originalJson =
+          hiddenSuperdoc?.activeEditor?.getJSON() as ProseMirrorJsonNode;
+        const originalRevisions = originalJson ? countRevisions(originalJson) : null;
+        setPendingRevisions((prev) => ({ ...prev, original: originalRevisions }));
+        if (hiddenSuperdoc?.activeEditor) {
+          const originalEditor = hiddenSuperdoc.activeEditor as unknown as SuperDocEditor;
+          originalParts = extractDocumentParts(originalEditor);
+          originalMedia = originalEditor.converter?.media;
+        }
+        onBothLoaded();
+      },
+    });
+
+    intermediateVersions.forEach((version, i) => {
+      const selector = `superdoc-version-${i}`;
+      document.getElementById(selector)?.replaceChildren();
+      const versionSuperdoc: SuperDoc = new SuperDoc({
+        selector: `#${selector}`,
+        documents: [{ id: selector, data: base64ToBlob(version.base64), type: "docx" }],
+        documentMode: "viewing",
+        onReady: () => {
+          if (!mounted || !versionSuperdoc.activeEditor) return;
+          const json = versionSuperdoc.activeEditor.getJSON() as ProseMirrorJsonNode;
+          intermediateTexts[i] = extractTextWithFormattingFromJson(
+            resolveRevisionsInJson(json, revisionView)
+          ).text;
+          onBothLoaded();
+        },
+      });
+      versionSuperdocs.push(versionSuperdoc);
+    });
+
+    return () => {
+      mounted = false;
+      comparisonAbort.abort();
+      superdocRef.current = null;
+      posMapRef.current = null;
+      try {
+        (mainSuperdoc as { destroy?: () => void } | null)?.destroy?.();
+        (hiddenSuperdoc as { destroy?: () => void } | null)?.destroy?.();
+        for (const versionSuperdoc of versionSuperdocs) {
+          (versionSuperdoc as { destroy?: () => void }).destroy?.();
+        }
+      } catch {}
+      document.getElementById("superdoc-main")?.replaceChildren();
+      document.getElementById("superdoc-hidden")?.replaceChildren();
+      intermediateVersions.forEach((_, i) =>
+        document.getElementById(`superdoc-version-${i}`)?.replaceChildren()
+      );
+    };
+  }, [
+    originalBase64,
+    modifiedBase64,
+    granularity,
+    comparisonOptions,
+    ignoreRules,
+    revisionView,
+    detectStealthEdits,
+    history,
+  ]);
+
+  return {
+    superdocRef,
+    isLoading,
+    progress,
+    changes,
+    setChanges,
+    formattingChanges,
+    setFormattingChanges,
+    structuralChanges,
+    setStructuralChanges,
+    objectChanges,
+    setObjectChanges,
+    partChanges,
+    setPartChanges,
+    pendingRevisions,
+    disclosedRevisions,
+    ignoredChanges,
+    initialChangeCount,
+    reset,
+  };
+}
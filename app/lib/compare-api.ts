@@ -0,0 +1,407 @@
+import { z } from "zod";
+import { importDocx, parseIgnoreRules } from "@/app/lib/document-diff";
+import type {
+  ChangeWithPosition,
+  DiffSummary,
+  DocumentPartChanges,
+  DocxComparisonOptions,
+  FormattingChangeWithPosition,
+  IgnoreRule,
+  ImportedDocx,
+  ObjectChange,
+  StructuralChangeWithPosition,
+} from "@/app/lib/document-diff";
+
+// Version of the /api/compare response schema. Bump it when a field is
+// removed or changes meaning; new optional fields keep the version.
+export const COMPARE_API_VERSION = 1;
+
+// Largest DOCX file accepted, in bytes
+export const MAX_DOCX_BYTES = 25 * 1024 * 1024;
+
+// Largest total size of a DOCX file's parts once inflated, in bytes, so a
+// small zip bomb cannot exhaust the server's memory
+export const MAX_DOCX_UNCOMPRESSED_BYTES = 200 * 1024 * 1024;
+
+// Ignore rules from a request run on the server over the whole document, so
+// their number and pattern length are capped
+export const MAX_IGNORE_RULES = 20;
+export const MAX_IGNORE_PATTERN_LENGTH = 200;
+
+// Zod schema for the "options" form field (JSON). Ignore rules use the
+// shared rules file format ({ version, rules }) and are checked by
+// parseIgnoreRules.
+const compareOptionsSchema = z
+  .object({
+    granularity: z.enum(["character", "word", "sentence", "paragraph"]).optional(),
+    semanticCleanup: z.boolean().optional(),
+    detectMoves: z.boolean().optional(),
+    blockAlignment: z.boolean().optional(),
+    comparison: z
+      .object({
+        ignoreWhitespace: z.boolean().optional(),
+        ignoreCase: z.boolean().optional(),
+        ignorePunctuation: z.boolean().optional(),
+        ignoreQuoteStyle: z.boolean().optional(),
+        ignoreDashStyle: z.boolean().optional(),
+        normalizeUnicode: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    ignoreRules: z.unknown().optional(),
+    revisionView: z.enum(["asIs", "accepted", "rejected"]).optional(),
+    detectStealthEdits: z.boolean().optional(),
+  })
+  .strict();
+
+// Options used when the request has none: word-level changes, as in the app
+export const DEFAULT_COMPARE_OPTIONS: DocxComparisonOptions = {
+  granularity: "word",
+  semanticCleanup: true,
+  detectMoves: true,
+};
+
+// Largest repeat count a pattern may give with "{n}", "{n,}" or "{n,m}"
+export const MAX_IGNORE_REPEAT = 100;
+
+// One item of a pattern (a character, class, escape or group) with the
+// number of times its quantifier lets it repeat
+interface PatternItem {
+  source: string;
+  min: number;
+  max: number;
+}
+
+// Characters that stand in for all others when checking whether two items
+// can match the same character
+const SAMPLE_CHARACTERS = [
+  ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+  ..." éß’–€中",
+];
+
+// "(", "(?:", "(?=", "(?<!", "(?<name>" and the like
+const GROUP_OPENING = /^\((?:\?(?:[:=!]|<[=!]|<[^>]*>))?/;
+
+// An escape with everything that belongs to it, such as "\p{L}" or "\x41"
+const ESCAPE =
+  /^\\(?:[pk]\{[^}]*\}|k<[^>]*>|u\{[\da-f]+\}|u[\da-f]{4}|x[\da-f]{2}|c[a-z]|\d+|[\s\S])/i;
+
+// Escapes that match a position rather than a character
+const ZERO_WIDTH = /^\\[bB]$/;
+
+// Whether two items can match the same character. Groups are assumed to.
+function canOverlap(a: PatternItem, b: PatternItem, flags: string): boolean {
+  if (a.source.startsWith("(") || b.source.startsWith("(")) return true;
+  try {
+    const matchA = new RegExp(`^(?:${a.source})$`, flags);
+    const matchB = new RegExp(`^(?:${b.source})$`, flags);
+    return SAMPLE_CHARACTERS.some((char) => matchA.test(char) && matchB.test(char));
+  } catch {
+    return true;
+  }
+}
+
+// Why a pattern could backtrack for longer than the server can afford on
+// text that almost matches, or null. Three shapes are rejected:
+// - a group that itself repeats or alternates, repeated more than once, such
+//   as "(a+)+", "(a|ab)*" or "(a+){1,10}" (exponential)
+// - unbounded repeats of items that can match the same characters, with
+//   nothing required between them, such as "\w*\w*x" (polynomial)
+// - repeat counts above MAX_IGNORE_REPEAT, such as "a{1,1000}"
+// Character classes and escapes are read as single items; anything else that
+// could be a quantifier counts as one.
+function backtrackingRisk(pattern: string, flags: string): string | null {
+  // Items of each open group's current alternative, and whether the group
+  // repeats or alternates
+  const groups: Array<{ start: number; items: PatternItem[]; nested: boolean }> = [
+    { start: 0, items: [], nested: false },
+  ];
+  const sampleFlags = flags.replace(/[gmy]/g, "");
+
+  for (let i = 0; i < pattern.length; ) {
+    const group = groups[groups.length - 1];
+    const start = i;
+    const char = pattern[i];
+    // Whether the item is a group that itself repeats or alternates
+    let nested = false;
+
+    if (char === "(") {
+      groups.push({ start: i, items: [], nested: false });
+      i += GROUP_OPENING.exec(pattern.slice(i))![0].length;
+      continue;
+    } else if (char === "|") {
+      group.nested = true;
+      group.items = [];
+      i++;
+      continue;
+    } else if (char === ")" && groups.length > 1) {
+      // The group becomes an item of the enclosing one
+      groups.pop();
+      nested = group.nested;
+      i++;
+    } else if (char === "\\") {
+      i += ESCAPE.exec(pattern.slice(i))![0].length;
+      if (ZERO_WIDTH.test(pattern.slice(start, i))) continue;
+    } else if (char === "^" || char === "$") {
+      i++;
+      continue;
+    } else if (char === "[") {
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+      i++;
+    } else {
+      i++;
+    }
+
+    const parent = groups[groups.length - 1];
+    const source = pattern.slice(char === ")" ? group.start : start, i);
+    const quantifier = /^(?:([*+?])|\{(\d+)(?:(,)(\d*))?\})\??/.exec(pattern.slice(i));
+    let min = 1;
+    let max = 1;
+    if (quantifier) {
+      i += quantifier[0].length;
+      const [, symbol, from, comma, to] = quantifier;
+      min = symbol === "+" ? 1 : symbol ? 0 : Number(from);
+      max = symbol === "?" ? 1 : symbol ? Infinity : !comma ? min : to ? Number(to) : Infinity;
+      if (min > MAX_IGNORE_REPEAT || (max !== Infinity && max > MAX_IGNORE_REPEAT)) {
+        return `Repeats more than ${MAX_IGNORE_REPEAT} times`;
+      }
+      parent.nested = true;
+    }
+
+    const item: PatternItem = { source, min, max };
+    if (nested && max > 1) {
+      return "Repeats a group that itself repeats or alternates";
+    }
+    if (max === Infinity) {
+      for (let j = parent.items.length - 1; j >= 0; j--) {
+        const previous = parent.items[j];
+        if (previous.max === Infinity && canOverlap(previous, item, sampleFlags)) {
+          return "Repeats overlapping items one after another";
+        }
+        if (previous.min > 0) break;
+      }
+    }
+    parent.items.push(item);
+  }
+  return null;
+}
+
+// Why ignore rules cannot run on the server, if they cannot
+function checkIgnoreRules(rules: IgnoreRule[]): string[] {
+  if (rules.length > MAX_IGNORE_RULES) {
+    return [`At most ${MAX_IGNORE_RULES} rules are allowed`];
+  }
+  return rules.flatMap(({ pattern, flags }, index) => {
+    if (pattern.length > MAX_IGNORE_PATTERN_LENGTH) {
+      return [`rules.${index}.pattern: Longer than ${MAX_IGNORE_PATTERN_LENGTH} characters`];
+    }
+    const risk = backtrackingRisk(pattern, flags ?? "");
+    return risk ? [`rules.${index}.pattern: ${risk}`] : [];
+  });
+}
+
+export type CompareOptionsParseResult =
+  | { success: true; options: DocxComparisonOptions }
+  | { success: false; errors: string[] };
+
+// Parse the "options" form field; a missing field gives the defaults
+export function parseCompareOptions(json: string | null): CompareOptionsParseResult {
+  if (json === null || json.trim() === "") {
+    return { success: true, options: DEFAULT_COMPARE_OPTIONS };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { success: false, errors: ["Options must be valid JSON"] };
+  }
+
+  const result = compareOptionsSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "options"}: ${issue.message}`
+      ),
+    };
+  }
+
+  const { ignoreRules, ...options } = result.data;
+  if (ignoreRules === undefined) {
+    return { success: true, options: { ...DEFAULT_COMPARE_OPTIONS, ...options } };
+  }
+  const rules = parseIgnoreRules(JSON.stringify(ignoreRules));
+  const errors = rules.success ? checkIgnoreRules(rules.rules) : rules.errors;
+  if (!rules.success || errors.length > 0) {
+    return { success: false, errors: errors.map((error) => `ignoreRules: ${error}`) };
+  }
+  return {
+    success: true,
+    options: { ...DEFAULT_COMPARE_OPTIONS, ...options, ignoreRules: rules.rules },
+  };
+}
+
+// An uploaded file, as echoed in the response
+export interface CompareFileInfo {
+  name: string;
+  size: number;
+}
+
+// Successful /api/compare response (see app/api/compare/README.md)
+export interface CompareResponse {
+  version: typeof COMPARE_API_VERSION;
+  original: CompareFileInfo;
+  modified: CompareFileInfo;
+  summary: DiffSummary;
+  changes: ChangeWithPosition[];
+  formattingChanges: FormattingChangeWithPosition[];
+  structuralChanges: StructuralChangeWithPosition[];
+  objectChanges: ObjectChange[];
+  partChanges: DocumentPartChanges[];
+}
+
+export type CompareErrorCode =
+  | "unsupported_media_type"
+  | "invalid_request"
+  | "missing_file"
+  | "file_too_large"
+  | "invalid_options"
+  | "invalid_docx"
+  | "comparison_failed";
+
+// Failed /api/compare or /api/redline response
+export interface CompareErrorResponse {
+  version: typeof COMPARE_API_VERSION;
+  error: {
+    code: CompareErrorCode;
+    message: string;
+    // Form field the error is about ("original", "modified", "options", or
+    // "author" or "date" for /api/redline)
+    field?: string;
+    details?: string[];
+  };
+}
+
+// A document read from the request: the uploaded file, its bytes and the
+// imported document
+export interface UploadedDocx {
+  file: CompareFileInfo;
+  data: ArrayBuffer;
+  document: ImportedDocx;
+}
+
+export type CompareRequestReadResult =
+  | {
+      success: true;
+      form: FormData;
+      options: DocxComparisonOptions;
+      original: UploadedDocx;
+      modified: UploadedDocx;
+    }
+  | { success: false; status: number; error: CompareErrorResponse["error"] };
+
+// Read the multipart body shared by /api/compare and /api/redline: the two
+// DOCX files, imported, and the "options" field. The form is returned for
+// routes that read more fields.
+export async function readCompareRequest(request: Request): Promise<CompareRequestReadResult> {
+  if (!request.headers.get("content-type")?.startsWith("multipart/form-data")) {
+    return {
+      success: false,
+      status: 415,
+      error: {
+        code: "unsupported_media_type",
+        message: "Send the documents as multipart/form-data",
+      },
+    };
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return {
+      success: false,
+      status: 400,
+      error: { code: "invalid_request", message: "The multipart body could not be read" },
+    };
+  }
+
+  // Options may be sent as a text field or as an uploaded JSON file
+  const optionsField = form.get("options");
+  const options = parseCompareOptions(
+    optionsField === null || typeof optionsField === "string"
+      ? optionsField
+      : await optionsField.text()
+  );
+  if (!options.success) {
+    return {
+      success: false,
+      status: 400,
+      error: {
+        code: "invalid_options",
+        message: "Invalid comparison options",
+        field: "options",
+        details: options.errors,
+      },
+    };
+  }
+
+  const uploads: Partial<Record<"original" | "modified", UploadedDocx>> = {};
+  for (const field of ["original", "modified"] as const) {
+    const file = form.get(field);
+    // FormDataEntryValue is a string or a File
+    if (file === null || typeof file === "string") {
+      return {
+        success: false,
+        status: 400,
+        error: {
+          code: "missing_file",
+          message: `Upload the ${field} document as the "${field}" field`,
+          field,
+        },
+      };
+    }
+    if (file.size > MAX_DOCX_BYTES) {
+      return {
+        success: false,
+        status: 413,
+        error: {
+          code: "file_too_large",
+          message: `The ${field} document is larger than ${MAX_DOCX_BYTES / 1024 / 1024} MB`,
+          field,
+        },
+      };
+    }
+
+    const data = await file.arrayBuffer();
+    try {
+      uploads[field] = {
+        file: { name: file.name, size: file.size },
+        data,
+        document: await importDocx(data, MAX_DOCX_UNCOMPRESSED_BYTES),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        status: 422,
+        error: {
+          code: "invalid_docx",
+          message: `The ${field} document is not a readable DOCX file`,
+          field,
+          details: error instanceof Error ? [error.message] : undefined,
+        },
+      };
+    }
+  }
+
+  return {
+    success: true,
+    form,
+    options: options.options,
+    original: uploads.original!,
+    modified: uploads.modified!,
+  };
+}
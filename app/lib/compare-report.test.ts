@@ -0,0 +1,115 @@
+/**
+ * Comparison reports - Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { COMPARE_API_VERSION } from "@/app/lib/compare-api";
+import {
+  countDifferences,
+  renderBatchSummary,
+  renderReport,
+  type CompareReport,
+} from "./compare-report";
+
+const SUMMARY = {
+  insertions: 1,
+  deletions: 0,
+  replacements: 1,
+  moves: 0,
+  splits: 0,
+  merges: 0,
+  ignored: 1,
+  formattingChanges: 1,
+  structuralChanges: 0,
+  objectChanges: 0,
+};
+
+const REPORT: CompareReport = {
+  version: COMPARE_API_VERSION,
+  original: { name: "lease_v1.docx", size: 1000 },
+  modified: { name: "lease_v2.docx", size: 1010 },
+  summary: SUMMARY,
+  changes: [
+    { id: "change-1", type: "replacement", content: "<b>", oldContent: "*a*", charStart: 0, charEnd: 3 },
+    { id: "change-2", type: "insertion", content: "Pets | cats", charStart: 4, charEnd: 15 },
+    { id: "change-3", type: "replacement", content: "2026", oldContent: "2025", ignoredBy: "dates" },
+  ],
+  formattingChanges: [
+    { id: "format-1", type: "formatAdded", content: "Rent", markType: "bold", charStart: 0, charEnd: 4 },
+  ],
+  structuralChanges: [],
+  objectChanges: [],
+  partChanges: [
+    {
+      part: { id: "footer-1", kind: "footer", name: "Footer 1", sourceId: "rId8" },
+      changes: [{ id: "footer-1-change-1", type: "deletion", content: "Draft", insertAt: 0 }],
+    },
+  ],
+};
+
+describe("countDifferences", () => {
+  it("should count every change but ignored ones, including those in parts", () => {
+    expect(countDifferences(REPORT)).toBe(4);
+  });
+});
+
+describe("renderReport", () => {
+  it("should list the changes in Markdown with document text escaped", () => {
+    const markdown = renderReport(REPORT, "md");
+
+    expect(markdown).toContain('- Replaced "\\*a\\*" with "\\<b\\>"');
+    expect(markdown).toContain('- Inserted "Pets \\| cats"');
+    expect(markdown).toContain('## Formatting changes\n\n- Bold added: "Rent"');
+    expect(markdown).toContain('## Footer 1\n\n- Deleted "Draft"');
+    expect(markdown).not.toContain("2026");
+  });
+
+  it("should escape document text in HTML", () => {
+    expect(renderReport(REPORT, "html")).toContain(
+      "<li>Replaced <q>*a*</q> with <q>&lt;b&gt;</q></li>"
+    );
+  });
+
+  it("should escape document text in change descriptions", () => {
+    const report: CompareReport = {
+      ...REPORT,
+      structuralChanges: [
+        {
+          id: "structure-1",
+          type: "blockType",
+          content: "Rent",
+          oldValue: "Normal",
+          newValue: "<img src=x onerror=alert(1)>",
+          charStart: 0,
+          charEnd: 4,
+        },
+      ],
+    };
+
+    const html = renderReport(report, "html");
+
+    expect(html).not.toContain("<img");
+    expect(html).toContain("Normal → &lt;img src=x onerror=alert(1)&gt;: <q>Rent</q>");
+    expect(renderReport(report, "md")).toContain("Normal → \\<img src=x onerror=alert(1)\\>");
+  });
+});
+
+describe("renderBatchSummary", () => {
+  it("should give one row per pair of files", () => {
+    expect(
+      renderBatchSummary(
+        [
+          { path: "lease.docx", report: REPORT },
+          { path: "annex.docx", onlyIn: "modified" },
+        ],
+        "md"
+      )
+    ).toBe(
+      "# Comparison summary\n\n" +
+        "| File | Differences | Insertions | Deletions | Replacements | Moves | Splits | Merges | Formatting | Structure | Objects | Ignored |\n" +
+        "|---|---|---|---|---|---|---|---|---|---|---|---|\n" +
+        "| lease.docx | 4 | 1 | 0 | 1 | 0 | 0 | 0 | 1 | 0 | 0 | 1 |\n" +
+        "| annex.docx | Only in the modified folder |  |  |  |  |  |  |  |  |  |  |\n"
+    );
+  });
+});
@@ -0,0 +1,309 @@
+import {
+  describeFormatAttributeChange,
+  describeObjectChange,
+  describeStructuralChange,
+  getMarkTypeLabel,
+} from "@/app/lib/document-diff";
+import type {
+  ChangeWithPosition,
+  DiffSummary,
+  FormattingChangeWithPosition,
+} from "@/app/lib/document-diff";
+import type { CompareResponse } from "@/app/lib/compare-api";
+import type { ChangeSummaryOutput, SummarizeRequest } from "@/app/lib/openai";
+
+// Formats a comparison can be written in besides the redline DOCX
+export type ReportFormat = "json" | "html" | "md";
+
+// A comparison as reports show it: the /api/compare response, plus the AI
+// summary when one was asked for
+export interface CompareReport extends CompareResponse {
+  aiSummary?: ChangeSummaryOutput;
+}
+
+// One pair of files in a batch: its path relative to both folders, and its
+// report, the folder it is missing from, or why it could not be compared
+export interface BatchReportEntry {
+  path: string;
+  report?: CompareReport;
+  onlyIn?: "original" | "modified";
+  error?: string;
+}
+
+// Columns of the summary tables, in order
+const SUMMARY_COLUMNS: Array<[keyof DiffSummary, string]> = [
+  ["insertions", "Insertions"],
+  ["deletions", "Deletions"],
+  ["replacements", "Replacements"],
+  ["moves", "Moves"],
+  ["splits", "Splits"],
+  ["merges", "Merges"],
+  ["formattingChanges", "Formatting"],
+  ["structuralChanges", "Structure"],
+  ["objectChanges", "Objects"],
+  ["ignored", "Ignored"],
+];
+
+const FORMAT_CHANGE_VERBS: Record<FormattingChangeWithPosition["type"], string> = {
+  formatAdded: "added",
+  formatRemoved: "removed",
+  formatModified: "modified",
+};
+
+// Number of differences a comparison found: every change in the summary and
+// in headers, footers and notes, except those an ignore rule matched
+export function countDifferences(report: CompareResponse): number {
+  const { summary } = report;
+  const partChanges = report.partChanges.reduce(
+    (count, { changes }) => count + changes.filter((change) => !change.ignoredBy).length,
+    0
+  );
+  return (
+    SUMMARY_COLUMNS.reduce(
+      (count, [key]) => (key === "ignored" ? count : count + summary[key]),
+      0
+    ) + partChanges
+  );
+}
+
+// The changes to send for an AI summary, described as the review panel
+// describes them
+export function toSummarizeChanges(report: CompareResponse): SummarizeRequest["changes"] {
+  return [
+    ...report.changes
+      .filter((change) => !change.ignoredBy)
+      .map((change) => ({
+        type: change.type,
+        content: change.content,
+        oldContent: change.oldContent,
+      })),
+    ...report.structuralChanges.map((change) => ({
+      type: "structure",
+      content: `${describeStructuralChange(change)}: "${change.content}"`,
+    })),
+    ...report.objectChanges.map((change) => ({
+      type: "object",
+      content: describeObjectChange(change),
+    })),
+  ];
+}
+
+// A content change as one line of text; `quote` wraps the changed text
+function describeChange(change: ChangeWithPosition, quote: (text: string) => string): string {
+  switch (change.type) {
+    case "insertion":
+      return `Inserted ${quote(change.content)}`;
+    case "deletion":
+      return `Deleted ${quote(change.content)}`;
+    case "replacement":
+      return `Replaced ${quote(change.oldContent ?? "")} with ${quote(change.content)}`;
+    case "move":
+      return `Moved ${quote(change.content)}`;
+    case "split":
+      return `Paragraph split before ${quote(change.content)}`;
+    case "merge":
+      return `Paragraphs merged at ${quote(change.content)}`;
+  }
+}
+
+function describeFormattingChange(change: FormattingChangeWithPosition): string {
+  const attributes = (change.attributes ?? []).map((attribute) =>
+    describeFormatAttributeChange(change.markType, attribute)
+  );
+  return [
+    `${getMarkTypeLabel(change.markType)} ${FORMAT_CHANGE_VERBS[change.type]}`,
+    ...attributes,
+  ].join(", ");
+}
+
+// Sections of a report: a title and one line per change, with the changed
+// text quoted and the descriptions (which can hold document text, such as
+// style names or image descriptions) escaped by the format
+function reportSections(
+  report: CompareResponse,
+  quote: (text: string) => string,
+  escape: (text: string) => string
+): Array<[string, string[]]> {
+  const described = (changes: ChangeWithPosition[]) =>
+    changes.filter((change) => !change.ignoredBy).map((change) => describeChange(change, quote));
+
+  return [
+    ["Changes", described(report.changes)],
+    [
+      "Formatting changes",
+      report.formattingChanges.map(
+        (change) => `${escape(describeFormattingChange(change))}: ${quote(change.content)}`
+      ),
+    ],
+    [
+      "Structural changes",
+      report.structuralChanges.map(
+        (change) => `${escape(describeStructuralChange(change))}: ${quote(change.content)}`
+      ),
+    ],
+    [
+      "Images and objects",
+      report.objectChanges.map((change) => escape(describeObjectChange(change))),
+    ],
+    ...report.partChanges.map(({ part, changes }): [string, string[]] => [
+      part.name,
+      described(changes),
+    ]),
+  ];
+}
+
+function aiSummaryLines(summary: ChangeSummaryOutput): string[] {
+  return [
+    summary.overview,
+    ...summary.textChanges,
+    ...summary.formattingChanges,
+    ...summary.structuralChanges,
+    summary.summary,
+  ];
+}
+
+// Markdown special characters are escaped so document text shows as written
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_~[\]<>|#]/g, "\\$&").replace(/\n/g, " ");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function markdownTable(header: string[], rows: string[][]): string {
+  return [
+    `| ${header.join(" | ")} |`,
+    `|${header.map(() => "---").join("|")}|`,
+    ...rows.map((row) => `| ${row.join(" | ")} |`),
+  ].join("\n");
+}
+
+function htmlTable(header: string[], rows: string[][]): string {
+  const cells = (tag: string, row: string[]) =>
+    `<tr>${row.map((cell) => `<${tag}>${cell}</${tag}>`).join("")}</tr>`;
+  return `<table>\n<thead>${cells("th", header)}</thead>\n<tbody>\n${rows
+    .map((row) => cells("td", row))
+    .join("\n")}\n</tbody>\n</table>`;
+}
+
+function htmlPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 60rem; color: #18181b; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #d4d4d8; padding: 0.25rem 0.75rem; text-align: left; }
+q { background: #f4f4f5; }
+.failed { color: #b91c1c; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function summaryCells(summary: DiffSummary): string[] {
+  return SUMMARY_COLUMNS.map(([key]) => String(summary[key]));
+}
+
+// Render one comparison: JSON in the /api/compare response schema, or a
+// readable Markdown or HTML report
+export function renderReport(report: CompareReport, format: ReportFormat): string {
+  if (format === "json") return `${JSON.stringify(report, null, 2)}\n`;
+
+  const title = `${report.original.name} → ${report.modified.name}`;
+  const header = SUMMARY_COLUMNS.map(([, label]) => label);
+
+  if (format === "md") {
+    const quote = (text: string) => `"${escapeMarkdown(text)}"`;
+    const sections = reportSections(report, quote, escapeMarkdown)
+      .filter(([, lines]) => lines.length > 0)
+      .map(([heading, lines]) =>
+        [`## ${escapeMarkdown(heading)}`, "", ...lines.map((line) => `- ${line}`)].join("\n")
+      );
+    if (report.aiSummary) {
+      sections.push(
+        ["## AI summary", "", ...aiSummaryLines(report.aiSummary).map(escapeMarkdown)].join("\n\n")
+      );
+    }
+    return `${[
+      `# ${escapeMarkdown(title)}`,
+      markdownTable(header, [summaryCells(report.summary)]),
+      ...(sections.length > 0 ? sections : ["No differences."]),
+    ].join("\n\n")}\n`;
+  }
+
+  const quote = (text: string) => `<q>${escapeHtml(text)}</q>`;
+  const sections = reportSections(report, quote, escapeHtml)
+    .filter(([, lines]) => lines.length > 0)
+    .map(
+      ([heading, lines]) =>
+        `<h2>${escapeHtml(heading)}</h2>\n<ul>\n${lines
+          .map((line) => `<li>${line}</li>`)
+          .join("\n")}\n</ul>`
+    );
+  if (report.aiSummary) {
+    sections.push(
+      `<h2>AI summary</h2>\n${aiSummaryLines(report.aiSummary)
+        .map((line) => `<p>${escapeHtml(line)}</p>`)
+        .join("\n")}`
+    );
+  }
+  return htmlPage(
+    title,
+    [
+      `<h1>${escapeHtml(title)}</h1>`,
+      htmlTable(header, [summaryCells(report.summary)]),
+      ...(sections.length > 0 ? sections : ["<p>No differences.</p>"]),
+    ].join("\n")
+  );
+}
+
+// Render the combined summary of a batch: one row per pair of files with its
+// counts, the folder it is missing from, or the error that stopped its
+// comparison
+export function renderBatchSummary(entries: BatchReportEntry[], format: ReportFormat): string {
+  if (format === "json") {
+    const pairs = entries.map(({ path, report, onlyIn, error }) =>
+      report
+        ? { path, differences: countDifferences(report), summary: report.summary }
+        : { path, onlyIn, error }
+    );
+    return `${JSON.stringify({ pairs }, null, 2)}\n`;
+  }
+
+  const header = ["File", "Differences", ...SUMMARY_COLUMNS.map(([, label]) => label)];
+  const escape = format === "md" ? escapeMarkdown : escapeHtml;
+  const status = ({ onlyIn, error }: BatchReportEntry) => {
+    if (onlyIn) return `Only in the ${onlyIn} folder`;
+    return format === "md"
+      ? `Failed: ${escape(error ?? "")}`
+      : `<span class="failed">Failed: ${escape(error ?? "")}</span>`;
+  };
+  const rows = entries.map((entry) =>
+    entry.report
+      ? [
+          escape(entry.path),
+          String(countDifferences(entry.report)),
+          ...summaryCells(entry.report.summary),
+        ]
+      : [escape(entry.path), status(entry), ...SUMMARY_COLUMNS.map(() => "")]
+  );
+
+  return format === "md"
+    ? `# Comparison summary\n\n${markdownTable(header, rows)}\n`
+    : htmlPage(
+        "Comparison summary",
+        `<h1>Comparison summary</h1>\n${htmlTable(header, rows)}`
+      );
+}
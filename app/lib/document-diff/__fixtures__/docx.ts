@@ -0,0 +1,141 @@
+/**
+ * DOCX Test Fixtures
+ *
+ * Builds DOCX files in memory from minimal WordprocessingML, for tests that
+ * import or compare documents without fixture files on disk. XML parts are
+ * deflated and binary parts stored, so both zip methods are exercised. Only
+ * tests import this folder.
+ */
+
+export const W_NS =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" ' +
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"';
+const REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/** One transparent pixel */
+export const PNG = Uint8Array.from(
+  atob(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII="
+  ),
+  (c) => c.charCodeAt(0)
+);
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(data as Uint8Array<ArrayBuffer>).body!.pipeThrough(
+    new CompressionStream("deflate-raw")
+  );
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Zip files in memory; XML parts are deflated, other files stored
+ */
+export async function zip(files: Record<string, string | Uint8Array>): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [path, content] of Object.entries(files)) {
+    const data = typeof content === "string" ? encoder.encode(content) : content;
+    const deflate = typeof content === "string";
+    const stored = deflate ? await deflateRaw(data) : data;
+    const name = encoder.encode(path);
+
+    const local = new Uint8Array(30 + name.length + stored.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(8, deflate ? 8 : 0, true);
+    lv.setUint32(14, crc32(data), true);
+    lv.setUint32(18, stored.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(stored, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(10, deflate ? 8 : 0, true);
+    cv.setUint32(16, crc32(data), true);
+    cv.setUint32(20, stored.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((size, entry) => size + entry.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + centralSize + 22);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}
+
+/**
+ * A relationships part
+ */
+function relationships(rels: Array<[id: string, type: string, target: string, external?: boolean]>) {
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    rels
+      .map(
+        ([id, type, target, external]) =>
+          `<Relationship Id="${id}" Type="${REL}/${type}" Target="${target}"${external ? ' TargetMode="External"' : ""}/>`
+      )
+      .join("") +
+    "</Relationships>"
+  );
+}
+
+/**
+ * A DOCX whose body is the given WordprocessingML, with extra parts
+ */
+export function docx(
+  body: string,
+  parts: Record<string, string | Uint8Array> = {},
+  documentRels: Array<[string, string, string, boolean?]> = []
+): Promise<Uint8Array> {
+  return zip({
+    "_rels/.rels": relationships([["rId1", "officeDocument", "word/document.xml"]]),
+    "word/document.xml": `<?xml version="1.0" encoding="UTF-8"?><w:document ${W_NS}><w:body>${body}</w:body></w:document>`,
+    "word/_rels/document.xml.rels": relationships(documentRels),
+    ...parts,
+  });
+}
+
+/**
+ * A paragraph of one run, with optional paragraph and run properties
+ */
+export function p(text: string, pPr = "", rPr = ""): string {
+  return `<w:p>${pPr && `<w:pPr>${pPr}</w:pPr>`}<w:r>${rPr && `<w:rPr>${rPr}</w:rPr>`}<w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
@@ -0,0 +1,80 @@
+/**
+ * ProseMirror JSON Test Fixtures
+ *
+ * Builders for the small documents the document-diff tests compare, shared
+ * so each test states its documents rather than the shape of their nodes.
+ * Only tests import this folder.
+ */
+
+import { extractTextWithFormattingFromJson } from "../text-extraction";
+import type { ProseMirrorJsonNode, ProseMirrorMark } from "../types";
+
+export function text(value: string, ...marks: ProseMirrorMark[]): ProseMirrorJsonNode {
+  return marks.length ? { type: "text", text: value, marks } : { type: "text", text: value };
+}
+
+/**
+ * A paragraph; strings become text nodes and empty strings are left out
+ */
+export function paragraph(...content: Array<string | ProseMirrorJsonNode>): ProseMirrorJsonNode {
+  return {
+    type: "paragraph",
+    content: content
+      .filter((part) => part !== "")
+      .map((part) => (typeof part === "string" ? text(part) : part)),
+  };
+}
+
+export function heading(value: string, level = 2): ProseMirrorJsonNode {
+  return { type: "heading", attrs: { level }, content: [text(value)] };
+}
+
+/**
+ * A list with one item per array of blocks
+ */
+export function list(
+  type: "bulletList" | "orderedList",
+  ...items: ProseMirrorJsonNode[][]
+): ProseMirrorJsonNode {
+  return { type, content: items.map((content) => ({ type: "listItem", content })) };
+}
+
+/**
+ * A table with one paragraph per cell
+ */
+export function table(rows: string[][]): ProseMirrorJsonNode {
+  return {
+    type: "table",
+    content: rows.map((cells) => ({
+      type: "tableRow",
+      content: cells.map((value) => ({ type: "tableCell", content: [paragraph(value)] })),
+    })),
+  };
+}
+
+export function image(src: string, width = 120, height = 40): ProseMirrorJsonNode {
+  return { type: "image", attrs: { src, size: { width, height } } };
+}
+
+/**
+ * A document; strings become paragraphs
+ */
+export function doc(...content: Array<string | ProseMirrorJsonNode>): ProseMirrorJsonNode {
+  return {
+    type: "doc",
+    content: content.map((block) => (typeof block === "string" ? paragraph(block) : block)),
+  };
+}
+
+export const inserted = (id: string): ProseMirrorMark => ({ type: "trackInsert", attrs: { id } });
+export const deleted = (id: string): ProseMirrorMark => ({ type: "trackDelete", attrs: { id } });
+
+/**
+ * Extract the text and formatting of the two documents a test compares
+ */
+export function extractBoth(originalDoc: ProseMirrorJsonNode, modifiedDoc: ProseMirrorJsonNode) {
+  return {
+    original: extractTextWithFormattingFromJson(originalDoc),
+    modified: extractTextWithFormattingFromJson(modifiedDoc),
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Random Test Input
+ *
+ * Seeded pseudo-random numbers for tests that check properties over many
+ * generated inputs. Only tests import this folder.
+ */
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1), so failures reproduce
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
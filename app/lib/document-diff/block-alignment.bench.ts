@@ -0,0 +1,49 @@
+/**
+ * Benchmark: paragraph-first alignment vs a single-pass diff
+ *
+ * Run with `pnpm bench`. Compares computeChangesWithPositions with and without
+ * block alignment on a generated agreement with a handful of scattered edits.
+ */
+
+import { bench, describe } from "vitest";
+import { computeChangesWithPositions } from "./diff-computation";
+
+/** Generated document size (paragraphs of ~300 characters) */
+const PARAGRAPHS = 400;
+
+/** Every n-th paragraph is edited in the modified document */
+const EDIT_EVERY = 40;
+
+function buildParagraph(index: number): string {
+  return (
+    `${index + 1}. Clause ${index + 1}. The Supplier shall deliver the Services ` +
+    `described in Schedule ${(index % 7) + 1} in accordance with the Service Levels, ` +
+    `and the Customer shall pay the Charges set out in Schedule ${(index % 5) + 1} ` +
+    `within ${30 + (index % 4) * 15} days of receipt of a valid invoice, save where ` +
+    `the parties agree otherwise in writing under clause ${(index * 3) % 97}.`
+  );
+}
+
+const originalParagraphs = Array.from({ length: PARAGRAPHS }, (_, i) => buildParagraph(i));
+
+const modifiedParagraphs = originalParagraphs.map((paragraph, i) =>
+  i % EDIT_EVERY === 0
+    ? paragraph.replace("shall deliver", "must promptly deliver").replace("valid", "correct")
+    : paragraph
+);
+
+const ORIGINAL = originalParagraphs.join("\n");
+const MODIFIED = modifiedParagraphs.join("\n");
+
+describe(`${PARAGRAPHS} paragraphs, ${PARAGRAPHS / EDIT_EVERY} edited`, () => {
+  bench("paragraph-first alignment", () => {
+    computeChangesWithPositions(ORIGINAL, MODIFIED, { granularity: "character" });
+  });
+
+  bench("single-pass character diff", () => {
+    computeChangesWithPositions(ORIGINAL, MODIFIED, {
+      granularity: "character",
+      blockAlignment: false,
+    });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Unit tests for block alignment utilities
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { seededRandom } from "./__fixtures__/random";
+import { diffByBlocks, originalOffsets, splitIntoBlocks } from "./block-alignment";
+import {
+  computeChangesWithPositions,
+  computeFormattingChanges,
+  computeRawDiff,
+} from "./diff-computation";
+import type { DiffGranularity } from "./types";
+
+const GRANULARITIES: DiffGranularity[] = ["character", "word", "sentence", "paragraph"];
+
+const ORIGINAL = [
+  "1. Definitions. In this Agreement the following terms apply.",
+  "2. Term. This Agreement starts on the Effective Date.",
+  "3. Payment. The Customer shall pay all invoices within thirty days.",
+  "4. Confidentiality. Each party keeps the other's information secret.",
+  "5. Termination. Either party may terminate on 90 days notice.",
+  "6. Governing Law. This Agreement is governed by the laws of England.",
+].join("\n");
+
+/**
+ * Edits covering the usual shapes: in-paragraph rewording, inserted and
+ * deleted paragraphs, edits at the document edges and a full rewrite.
+ */
+const EDITED: Record<string, string> = {
+  reworded: ORIGINAL.replace("thirty days", "sixty days").replace(
+    "secret",
+    "strictly confidential"
+  ),
+  paragraphInserted: ORIGINAL.replace(
+    "4. Confidentiality.",
+    "3A. Late Payment. Interest accrues at 4% per year.\n4. Confidentiality."
+  ),
+  paragraphDeleted: ORIGINAL.replace(
+    "5. Termination. Either party may terminate on 90 days notice.\n",
+    ""
+  ),
+  firstAndLast: ORIGINAL.replace("1. Definitions.", "1. Interpretation.").replace(
+    "England.",
+    "England and Wales."
+  ),
+  appended: ORIGINAL + "\n7. Notices. Notices must be in writing.",
+  rewritten: "A completely different document.\nWith nothing in common.",
+  empty: "",
+};
+
+describe("splitIntoBlocks", () => {
+  it("should keep newlines so blocks join back to the text", () => {
+    expect(splitIntoBlocks("one\ntwo\n\nthree")).toEqual(["one\n", "two\n", "\n", "three"]);
+    expect(splitIntoBlocks("one\n")).toEqual(["one\n"]);
+    expect(splitIntoBlocks("")).toEqual([]);
+  });
+});
+
+describe("diffByBlocks", () => {
+  it("should only run the fine diff on changed paragraphs", () => {
+    const fineDiff = vi.fn(computeRawDiff);
+
+    diffByBlocks(ORIGINAL, EDITED.reworded, "character", fineDiff);
+
+    expect(fineDiff).toHaveBeenCalledTimes(1);
+    const [removed, added] = fineDiff.mock.calls[0];
+    expect(removed).toBe(
+      "3. Payment. The Customer shall pay all invoices within thirty days.\n" +
+        "4. Confidentiality. Each party keeps the other's information secret."
+    );
+    expect(added).toContain("sixty days");
+  });
+
+  it("should not run the fine diff for identical texts", () => {
+    const fineDiff = vi.fn(computeRawDiff);
+
+    const diffs = diffByBlocks(ORIGINAL, ORIGINAL, "character", fineDiff);
+
+    expect(fineDiff).not.toHaveBeenCalled();
+    expect(diffs).toEqual([
+      { value: ORIGINAL, added: false, removed: false, count: ORIGINAL.length },
+    ]);
+  });
+
+  it.each(Object.keys(EDITED))("should reconstruct both texts (%s)", (name) => {
+    const diffs = diffByBlocks(ORIGINAL, EDITED[name], "character", computeRawDiff);
+
+    expect(diffs.filter((d) => !d.added).map((d) => d.value).join("")).toBe(ORIGINAL);
+    expect(diffs.filter((d) => !d.removed).map((d) => d.value).join("")).toBe(EDITED[name]);
+  });
+
+  it.each(GRANULARITIES)("should keep both texts when edits cross blocks (%s)", (granularity) => {
+    const original = "Rent is due monthly.\nNotices must be in writing.\nSigned.";
+    const modified = "Rent is due monthly in writing.\nNew clause.\nAlso signed.";
+    const words = (value: string) => value.split(/\s+/).filter(Boolean);
+
+    const diffs = diffByBlocks(original, modified, granularity, computeRawDiff);
+    const offsets = originalOffsets(original, diffs);
+
+    expect(diffs.filter((d) => !d.removed).map((d) => d.value).join("")).toBe(modified);
+    expect(words(diffs.filter((d) => !d.added).map((d) => d.value).join(""))).toEqual(
+      words(original)
+    );
+    expect(offsets[offsets.length - 1]).toBe(original.length);
+    diffs.forEach((part, i) => {
+      if (part.removed) expect(original.slice(offsets[i], offsets[i + 1])).toBe(part.value);
+    });
+  });
+});
+
+describe("originalOffsets", () => {
+  it("should measure equal parts by the original's whitespace", () => {
+    const original = "Hello  world, the tenant pays rent.";
+    const parts = computeRawDiff(original, "Hello world, the tenant pays fees.", "word");
+
+    expect(parts.map((part) => part.value)).toEqual([
+      "Hello world, the tenant pays ",
+      "rent",
+      "fees",
+      ".",
+    ]);
+    expect(originalOffsets(original, parts)).toEqual([0, 30, 34, 34, 35]);
+  });
+
+  it("should walk the original through random word diffs with whitespace drift", () => {
+    const random = seededRandom(7);
+    const vocabulary = ["rent", "fees", ",", ".", "the", "90"];
+    const spaces = [" ", "  ", "\t", " \n"];
+    const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+    const text = () =>
+      Array.from({ length: 1 + Math.floor(random() * 10) }, (_, i) =>
+        i ? `${pick(spaces)}${pick(vocabulary)}` : pick(vocabulary)
+      ).join("");
+    const words = (value: string) => value.split(/\s+/).filter(Boolean);
+
+    for (let run = 0; run < 500; run++) {
+      const original = text();
+      const parts = computeRawDiff(original, text(), "word");
+      const offsets = originalOffsets(original, parts);
+
+      parts.forEach((part, index) => {
+        const covered = original.slice(offsets[index], offsets[index + 1]);
+        if (part.added) expect(covered).toBe("");
+        else if (part.removed) expect(covered).toBe(part.value);
+        else expect(words(covered)).toEqual(words(part.value));
+      });
+      expect(original.slice(offsets[parts.length]).trim()).toBe("");
+    }
+  });
+});
+
+describe("computeChangesWithPositions with block alignment", () => {
+  // A whole inserted paragraph is excluded: the single-pass character diff
+  // scatters it across coincidental matches in the next paragraph (see below)
+  const SAME_AS_SINGLE_PASS = Object.keys(EDITED).filter(
+    (name) => name !== "paragraphInserted"
+  );
+
+  for (const granularity of GRANULARITIES) {
+    it.each(SAME_AS_SINGLE_PASS)(
+      `should match the single-pass ${granularity} diff (%s)`,
+      (name) => {
+        const aligned = computeChangesWithPositions(ORIGINAL, EDITED[name], {
+          granularity,
+        });
+        const singlePass = computeChangesWithPositions(ORIGINAL, EDITED[name], {
+          granularity,
+          blockAlignment: false,
+        });
+
+        expect(aligned).toEqual(singlePass);
+      }
+    );
+  }
+
+  it("should place a deletion at the end of a paragraph before its line break", () => {
+    const original = "Tenant pays rent monthly\nNext clause.";
+    const modified = "Tenant pays rent\nNext clause.";
+
+    const aligned = computeChangesWithPositions(original, modified, { granularity: "word" });
+
+    expect(aligned).toEqual(
+      computeChangesWithPositions(original, modified, {
+        granularity: "word",
+        blockAlignment: false,
+      })
+    );
+    expect(aligned).toEqual([
+      expect.objectContaining({ type: "deletion", content: "monthly", insertAt: 16 }),
+    ]);
+  });
+
+  // Sentence granularity is left out: when an edit removes a paragraph's
+  // final full stop, the single-pass diff reads the paragraph and the next one
+  // as one sentence, which block alignment rightly does not
+  it.each(GRANULARITIES.filter((granularity) => granularity !== "sentence"))(
+    "should match the single-pass %s diff for random edits inside paragraphs",
+    (granularity) => {
+      const random = seededRandom(42);
+      const words = ["rent", "fees", "monthly", "the", "Tenant", "shall", "now", "90"];
+      const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+
+      for (let run = 0; run < 200; run++) {
+        const paragraphs = ORIGINAL.split("\n").map((paragraph) => paragraph.split(" "));
+        for (let edit = 0; edit < 1 + Math.floor(random() * 3); edit++) {
+          const paragraph = pick(paragraphs);
+          const at = Math.floor(random() * paragraph.length);
+          const kind = random();
+          if (kind < 0.34) paragraph.splice(at, 1);
+          else if (kind < 0.67) paragraph.splice(at, 0, pick(words));
+          else paragraph[at] = pick(words);
+        }
+        const modified = paragraphs.map((paragraph) => paragraph.join(" ")).join("\n");
+
+        expect(computeChangesWithPositions(ORIGINAL, modified, { granularity })).toEqual(
+          computeChangesWithPositions(ORIGINAL, modified, { granularity, blockAlignment: false })
+        );
+      }
+    }
+  );
+
+  it("should report an inserted paragraph as one insertion", () => {
+    const modified = EDITED.paragraphInserted;
+
+    const aligned = computeChangesWithPositions(ORIGINAL, modified);
+    const singlePass = computeChangesWithPositions(ORIGINAL, modified, {
+      blockAlignment: false,
+    });
+
+    expect(aligned).toEqual([
+      expect.objectContaining({
+        type: "insertion",
+        content: "3A. Late Payment. Interest accrues at 4% per year.",
+      }),
+    ]);
+    expect(singlePass.length).toBeGreaterThan(1);
+  });
+
+  it("should keep formatting changes on unchanged paragraphs", () => {
+    const modified = EDITED.reworded;
+    const start = modified.indexOf("Termination");
+
+    const changes = computeFormattingChanges(ORIGINAL, [], modified, [
+      {
+        charStart: start,
+        charEnd: start + "Termination".length,
+        marks: [{ type: "bold" }],
+      },
+    ]);
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "formatAdded", markType: "bold", charStart: start }),
+    ]);
+  });
+});
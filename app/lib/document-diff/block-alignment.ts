@@ -0,0 +1,278 @@
+/**
+ * Block Alignment Utilities
+ *
+ * Two-level diffing for long documents. Blocks (paragraphs, one per line of
+ * extracted text) are first aligned by content, then the fine-grained diff
+ * only runs inside runs of changed blocks. Unchanged paragraphs never reach
+ * the character diff, which keeps 200-page documents fast.
+ */
+
+import { diffArrays, type Change as DiffChange } from "diff";
+import type { AlignedPair, DiffGranularity } from "./types";
+
+/**
+ * Fine-grained diff run inside changed block runs
+ */
+type FineDiff = (
+  originalText: string,
+  modifiedText: string,
+  granularity: DiffGranularity
+) => DiffChange[];
+
+/**
+ * Split extracted text into blocks. Each block keeps its trailing newline so
+ * the blocks concatenate back to the original text.
+ */
+export function splitIntoBlocks(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Replace each block by a numeric ID shared by all blocks with identical text.
+ * Comparing IDs is much cheaper than comparing paragraph strings.
+ */
+function internBlocks(
+  blocks: string[],
+  ids: Map<string, number>
+): number[] {
+  return blocks.map((block) => {
+    let id = ids.get(block);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(block, id);
+    }
+    return id;
+  });
+}
+
+/**
+ * Diff two texts paragraph-first.
+ *
+ * 1. Both texts are split into blocks and the blocks are aligned by content
+ *    (an array diff over interned block IDs).
+ * 2. Unchanged blocks become equal parts as they are.
+ * 3. Each run of changed blocks between two aligned blocks is joined back
+ *    into text and diffed with `fineDiff` at the requested granularity.
+ *
+ * Adjacent parts of the same kind are merged and removals come before
+ * additions, as in `fineDiff`'s own output. For edits inside a paragraph the
+ * parts are those of running `fineDiff` over the whole texts. Edits that
+ * cross a block boundary (paragraphs merged, split, inserted next to edited
+ * ones) may be cut differently, since each changed run is diffed on its own;
+ * the parts still join back to both texts as `fineDiff`'s parts do (word
+ * diffs give equal parts the modified whitespace, see `originalOffsets`).
+ *
+ * @param originalText - The original (older) text
+ * @param modifiedText - The modified (newer) text
+ * @param granularity - Unit of the fine-grained diff
+ * @param fineDiff - Diff used inside changed block runs
+ * @returns Raw diff parts covering both texts
+ */
+export function diffByBlocks(
+  originalText: string,
+  modifiedText: string,
+  granularity: DiffGranularity,
+  fineDiff: FineDiff
+): DiffChange[] {
+  const originalBlocks = splitIntoBlocks(originalText);
+  const modifiedBlocks = splitIntoBlocks(modifiedText);
+
+  const ids = new Map<string, number>();
+  const alignment = diffArrays(
+    internBlocks(originalBlocks, ids),
+    internBlocks(modifiedBlocks, ids)
+  );
+
+  const parts: DiffChange[] = [];
+  let originalIndex = 0;
+  let modifiedIndex = 0;
+  let pendingRemoved = "";
+  let pendingAdded = "";
+
+  const flushChangedRun = () => {
+    if (!pendingRemoved && !pendingAdded) return;
+    // The run's shared trailing newline is kept out of the fine diff, which
+    // would otherwise join it to the last word and place edits past it
+    const newline = pendingRemoved.endsWith("\n") && pendingAdded.endsWith("\n");
+    parts.push(
+      ...fineDiff(
+        newline ? pendingRemoved.slice(0, -1) : pendingRemoved,
+        newline ? pendingAdded.slice(0, -1) : pendingAdded,
+        granularity
+      )
+    );
+    if (newline) parts.push({ value: "\n", added: false, removed: false, count: 1 });
+    pendingRemoved = "";
+    pendingAdded = "";
+  };
+
+  for (const part of alignment) {
+    const count = part.count ?? part.value.length;
+
+    if (part.removed) {
+      pendingRemoved += originalBlocks
+        .slice(originalIndex, originalIndex + count)
+        .join("");
+      originalIndex += count;
+    } else if (part.added) {
+      pendingAdded += modifiedBlocks
+        .slice(modifiedIndex, modifiedIndex + count)
+        .join("");
+      modifiedIndex += count;
+    } else {
+      flushChangedRun();
+      const value = modifiedBlocks
+        .slice(modifiedIndex, modifiedIndex + count)
+        .join("");
+      parts.push({ value, added: false, removed: false, count: value.length });
+      originalIndex += count;
+      modifiedIndex += count;
+    }
+  }
+
+  flushChangedRun();
+  return mergeAdjacentParts(parts);
+}
+
+const isWhitespace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+
+/**
+ * Position in the original text where each diff part starts, followed by
+ * the position where the last one ends.
+ *
+ * Word diffs give equal parts the modified text's whitespace, so an equal
+ * part can span more or fewer original characters than its value has. Its
+ * words match the original exactly and each whitespace run stands for the
+ * original's run at that point, except that a removed part starting with
+ * whitespace takes its own whitespace back from the equal part before it.
+ *
+ * @param originalText - The original text
+ * @param parts - Diff parts over the original text
+ * @returns Original positions, one per part plus the end
+ */
+export function originalOffsets(originalText: string, parts: DiffChange[]): number[] {
+  const offsets: number[] = [];
+  let index = 0;
+
+  parts.forEach((part, partIndex) => {
+    offsets.push(index);
+    if (part.added) return;
+    if (part.removed) {
+      index += part.value.length;
+      return;
+    }
+
+    const runStart = index;
+    for (let i = 0; i < part.value.length; ) {
+      if (!isWhitespace(part.value[i])) {
+        while (isWhitespace(originalText[index])) index++;
+        index++;
+        i++;
+        continue;
+      }
+      while (isWhitespace(part.value[i])) i++;
+      while (isWhitespace(originalText[index])) index++;
+    }
+
+    const next = parts[partIndex + 1]?.added ? parts[partIndex + 2] : parts[partIndex + 1];
+    if (next?.removed && isWhitespace(next.value[0])) {
+      while (index > runStart && !originalText.startsWith(next.value, index)) index--;
+    }
+  });
+
+  offsets.push(index);
+  return offsets;
+}
+
+/**
+ * Align two sequences by their keys. Equal keys pair up; within a run of
+ * removed and added items, items pair up in order when the run lengths match,
+ * otherwise each removed item pairs with the most similar added item after
+ * the previous pair (unpaired if nothing is similar).
+ *
+ * @param original - Keys of the original items
+ * @param modified - Keys of the modified items
+ * @param similarity - Score of an original/modified pair (0 when unrelated)
+ * @returns Alignment steps in order
+ */
+export function alignSequences(
+  original: string[],
+  modified: string[],
+  similarity: (originalIndex: number, modifiedIndex: number) => number
+): AlignedPair[] {
+  const aligned: AlignedPair[] = [];
+  let originalIndex = 0;
+  let modifiedIndex = 0;
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flushRun = () => {
+    if (removed.length === added.length) {
+      removed.forEach((o, i) => aligned.push({ original: o, modified: added[i] }));
+    } else {
+      let next = 0;
+      for (const o of removed) {
+        let best = -1;
+        let bestScore = 0;
+        for (let i = next; i < added.length; i++) {
+          const score = similarity(o, added[i]);
+          if (score > bestScore) {
+            best = i;
+            bestScore = score;
+          }
+        }
+        if (best < 0) {
+          aligned.push({ original: o });
+          continue;
+        }
+        for (; next < best; next++) aligned.push({ modified: added[next] });
+        aligned.push({ original: o, modified: added[best] });
+        next = best + 1;
+      }
+      for (; next < added.length; next++) aligned.push({ modified: added[next] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const part of diffArrays(original, modified)) {
+    const count = part.value.length;
+    if (part.removed) {
+      for (let i = 0; i < count; i++) removed.push(originalIndex++);
+    } else if (part.added) {
+      for (let i = 0; i < count; i++) added.push(modifiedIndex++);
+    } else {
+      flushRun();
+      for (let i = 0; i < count; i++) {
+        aligned.push({ original: originalIndex++, modified: modifiedIndex++ });
+      }
+    }
+  }
+  flushRun();
+
+  return aligned;
+}
+
+/**
+ * Merge neighbouring parts of the same kind (equal/removed/added)
+ */
+function mergeAdjacentParts(parts: DiffChange[]): DiffChange[] {
+  const merged: DiffChange[] = [];
+
+  for (const part of parts) {
+    if (!part.value) continue;
+
+    const last = merged[merged.length - 1];
+    if (last && last.added === part.added && last.removed === part.removed) {
+      merged[merged.length - 1] = {
+        ...last,
+        value: last.value + part.value,
+        count: (last.count ?? 0) + (part.count ?? 0),
+      };
+    } else {
+      merged.push({ ...part });
+    }
+  }
+
+  return merged;
+}
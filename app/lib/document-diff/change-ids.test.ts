@@ -0,0 +1,170 @@
+/**
+ * Stable Change IDs - Tests
+ *
+ * @module change-ids
+ */
+
+import { describe, it, expect } from "vitest";
+import { doc, heading, paragraph } from "./__fixtures__/prosemirror";
+import { assignStableIds, hashString } from "./change-ids";
+import { computeChangesWithPositions, computeFormattingChanges } from "./diff-computation";
+import { computeObjectChanges } from "./object-diff";
+import { computeStructuralChanges } from "./structure-diff";
+import { extractTextWithFormattingFromJson } from "./text-extraction";
+import type { ChangeWithPosition, ProseMirrorJsonNode } from "./types";
+
+const ORIGINAL = [
+  "The tenant pays rent monthly.",
+  "Notices must be in writing.",
+  "This agreement is governed by the laws of England.",
+].join("\n");
+
+const MODIFIED = [
+  "The tenant pays rent monthly.",
+  "Notices must be sent in writing.",
+  "This agreement is governed by the laws of England.",
+].join("\n");
+
+/**
+ * IDs of the changes, keyed by content
+ */
+function idsByContent(changes: ReadonlyArray<ChangeWithPosition>): Record<string, string> {
+  return Object.fromEntries(changes.map((c) => [c.content, c.id]));
+}
+
+describe("content change IDs", () => {
+  it("should be the same when the comparison is run again", () => {
+    const first = computeChangesWithPositions(ORIGINAL, MODIFIED, { granularity: "word" });
+    const second = computeChangesWithPositions(ORIGINAL, MODIFIED, { granularity: "word" });
+
+    expect(first[0].id).toMatch(/^change-[0-9a-f]{8}$/);
+    expect(second.map((c) => c.id)).toEqual(first.map((c) => c.id));
+  });
+
+  it("should not change when an earlier paragraph is edited", () => {
+    const before = computeChangesWithPositions(ORIGINAL, MODIFIED, { granularity: "word" });
+    const after = computeChangesWithPositions(
+      ORIGINAL,
+      MODIFIED.replace("monthly", "quarterly in advance"),
+      { granularity: "word" }
+    );
+
+    expect(after).toHaveLength(2);
+    expect(idsByContent(after).sent).toBe(idsByContent(before).sent);
+  });
+
+  it("should not change when paragraphs are added or removed elsewhere", () => {
+    const before = computeChangesWithPositions(ORIGINAL, MODIFIED, { granularity: "word" });
+    const after = computeChangesWithPositions(
+      `Recitals.\n${ORIGINAL}`,
+      MODIFIED.replace(/\nThis agreement[^\n]*$/, ""),
+      { granularity: "word" }
+    );
+
+    expect(idsByContent(after).sent).toBe(idsByContent(before).sent);
+  });
+
+  it("should change when the edit itself changes", () => {
+    const before = computeChangesWithPositions(ORIGINAL, MODIFIED, { granularity: "word" });
+    const after = computeChangesWithPositions(
+      ORIGINAL,
+      MODIFIED.replace("sent", "delivered"),
+      { granularity: "word" }
+    );
+
+    expect(after[0].id).not.toBe(before[0].id);
+  });
+
+  it("should tell apart identical edits to identical text by their order", () => {
+    const changes = computeChangesWithPositions(
+      "Rent is due.\nRent is due.",
+      "Rent is due monthly.\nRent is due monthly.",
+      { granularity: "word" }
+    );
+
+    expect(changes).toHaveLength(2);
+    expect(changes[1].id).toBe(`${changes[0].id}-2`);
+  });
+});
+
+describe("formatting change IDs", () => {
+  it("should not change when an earlier paragraph is edited", () => {
+    const bold = (text: string) => {
+      const start = text.indexOf("writing");
+      return [{ charStart: start, charEnd: start + "writing".length, marks: [{ type: "bold" }] }];
+    };
+    const edited = ORIGINAL.replace("monthly", "quarterly");
+
+    const [before] = computeFormattingChanges(ORIGINAL, [], ORIGINAL, bold(ORIGINAL));
+    const [after] = computeFormattingChanges(ORIGINAL, [], edited, bold(edited));
+
+    expect(before.id).toMatch(/^format-[0-9a-f]{8}$/);
+    expect(after.id).toBe(before.id);
+  });
+});
+
+describe("structural change IDs", () => {
+  it("should not change when a block is added before the changed one", () => {
+    const original = doc(paragraph("Payment terms"), paragraph("Rent is due monthly."));
+    const compare = (modifiedDoc: ProseMirrorJsonNode) =>
+      computeStructuralChanges(
+        extractTextWithFormattingFromJson(original).blocks,
+        extractTextWithFormattingFromJson(modifiedDoc).blocks
+      );
+
+    const [before] = compare(doc(heading("Payment terms"), paragraph("Rent is due monthly.")));
+    const [after] = compare(
+      doc(paragraph("Definitions"), heading("Payment terms"), paragraph("Rent is due monthly."))
+    );
+
+    expect(before.id).toMatch(/^structure-[0-9a-f]{8}$/);
+    expect(after.id).toBe(before.id);
+  });
+});
+
+describe("object change IDs", () => {
+  it("should not change when an earlier paragraph is edited", () => {
+    const image = { type: "image", attrs: { src: "data:image/png;base64,bG9nbw==" } };
+    const original = extractTextWithFormattingFromJson(
+      doc(paragraph("Rent is due monthly."), paragraph("Signed"))
+    );
+    const compare = (first: string) => {
+      const modified = extractTextWithFormattingFromJson(
+        doc(paragraph(first), paragraph("Signed ", image))
+      );
+      return computeObjectChanges(
+        original.objects,
+        modified.objects,
+        original.text,
+        modified.text
+      );
+    };
+
+    const [before] = compare("Rent is due monthly.");
+    const [after] = compare("Rent is due quarterly in advance.");
+
+    expect(before.id).toMatch(/^object-[0-9a-f]{8}$/);
+    expect(after.id).toBe(before.id);
+    expect(after.charStart).not.toBe(before.charStart);
+  });
+});
+
+describe("assignStableIds", () => {
+  it("should suffix every repeat of an ID in order", () => {
+    const items = assignStableIds([{}, {}, {}], "item", () => "same");
+
+    expect(items.map((item) => item.id)).toEqual([
+      `item-${hashString("same")}`,
+      `item-${hashString("same")}-2`,
+      `item-${hashString("same")}-3`,
+    ]);
+  });
+});
+
+describe("hashString", () => {
+  it("should give 8 hex digits that depend only on the value", () => {
+    expect(hashString("")).toBe("811c9dc5");
+    expect(hashString("rent")).toBe(hashString("rent"));
+    expect(hashString("a")).not.toBe(hashString("b"));
+  });
+});
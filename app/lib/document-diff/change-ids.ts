@@ -0,0 +1,172 @@
+/**
+ * Stable Change IDs
+ *
+ * Changes used to be numbered in document order (change-0, format-3), so the
+ * same edit got a different ID whenever anything before it changed, which
+ * broke saved review decisions, comments and links. An ID is now a hash of
+ * what the change is, the text around it in its own paragraph, and its block
+ * path. A change keeps its ID when the comparison is run again and when other
+ * paragraphs are edited. Changes whose keys are the same (the same edit to
+ * the same text in two places) are told apart by their order.
+ */
+
+import type {
+  ChangeWithPosition,
+  FormattingChangeWithPosition,
+  ObjectChange,
+  StructuralChangeWithPosition,
+} from "./types";
+
+/**
+ * Characters of context on each side of a change
+ */
+const CONTEXT_LENGTH = 32;
+
+/**
+ * 32-bit FNV-1a hash of a string, as 8 hex digits
+ */
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Text on each side of a range, up to CONTEXT_LENGTH characters and without
+ * crossing a paragraph break, so edits to other paragraphs never change it
+ */
+function paragraphContext(text: string, start: number, end: number): string {
+  const before = text.slice(Math.max(0, start - CONTEXT_LENGTH), start);
+  const after = text.slice(end, end + CONTEXT_LENGTH);
+  return `${before.slice(before.lastIndexOf("\n") + 1)}|${after.split("\n")[0]}`;
+}
+
+/**
+ * Where a content change is: in body text, or in a table row or cell. The
+ * table's index is left out so adding a table before it keeps the ID.
+ */
+function blockPath(change: ChangeWithPosition): string {
+  if (!change.table) return "body";
+  const { kind, row, column } = change.table;
+  return `table/${kind}/${row ?? ""}/${column ?? ""}`;
+}
+
+/**
+ * Give each item the ID `<prefix>-<hash of its key>`. The second and later
+ * items with an ID already taken (the same key, or a hash collision) get
+ * `-2`, `-3`... in order.
+ *
+ * @param items - Items in document order (any IDs they have are replaced)
+ * @param prefix - ID prefix naming the kind of change
+ * @param key - What identifies an item: its content, context and block path
+ * @returns The items with their stable IDs
+ */
+export function assignStableIds<T extends object>(
+  items: ReadonlyArray<T>,
+  prefix: string,
+  key: (item: T, index: number) => string
+): Array<T & { id: string }> {
+  const seen = new Map<string, number>();
+
+  return items.map((item, index) => {
+    const id = `${prefix}-${hashString(key(item, index))}`;
+    const count = (seen.get(id) ?? 0) + 1;
+    seen.set(id, count);
+    return { ...item, id: count > 1 ? `${id}-${count}` : id };
+  });
+}
+
+/**
+ * Stable IDs for content changes, keyed by type, old and new content, block
+ * path and the text around the change (both ends, for a move)
+ *
+ * @param changes - Changes positioned in the modified text
+ * @param modifiedText - The modified text
+ * @returns The changes with their stable IDs
+ */
+export function withStableChangeIds(
+  changes: ReadonlyArray<ChangeWithPosition>,
+  modifiedText: string
+): ChangeWithPosition[] {
+  return assignStableIds(changes, "change", (change) =>
+    [
+      change.type,
+      change.oldContent ?? "",
+      change.content,
+      blockPath(change),
+      change.charStart !== undefined
+        ? paragraphContext(modifiedText, change.charStart, change.charEnd ?? change.charStart)
+        : "",
+      change.insertAt !== undefined
+        ? paragraphContext(modifiedText, change.insertAt, change.insertAt)
+        : "",
+    ].join("\u0000")
+  );
+}
+
+/**
+ * Stable IDs for formatting changes, keyed by type, mark and changed
+ * attributes, the formatted text and the text around it
+ *
+ * @param changes - Formatting changes positioned in the modified text
+ * @param modifiedText - The modified text
+ * @returns The changes with their stable IDs
+ */
+export function withStableFormattingIds(
+  changes: ReadonlyArray<FormattingChangeWithPosition>,
+  modifiedText: string
+): FormattingChangeWithPosition[] {
+  return assignStableIds(changes, "format", (change) =>
+    [
+      change.type,
+      change.markType,
+      JSON.stringify(change.attributes ?? change.newAttrs ?? change.oldAttrs ?? null),
+      modifiedText.slice(change.charStart, change.charEnd),
+      paragraphContext(modifiedText, change.charStart, change.charEnd),
+    ].join("\u0000")
+  );
+}
+
+/**
+ * Stable IDs for structural changes, keyed by type, old and new value and
+ * the text of the changed block
+ *
+ * @param changes - Structural changes, without IDs
+ * @param blockTexts - Text of each change's block in the modified document
+ * @returns The changes with their stable IDs
+ */
+export function withStableStructuralIds(
+  changes: ReadonlyArray<Omit<StructuralChangeWithPosition, "id">>,
+  blockTexts: ReadonlyArray<string>
+): StructuralChangeWithPosition[] {
+  return assignStableIds(changes, "structure", (change, index) =>
+    [change.type, change.oldValue ?? "", change.newValue ?? "", blockTexts[index]].join(
+      "\u0000"
+    )
+  );
+}
+
+/**
+ * Stable IDs for object changes, keyed by type, the objects' fingerprints
+ * and the text around them
+ *
+ * @param changes - Object changes positioned in the modified text, without IDs
+ * @param modifiedText - The modified text
+ * @returns The changes with their stable IDs
+ */
+export function withStableObjectIds(
+  changes: ReadonlyArray<Omit<ObjectChange, "id">>,
+  modifiedText: string
+): ObjectChange[] {
+  return assignStableIds(changes, "object", (change) =>
+    [
+      change.type,
+      change.original?.hash ?? "",
+      change.modified?.hash ?? "",
+      paragraphContext(modifiedText, change.charStart, change.charEnd),
+    ].join("\u0000")
+  );
+}
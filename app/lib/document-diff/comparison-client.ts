@@ -0,0 +1,88 @@
+/**
+ * Comparison Client
+ *
+ * Main-thread side of the comparison worker: starts a worker per comparison,
+ * forwards progress and settles with the result. Aborting the signal
+ * terminates the worker immediately, even mid-diff.
+ */
+
+import { runComparison } from "./comparison-pipeline";
+import type {
+  CompareInWorkerOptions,
+  ComparisonInput,
+  ComparisonResult,
+  ComparisonWorkerRequest,
+  ComparisonWorkerResponse,
+} from "./types";
+
+let nextRequestId = 0;
+
+/**
+ * Run the comparison pipeline in a Web Worker.
+ * Falls back to the main thread where workers are unavailable (SSR, tests).
+ *
+ * @param input - Original document JSON plus the extracted modified text
+ * @param options - Progress callback and abort signal
+ * @returns Content and formatting changes
+ */
+export function compareInWorker(
+  input: ComparisonInput,
+  options: CompareInWorkerOptions = {}
+): Promise<ComparisonResult> {
+  const { onProgress, signal } = options;
+
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  if (typeof Worker === "undefined") {
+    return Promise.resolve().then(() => runComparison(input, onProgress));
+  }
+
+  return new Promise((resolve, reject) => {
+    const requestId = nextRequestId++;
+    const worker = new Worker(
+      new URL("./comparison.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    const onAbort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+
+    worker.onmessage = (event: MessageEvent<ComparisonWorkerResponse>) => {
+      const response = event.data;
+      if (response.requestId !== requestId) return;
+
+      switch (response.type) {
+        case "progress":
+          onProgress?.(response.progress);
+          break;
+        case "result":
+          finish();
+          resolve(response.result);
+          break;
+        case "error":
+          finish();
+          reject(new Error(response.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Comparison worker failed"));
+    };
+
+    signal?.addEventListener("abort", onAbort);
+
+    const request: ComparisonWorkerRequest = { type: "compare", requestId, input };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,365 @@
+/**
+ * Comparison Pipeline - Tests
+ *
+ * The pipeline is the part of a comparison that runs in the Web Worker, so it
+ * is tested directly along with the worker message handler. In jsdom there is
+ * no Worker, so compareInWorker exercises its main-thread fallback here.
+ *
+ * @module comparison-pipeline
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  COMPARISON_STAGES,
+  handleComparisonRequest,
+  runComparison,
+} from "./comparison-pipeline";
+import { compareInWorker } from "./comparison-client";
+import {
+  computeChangesWithPositions,
+  computeFormattingChanges,
+} from "./diff-computation";
+import { extractTextWithFormattingFromJson } from "./text-extraction";
+import type {
+  ComparisonInput,
+  ComparisonProgress,
+  ComparisonWorkerResponse,
+  DiffGranularity,
+  DocumentPart,
+  ProseMirrorJsonNode,
+} from "./types";
+
+const ORIGINAL_JSON: ProseMirrorJsonNode = {
+  type: "doc",
+  content: [
+    {
+      type: "paragraph",
+      content: [{ type: "text", text: "The tenant pays rent monthly." }],
+    },
+    {
+      type: "paragraph",
+      content: [
+        { type: "text", text: "Notices", marks: [{ type: "bold" }] },
+        { type: "text", text: " must be in writing." },
+      ],
+    },
+  ],
+};
+
+const MODIFIED_TEXT = "The tenant pays rent quarterly.\nNotices must be in writing.";
+
+const INPUT: ComparisonInput = {
+  originalJson: ORIGINAL_JSON,
+  modifiedText: MODIFIED_TEXT,
+  modifiedFormatting: [],
+  options: { granularity: "word" },
+};
+
+describe("runComparison", () => {
+  it("should return the same changes as calling the diff functions directly", () => {
+    const originalText = "The tenant pays rent monthly.\nNotices must be in writing.";
+
+    const result = runComparison(INPUT);
+
+    expect(result.changes).toEqual(
+      computeChangesWithPositions(originalText, MODIFIED_TEXT, { granularity: "word" })
+    );
+    expect(result.changes).toEqual([
+      expect.objectContaining({ type: "replacement", oldContent: "monthly", content: "quarterly" }),
+    ]);
+    expect(result.formattingChanges).toEqual(
+      computeFormattingChanges(
+        originalText,
+        [{ charStart: 30, charEnd: 37, marks: [{ type: "bold" }] }],
+        MODIFIED_TEXT,
+        []
+      )
+    );
+    expect(result.formattingChanges).toHaveLength(1);
+  });
+
+  it("should diff tables cell by cell when the modified tables are given", () => {
+    const tableDoc = (price: string): ProseMirrorJsonNode => ({
+      type: "doc",
+      content: [
+        {
+          type: "table",
+          content: [
+            {
+              type: "tableRow",
+              content: ["Rent", price].map((text) => ({
+                type: "tableCell",
+                content: [{ type: "paragraph", content: [{ type: "text", text }] }],
+              })),
+            },
+          ],
+        },
+      ],
+    });
+    const modified = extractTextWithFormattingFromJson(tableDoc("950"));
+
+    const result = runComparison({
+      originalJson: tableDoc("900"),
+      modifiedText: modified.text,
+      modifiedFormatting: [],
+      modifiedTables: modified.tables,
+      options: { granularity: "word" },
+    });
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        oldContent: "900",
+        content: "950",
+        table: { tableIndex: 0, kind: "cellChanged", row: 0, column: 1 },
+      }),
+    ]);
+  });
+
+  it("should compare block structure when the modified blocks are given", () => {
+    const modified = extractTextWithFormattingFromJson({
+      type: "doc",
+      content: [
+        {
+          type: "heading",
+          attrs: { level: 1 },
+          content: [{ type: "text", text: "The tenant pays rent monthly." }],
+        },
+        ORIGINAL_JSON.content![1],
+      ],
+    });
+
+    const withBlocks = runComparison({
+      ...INPUT,
+      modifiedText: modified.text,
+      modifiedBlocks: modified.blocks,
+    });
+    const withoutBlocks = runComparison({ ...INPUT, modifiedText: modified.text });
+
+    expect(withBlocks.structuralChanges).toEqual([
+      expect.objectContaining({ type: "blockType", oldValue: "Paragraph", newValue: "Heading 1" }),
+    ]);
+    expect(withoutBlocks.structuralChanges).toEqual([]);
+  });
+
+  it("should compare objects when the modified objects are given, resolving original media", () => {
+    const withLogo = (src: string): ProseMirrorJsonNode => ({
+      type: "doc",
+      content: [
+        ...ORIGINAL_JSON.content!,
+        { type: "paragraph", content: [{ type: "image", attrs: { src } }] },
+      ],
+    });
+    const modified = extractTextWithFormattingFromJson(
+      withLogo("data:image/png;base64,bmV3")
+    );
+    const input: ComparisonInput = {
+      ...INPUT,
+      originalJson: withLogo("word/media/image1.png"),
+      modifiedText: modified.text,
+    };
+
+    const sameMedia = runComparison({
+      ...input,
+      modifiedObjects: modified.objects,
+      originalMedia: { "word/media/image1.png": "data:image/png;base64,bmV3" },
+    });
+    const otherMedia = runComparison({
+      ...input,
+      modifiedObjects: modified.objects,
+      originalMedia: { "word/media/image1.png": "data:image/png;base64,b2xk" },
+    });
+
+    expect(sameMedia.objectChanges).toEqual([]);
+    expect(otherMedia.objectChanges).toEqual([
+      expect.objectContaining({ type: "objectReplaced" }),
+    ]);
+    expect(runComparison(input).objectChanges).toEqual([]);
+  });
+
+  it("should diff document parts only when both documents' parts are passed", () => {
+    const footer = (text: string): DocumentPart => ({
+      id: "footer-1",
+      kind: "footer",
+      name: "Footer 1",
+      sourceId: "rId9",
+      json: { type: "doc", content: [{ type: "paragraph", content: [{ type: "text", text }] }] },
+    });
+
+    const withParts = runComparison({
+      ...INPUT,
+      originalParts: [footer("Confidential")],
+      modifiedParts: [footer("Strictly Confidential")],
+    });
+    const withoutParts = runComparison(INPUT);
+
+    expect(withParts.partChanges).toEqual([
+      {
+        part: { id: "footer-1", kind: "footer", name: "Footer 1", sourceId: "rId9" },
+        changes: [expect.objectContaining({ id: expect.stringMatching(/^footer-1-change-[0-9a-f]{8}$/), type: "insertion" })],
+      },
+    ]);
+    expect(withParts.changes).toEqual(withoutParts.changes);
+    expect(withoutParts.partChanges).toEqual([]);
+  });
+
+  it("should resolve revisions in the original document and the parts", () => {
+    const pending = (kept: string, inserted: string): ProseMirrorJsonNode => ({
+      type: "doc",
+      content: [
+        {
+          type: "paragraph",
+          content: [
+            { type: "text", text: kept },
+            { type: "text", text: inserted, marks: [{ type: "trackInsert", attrs: { id: "1" } }] },
+          ],
+        },
+      ],
+    });
+    const footer = (json: ProseMirrorJsonNode): DocumentPart => ({
+      id: "footer-1",
+      kind: "footer",
+      name: "Footer 1",
+      sourceId: "rId9",
+      json,
+    });
+    const input: ComparisonInput = {
+      ...INPUT,
+      originalJson: pending("Rent is due", " monthly"),
+      modifiedText: "Rent is due monthly",
+      originalParts: [footer(pending("Confidential", " draft"))],
+      modifiedParts: [footer(pending("Confidential", ""))],
+    };
+
+    const accepted = runComparison({ ...input, revisionView: "accepted" });
+    const rejected = runComparison({ ...input, revisionView: "rejected" });
+
+    expect(accepted.changes).toEqual([]);
+    expect(accepted.partChanges).toEqual([
+      expect.objectContaining({
+        changes: [expect.objectContaining({ type: "deletion", content: "draft" })],
+      }),
+    ]);
+    expect(rejected.changes).toEqual([
+      expect.objectContaining({ type: "insertion", content: "monthly" }),
+    ]);
+    expect(rejected.partChanges).toEqual([]);
+    expect(runComparison(input).changes).toEqual(accepted.changes);
+  });
+
+  it("should report only untracked edits when detecting stealth edits", () => {
+    const modified = extractTextWithFormattingFromJson({
+      type: "doc",
+      content: [
+        {
+          type: "paragraph",
+          content: [
+            { type: "text", text: "The tenant pays rent " },
+            { type: "text", text: "monthly", marks: [{ type: "trackDelete", attrs: { id: "1" } }] },
+            { type: "text", text: "quarterly", marks: [{ type: "trackInsert", attrs: { id: "2" } }] },
+            { type: "text", text: "." },
+          ],
+        },
+        {
+          type: "paragraph",
+          content: [{ type: "text", text: "Notices may be oral." }],
+        },
+      ],
+    });
+    const input: ComparisonInput = {
+      ...INPUT,
+      modifiedText: modified.text,
+      modifiedRevisions: modified.revisions,
+      detectStealthEdits: true,
+    };
+
+    const result = runComparison(input);
+
+    expect(result.changes.map((c) => [c.type, c.oldContent, c.content, c.untracked])).toEqual([
+      ["replacement", "must", "may", true],
+      ["replacement", "in writing", "oral", true],
+    ]);
+  });
+
+  it("should attribute changes to the versions when given", () => {
+    const result = runComparison({
+      ...INPUT,
+      modifiedText: "The tenant pays rent quarterly.\nNotices must be sent in writing.",
+      versions: [
+        { name: "v1.docx", text: "" },
+        { name: "v2.docx", text: "The tenant pays rent quarterly.\nNotices must be in writing." },
+        { name: "v3.docx", text: "" },
+      ],
+    });
+
+    expect(result.changes.map((c) => [c.content, c.attribution?.user.name])).toEqual([
+      ["quarterly", "v2.docx"],
+      ["sent", "v3.docx"],
+    ]);
+    expect(runComparison(INPUT).changes[0].attribution).toBeUndefined();
+  });
+
+  it("should report each stage in order", () => {
+    const progress: ComparisonProgress[] = [];
+
+    runComparison(INPUT, (p) => progress.push(p));
+
+    expect(progress).toEqual(
+      COMPARISON_STAGES.map((stage, completed) => ({ stage, completed, total: 6 }))
+    );
+  });
+});
+
+describe("handleComparisonRequest", () => {
+  it("should post progress messages followed by the result", () => {
+    const posted: ComparisonWorkerResponse[] = [];
+
+    handleComparisonRequest({ type: "compare", requestId: 7, input: INPUT }, (r) =>
+      posted.push(r)
+    );
+
+    expect(posted.map((r) => r.type)).toEqual([
+      "progress",
+      "progress",
+      "progress",
+      "progress",
+      "progress",
+      "progress",
+      "result",
+    ]);
+    expect(posted.every((r) => r.requestId === 7)).toBe(true);
+    const last = posted[posted.length - 1];
+    expect(last.type === "result" && last.result.changes).toHaveLength(1);
+  });
+
+  it("should post an error instead of throwing", () => {
+    const posted: ComparisonWorkerResponse[] = [];
+    const input: ComparisonInput = {
+      ...INPUT,
+      options: { granularity: "letter" as DiffGranularity },
+    };
+
+    handleComparisonRequest({ type: "compare", requestId: 1, input }, (r) => posted.push(r));
+
+    expect(posted[posted.length - 1]).toMatchObject({ type: "error", requestId: 1 });
+  });
+});
+
+describe("compareInWorker", () => {
+  it("should fall back to the main thread without Worker support", async () => {
+    const progress: ComparisonProgress[] = [];
+
+    const result = await compareInWorker(INPUT, { onProgress: (p) => progress.push(p) });
+
+    expect(result).toEqual(runComparison(INPUT));
+    expect(progress).toHaveLength(COMPARISON_STAGES.length);
+  });
+
+  it("should reject when cancelled before starting", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("reset"));
+
+    await expect(compareInWorker(INPUT, { signal: controller.signal })).rejects.toThrow(
+      "reset"
+    );
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Comparison Pipeline
+ *
+ * The pure part of a document comparison: resolve revisions already in the
+ * inputs, extract the original document, diff its text against the modified
+ * text (or find only the untracked edits) and attribute the changes to the
+ * versions in between, then diff formatting, block
+ * structure, images and objects, and the headers, footers and notes. Nothing
+ * here touches the DOM or an editor, so it runs unchanged inside a Web Worker
+ * (see comparison.worker.ts) or on the main thread.
+ */
+
+import {
+  computeChangesWithPositions,
+  computeFormattingChanges,
+} from "./diff-computation";
+import { compareDocumentParts } from "./document-parts";
+import { computeObjectChanges } from "./object-diff";
+import { resolveRevisionsInJson } from "./revisions";
+import { detectStealthEdits } from "./stealth-edits";
+import { computeStructuralChanges } from "./structure-diff";
+import { extractTextWithFormattingFromJson } from "./text-extraction";
+import { attributeChanges } from "./version-history";
+import type {
+  ComparisonInput,
+  ComparisonProgress,
+  ComparisonResult,
+  ComparisonStage,
+  ComparisonWorkerRequest,
+  ComparisonWorkerResponse,
+  DocumentPart,
+  RevisionView,
+  VersionSnapshot,
+} from "./types";
+
+/**
+ * Pipeline stages in execution order
+ */
+export const COMPARISON_STAGES: ReadonlyArray<ComparisonStage> = [
+  "extracting",
+  "diffing",
+  "formatting",
+  "structure",
+  "objects",
+  "parts",
+];
+
+/**
+ * Run the comparison pipeline.
+ *
+ * @param input - Original document JSON plus the extracted modified text
+ * @param onProgress - Called as each stage starts
+ * @returns Content, formatting, structural and object changes, and changes per document part
+ */
+export function runComparison(
+  input: ComparisonInput,
+  onProgress?: (progress: ComparisonProgress) => void
+): ComparisonResult {
+  const report = (stage: ComparisonStage) =>
+    onProgress?.({
+      stage,
+      completed: COMPARISON_STAGES.indexOf(stage),
+      total: COMPARISON_STAGES.length,
+    });
+
+  report("extracting");
+  const revisionView = input.revisionView ?? "asIs";
+  const original = extractTextWithFormattingFromJson(
+    resolveRevisionsInJson(input.originalJson, revisionView),
+    input.originalMedia
+  );
+
+  report("diffing");
+  const diffed = input.detectStealthEdits
+    ? detectStealthEdits(
+        original.text,
+        input.modifiedText,
+        input.modifiedRevisions ?? [],
+        input.options
+      )
+    : computeChangesWithPositions(
+        original.text,
+        input.modifiedText,
+        input.modifiedTables
+          ? {
+              ...input.options,
+              tables: { original: original.tables, modified: input.modifiedTables },
+            }
+          : input.options
+      );
+  const changes = input.versions
+    ? attributeChanges(
+        diffed,
+        withComparedTexts(input.versions, original.text, input.modifiedText)
+      )
+    : diffed;
+
+  report("formatting");
+  const formattingChanges = computeFormattingChanges(
+    original.text,
+    original.formatting,
+    input.modifiedText,
+    input.modifiedFormatting
+  );
+
+  report("structure");
+  const structuralChanges = input.modifiedBlocks
+    ? computeStructuralChanges(original.blocks, input.modifiedBlocks)
+    : [];
+
+  report("objects");
+  const objectChanges = input.modifiedObjects
+    ? computeObjectChanges(
+        original.objects,
+        input.modifiedObjects,
+        original.text,
+        input.modifiedText
+      )
+    : [];
+
+  report("parts");
+  const partChanges =
+    input.originalParts && input.modifiedParts
+      ? compareDocumentParts(
+          resolvePartRevisions(input.originalParts, revisionView),
+          resolvePartRevisions(
+            input.modifiedParts,
+            input.detectStealthEdits ? "rejected" : revisionView
+          ),
+          input.options
+        )
+      : [];
+
+  return {
+    changes,
+    formattingChanges,
+    structuralChanges,
+    objectChanges,
+    partChanges: input.detectStealthEdits
+      ? partChanges.map((p) => ({
+          ...p,
+          changes: p.changes.map((c) => ({ ...c, untracked: true })),
+        }))
+      : partChanges,
+  };
+}
+
+/**
+ * Versions whose first and last texts are the texts that were compared
+ */
+function withComparedTexts(
+  versions: ReadonlyArray<VersionSnapshot>,
+  originalText: string,
+  modifiedText: string
+): VersionSnapshot[] {
+  const last = versions.length - 1;
+  return versions.map((version, i) => {
+    if (i === 0) return { ...version, text: originalText };
+    if (i === last) return { ...version, text: modifiedText };
+    return version;
+  });
+}
+
+function resolvePartRevisions(
+  parts: ReadonlyArray<DocumentPart>,
+  view: RevisionView
+): DocumentPart[] {
+  return parts.map((part) => ({ ...part, json: resolveRevisionsInJson(part.json, view) }));
+}
+
+/**
+ * Handle one worker request, posting progress and then a result or an error.
+ *
+ * @param request - Message received by the worker
+ * @param post - Sends a response back to the main thread
+ */
+export function handleComparisonRequest(
+  request: ComparisonWorkerRequest,
+  post: (response: ComparisonWorkerResponse) => void
+): void {
+  const { requestId } = request;
+
+  try {
+    const result = runComparison(request.input, (progress) =>
+      post({ type: "progress", requestId, progress })
+    );
+    post({ type: "result", requestId, result });
+  } catch (error) {
+    post({
+      type: "error",
+      requestId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Comparison Web Worker
+ *
+ * Runs the comparison pipeline off the main thread. Protocol:
+ * - receives ComparisonWorkerRequest ("compare")
+ * - posts ComparisonWorkerResponse ("progress"* then "result" or "error")
+ *
+ * Cancelling is done by terminating the worker (see comparison-client.ts).
+ */
+
+import { handleComparisonRequest } from "./comparison-pipeline";
+import type { ComparisonWorkerRequest, ComparisonWorkerResponse } from "./types";
+
+/**
+ * The parts of DedicatedWorkerGlobalScope used here (the "webworker" lib
+ * conflicts with "dom", which the rest of the app needs)
+ */
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<ComparisonWorkerRequest>) => void) | null;
+  postMessage(message: ComparisonWorkerResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = (event) => {
+  handleComparisonRequest(event.data, (response) => scope.postMessage(response));
+};
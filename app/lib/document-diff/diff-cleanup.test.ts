@@ -0,0 +1,127 @@
+/**
+ * Unit tests for diff cleanup utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import { diffChars, type Change as DiffChange } from "diff";
+import { cleanupSemantic } from "./diff-cleanup";
+import { computeChangeResult, computeChangesWithPositions } from "./diff-computation";
+
+/**
+ * Render diff parts as a compact string: [-removed-]{+added+}
+ */
+function render(diffs: DiffChange[]): string {
+  return diffs
+    .map((d) => (d.removed ? `[-${d.value}-]` : d.added ? `{+${d.value}+}` : d.value))
+    .join("");
+}
+
+/**
+ * Rebuild the original and modified texts from diff parts
+ */
+function sides(diffs: DiffChange[]): { original: string; modified: string } {
+  return {
+    original: diffs.filter((d) => !d.added).map((d) => d.value).join(""),
+    modified: diffs.filter((d) => !d.removed).map((d) => d.value).join(""),
+  };
+}
+
+describe("cleanupSemantic", () => {
+  it("should merge character islands inside a single word", () => {
+    const raw = diffChars("cantract", "contact");
+
+    const { diffs, mergedCount } = cleanupSemantic(raw);
+
+    expect(render(diffs)).toBe("[-cantract-]{+contact+}");
+    expect(mergedCount).toBe(raw.length - 2);
+  });
+
+  it("should absorb equalities shorter than the edits around them", () => {
+    const raw = diffChars("The quick brown fox", "The fast brown dog");
+
+    const { diffs } = cleanupSemantic(raw);
+
+    expect(render(diffs)).toBe("The [-quick-]{+fast+} brown [-fox-]{+dog+}");
+  });
+
+  it("should keep both texts reconstructible", () => {
+    const original = "The tenant shall pay rent monthly in advance.";
+    const modified = "The lessee must pay the rent quarterly in arrears.";
+
+    const { diffs } = cleanupSemantic(diffChars(original, modified));
+
+    expect(sides(diffs)).toEqual({ original, modified });
+  });
+
+  it("should not merge across paragraph boundaries", () => {
+    const raw = diffChars("ab\ncd", "xy\nzw");
+
+    const { diffs } = cleanupSemantic(raw);
+
+    expect(diffs.some((d) => !d.added && !d.removed && d.value === "\n")).toBe(true);
+  });
+
+  it("should leave clean diffs untouched and report zero merges", () => {
+    const raw = diffChars("Hello world", "Hello beautiful world");
+
+    const { diffs, mergedCount } = cleanupSemantic(raw);
+
+    expect(render(diffs)).toBe("Hello {+beautiful +}world");
+    expect(mergedCount).toBe(0);
+  });
+
+  it("should handle empty input", () => {
+    expect(cleanupSemantic([])).toEqual({ diffs: [], mergedCount: 0 });
+  });
+});
+
+describe("computeChangesWithPositions with semanticCleanup", () => {
+  it("should report a fragmented word edit as one replacement", () => {
+    const changes = computeChangesWithPositions(
+      "The cantract is signed",
+      "The contact is signed",
+      { semanticCleanup: true }
+    );
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      type: "replacement",
+      oldContent: "cantract",
+      content: "contact",
+      charStart: 4,
+      charEnd: 11,
+    });
+  });
+
+  it("should produce fewer changes than the raw character diff", () => {
+    const original = "Payment is due within thirty days of invoice.";
+    const modified = "Payment is owed within sixty days of receipt.";
+
+    const raw = computeChangesWithPositions(original, modified);
+    const cleaned = computeChangesWithPositions(original, modified, {
+      semanticCleanup: true,
+    });
+
+    expect(cleaned.length).toBeLessThan(raw.length);
+    for (const change of cleaned) {
+      expect(modified.slice(change.charStart, change.charEnd)).toBe(change.content);
+    }
+  });
+});
+
+describe("computeChangeResult", () => {
+  it("should report how many raw diff parts the cleanup merged", () => {
+    const original = "The cantract is signed";
+    const modified = "The contact is signed";
+    const raw = diffChars(original, modified);
+
+    const cleaned = computeChangeResult(original, modified, { semanticCleanup: true });
+
+    expect(cleaned.changes).toEqual(
+      computeChangesWithPositions(original, modified, { semanticCleanup: true })
+    );
+    // "The ", the replacement's two parts and " is signed" are left
+    expect(cleaned.mergedCount).toBe(raw.length - 4);
+    expect(computeChangeResult(original, modified).mergedCount).toBe(0);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Diff Cleanup Utilities
+ *
+ * Post-processing for raw diffs, modelled on diff-match-patch's semantic cleanup.
+ * Short unchanged islands between edits are absorbed into the surrounding edits
+ * so one logical edit is reported as one change instead of several fragments.
+ */
+
+import type { Change as DiffChange } from "diff";
+import type { SemanticCleanupResult } from "./types";
+
+/**
+ * Longest run of word characters treated as an island inside a single word
+ */
+const MAX_WORD_ISLAND_LENGTH = 3;
+
+/**
+ * Word characters used to detect edits that start or end mid-word
+ */
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+const LEADING_WORD_CHARS = /^[\p{L}\p{N}]+/u;
+const TRAILING_WORD_CHARS = /[\p{L}\p{N}]+$/u;
+
+/**
+ * Internal diff representation: -1 removed, 0 equal, 1 added
+ */
+interface Segment {
+  op: -1 | 0 | 1;
+  text: string;
+  count: number;
+}
+
+/**
+ * Merge fragmented edits in a raw diff into readable changes.
+ *
+ * Three passes run until nothing changes:
+ * 1. Semantic elimination - an equality no longer than the edits on both of
+ *    its sides is turned into a deletion plus insertion.
+ * 2. Word islands - a few word characters stranded between two edits inside
+ *    the same word are absorbed ("c[a→o]nt[r→]act").
+ * 3. Word alignment - replacements that start or end mid-word are widened to
+ *    the whole word.
+ *
+ * Equalities containing a newline are never absorbed so edits don't merge
+ * across block boundaries.
+ *
+ * @param diffs - Raw diff parts from computeRawDiff
+ * @returns Cleaned diff parts and how many raw parts were merged away
+ */
+export function cleanupSemantic(diffs: DiffChange[]): SemanticCleanupResult {
+  let segments = consolidate(diffs.map(toSegment));
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (let i = 1; i < segments.length - 1; i++) {
+      const segment = segments[i];
+      if (segment.op !== 0 || segment.text.includes("\n")) continue;
+
+      const before = editLengths(segments, i, -1);
+      const after = editLengths(segments, i, 1);
+      if (!before || !after) continue;
+
+      const length = segment.text.length;
+      const isSemanticNoise =
+        length <= Math.max(before.removed, before.added) &&
+        length <= Math.max(after.removed, after.added);
+      const isWordIsland =
+        length <= MAX_WORD_ISLAND_LENGTH &&
+        LEADING_WORD_CHARS.exec(segment.text)?.[0] === segment.text &&
+        before.endsInWord &&
+        after.startsInWord;
+
+      if (isSemanticNoise || isWordIsland) {
+        segments.splice(
+          i,
+          1,
+          { op: -1, text: segment.text, count: segment.count },
+          { op: 1, text: segment.text, count: segment.count }
+        );
+        segments = consolidate(segments);
+        changed = true;
+        break;
+      }
+    }
+  }
+
+  segments = consolidate(alignReplacementsToWords(segments));
+
+  return {
+    diffs: segments.map(fromSegment),
+    mergedCount: Math.max(0, diffs.length - segments.length),
+  };
+}
+
+function toSegment(diff: DiffChange): Segment {
+  return {
+    op: diff.removed ? -1 : diff.added ? 1 : 0,
+    text: diff.value,
+    count: diff.count ?? diff.value.length,
+  };
+}
+
+function fromSegment(segment: Segment): DiffChange {
+  return {
+    value: segment.text,
+    added: segment.op === 1,
+    removed: segment.op === -1,
+    count: segment.count,
+  };
+}
+
+/**
+ * Combine edits between equalities into a single removal followed by a single
+ * addition, merge adjacent equalities and drop empty segments.
+ */
+function consolidate(segments: Segment[]): Segment[] {
+  const result: Segment[] = [];
+  const pending: { removed?: Segment; added?: Segment } = {};
+
+  const append = (target: Segment | undefined, segment: Segment): Segment =>
+    target
+      ? { ...target, text: target.text + segment.text, count: target.count + segment.count }
+      : { ...segment };
+
+  const flushEdits = () => {
+    if (pending.removed) result.push(pending.removed);
+    if (pending.added) result.push(pending.added);
+    pending.removed = undefined;
+    pending.added = undefined;
+  };
+
+  for (const segment of segments) {
+    if (!segment.text) continue;
+
+    if (segment.op === -1) {
+      pending.removed = append(pending.removed, segment);
+    } else if (segment.op === 1) {
+      pending.added = append(pending.added, segment);
+    } else {
+      flushEdits();
+      const last = result[result.length - 1];
+      if (last && last.op === 0) {
+        result[result.length - 1] = append(last, segment);
+      } else {
+        result.push({ ...segment });
+      }
+    }
+  }
+
+  flushEdits();
+  return result;
+}
+
+/**
+ * Measure the edit group directly before (direction -1) or after (direction 1)
+ * the equality at index. Returns null when there is no edit on that side.
+ */
+function editLengths(
+  segments: Segment[],
+  index: number,
+  direction: -1 | 1
+): { removed: number; added: number; startsInWord: boolean; endsInWord: boolean } | null {
+  let removed = 0;
+  let added = 0;
+  let startsInWord = false;
+  let endsInWord = false;
+
+  for (
+    let j = index + direction;
+    j >= 0 && j < segments.length && segments[j].op !== 0;
+    j += direction
+  ) {
+    const { op, text } = segments[j];
+    if (op === -1) removed += text.length;
+    else added += text.length;
+    startsInWord ||= WORD_CHAR.test(text[0]);
+    endsInWord ||= WORD_CHAR.test(text[text.length - 1]);
+  }
+
+  return removed + added > 0 ? { removed, added, startsInWord, endsInWord } : null;
+}
+
+/**
+ * Widen replacements (removal + addition) that begin or end inside a word so
+ * they cover the whole word, borrowing characters from the neighbouring
+ * equalities.
+ */
+function alignReplacementsToWords(segments: Segment[]): Segment[] {
+  const result = segments.map((s) => ({ ...s }));
+
+  for (let i = 0; i < result.length - 1; i++) {
+    const removed = result[i];
+    const added = result[i + 1];
+    if (removed.op !== -1 || added.op !== 1) continue;
+
+    const prev = result[i - 1];
+    if (prev && prev.op === 0) {
+      const partial = TRAILING_WORD_CHARS.exec(prev.text)?.[0];
+      if (partial && (WORD_CHAR.test(removed.text[0]) || WORD_CHAR.test(added.text[0]))) {
+        prev.text = prev.text.slice(0, -partial.length);
+        removed.text = partial + removed.text;
+        added.text = partial + added.text;
+      }
+    }
+
+    const next = result[i + 2];
+    if (next && next.op === 0) {
+      const partial = LEADING_WORD_CHARS.exec(next.text)?.[0];
+      const lastRemoved = removed.text[removed.text.length - 1];
+      const lastAdded = added.text[added.text.length - 1];
+      if (partial && (WORD_CHAR.test(lastRemoved) || WORD_CHAR.test(lastAdded))) {
+        next.text = next.text.slice(partial.length);
+        removed.text = removed.text + partial;
+        added.text = added.text + partial;
+      }
+    }
+  }
+
+  return result;
+}
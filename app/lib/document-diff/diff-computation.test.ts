@@ -6,6 +6,7 @@ import { describe, it, expect } from "vitest";
 import {
   computeChangesWithPositions,
   computeDiffSummary,
+  computeRawDiff,
   hasSufficientContext,
   getDeletionSearchContext,
   filterChangesByType,
@@ -220,6 +221,87 @@ describe("computeChangesWithPositions", () => {
       expect(changes.length).toBeGreaterThanOrEqual(1);
     });
   });
+
+  describe("granularity", () => {
+    const original = "The cat sat on the mat. It was happy.\nSecond para here.";
+    const modified = "The dog stood on the rug. It was happy.\nSecond paragraph here.";
+
+    it("should default to character granularity", () => {
+      const changes = computeChangesWithPositions("Hello cat", "Hello dog");
+
+      expect(changes[0].granularity).toBe("character");
+    });
+
+    it("should report a reworded phrase as one replacement at word granularity", () => {
+      const changes = computeChangesWithPositions(original, modified, {
+        granularity: "word",
+      });
+
+      expect(changes[0]).toMatchObject({
+        type: "replacement",
+        oldContent: "cat sat",
+        content: "dog stood",
+        granularity: "word",
+      });
+      expect(changes.map((c) => c.content)).toEqual([
+        "dog stood",
+        "rug",
+        "paragraph",
+      ]);
+    });
+
+    it("should compare whole sentences at sentence granularity", () => {
+      const changes = computeChangesWithPositions(original, modified, {
+        granularity: "sentence",
+      });
+
+      expect(changes).toHaveLength(2);
+      expect(changes[0].oldContent).toBe("The cat sat on the mat.");
+      expect(changes[0].content).toBe("The dog stood on the rug.");
+      expect(changes[1].content).toBe("Second paragraph here.");
+    });
+
+    it("should compare whole paragraphs at paragraph granularity", () => {
+      const changes = computeChangesWithPositions(
+        "First\nSecond\nThird",
+        "First\nSecond changed\nThird",
+        { granularity: "paragraph" }
+      );
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({
+        type: "replacement",
+        oldContent: "Second",
+        content: "Second changed",
+      });
+    });
+
+    it("should track positions in the modified text at every granularity", () => {
+      for (const granularity of ["character", "word", "sentence", "paragraph"] as const) {
+        const changes = computeChangesWithPositions(original, modified, {
+          granularity,
+        });
+
+        for (const change of changes.filter((c) => c.charStart !== undefined)) {
+          expect(modified.slice(change.charStart, change.charEnd)).toBe(
+            change.content
+          );
+        }
+      }
+    });
+  });
+});
+
+describe("computeRawDiff", () => {
+  it("should return equal, removed and added runs", () => {
+    const diffs = computeRawDiff("Hello cat", "Hello dog", "word");
+
+    expect(diffs.map((d) => [d.value, d.added, d.removed])).toEqual([
+      ["Hello ", false, false],
+      ["cat", false, true],
+      ["dog", true, false],
+    ]);
+  });
 });
 
 describe("computeDiffSummary", () => {
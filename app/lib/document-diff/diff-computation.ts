@@ -1,18 +1,44 @@
 /**
  * Diff Computation Utilities
  *
- * Functions for computing character-level diffs between documents
- * with position tracking for accurate document modifications.
+ * Functions for computing character-, word-, sentence- and paragraph-level
+ * diffs between documents with position tracking for accurate document
+ * modifications.
  */
 
-import { diffChars, type Change as DiffChange } from "diff";
+import {
+  diffLines,
+  diffSentences,
+  type Change as DiffChange,
+} from "diff";
+import { diffByBlocks } from "./block-alignment";
+import { withStableChangeIds, withStableFormattingIds } from "./change-ids";
+import { cleanupSemantic } from "./diff-cleanup";
+import { applyIgnoreRules } from "./ignore-rules";
+import { alignDiffToGraphemes, diffGraphemes, diffGraphemeWords } from "./graphemes";
+import { detectMoves } from "./move-detection";
+import { OBJECT_PLACEHOLDER } from "./object-diff";
+import { detectParagraphBoundaryChanges } from "./paragraph-boundaries";
+import { diffTable, maskTables, pairTables } from "./table-diff";
 import { extractContext } from "./text-extraction";
+import {
+  hasNormalization,
+  mapDiffToSource,
+  normalizeText,
+} from "./text-normalization";
 import type {
+  ChangeComputationResult,
   ChangeWithPosition,
+  DiffGranularity,
+  DiffOptions,
   DiffSummary,
+  FormattingAttributeChange,
   FormattingChangeWithPosition,
   FormattingSpan,
+  MaskedText,
+  ObjectChange,
   ProseMirrorMark,
+  StructuralChangeWithPosition,
 } from "./types";
 
 /**
@@ -26,21 +52,139 @@ const DEFAULT_CONTEXT_LENGTH = 30;
 const MIN_CONTEXT_LENGTH = 5;
 
 /**
- * Compute character-level changes between two texts with position tracking.
+ * Diff function used for each granularity.
+ * Paragraphs are separated by newlines in extracted text, so they map to a line diff.
+ */
+const GRANULARITY_DIFFS: Record<
+  DiffGranularity,
+  (originalText: string, modifiedText: string) => DiffChange[]
+> = {
+  character: (a, b) => diffGraphemes(a, b),
+  word: (a, b) => diffGraphemeWords(a, b),
+  sentence: (a, b) => diffSentences(a, b),
+  paragraph: (a, b) => diffLines(a, b),
+};
+
+/**
+ * Run the raw diff between two texts at the requested granularity.
+ * Characters and words are compared as whole grapheme clusters, and no part
+ * boundary falls inside a cluster at any granularity (see
+ * `alignDiffToGraphemes`).
  *
- * This function performs a character-level diff and tracks:
+ * @param originalText - The original (older) text
+ * @param modifiedText - The modified (newer) text
+ * @param granularity - Unit of comparison (default: "character")
+ * @returns Raw diff parts (equal, removed and added runs)
+ */
+export function computeRawDiff(
+  originalText: string,
+  modifiedText: string,
+  granularity: DiffGranularity = "character"
+): DiffChange[] {
+  const diffs = GRANULARITY_DIFFS[granularity](originalText, modifiedText);
+  return granularity === "character" ? diffs : alignDiffToGraphemes(diffs);
+}
+
+/**
+ * Compute changes between two texts with position tracking.
+ *
+ * This function performs a diff at the requested granularity and tracks:
  * - For insertions/replacements: exact character positions in modified text
  * - For deletions: position where deleted content should be inserted, plus context
  *
+ * Coarser granularities (word, sentence, paragraph) turn a reworded phrase into
+ * a single replacement instead of many small character edits. With
+ * `semanticCleanup`, fragmented edits are merged before changes are created.
+ * With `detectMoves`, deleted text re-inserted elsewhere becomes a single move.
+ *
+ * Paragraphs are aligned first and only changed paragraphs are diffed at the
+ * requested granularity (see `diffByBlocks`). Set `blockAlignment: false` to
+ * diff the whole texts in one pass instead.
+ *
+ * With `comparison` options, both texts are normalized before diffing (see
+ * `normalizeText`) and the diff is mapped back onto the source texts, so
+ * positions and content always refer to the unnormalized modified text.
+ *
+ * With `tables`, each table is masked out of the text diff and tables found
+ * in both texts are compared cell by cell (see `diffTable`); their changes
+ * carry a `table` location. Inserted and deleted tables are ordinary text
+ * changes.
+ *
+ * Paragraphs split in two or joined into one are reported as "split" and
+ * "merge" changes whatever the granularity (see
+ * `detectParagraphBoundaryChanges`); the whitespace-only edits behind them
+ * are not reported as text changes.
+ *
+ * With `ignoreRules`, changes fully covered by a rule's regex are tagged with
+ * `ignoredBy` or dropped (see `applyIgnoreRules`).
+ *
+ * Change IDs are stable: derived from the change and its surroundings rather
+ * than its position in the list (see `withStableChangeIds`).
+ *
  * @param originalText - The original (older) text
  * @param modifiedText - The modified (newer) text
+ * @param options - Diff options (granularity, cleanup, moves, alignment, comparison, tables, ignore rules)
  * @returns Array of changes with position information
  */
 export function computeChangesWithPositions(
   originalText: string,
-  modifiedText: string
+  modifiedText: string,
+  options: DiffOptions = {}
 ): ChangeWithPosition[] {
-  const diffs = diffChars(originalText, modifiedText);
+  return computeChangeResult(originalText, modifiedText, options).changes;
+}
+
+/**
+ * Compute changes like `computeChangesWithPositions`, also reporting how many
+ * raw diff parts the semantic cleanup merged away.
+ *
+ * @param originalText - The original (older) text
+ * @param modifiedText - The modified (newer) text
+ * @param options - Diff options, as for computeChangesWithPositions
+ * @returns Changes with position information and the cleanup's merged count
+ */
+export function computeChangeResult(
+  originalText: string,
+  modifiedText: string,
+  options: DiffOptions = {}
+): ChangeComputationResult {
+  const granularity = options.granularity ?? "character";
+  const comparison = hasNormalization(options.comparison)
+    ? options.comparison
+    : undefined;
+  const tables = options.tables;
+  const hasTables =
+    tables !== undefined &&
+    (tables.original.length > 0 || tables.modified.length > 0);
+
+  let original = comparison ? normalizeText(originalText, comparison) : null;
+  let modified = comparison ? normalizeText(modifiedText, comparison) : null;
+  let maskedOriginal: MaskedText | null = null;
+  let maskedModified: MaskedText | null = null;
+  if (hasTables) {
+    maskedOriginal = maskTables(original ?? normalizeText(originalText, {}), tables.original);
+    maskedModified = maskTables(modified ?? normalizeText(modifiedText, {}), tables.modified);
+    original = maskedOriginal.text;
+    modified = maskedModified.text;
+  }
+  const originalCompared = original?.text ?? originalText;
+  const modifiedCompared = modified?.text ?? modifiedText;
+
+  const rawDiffs =
+    options.blockAlignment === false
+      ? computeRawDiff(originalCompared, modifiedCompared, granularity)
+      : diffByBlocks(originalCompared, modifiedCompared, granularity, computeRawDiff);
+  const cleanup = options.semanticCleanup ? cleanupSemantic(rawDiffs) : null;
+  // Cleanup can move boundaries into a grapheme cluster
+  const cleanedDiffs = cleanup ? alignDiffToGraphemes(cleanup.diffs) : rawDiffs;
+  const tablePairs =
+    maskedOriginal && maskedModified
+      ? pairTables(cleanedDiffs, maskedOriginal, maskedModified)
+      : [];
+  const diffs =
+    original && modified
+      ? mapDiffToSource(cleanedDiffs, original, modified)
+      : cleanedDiffs;
   const changes: ChangeWithPosition[] = [];
   let changeId = 0;
   let modifiedCharIndex = 0; // Track position in modified text
@@ -66,12 +210,21 @@ export function computeChangesWithPositions(
 
     // Check for replacement (removed followed by added)
     const next = diffs[i + 1];
+
+    // Paragraphs re-wrapped without other edits are reported as splits/merges
+    if (isParagraphBoundaryEdit(current, next)) {
+      modifiedCharIndex += next!.value.length;
+      i++;
+      continue;
+    }
+
     if (isReplacement(current, next)) {
       const replacement = createReplacement(
         current,
         next as DiffChange,
         modifiedCharIndex,
-        changeId++
+        changeId++,
+        granularity
       );
 
       if (replacement) {
@@ -84,7 +237,12 @@ export function computeChangesWithPositions(
 
     // Handle pure insertion
     if (current.added) {
-      const insertion = createInsertion(current, modifiedCharIndex, changeId++);
+      const insertion = createInsertion(
+        current,
+        modifiedCharIndex,
+        changeId++,
+        granularity
+      );
       changes.push(insertion);
       modifiedCharIndex += current.value.length;
       continue;
@@ -96,14 +254,104 @@ export function computeChangesWithPositions(
         current,
         modifiedText,
         modifiedCharIndex,
-        changeId++
+        changeId++,
+        granularity
       );
       changes.push(deletion);
       // Don't advance modifiedCharIndex for deletions (they're not in modified text)
     }
   }
 
-  return changes;
+  const withMoves = options.detectMoves ? detectMoves(changes) : changes;
+
+  // Table and paragraph boundary changes are added after move detection so
+  // they never pair as moves
+  const blockChanges = [
+    ...tablePairs.flatMap(([originalTable, modifiedTable]) =>
+      diffTable(
+        tables!.original[originalTable],
+        tables!.modified[modifiedTable],
+        modifiedTable,
+        modifiedText,
+        granularity,
+        comparison
+      )
+    ),
+    ...detectParagraphBoundaryChanges(originalText, modifiedText, comparison),
+  ].map((change) => ({ ...change, id: `change-${changeId++}` }));
+  const combined = blockChanges.length
+    ? [...withMoves, ...blockChanges].sort(
+        (a, b) => (a.charStart ?? a.insertAt ?? 0) - (b.charStart ?? b.insertAt ?? 0)
+      )
+    : withMoves;
+  const withoutObjects =
+    originalText.includes(OBJECT_PLACEHOLDER) || modifiedText.includes(OBJECT_PLACEHOLDER)
+      ? removeObjectPlaceholders(combined)
+      : combined;
+
+  const result = options.ignoreRules?.length
+    ? applyIgnoreRules(withoutObjects, modifiedText, options.ignoreRules)
+    : withoutObjects;
+
+  return {
+    changes: withStableChangeIds(result, modifiedText),
+    mergedCount: cleanup?.mergedCount ?? 0,
+  };
+}
+
+/**
+ * Leave images and other objects to the object diff: drop their placeholders
+ * from change content, and drop changes that were only objects. The ranges
+ * are kept, so an inserted object is still marked with the text around it.
+ */
+function removeObjectPlaceholders(changes: ChangeWithPosition[]): ChangeWithPosition[] {
+  // An object between two words takes one of the spaces around it with it
+  const placeholder = new RegExp(` ?${OBJECT_PLACEHOLDER}`, "g");
+  const strip = (text: string) => text.replace(placeholder, "").trim();
+  const result: ChangeWithPosition[] = [];
+
+  for (const change of changes) {
+    if (
+      !change.content.includes(OBJECT_PLACEHOLDER) &&
+      !change.oldContent?.includes(OBJECT_PLACEHOLDER)
+    ) {
+      result.push(change);
+      continue;
+    }
+
+    const content = strip(change.content);
+    const oldContent = change.oldContent === undefined ? undefined : strip(change.oldContent);
+    if (content === (oldContent ?? "")) continue;
+
+    // Text that replaced an object is an insertion
+    if (oldContent === "") {
+      result.push({ ...change, type: "insertion", content, oldContent: undefined });
+      continue;
+    }
+
+    result.push({ ...change, content, ...(oldContent === undefined ? {} : { oldContent }) });
+  }
+
+  return result;
+}
+
+/**
+ * Check if current and next diff parts only move paragraph boundaries: the
+ * texts are the same apart from whitespace and their line breaks differ
+ * (a paragraph-granularity diff reports a split paragraph this way)
+ */
+function isParagraphBoundaryEdit(
+  current: DiffChange,
+  next: DiffChange | undefined
+): boolean {
+  if (!current.removed || !next?.added) return false;
+
+  const collapse = (text: string) => text.replace(/\s+/g, " ").trim();
+  const lineBreaks = (text: string) => text.split("\n").length;
+  return (
+    collapse(current.value) === collapse(next.value) &&
+    lineBreaks(current.value) !== lineBreaks(next.value)
+  );
 }
 
 /**
@@ -129,7 +377,8 @@ function createReplacement(
   removed: DiffChange,
   added: DiffChange,
   modifiedCharIndex: number,
-  id: number
+  id: number,
+  granularity: DiffGranularity
 ): ChangeWithPosition | null {
   const oldText = removed.value.trim();
   const newText = added.value.trim();
@@ -150,6 +399,7 @@ function createReplacement(
     oldContent: oldText,
     charStart,
     charEnd,
+    granularity,
   };
 }
 
@@ -159,7 +409,8 @@ function createReplacement(
 function createInsertion(
   diff: DiffChange,
   modifiedCharIndex: number,
-  id: number
+  id: number,
+  granularity: DiffGranularity
 ): ChangeWithPosition {
   const text = diff.value.trim();
   const leadingWhitespace = diff.value.length - diff.value.trimStart().length;
@@ -172,6 +423,7 @@ function createInsertion(
     content: text,
     charStart,
     charEnd,
+    granularity,
   };
 }
 
@@ -182,7 +434,8 @@ function createDeletion(
   diff: DiffChange,
   modifiedText: string,
   modifiedCharIndex: number,
-  id: number
+  id: number,
+  granularity: DiffGranularity
 ): ChangeWithPosition {
   const text = diff.value.trim();
 
@@ -199,6 +452,7 @@ function createDeletion(
     content: text,
     insertAt: modifiedCharIndex,
     contextBefore: contextBefore,
+    granularity,
   };
 }
 
@@ -207,17 +461,29 @@ function createDeletion(
  *
  * @param changes - Array of content changes to summarize
  * @param formatChanges - Optional array of formatting changes
+ * @param structuralChanges - Optional array of structural changes
+ * @param objectChanges - Optional array of image and object changes
  * @returns Summary with counts of each change type
  */
 export function computeDiffSummary(
   changes: ChangeWithPosition[],
-  formatChanges: FormattingChangeWithPosition[] = []
+  formatChanges: FormattingChangeWithPosition[] = [],
+  structuralChanges: StructuralChangeWithPosition[] = [],
+  objectChanges: ObjectChange[] = []
 ): DiffSummary {
   let insertions = 0;
   let deletions = 0;
   let replacements = 0;
+  let moves = 0;
+  let splits = 0;
+  let merges = 0;
+  let ignored = 0;
 
   for (const change of changes) {
+    if (change.ignoredBy) {
+      ignored++;
+      continue;
+    }
     switch (change.type) {
       case "insertion":
         insertions++;
@@ -228,6 +494,15 @@ export function computeDiffSummary(
       case "replacement":
         replacements++;
         break;
+      case "move":
+        moves++;
+        break;
+      case "split":
+        splits++;
+        break;
+      case "merge":
+        merges++;
+        break;
     }
   }
 
@@ -235,19 +510,25 @@ export function computeDiffSummary(
     insertions,
     deletions,
     replacements,
+    moves,
+    splits,
+    merges,
+    ignored,
     formattingChanges: formatChanges.length,
+    structuralChanges: structuralChanges.length,
+    objectChanges: objectChanges.length,
   };
 }
 
 /**
- * Check if a deletion has sufficient context for positioning
+ * Check if a deletion (or the source of a move) has sufficient context for positioning
  *
- * @param change - The deletion change to check
+ * @param change - The deletion or move change to check
  * @returns True if there's enough context for reliable positioning
  */
 export function hasSufficientContext(change: ChangeWithPosition): boolean {
   return (
-    change.type === "deletion" &&
+    (change.type === "deletion" || change.type === "move") &&
     change.contextBefore !== undefined &&
     change.contextBefore.length >= MIN_CONTEXT_LENGTH
   );
@@ -349,21 +630,67 @@ function getSpansInRange(
 }
 
 /**
- * Normalize mark for comparison - extract key identifying attributes
+ * Mark attributes compared for formatModified changes, with display labels.
+ * Other attributes (and marks not listed) are compared by type only.
  */
-function normalizeMarkKey(mark: ProseMirrorMark): string {
-  const attrs = mark.attrs || {};
-  // For most marks, type is enough. For some, include key attrs
-  if (mark.type === "link") {
-    return `${mark.type}:${attrs.href || ""}`;
-  }
-  if (mark.type === "textStyle") {
-    return `${mark.type}:${attrs.color || ""}`;
-  }
-  if (mark.type === "highlight") {
-    return `${mark.type}:${attrs.color || ""}`;
+const FORMAT_ATTRIBUTE_LABELS: Record<string, Record<string, string>> = {
+  textStyle: { fontFamily: "Font", fontSize: "Font size", color: "Color" },
+  highlight: { color: "Highlight" },
+  link: { href: "Link" },
+};
+
+/**
+ * Get human-readable label for a mark attribute
+ */
+export function getFormatAttributeLabel(markType: string, attribute: string): string {
+  return FORMAT_ATTRIBUTE_LABELS[markType]?.[attribute] ?? attribute;
+}
+
+/**
+ * Describe an attribute change, e.g. "Font size 11pt → 12pt"
+ */
+export function describeFormatAttributeChange(
+  markType: string,
+  change: FormattingAttributeChange
+): string {
+  return `${getFormatAttributeLabel(markType, change.attribute)} ${
+    change.oldValue ?? "none"
+  } → ${change.newValue ?? "none"}`;
+}
+
+/**
+ * Display value of a mark attribute (font sizes stored as numbers are points)
+ */
+function formatAttributeValue(attribute: string, value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (attribute === "fontSize" && typeof value === "number") return `${value}pt`;
+  return String(value);
+}
+
+/**
+ * Compare the labelled attributes of two marks of the same type
+ */
+function compareMarkAttributes(
+  origMark: ProseMirrorMark,
+  modMark: ProseMirrorMark
+): FormattingAttributeChange[] {
+  const attributes = Object.keys(FORMAT_ATTRIBUTE_LABELS[modMark.type] ?? {});
+  const changes: FormattingAttributeChange[] = [];
+
+  for (const attribute of attributes) {
+    const oldValue = formatAttributeValue(attribute, origMark.attrs?.[attribute]);
+    const newValue = formatAttributeValue(attribute, modMark.attrs?.[attribute]);
+    if (oldValue !== newValue) changes.push({ attribute, oldValue, newValue });
   }
-  return mark.type;
+
+  return changes;
+}
+
+/**
+ * Index marks by type (a text node carries at most one mark of each type)
+ */
+function marksByType(marks: ProseMirrorMark[]): Map<string, ProseMirrorMark> {
+  return new Map(marks.map((mark) => [mark.type, mark]));
 }
 
 /**
@@ -384,7 +711,12 @@ function buildUnchangedRanges(
   modEnd: number;
   text: string;
 }> {
-  const diffs = diffChars(originalText, modifiedText);
+  const diffs = diffByBlocks(
+    originalText,
+    modifiedText,
+    "character",
+    computeRawDiff
+  );
   const ranges: Array<{
     origStart: number;
     origEnd: number;
@@ -422,6 +754,10 @@ function buildUnchangedRanges(
  * Compute formatting changes between two documents.
  * This detects marks that were added, removed, or modified on unchanged text.
  *
+ * Marks are matched by type. A mark present on both sides whose font, size,
+ * color or link target differs is one formatModified change listing each
+ * changed attribute (see `describeFormatAttributeChange`).
+ *
  * @param originalText - Text from original document
  * @param originalFormatting - Formatting spans from original document
  * @param modifiedText - Text from modified document
@@ -479,57 +815,57 @@ export function computeFormattingChanges(
       }
 
       // Compare marks at this position
-      const origMarkKeys = new Set(origMarksHere.map(normalizeMarkKey));
-      const modMarkKeys = new Set(modMarksHere.map(normalizeMarkKey));
-
-      // Find added marks
-      for (const modMark of modMarksHere) {
-        const key = normalizeMarkKey(modMark);
-        if (!origMarkKeys.has(key)) {
-          // This mark was added at this position
-          // Find the extent of this mark in the modified document
-          const modSpan = modSpans.find(
-            (s) =>
-              modPos >= s.charStart &&
-              modPos < s.charEnd &&
-              s.marks.some((m) => normalizeMarkKey(m) === key)
+      const origMarkTypes = marksByType(origMarksHere);
+      const modMarkTypes = marksByType(modMarksHere);
+
+      // Find added and modified marks
+      for (const modMark of modMarkTypes.values()) {
+        const origMark = origMarkTypes.get(modMark.type);
+        const attributes = origMark ? compareMarkAttributes(origMark, modMark) : [];
+        if (origMark && attributes.length === 0) continue;
+
+        // Find the extent of this mark in the modified document
+        const modSpan = modSpans.find(
+          (s) =>
+            modPos >= s.charStart &&
+            modPos < s.charEnd &&
+            s.marks.some((m) => m.type === modMark.type)
+        );
+
+        if (modSpan) {
+          // Calculate the overlap with the unchanged range
+          const spanStartInRange = Math.max(
+            modSpan.charStart,
+            range.modStart
+          );
+          const spanEndInRange = Math.min(modSpan.charEnd, range.modEnd);
+          const affectedText = modifiedText.slice(
+            spanStartInRange,
+            spanEndInRange
           );
 
-          if (modSpan) {
-            // Calculate the overlap with the unchanged range
-            const spanStartInRange = Math.max(
-              modSpan.charStart,
-              range.modStart
-            );
-            const spanEndInRange = Math.min(modSpan.charEnd, range.modEnd);
-            const affectedText = modifiedText.slice(
-              spanStartInRange,
-              spanEndInRange
-            );
-
-            changes.push({
-              id: `format-${changeId++}`,
-              type: "formatAdded",
-              content: affectedText.trim().substring(0, 50),
-              markType: modMark.type,
-              newAttrs: modMark.attrs,
-              charStart: spanStartInRange,
-              charEnd: spanEndInRange,
-            });
-          }
+          changes.push({
+            id: `format-${changeId++}`,
+            type: origMark ? "formatModified" : "formatAdded",
+            content: affectedText.trim().substring(0, 50),
+            markType: modMark.type,
+            ...(origMark ? { oldAttrs: origMark.attrs, attributes } : {}),
+            newAttrs: modMark.attrs,
+            charStart: spanStartInRange,
+            charEnd: spanEndInRange,
+          });
         }
       }
 
       // Find removed marks
-      for (const origMark of origMarksHere) {
-        const key = normalizeMarkKey(origMark);
-        if (!modMarkKeys.has(key)) {
+      for (const origMark of origMarkTypes.values()) {
+        if (!modMarkTypes.has(origMark.type)) {
           // This mark was removed at this position
           const origSpan = origSpans.find(
             (s) =>
               origPos >= s.charStart &&
               origPos < s.charEnd &&
-              s.marks.some((m) => normalizeMarkKey(m) === key)
+              s.marks.some((m) => m.type === origMark.type)
           );
 
           if (origSpan) {
@@ -562,7 +898,7 @@ export function computeFormattingChanges(
   }
 
   // Deduplicate changes (merge adjacent spans with same change)
-  return deduplicateFormattingChanges(changes);
+  return withStableFormattingIds(deduplicateFormattingChanges(changes), modifiedText);
 }
 
 /**
@@ -583,9 +919,12 @@ function deduplicateFormattingChanges(
     const next = sorted[i];
 
     // Check if this is the same change type on adjacent/overlapping text
+    // (modifications must also change the same attributes the same way)
     const isAdjacent = next.charStart <= current.charEnd + 1;
     const isSameChange =
-      current.type === next.type && current.markType === next.markType;
+      current.type === next.type &&
+      current.markType === next.markType &&
+      JSON.stringify(current.attributes) === JSON.stringify(next.attributes);
 
     if (isAdjacent && isSameChange) {
       // Merge: extend the current change
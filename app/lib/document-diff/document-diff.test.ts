@@ -16,6 +16,7 @@ import {
   computeChangesWithPositions,
   computeDiffSummary,
   computeFormattingChanges,
+  describeFormatAttributeChange,
   filterChangesByType,
   getMarkTypeLabel,
   hasSufficientContext,
@@ -720,6 +721,101 @@ describe("computeFormattingChanges", () => {
     expect(linkChange?.newAttrs?.href).toBe("https://example.com");
   });
 
+  it("should report a changed font size as one formatModified change", () => {
+    const origFormatting: FormattingSpan[] = [
+      { charStart: 0, charEnd: 5, marks: [{ type: "textStyle", attrs: { fontSize: "11pt" } }] },
+    ];
+    const modFormatting: FormattingSpan[] = [
+      { charStart: 0, charEnd: 5, marks: [{ type: "textStyle", attrs: { fontSize: "12pt" } }] },
+    ];
+    const changes = computeFormattingChanges(
+      "Hello world",
+      origFormatting,
+      "Hello world",
+      modFormatting
+    );
+    expect(changes).toEqual([
+      {
+        id: expect.any(String),
+        type: "formatModified",
+        content: "Hello",
+        markType: "textStyle",
+        oldAttrs: { fontSize: "11pt" },
+        newAttrs: { fontSize: "12pt" },
+        attributes: [{ attribute: "fontSize", oldValue: "11pt", newValue: "12pt" }],
+        charStart: 0,
+        charEnd: 5,
+      },
+    ]);
+    expect(describeFormatAttributeChange("textStyle", changes[0].attributes![0])).toBe(
+      "Font size 11pt → 12pt"
+    );
+  });
+
+  it("should list each changed attribute of a modified mark", () => {
+    const origFormatting: FormattingSpan[] = [
+      {
+        charStart: 0,
+        charEnd: 5,
+        marks: [{ type: "textStyle", attrs: { fontFamily: "Arial", fontSize: 11 } }],
+      },
+    ];
+    const modFormatting: FormattingSpan[] = [
+      {
+        charStart: 0,
+        charEnd: 5,
+        marks: [
+          { type: "textStyle", attrs: { fontFamily: "Calibri", fontSize: 11, color: "#FF0000" } },
+        ],
+      },
+    ];
+    const [change] = computeFormattingChanges(
+      "Hello world",
+      origFormatting,
+      "Hello world",
+      modFormatting
+    );
+    expect(change.attributes).toEqual([
+      { attribute: "fontFamily", oldValue: "Arial", newValue: "Calibri" },
+      { attribute: "color", oldValue: undefined, newValue: "#FF0000" },
+    ]);
+    expect(
+      change.attributes!.map((a) => describeFormatAttributeChange("textStyle", a))
+    ).toEqual(["Font Arial → Calibri", "Color none → #FF0000"]);
+  });
+
+  it("should report a changed link target as formatModified", () => {
+    const link = (href: string): FormattingSpan[] => [
+      { charStart: 6, charEnd: 11, marks: [{ type: "link", attrs: { href } }] },
+    ];
+    const changes = computeFormattingChanges(
+      "Hello world",
+      link("https://old.example.com"),
+      "Hello world",
+      link("https://new.example.com")
+    );
+    expect(changes.map((c) => [c.type, c.attributes])).toEqual([
+      [
+        "formatModified",
+        [
+          {
+            attribute: "href",
+            oldValue: "https://old.example.com",
+            newValue: "https://new.example.com",
+          },
+        ],
+      ],
+    ]);
+  });
+
+  it("should ignore attributes that are not compared", () => {
+    const style = (lineHeight: number): FormattingSpan[] => [
+      { charStart: 0, charEnd: 5, marks: [{ type: "textStyle", attrs: { fontSize: 11, lineHeight } }] },
+    ];
+    const changes = computeFormattingChanges("Hello world", style(1), "Hello world", style(2));
+    expect(changes).toEqual([]);
+  });
+
   it("should skip very short unchanged ranges", () => {
     // Ranges of 1-2 chars (like spaces) should be ignored
     const origFormatting: FormattingSpan[] = [
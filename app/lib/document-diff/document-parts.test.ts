@@ -0,0 +1,111 @@
+/**
+ * Document Parts - Tests
+ *
+ * Editors are stubbed with just the converter fields the part utilities read.
+ *
+ * @module document-parts
+ */
+
+import { describe, it, expect } from "vitest";
+import { doc, paragraph } from "./__fixtures__/prosemirror";
+import {
+  compareDocumentParts,
+  extractDocumentParts,
+  getDocumentPartEditor,
+} from "./document-parts";
+import type { DocumentPart, SuperDocConverter, SuperDocEditor } from "./types";
+
+function editorWith(converter: SuperDocConverter): SuperDocEditor {
+  return { converter } as unknown as SuperDocEditor;
+}
+
+function footer(index: number, text: string): DocumentPart {
+  return {
+    id: `footer-${index}`,
+    kind: "footer",
+    name: `Footer ${index}`,
+    sourceId: `rId${index}`,
+    json: doc(text),
+  };
+}
+
+describe("extractDocumentParts", () => {
+  it("should number parts per kind in document order", () => {
+    const parts = extractDocumentParts(
+      editorWith({
+        headers: { rId7: doc("Draft") },
+        footers: { rId8: doc("Confidential"), rId9: doc("Page") },
+        footnotes: [
+          { id: -1, content: [] },
+          { id: 0, content: [] },
+          { id: 1, content: [paragraph("See Smith v Jones.")] },
+        ],
+      })
+    );
+
+    expect(parts.map((p) => [p.id, p.name, p.sourceId])).toEqual([
+      ["header-1", "Header 1", "rId7"],
+      ["footer-1", "Footer 1", "rId8"],
+      ["footer-2", "Footer 2", "rId9"],
+      ["footnote-1", "Footnote 1", "1"],
+    ]);
+    expect(parts[3].json).toEqual(doc("See Smith v Jones."));
+  });
+
+  it("should return no parts without a converter", () => {
+    expect(extractDocumentParts({} as SuperDocEditor)).toEqual([]);
+  });
+});
+
+describe("compareDocumentParts", () => {
+  it("should diff paired parts independently with prefixed change IDs", () => {
+    const result = compareDocumentParts(
+      [footer(1, "Confidential"), footer(2, "Page")],
+      [footer(1, "Strictly Confidential"), footer(2, "Page")],
+      { granularity: "word" }
+    );
+
+    expect(result).toEqual([
+      {
+        part: { id: "footer-1", kind: "footer", name: "Footer 1", sourceId: "rId1" },
+        changes: [
+          expect.objectContaining({
+            id: expect.stringMatching(/^footer-1-change-[0-9a-f]{8}$/),
+            type: "insertion",
+            content: "Strictly",
+            charStart: 0,
+          }),
+        ],
+      },
+    ]);
+  });
+
+  it("should report added and removed parts as a whole", () => {
+    const result = compareDocumentParts(
+      [footer(1, "Confidential"), footer(2, "Old legend")],
+      [footer(1, "Confidential")]
+    );
+
+    expect(result).toEqual([
+      {
+        part: { id: "footer-2", kind: "footer", name: "Footer 2", sourceId: "rId2" },
+        changes: [expect.objectContaining({ type: "deletion", content: "Old legend" })],
+      },
+    ]);
+  });
+});
+
+describe("getDocumentPartEditor", () => {
+  it("should find header and footer editors by source ID but not note editors", () => {
+    const footerEditor = editorWith({});
+    const editor = editorWith({
+      footerEditors: [{ id: "rId8", editor: footerEditor }],
+    });
+
+    expect(getDocumentPartEditor(editor, { kind: "footer", sourceId: "rId8" })).toBe(
+      footerEditor
+    );
+    expect(getDocumentPartEditor(editor, { kind: "header", sourceId: "rId8" })).toBeUndefined();
+    expect(getDocumentPartEditor(editor, { kind: "footnote", sourceId: "1" })).toBeUndefined();
+  });
+});
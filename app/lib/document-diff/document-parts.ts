@@ -0,0 +1,161 @@
+/**
+ * Document Part Utilities
+ *
+ * Headers, footers, footnotes and endnotes live outside the main body, so the
+ * body extractors never see them: a changed confidentiality legend in a
+ * footer or a changed citation in a footnote went unreported. Each part is
+ * extracted from the SuperDoc converter as its own ProseMirror document, so
+ * it gets its own text and position map and is diffed independently of the
+ * body and of the other parts.
+ */
+
+import { computeChangesWithPositions } from "./diff-computation";
+import { extractTextWithFormattingFromJson } from "./text-extraction";
+import type {
+  DiffOptions,
+  DocumentPart,
+  DocumentPartChanges,
+  DocumentPartKind,
+  ProseMirrorJsonNode,
+  SuperDocConverter,
+  SuperDocEditor,
+  SuperDocNote,
+} from "./types";
+
+/**
+ * Display names for part kinds
+ */
+const PART_KIND_LABELS: Record<DocumentPartKind, string> = {
+  header: "Header",
+  footer: "Footer",
+  footnote: "Footnote",
+  endnote: "Endnote",
+};
+
+/**
+ * Build parts of one kind, numbered in document order
+ */
+function createParts(
+  kind: DocumentPartKind,
+  entries: Array<[string, ProseMirrorJsonNode]>
+): DocumentPart[] {
+  return entries.map(([sourceId, json], index) => ({
+    id: `${kind}-${index + 1}`,
+    kind,
+    name: `${PART_KIND_LABELS[kind]} ${index + 1}`,
+    sourceId,
+    json,
+  }));
+}
+
+/**
+ * Notes as documents. Separator and continuation notes (IDs below 1) are
+ * layout, not content, and are skipped.
+ */
+function noteEntries(
+  notes: ReadonlyArray<SuperDocNote> | undefined
+): Array<[string, ProseMirrorJsonNode]> {
+  return (notes ?? [])
+    .filter((note) => !(Number(note.id) < 1))
+    .map((note) => [String(note.id), { type: "doc", content: [...note.content] }]);
+}
+
+/**
+ * Extract the headers, footers, footnotes and endnotes of a document.
+ *
+ * Parts are read from the editor's converter and numbered per kind in
+ * document order ("Footer 1", "Footer 2"...); the same number pairs parts
+ * across two documents, whose relationship IDs may differ.
+ *
+ * @param editor - A SuperDoc editor with a loaded document
+ * @returns The document's parts, or an empty array without a converter
+ */
+export function extractDocumentParts(editor: SuperDocEditor): DocumentPart[] {
+  return editor.converter ? createDocumentParts(editor.converter) : [];
+}
+
+/**
+ * Build the parts of a document from a converter, or from anything shaped
+ * like one (see importDocx), numbered as extractDocumentParts numbers them
+ *
+ * @param converter - Headers and footers by relationship ID, and notes
+ * @returns The document's parts
+ */
+export function createDocumentParts(
+  converter: Pick<SuperDocConverter, "headers" | "footers" | "footnotes" | "endnotes">
+): DocumentPart[] {
+  return [
+    ...createParts("header", Object.entries(converter.headers ?? {})),
+    ...createParts("footer", Object.entries(converter.footers ?? {})),
+    ...createParts("footnote", noteEntries(converter.footnotes)),
+    ...createParts("endnote", noteEntries(converter.endnotes)),
+  ];
+}
+
+/**
+ * Diff each document part against the part with the same ID.
+ *
+ * Parts present on one side only are diffed against empty text, so their
+ * whole content is one insertion or deletion. Change IDs are prefixed with
+ * the part ID to keep them unique next to body changes.
+ *
+ * @param originalParts - Parts of the original document
+ * @param modifiedParts - Parts of the modified document
+ * @param options - Content diff options (as for the body)
+ * @returns Changes per part, for parts that changed, in modified document order
+ */
+export function compareDocumentParts(
+  originalParts: ReadonlyArray<DocumentPart>,
+  modifiedParts: ReadonlyArray<DocumentPart>,
+  options: DiffOptions = {}
+): DocumentPartChanges[] {
+  const originalById = new Map(originalParts.map((part) => [part.id, part]));
+  const modifiedIds = new Set(modifiedParts.map((part) => part.id));
+  const partText = (part: DocumentPart | undefined) =>
+    part ? extractTextWithFormattingFromJson(part.json).text : "";
+
+  const result: DocumentPartChanges[] = [];
+  const parts = [
+    ...modifiedParts,
+    ...originalParts.filter((part) => !modifiedIds.has(part.id)),
+  ];
+
+  for (const part of parts) {
+    const original = originalById.get(part.id);
+    const modified = modifiedIds.has(part.id) ? part : undefined;
+
+    const changes = computeChangesWithPositions(
+      partText(original),
+      partText(modified),
+      options
+    ).map((change) => ({ ...change, id: `${part.id}-${change.id}` }));
+
+    if (changes.length > 0) {
+      const { id, kind, name, sourceId } = part;
+      result.push({ part: { id, kind, name, sourceId }, changes });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find the editor SuperDoc created for a header or footer.
+ * Notes are rendered without their own editor, so they have none.
+ *
+ * @param editor - The main document editor
+ * @param part - The part to find
+ * @returns The part's editor, if SuperDoc created one
+ */
+export function getDocumentPartEditor(
+  editor: SuperDocEditor,
+  part: Pick<DocumentPart, "kind" | "sourceId">
+): SuperDocEditor | undefined {
+  const editors =
+    part.kind === "header"
+      ? editor.converter?.headerEditors
+      : part.kind === "footer"
+        ? editor.converter?.footerEditors
+        : undefined;
+  return editors?.find((entry) => entry.id === part.sourceId)?.editor;
+}
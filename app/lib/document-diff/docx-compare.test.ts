@@ -0,0 +1,113 @@
+/**
+ * DOCX Comparison - Tests
+ *
+ * @module docx-compare
+ */
+
+import { describe, it, expect } from "vitest";
+import { docx, p, W_NS } from "./__fixtures__/docx";
+import { compareDocx } from "./docx-compare";
+
+const TRACKED_INSERTION =
+  '<w:p><w:r><w:t xml:space="preserve">Rent is due </w:t></w:r>' +
+  '<w:ins w:id="7" w:author="Counsel">' +
+  '<w:r><w:t xml:space="preserve">in advance </w:t></w:r></w:ins>' +
+  "<w:r><w:t>monthly.</w:t></w:r></w:p>";
+
+/**
+ * A document with a footer
+ */
+function withFooter(body: string, footer: string): Promise<Uint8Array> {
+  return docx(
+    body + '<w:sectPr><w:footerReference w:type="default" r:id="rId8"/></w:sectPr>',
+    { "word/footer1.xml": `<w:ftr ${W_NS}>${p(footer)}</w:ftr>` },
+    [["rId8", "footer", "footer1.xml"]]
+  );
+}
+
+describe("compareDocx", () => {
+  it("should report content and formatting changes with their counts", async () => {
+    const result = await compareDocx(
+      await docx(p("The tenant pays rent monthly.") + p("Notices must be in writing.")),
+      await docx(
+        p("The tenant pays rent quarterly.") + p("Notices must be in writing.", "", "<w:b/>")
+      ),
+      { granularity: "word" }
+    );
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({ type: "replacement", oldContent: "monthly", content: "quarterly" }),
+    ]);
+    expect(result.summary).toMatchObject({
+      replacements: 1,
+      insertions: 0,
+      formattingChanges: result.formattingChanges.length,
+    });
+    expect(result.formattingChanges.length).toBeGreaterThan(0);
+  });
+
+  it("should find no changes between a file and itself", async () => {
+    const file = await withFooter(p("Rent is due monthly."), "Confidential");
+
+    const result = await compareDocx(file, file);
+
+    expect(result.changes).toEqual([]);
+    expect(result.partChanges).toEqual([]);
+  });
+
+  it("should compare headers, footers and notes", async () => {
+    const result = await compareDocx(
+      await withFooter(p("Rent is due monthly."), "Confidential"),
+      await withFooter(p("Rent is due monthly."), "Strictly confidential"),
+      { granularity: "word" }
+    );
+
+    expect(result.partChanges).toEqual([
+      expect.objectContaining({
+        part: expect.objectContaining({ id: "footer-1", name: "Footer 1" }),
+        changes: [
+          expect.objectContaining({
+            oldContent: "Confidential",
+            content: "Strictly confidential",
+          }),
+        ],
+      }),
+    ]);
+  });
+
+  it("should resolve revisions in both documents with the revision view", async () => {
+    const original = await docx(TRACKED_INSERTION);
+    const modified = await docx(p("Rent is due in advance monthly."));
+
+    const accepted = await compareDocx(original, modified, { revisionView: "accepted" });
+    const rejected = await compareDocx(original, modified, {
+      revisionView: "rejected",
+      granularity: "word",
+    });
+
+    expect(accepted.changes).toEqual([]);
+    expect(rejected.changes).toEqual([
+      expect.objectContaining({ type: "insertion", content: "in advance" }),
+    ]);
+  });
+
+  it("should report only untracked edits when looking for stealth edits", async () => {
+    const original = await docx(p("Rent is due monthly."));
+    const modified = await docx(TRACKED_INSERTION.replace("monthly", "weekly"));
+
+    const result = await compareDocx(original, modified, {
+      detectStealthEdits: true,
+      granularity: "word",
+    });
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({ oldContent: "monthly", content: "weekly" }),
+    ]);
+  });
+
+  it("should reject a file that is not a DOCX package", async () => {
+    await expect(
+      compareDocx(new TextEncoder().encode("not a document"), await docx(p("Rent")))
+    ).rejects.toThrow(/Not a zip archive/);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * DOCX Comparison
+ *
+ * Compare two DOCX files end to end without an editor: import both (see
+ * docx-import.ts), extract the modified document the way the app extracts
+ * its live editor, and run the comparison pipeline. This is what API routes
+ * and scripts call; the app itself runs the pipeline in a worker against the
+ * editor it shows.
+ */
+
+import { runComparison } from "./comparison-pipeline";
+import { computeDiffSummary } from "./diff-computation";
+import { importDocx } from "./docx-import";
+import { resolveRevisionsInJson } from "./revisions";
+import { extractTextWithFormattingFromJson } from "./text-extraction";
+import type {
+  DocxComparisonOptions,
+  DocxComparisonResult,
+  ImportedDocx,
+} from "./types";
+
+/**
+ * Compare two imported DOCX files.
+ *
+ * Revisions in the modified document are resolved with the same view as the
+ * original's, as the app resolves them in its editor; looking for stealth
+ * edits keeps them in view and compares against them.
+ *
+ * @param original - The original document
+ * @param modified - The modified document
+ * @param options - Diff options, plus how revisions already in the documents are treated
+ * @returns Content, formatting, structural, object and part changes, and their counts
+ */
+export function compareImportedDocx(
+  original: ImportedDocx,
+  modified: ImportedDocx,
+  options: DocxComparisonOptions = {}
+): DocxComparisonResult {
+  const { revisionView = "asIs", detectStealthEdits = false, ...diffOptions } = options;
+  const extracted = extractTextWithFormattingFromJson(
+    detectStealthEdits ? modified.json : resolveRevisionsInJson(modified.json, revisionView),
+    modified.media
+  );
+
+  const result = runComparison({
+    originalJson: original.json,
+    modifiedText: extracted.text,
+    modifiedFormatting: extracted.formatting,
+    modifiedTables: extracted.tables,
+    modifiedBlocks: extracted.blocks,
+    modifiedObjects: extracted.objects,
+    originalMedia: original.media,
+    originalParts: original.parts,
+    modifiedParts: modified.parts,
+    revisionView,
+    detectStealthEdits,
+    modifiedRevisions: extracted.revisions,
+    options: diffOptions,
+  });
+
+  return {
+    ...result,
+    summary: computeDiffSummary(
+      result.changes,
+      result.formattingChanges,
+      result.structuralChanges,
+      result.objectChanges
+    ),
+  };
+}
+
+/**
+ * Compare two DOCX files.
+ *
+ * @param original - The original DOCX file
+ * @param modified - The modified DOCX file
+ * @param options - Diff options, plus how revisions already in the documents are treated
+ * @returns Content, formatting, structural, object and part changes, and their counts
+ * @throws Error if either file is not a readable DOCX package
+ */
+export async function compareDocx(
+  original: ArrayBuffer | Uint8Array,
+  modified: ArrayBuffer | Uint8Array,
+  options: DocxComparisonOptions = {}
+): Promise<DocxComparisonResult> {
+  return compareImportedDocx(await importDocx(original), await importDocx(modified), options);
+}
@@ -0,0 +1,140 @@
+/**
+ * DOCX Export - Tests
+ *
+ * Documents are imported, exported and imported again; what the importer
+ * reads back must equal what it read the first time.
+ *
+ * @module docx-export
+ */
+
+import { describe, it, expect } from "vitest";
+import { docx, p, PNG, W_NS } from "./__fixtures__/docx";
+import { exportDocx } from "./docx-export";
+import { importDocx } from "./docx-import";
+import { parseXml, readZip, serializeXml, writeZip } from "./docx-package";
+
+const STYLES = `<w:styles ${W_NS}>
+  <w:style w:type="paragraph" w:styleId="berschrift1"><w:name w:val="heading 1"/></w:style>
+</w:styles>`;
+
+const NUMBERING = `<w:numbering ${W_NS}>
+  <w:abstractNum w:abstractNumId="0">
+    <w:lvl w:ilvl="0"><w:numFmt w:val="decimal"/></w:lvl>
+    <w:lvl w:ilvl="1"><w:numFmt w:val="bullet"/></w:lvl>
+  </w:abstractNum>
+  <w:num w:numId="3"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+
+/**
+ * Import a DOCX, export its JSON into the same file and import the result
+ */
+async function roundtrip(file: Uint8Array) {
+  const first = await importDocx(file);
+  const exported = await exportDocx(first.json, file);
+  return { first, second: await importDocx(exported), exported };
+}
+
+describe("writeZip", () => {
+  it("should write entries readZip reads back", async () => {
+    const entries = new Map([
+      ["word/document.xml", new TextEncoder().encode("<w:document/>".repeat(50))],
+      ["word/media/image1.png", PNG],
+    ]);
+
+    const read = await readZip(await writeZip(entries));
+
+    expect([...read.keys()]).toEqual([...entries.keys()]);
+    for (const [path, data] of entries) expect(Array.from(read.get(path)!)).toEqual(Array.from(data));
+  });
+});
+
+describe("serializeXml", () => {
+  it("should escape text and attributes and close empty elements", () => {
+    const element = parseXml('<w:t a="&quot;x&quot; &amp; y">1 &lt; 2<w:br/></w:t>');
+
+    expect(serializeXml(element)).toBe('<w:t a="&quot;x&quot; &amp; y">1 &lt; 2<w:br/></w:t>');
+    expect(serializeXml(element, true)).toMatch(/^<\?xml version="1.0"[^>]*\?>\n<w:t /);
+  });
+});
+
+describe("exportDocx", () => {
+  it("should write paragraphs, headings and formatting the importer reads back", async () => {
+    const file = await docx(
+      p("Payment", '<w:pStyle w:val="berschrift1"/>') +
+        p("Rent is due.", '<w:jc w:val="both"/><w:ind w:left="720"/><w:spacing w:after="120"/>') +
+        "<w:p>" +
+        '<w:r><w:rPr><w:b/><w:u w:val="single"/><w:color w:val="FF0000"/></w:rPr><w:t>Due </w:t></w:r>' +
+        '<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:t>1</w:t></w:r>' +
+        "<w:r><w:tab/><w:t>end</w:t><w:br/></w:r>" +
+        "</w:p>",
+      { "word/styles.xml": STYLES },
+      [["rId1", "styles", "styles.xml"]]
+    );
+    const { first, second, exported } = await roundtrip(file);
+
+    expect(second.json).toEqual(first.json);
+    expect(new TextDecoder().decode((await readZip(exported)).get("word/document.xml"))).toContain(
+      '<w:pStyle w:val="berschrift1"/>'
+    );
+  });
+
+  it("should write lists, merged table cells, images and note references", async () => {
+    const numbered = (text: string, level: number) =>
+      p(text, `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="3"/></w:numPr>`);
+    const cell = (text: string, tcPr = "") =>
+      `<w:tc>${tcPr && `<w:tcPr>${tcPr}</w:tcPr>`}${p(text)}</w:tc>`;
+    const drawing =
+      '<w:drawing><wp:inline><wp:extent cx="952500" cy="476250"/><wp:docPr id="1" name="Logo" descr="Logo"/>' +
+      '<a:graphic><a:graphicData><a:blip r:embed="rId5"/></a:graphicData></a:graphic></wp:inline></w:drawing>';
+
+    const { first, second } = await roundtrip(
+      await docx(
+        numbered("First", 0) +
+          numbered("Detail", 1) +
+          numbered("Second", 0) +
+          "<w:tbl>" +
+          `<w:tr>${cell("Party", '<w:vMerge w:val="restart"/>')}${cell("Role", '<w:gridSpan w:val="2"/>')}</w:tr>` +
+          `<w:tr>${cell("", "<w:vMerge/>")}${cell("Tenant")}${cell("1 year")}</w:tr>` +
+          "</w:tbl>" +
+          `<w:p><w:r>${drawing}</w:r><w:r><w:footnoteReference w:id="1"/></w:r></w:p>`,
+        { "word/numbering.xml": NUMBERING, "word/media/image1.png": PNG },
+        [
+          ["rId2", "numbering", "numbering.xml"],
+          ["rId5", "image", "media/image1.png"],
+        ]
+      )
+    );
+
+    expect(second.json).toEqual(first.json);
+    expect(second.media).toEqual(first.media);
+  });
+
+  it("should add relationships for new links and keep existing ones", async () => {
+    const file = await docx(
+      '<w:p><w:hyperlink r:id="rId9"><w:r><w:t>terms</w:t></w:r></w:hyperlink></w:p>',
+      {},
+      [["rId9", "hyperlink", "https://example.com/terms", true]]
+    );
+    const link = (href: string) => [{ type: "link", attrs: { href } }];
+    const json = {
+      type: "doc",
+      content: [
+        {
+          type: "paragraph",
+          content: [
+            { type: "text", text: "terms", marks: link("https://example.com/terms") },
+            { type: "text", text: " and " },
+            { type: "text", text: "privacy", marks: link("https://example.com/privacy") },
+          ],
+        },
+      ],
+    };
+
+    const exported = await exportDocx(json, file);
+    const rels = new TextDecoder().decode((await readZip(exported)).get("word/_rels/document.xml.rels"));
+
+    expect((await importDocx(exported)).json).toEqual(json);
+    expect(rels.match(/Target="https:\/\/example.com\/terms"/g)).toHaveLength(1);
+    expect(rels).toMatch(/Id="rId10"[^>]*Target="https:\/\/example.com\/privacy" TargetMode="External"/);
+  });
+});
@@ -0,0 +1,561 @@
+/**
+ * DOCX Export
+ *
+ * Writes ProseMirror JSON in the shape the headless importer gives (see
+ * docx-import.ts) into a DOCX package as its body. The rest of the package
+ * (styles, numbering, media, headers, footers, notes and the last section's
+ * page setup) is kept from a template, normally the file the JSON was
+ * imported from, so the result looks like that file.
+ *
+ * Track marks become native Word revisions: trackInsert and trackDelete wrap
+ * runs in `w:ins` and `w:del`, trackFormat adds a `w:rPrChange` holding the
+ * formatting from before the change, and a paragraph whose `paragraphMark`
+ * attribute is a trackInsert or trackDelete mark has its paragraph mark
+ * inserted or deleted.
+ *
+ * Only what the importer reads is written back: table properties other than
+ * merged cells, drawings other than pictures, fields and section breaks
+ * within the body are not kept.
+ */
+
+import {
+  childElement,
+  childElements,
+  findRelatedPart,
+  readRelationships,
+  readXml,
+  readZip,
+  relationshipsPath,
+  serializeXml,
+  writeZip,
+} from "./docx-package";
+import type {
+  ProseMirrorJsonNode,
+  ProseMirrorMark,
+  ProseMirrorNodeAttrs,
+  XmlElement,
+} from "./types";
+
+/**
+ * Namespaces the written body uses, declared on the document if missing
+ */
+const NAMESPACES: Record<string, string> = {
+  "xmlns:w": "http://schemas.openxmlformats.org/wordprocessingml/2006/main",
+  "xmlns:r": "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+  "xmlns:wp": "http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing",
+};
+
+const DRAWING_NS = "http://schemas.openxmlformats.org/drawingml/2006/main";
+const PICTURE_NS = "http://schemas.openxmlformats.org/drawingml/2006/picture";
+const HYPERLINK_TYPE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink";
+
+/**
+ * Word paragraph alignment for each textAlign
+ */
+const ALIGNMENTS: Record<string, string> = {
+  left: "left",
+  center: "center",
+  right: "right",
+  justify: "both",
+};
+
+/**
+ * English Metric Units per pixel (914400 per inch at 96 pixels per inch)
+ */
+const EMU_PER_PIXEL = 9525;
+
+/**
+ * Size of an image without one, in pixels (one inch)
+ */
+const DEFAULT_IMAGE_SIZE = 96;
+
+/**
+ * Marks written as elements around runs rather than as run properties,
+ * outermost first (Word nests `w:del` in `w:ins` for deleted insertions)
+ */
+const WRAPPING_MARKS = ["link", "trackInsert", "trackDelete"] as const;
+
+/**
+ * What writing the body needs from the package
+ */
+interface ExportContext {
+  /** Style IDs of the template's heading styles by "HeadingN" (Word localizes IDs) */
+  readonly headingStyles: ReadonlyMap<string, string>;
+  /** Relationship IDs of the document's images by media path */
+  readonly images: ReadonlyMap<string, string>;
+  /** Relationship ID for an external link, added to the document if new */
+  hyperlink(href: string): string;
+  /** A new ID for a revision or drawing */
+  nextId(): number;
+}
+
+/**
+ * A list's numbering, for the paragraphs of its items
+ */
+interface ListNumbering {
+  readonly numId: string;
+  readonly level: number;
+}
+
+/**
+ * Create an element, leaving out attributes that are not set
+ */
+function xml(
+  name: string,
+  attrs: Record<string, string | number | undefined> = {},
+  children: Array<XmlElement | string> = []
+): XmlElement {
+  const defined: Record<string, string> = {};
+  for (const [attr, value] of Object.entries(attrs)) {
+    if (value !== undefined) defined[attr] = String(value);
+  }
+  return { name, attrs: defined, children };
+}
+
+/**
+ * A number from a JSON attribute, if it is one
+ */
+function numberValue(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * A per-side attribute (indent, spacing) as its sides
+ */
+function sides(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * Attributes of a revision element for a track mark
+ */
+function revisionAttrs(mark: ProseMirrorMark, context: ExportContext) {
+  return {
+    "w:id": context.nextId(),
+    "w:author": mark.attrs?.author ?? "",
+    "w:date": mark.attrs?.date,
+  };
+}
+
+/**
+ * Run properties for formatting marks, in the order Word's schema requires
+ */
+function formattingProperties(marks: ReadonlyArray<ProseMirrorMark>): XmlElement[] {
+  const mark = (type: string) => marks.find((candidate) => candidate.type === type);
+  const textStyle = mark("textStyle")?.attrs ?? {};
+  const fontSize = numberValue(textStyle.fontSize);
+  const color =
+    typeof textStyle.color === "string" ? textStyle.color.replace(/^#/, "") : undefined;
+  const highlight = mark("highlight")?.attrs?.color;
+  const vertAlign = ["superscript", "subscript"].find((type) => mark(type));
+
+  const properties: Array<XmlElement | false> = [
+    typeof textStyle.fontFamily === "string" &&
+      xml("w:rFonts", { "w:ascii": textStyle.fontFamily, "w:hAnsi": textStyle.fontFamily }),
+    !!mark("bold") && xml("w:b"),
+    !!mark("italic") && xml("w:i"),
+    !!mark("strike") && xml("w:strike"),
+    !!color && xml("w:color", { "w:val": color }),
+    fontSize !== undefined && xml("w:sz", { "w:val": Math.round(fontSize * 2) }),
+    fontSize !== undefined && xml("w:szCs", { "w:val": Math.round(fontSize * 2) }),
+    typeof highlight === "string" && xml("w:highlight", { "w:val": highlight }),
+    !!mark("underline") && xml("w:u", { "w:val": "single" }),
+    !!vertAlign && xml("w:vertAlign", { "w:val": vertAlign }),
+  ];
+  return properties.filter((property): property is XmlElement => property !== false);
+}
+
+/**
+ * A run's properties (`w:rPr`), with the formatting before a tracked
+ * formatting change, or undefined if it has none
+ */
+function runProperties(
+  marks: ReadonlyArray<ProseMirrorMark>,
+  context: ExportContext
+): XmlElement | undefined {
+  const properties = formattingProperties(marks);
+  const formatChange = marks.find((mark) => mark.type === "trackFormat");
+  if (formatChange) {
+    const before = formatChange.attrs?.before;
+    properties.push(
+      xml("w:rPrChange", revisionAttrs(formatChange, context), [
+        xml("w:rPr", {}, formattingProperties(Array.isArray(before) ? before : [])),
+      ])
+    );
+  }
+  return properties.length > 0 ? xml("w:rPr", {}, properties) : undefined;
+}
+
+/**
+ * A picture (`w:drawing`) for an image node, if its media is in the package
+ */
+function writeImage(node: ProseMirrorJsonNode, context: ExportContext): XmlElement | undefined {
+  const attrs = node.attrs ?? {};
+  const embed = attrs.src ? context.images.get(attrs.src) : undefined;
+  if (!embed) return undefined;
+
+  const id = context.nextId();
+  const name = `Picture ${id}`;
+  const cx = Math.round((attrs.size?.width ?? DEFAULT_IMAGE_SIZE) * EMU_PER_PIXEL);
+  const cy = Math.round((attrs.size?.height ?? DEFAULT_IMAGE_SIZE) * EMU_PER_PIXEL);
+  const alt = typeof attrs.alt === "string" ? attrs.alt : undefined;
+  const title = typeof attrs.title === "string" ? attrs.title : undefined;
+
+  const picture = xml("pic:pic", { "xmlns:pic": PICTURE_NS }, [
+    xml("pic:nvPicPr", {}, [
+      xml("pic:cNvPr", { id, name, descr: alt }),
+      xml("pic:cNvPicPr"),
+    ]),
+    xml("pic:blipFill", {}, [
+      xml("a:blip", { "r:embed": embed }),
+      xml("a:stretch", {}, [xml("a:fillRect")]),
+    ]),
+    xml("pic:spPr", {}, [
+      xml("a:xfrm", {}, [xml("a:off", { x: 0, y: 0 }), xml("a:ext", { cx, cy })]),
+      xml("a:prstGeom", { prst: "rect" }, [xml("a:avLst")]),
+    ]),
+  ]);
+  return xml("w:drawing", {}, [
+    xml("wp:inline", { distT: 0, distB: 0, distL: 0, distR: 0 }, [
+      xml("wp:extent", { cx, cy }),
+      xml("wp:docPr", { id, name, descr: alt, title }),
+      xml("a:graphic", { "xmlns:a": DRAWING_NS }, [
+        xml("a:graphicData", { uri: PICTURE_NS }, [picture]),
+      ]),
+    ]),
+  ]);
+}
+
+/**
+ * A run (`w:r`) for a text or inline node, or undefined for nodes that are
+ * not written (drawings other than pictures)
+ */
+function writeRun(node: ProseMirrorJsonNode, context: ExportContext): XmlElement | undefined {
+  const marks = node.marks ?? [];
+  const deleted = marks.some((mark) => mark.type === "trackDelete");
+
+  let content: XmlElement | undefined;
+  if (node.text !== undefined) {
+    content = xml(deleted ? "w:delText" : "w:t", { "xml:space": "preserve" }, [node.text]);
+  } else if (node.type === "tab") {
+    content = xml("w:tab");
+  } else if (node.type === "hardBreak") {
+    content = xml("w:br");
+  } else if (node.type === "image") {
+    content = writeImage(node, context);
+  } else if (node.type === "footnoteReference" || node.type === "endnoteReference") {
+    content = xml(`w:${node.type}`, { "w:id": node.attrs?.id as string | undefined });
+  }
+  if (!content) return undefined;
+
+  const rPr = runProperties(marks, context);
+  return xml("w:r", {}, rPr ? [rPr, content] : [content]);
+}
+
+/**
+ * Write inline content, wrapping runs that share a link or track mark in
+ * one `w:hyperlink`, `w:ins` or `w:del`
+ */
+function writeInline(
+  nodes: ReadonlyArray<ProseMirrorJsonNode>,
+  context: ExportContext,
+  depth = 0
+): XmlElement[] {
+  if (depth === WRAPPING_MARKS.length) {
+    return nodes.flatMap((node) => writeRun(node, context) ?? []);
+  }
+
+  // Group consecutive nodes by the mark wrapping them at this depth
+  const markType = WRAPPING_MARKS[depth];
+  const groups: Array<{ mark?: ProseMirrorMark; key: string; nodes: ProseMirrorJsonNode[] }> = [];
+  for (const node of nodes) {
+    const mark = node.marks?.find((candidate) => candidate.type === markType);
+    const key = mark ? JSON.stringify(mark) : "";
+    const group = groups[groups.length - 1];
+    if (group && group.key === key) group.nodes.push(node);
+    else groups.push({ mark, key, nodes: [node] });
+  }
+
+  return groups.flatMap(({ mark, nodes: grouped }) => {
+    const children = writeInline(grouped, context, depth + 1);
+    if (!mark || children.length === 0) return children;
+    if (mark.type === "link") {
+      const href = String(mark.attrs?.href ?? "");
+      return [
+        href.startsWith("#")
+          ? xml("w:hyperlink", { "w:anchor": href.slice(1) }, children)
+          : xml("w:hyperlink", { "r:id": context.hyperlink(href) }, children),
+      ];
+    }
+    const name = mark.type === "trackInsert" ? "w:ins" : "w:del";
+    return [xml(name, revisionAttrs(mark, context), children)];
+  });
+}
+
+/**
+ * Write a paragraph (`w:p`), numbered if it is in a list
+ */
+function writeParagraph(
+  node: ProseMirrorJsonNode,
+  context: ExportContext,
+  numbering?: ListNumbering
+): XmlElement {
+  const attrs: ProseMirrorNodeAttrs = node.attrs ?? {};
+  const styleId =
+    node.type === "heading" && attrs.level !== undefined ? `Heading${attrs.level}` : attrs.styleId;
+  const spacing = sides(attrs.spacing);
+  const indent = sides(attrs.indent);
+  const paragraphMark = attrs.paragraphMark as ProseMirrorMark | undefined;
+
+  const properties: Array<XmlElement | false> = [
+    !!styleId && xml("w:pStyle", { "w:val": context.headingStyles.get(styleId) ?? styleId }),
+    !!numbering &&
+      xml("w:numPr", {}, [
+        xml("w:ilvl", { "w:val": numbering.level }),
+        xml("w:numId", { "w:val": numbering.numId }),
+      ]),
+    Object.keys(spacing).length > 0 &&
+      xml("w:spacing", {
+        "w:before": numberValue(spacing.before),
+        "w:after": numberValue(spacing.after),
+        "w:line": numberValue(spacing.line),
+      }),
+    Object.keys(indent).length > 0 &&
+      xml("w:ind", {
+        "w:left": numberValue(indent.left),
+        "w:right": numberValue(indent.right),
+        "w:firstLine": numberValue(indent.firstLine),
+        "w:hanging": numberValue(indent.hanging),
+      }),
+    !!attrs.textAlign &&
+      !!ALIGNMENTS[attrs.textAlign] &&
+      xml("w:jc", { "w:val": ALIGNMENTS[attrs.textAlign] }),
+    !!paragraphMark &&
+      xml("w:rPr", {}, [
+        xml(
+          paragraphMark.type === "trackDelete" ? "w:del" : "w:ins",
+          revisionAttrs(paragraphMark, context)
+        ),
+      ]),
+  ];
+  const pPr = properties.filter((property): property is XmlElement => property !== false);
+
+  return xml("w:p", {}, [
+    ...(pPr.length > 0 ? [xml("w:pPr", {}, pPr)] : []),
+    ...writeInline(node.content ?? [], context),
+  ]);
+}
+
+/**
+ * Write a list's items, numbering the first paragraph of each item with the
+ * list's numbering at its nesting level
+ */
+function writeList(
+  list: ProseMirrorJsonNode,
+  context: ExportContext,
+  level: number
+): XmlElement[] {
+  const numId = list.attrs?.numId;
+  return (list.content ?? []).flatMap((item) =>
+    (item.content ?? []).flatMap((child, index) => {
+      if (child.type === "bulletList" || child.type === "orderedList") {
+        return writeList(child, context, level + 1);
+      }
+      if (child.type === "paragraph" && index === 0 && typeof numId === "string") {
+        return [writeParagraph(child, context, { numId, level })];
+      }
+      return writeBlocks([child], context);
+    })
+  );
+}
+
+/**
+ * Write a table (`w:tbl`). A cell's colspan becomes a grid span; a cell
+ * spanning rows is written as a vertical merge, with continuation cells in
+ * the rows below.
+ */
+function writeTable(table: ProseMirrorJsonNode, context: ExportContext): XmlElement {
+  const rows = table.content ?? [];
+  // Columns covered by a cell from a row above, per row: column => colspan
+  const covered = rows.map(() => new Map<number, number>());
+  let columns = 0;
+
+  const cell = (colspan: number, vMerge: string | undefined, blocks: XmlElement[]) => {
+    const tcPr = [
+      ...(colspan > 1 ? [xml("w:gridSpan", { "w:val": colspan })] : []),
+      ...(vMerge ? [xml("w:vMerge", { "w:val": vMerge })] : []),
+    ];
+    // A cell must end with a paragraph
+    const content = blocks[blocks.length - 1]?.name === "w:p" ? blocks : [...blocks, xml("w:p")];
+    return xml("w:tc", {}, [...(tcPr.length > 0 ? [xml("w:tcPr", {}, tcPr)] : []), ...content]);
+  };
+
+  const writtenRows = rows.map((row, rowIndex) => {
+    const cells: XmlElement[] = [];
+    let column = 0;
+    // Continue cells merged from above at the current column
+    const continueCovered = () => {
+      while (covered[rowIndex].has(column)) {
+        const colspan = covered[rowIndex].get(column)!;
+        cells.push(cell(colspan, "continue", []));
+        column += colspan;
+      }
+    };
+
+    for (const node of row.content ?? []) {
+      continueCovered();
+      const colspan = numberValue(node.attrs?.colspan) ?? 1;
+      const rowspan = numberValue(node.attrs?.rowspan) ?? 1;
+      for (let below = 1; below < rowspan && rowIndex + below < rows.length; below++) {
+        covered[rowIndex + below].set(column, colspan);
+      }
+      cells.push(
+        cell(colspan, rowspan > 1 ? "restart" : undefined, writeBlocks(node.content ?? [], context))
+      );
+      column += colspan;
+    }
+    continueCovered();
+
+    columns = Math.max(columns, column);
+    return xml("w:tr", {}, cells);
+  });
+
+  const border = (side: string) =>
+    xml(`w:${side}`, { "w:val": "single", "w:sz": 4, "w:space": 0, "w:color": "auto" });
+  return xml("w:tbl", {}, [
+    xml("w:tblPr", {}, [
+      xml("w:tblW", { "w:w": 0, "w:type": "auto" }),
+      xml(
+        "w:tblBorders",
+        {},
+        ["top", "left", "bottom", "right", "insideH", "insideV"].map(border)
+      ),
+    ]),
+    xml("w:tblGrid", {}, Array.from({ length: columns }, () => xml("w:gridCol"))),
+    ...writtenRows,
+  ]);
+}
+
+/**
+ * Write block content: paragraphs, lists and tables, and the content of any
+ * other block
+ */
+function writeBlocks(
+  nodes: ReadonlyArray<ProseMirrorJsonNode>,
+  context: ExportContext
+): XmlElement[] {
+  return nodes.flatMap((node) => {
+    switch (node.type) {
+      case "paragraph":
+      case "heading":
+        return [writeParagraph(node, context)];
+      case "bulletList":
+      case "orderedList":
+        return writeList(node, context, 0);
+      case "table":
+        return [writeTable(node, context)];
+      default:
+        return writeBlocks(node.content ?? [], context);
+    }
+  });
+}
+
+/**
+ * Write ProseMirror JSON as the body of a DOCX file.
+ *
+ * Pictures are written when their media path (`src`) is in the template;
+ * new external links are added to the document's relationships.
+ *
+ * @param json - The document, as the importer gives it (plus track marks)
+ * @param template - The DOCX file whose body is replaced
+ * @returns The new DOCX file
+ * @throws Error if the template is not a readable DOCX package
+ */
+export async function exportDocx(
+  json: ProseMirrorJsonNode,
+  template: ArrayBuffer | Uint8Array
+): Promise<Uint8Array> {
+  const entries = await readZip(template);
+  const documentPath =
+    findRelatedPart(readRelationships(entries, ""), "/officeDocument") ?? "word/document.xml";
+  const document = readXml(entries, documentPath);
+  const body = document && childElement(document, "w:body");
+  if (!body) throw new Error(`Not a DOCX file: no document body in ${documentPath}`);
+
+  const relationships = readRelationships(entries, documentPath);
+  const images = new Map<string, string>();
+  const hyperlinks = new Map<string, string>();
+  for (const [id, rel] of relationships) {
+    if (rel.type.endsWith("/image")) images.set(rel.target, id);
+    if (rel.type.endsWith("/hyperlink")) hyperlinks.set(rel.target, id);
+  }
+
+  const headingStyles = new Map<string, string>();
+  const stylesPath = findRelatedPart(relationships, "/styles");
+  const styles = stylesPath ? readXml(entries, stylesPath) : undefined;
+  for (const style of styles ? childElements(styles, "w:style") : []) {
+    const name = childElement(style, "w:name")?.attrs["w:val"];
+    const level = name?.match(/^heading\s*(\d)$/i)?.[1];
+    if (level) headingStyles.set(`Heading${level}`, style.attrs["w:styleId"]);
+  }
+
+  const newRelationships: XmlElement[] = [];
+  let lastRelationship = Math.max(
+    0,
+    ...[...relationships.keys()].map((id) => Number(id.match(/^rId(\d+)$/)?.[1] ?? 0))
+  );
+  let lastId = 0;
+  const context: ExportContext = {
+    headingStyles,
+    images,
+    hyperlink(href) {
+      let id = hyperlinks.get(href);
+      if (!id) {
+        id = `rId${++lastRelationship}`;
+        hyperlinks.set(href, id);
+        newRelationships.push(
+          xml("Relationship", {
+            Id: id,
+            Type: HYPERLINK_TYPE,
+            Target: href,
+            TargetMode: "External",
+          })
+        );
+      }
+      return id;
+    },
+    nextId: () => ++lastId,
+  };
+
+  // The last section's properties (page size, headers, footers) end the body
+  const sectPr = childElements(body).findLast((child) => child.name === "w:sectPr");
+  const newBody = xml("w:body", {}, [
+    ...writeBlocks(json.content ?? [], context),
+    ...(sectPr ? [sectPr] : []),
+  ]);
+  const newDocument: XmlElement = {
+    ...document,
+    attrs: { ...NAMESPACES, ...document.attrs },
+    children: document.children.map((child) => (child === body ? newBody : child)),
+  };
+
+  const encoder = new TextEncoder();
+  const written = new Map(entries);
+  written.set(documentPath, encoder.encode(serializeXml(newDocument, true)));
+  if (newRelationships.length > 0) {
+    const relsPath = relationshipsPath(documentPath);
+    const rels = readXml(entries, relsPath) ?? {
+      name: "Relationships",
+      attrs: { xmlns: "http://schemas.openxmlformats.org/package/2006/relationships" },
+      children: [],
+    };
+    written.set(
+      relsPath,
+      encoder.encode(
+        serializeXml({ ...rels, children: [...rels.children, ...newRelationships] }, true)
+      )
+    );
+  }
+  return writeZip(written);
+}
@@ -0,0 +1,338 @@
+/**
+ * Headless DOCX Import - Tests
+ *
+ * DOCX fixtures are zipped in memory from minimal WordprocessingML parts
+ * (see __fixtures__/docx.ts), with stored and deflated entries.
+ *
+ * @module docx-import
+ */
+
+import { describe, it, expect } from "vitest";
+import { docx, p, PNG, W_NS, zip } from "./__fixtures__/docx";
+import { runComparison } from "./comparison-pipeline";
+import { importDocx } from "./docx-import";
+import { parseXml, readZip } from "./docx-package";
+import { extractTextWithFormattingFromJson } from "./text-extraction";
+
+const STYLES = `<w:styles ${W_NS}>
+  <w:style w:type="paragraph" w:styleId="berschrift1"><w:name w:val="heading 1"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/></w:style>
+</w:styles>`;
+
+const NUMBERING = `<w:numbering ${W_NS}>
+  <w:abstractNum w:abstractNumId="0">
+    <w:lvl w:ilvl="0"><w:numFmt w:val="decimal"/></w:lvl>
+    <w:lvl w:ilvl="1"><w:numFmt w:val="bullet"/></w:lvl>
+  </w:abstractNum>
+  <w:num w:numId="3"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+
+function numbered(text: string, level: number): string {
+  return p(text, `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="3"/></w:numPr>`);
+}
+
+describe("readZip", () => {
+  it("should read stored and deflated entries", async () => {
+    const entries = await readZip(
+      await zip({ "word/document.xml": "<w:document/>", "word/media/image1.png": PNG })
+    );
+
+    expect(new TextDecoder().decode(entries.get("word/document.xml"))).toBe("<w:document/>");
+    expect(entries.get("word/media/image1.png")).toEqual(PNG);
+  });
+
+  it("should reject data that is not a zip archive", async () => {
+    await expect(readZip(new TextEncoder().encode("plain text, not a document"))).rejects.toThrow(
+      /Not a zip archive/
+    );
+  });
+
+  it("should reject a truncated archive", async () => {
+    const archive = await zip({ "word/document.xml": "<w:document/>" });
+    const truncated = new Uint8Array([...archive.subarray(0, 20), ...archive.subarray(-22)]);
+
+    await expect(readZip(truncated)).rejects.toThrow(/Corrupt zip archive/);
+  });
+
+  it("should reject an archive whose entries add up to more than the limit", async () => {
+    const archive = await zip({ "a.xml": "a".repeat(60_000), "b.xml": "b".repeat(60_000) });
+
+    await expect(readZip(archive, 100_000)).rejects.toThrow(/expands to more than 100000 bytes/);
+    expect((await readZip(archive, 120_000)).size).toBe(2);
+  });
+
+  it("should stop inflating an entry at its declared size", async () => {
+    const archive = await zip({ "word/document.xml": "a".repeat(1_000_000) });
+    // Declare 1 KB in the central directory entry, as a zip bomb would
+    const view = new DataView(archive.buffer);
+    const central = archive.length - 22 - 46 - "word/document.xml".length;
+    view.setUint32(central + 24, 1024, true);
+
+    await expect(readZip(archive)).rejects.toThrow(/document\.xml is larger than declared/);
+  });
+});
+
+describe("parseXml", () => {
+  it("should parse elements, attributes, text, entities and CDATA", () => {
+    const root = parseXml(
+      `<?xml version="1.0"?><!-- comment --><a x="1" y='&quot;2&quot;'><b/>R&amp;D &#x2014; &#8364;<![CDATA[<raw>]]></a>`
+    );
+
+    expect(root).toEqual({
+      name: "a",
+      attrs: { x: "1", y: '"2"' },
+      children: [{ name: "b", attrs: {}, children: [] }, "R&D — €", "<raw>"],
+    });
+  });
+
+  it("should reject mismatched and unclosed elements", () => {
+    expect(() => parseXml("<a><b></a>")).toThrow(/Malformed XML/);
+    expect(() => parseXml("<a><b/>")).toThrow(/Malformed XML/);
+  });
+});
+
+describe("importDocx", () => {
+  it("should convert paragraphs with their style, alignment, indent and spacing", async () => {
+    const { json } = await importDocx(
+      await docx(
+        p("Payment", '<w:pStyle w:val="berschrift1"/>') +
+          p(
+            "Rent is due.",
+            '<w:pStyle w:val="Quote"/><w:jc w:val="both"/><w:ind w:left="720" w:hanging="360"/><w:spacing w:after="120"/>'
+          ) +
+          "<w:p/>",
+        { "word/styles.xml": STYLES },
+        [["rId1", "styles", "styles.xml"]]
+      )
+    );
+
+    expect(json).toEqual({
+      type: "doc",
+      content: [
+        { type: "paragraph", attrs: { styleId: "Heading1" }, content: [{ type: "text", text: "Payment" }] },
+        {
+          type: "paragraph",
+          attrs: {
+            styleId: "Quote",
+            textAlign: "justify",
+            indent: { left: 720, hanging: 360 },
+            spacing: { after: 120 },
+          },
+          content: [{ type: "text", text: "Rent is due." }],
+        },
+        { type: "paragraph" },
+      ],
+    });
+    expect(extractTextWithFormattingFromJson(json).blocks[0]).toMatchObject({
+      type: "heading",
+      headingLevel: 1,
+    });
+  });
+
+  it("should convert direct run formatting to marks and merge equal runs", async () => {
+    const { json } = await importDocx(
+      await docx(
+        "<w:p>" +
+          '<w:r><w:rPr><w:b/><w:i w:val="0"/><w:u w:val="single"/><w:sz w:val="24"/><w:color w:val="FF0000"/><w:rFonts w:ascii="Arial"/></w:rPr><w:t>Due </w:t></w:r>' +
+          '<w:r><w:rPr><w:b/><w:u w:val="single"/><w:sz w:val="24"/><w:color w:val="FF0000"/><w:rFonts w:ascii="Arial"/></w:rPr><w:t>now</w:t></w:r>' +
+          '<w:r><w:rPr><w:highlight w:val="yellow"/><w:vertAlign w:val="superscript"/></w:rPr><w:t>1</w:t></w:r>' +
+          "<w:r><w:tab/><w:t>end</w:t><w:br/></w:r>" +
+          "</w:p>"
+      )
+    );
+
+    expect(json.content?.[0].content).toEqual([
+      {
+        type: "text",
+        text: "Due now",
+        marks: [
+          { type: "bold" },
+          { type: "underline" },
+          { type: "textStyle", attrs: { fontFamily: "Arial", fontSize: 12, color: "#FF0000" } },
+        ],
+      },
+      {
+        type: "text",
+        text: "1",
+        marks: [{ type: "superscript" }, { type: "highlight", attrs: { color: "yellow" } }],
+      },
+      { type: "tab" },
+      { type: "text", text: "end" },
+      { type: "hardBreak" },
+    ]);
+  });
+
+  it("should mark links and tracked changes", async () => {
+    const { json } = await importDocx(
+      await docx(
+        "<w:p>" +
+          '<w:hyperlink r:id="rId9"><w:r><w:t>terms</w:t></w:r></w:hyperlink>' +
+          '<w:ins w:id="1" w:author="Ann" w:date="2026-01-02T00:00:00Z"><w:r><w:t> apply</w:t></w:r></w:ins>' +
+          '<w:del w:id="2" w:author="Ben"><w:r><w:delText> never</w:delText></w:r></w:del>' +
+          '<w:r><w:rPr><w:b/><w:rPrChange w:id="3" w:author="Ann"><w:rPr/></w:rPrChange></w:rPr><w:t>!</w:t></w:r>' +
+          "</w:p>",
+        {},
+        [["rId9", "hyperlink", "https://example.com/terms", true]]
+      )
+    );
+
+    expect(json.content?.[0].content).toEqual([
+      { type: "text", text: "terms", marks: [{ type: "link", attrs: { href: "https://example.com/terms" } }] },
+      {
+        type: "text",
+        text: " apply",
+        marks: [{ type: "trackInsert", attrs: { id: "1", author: "Ann", date: "2026-01-02T00:00:00Z" } }],
+      },
+      { type: "text", text: " never", marks: [{ type: "trackDelete", attrs: { id: "2", author: "Ben" } }] },
+      {
+        type: "text",
+        text: "!",
+        marks: [
+          { type: "bold" },
+          { type: "trackFormat", attrs: { id: "3", author: "Ann", before: [], after: [{ type: "bold" }] } },
+        ],
+      },
+    ]);
+  });
+
+  it("should group numbered paragraphs into nested lists", async () => {
+    const { json } = await importDocx(
+      await docx(
+        numbered("First", 0) + numbered("Detail", 1) + numbered("Second", 0) + p("After"),
+        { "word/numbering.xml": NUMBERING },
+        [["rId2", "numbering", "numbering.xml"]]
+      )
+    );
+    const item = (text: string, ...lists: unknown[]) => ({
+      type: "listItem",
+      content: [{ type: "paragraph", content: [{ type: "text", text }] }, ...lists],
+    });
+
+    expect(json.content).toEqual([
+      {
+        type: "orderedList",
+        attrs: { numId: "3" },
+        content: [
+          item("First", { type: "bulletList", attrs: { numId: "3" }, content: [item("Detail")] }),
+          item("Second"),
+        ],
+      },
+      { type: "paragraph", content: [{ type: "text", text: "After" }] },
+    ]);
+    expect(extractTextWithFormattingFromJson(json).blocks[1]).toMatchObject({
+      listType: "bullet",
+      listDepth: 2,
+    });
+  });
+
+  it("should convert tables with merged cells", async () => {
+    const cell = (text: string, tcPr = "") => `<w:tc>${tcPr && `<w:tcPr>${tcPr}</w:tcPr>`}${p(text)}</w:tc>`;
+    const { json } = await importDocx(
+      await docx(
+        "<w:tbl>" +
+          `<w:tr>${cell("Party", '<w:vMerge w:val="restart"/>')}${cell("Role and term", '<w:gridSpan w:val="2"/>')}</w:tr>` +
+          `<w:tr>${cell("", "<w:vMerge/>")}${cell("Tenant")}${cell("1 year")}</w:tr>` +
+          "</w:tbl>"
+      )
+    );
+    const tableCell = (text: string, colspan = 1, rowspan = 1) => ({
+      type: "tableCell",
+      attrs: { colspan, rowspan },
+      content: [{ type: "paragraph", content: [{ type: "text", text }] }],
+    });
+
+    expect(json.content).toEqual([
+      {
+        type: "table",
+        content: [
+          { type: "tableRow", content: [tableCell("Party", 1, 2), tableCell("Role and term", 2)] },
+          { type: "tableRow", content: [tableCell("Tenant"), tableCell("1 year")] },
+        ],
+      },
+    ]);
+    expect(extractTextWithFormattingFromJson(json).tables).toHaveLength(1);
+  });
+
+  it("should convert images and return media as data URIs", async () => {
+    const drawing =
+      '<w:drawing><wp:inline><wp:extent cx="952500" cy="476250"/><wp:docPr id="1" name="Logo" descr="Company logo"/>' +
+      '<a:graphic><a:graphicData><a:blip r:embed="rId5"/></a:graphicData></a:graphic></wp:inline></w:drawing>';
+    const { json, media } = await importDocx(
+      await docx(
+        `<w:p><w:r>${drawing}</w:r></w:p>`,
+        { "word/media/image1.png": PNG },
+        [["rId5", "image", "media/image1.png"]]
+      )
+    );
+
+    expect(json.content?.[0].content).toEqual([
+      {
+        type: "image",
+        attrs: { src: "word/media/image1.png", alt: "Company logo", size: { width: 100, height: 50 } },
+      },
+    ]);
+    expect(media["word/media/image1.png"]).toMatch(/^data:image\/png;base64,iVBORw0KGgo/);
+    expect(extractTextWithFormattingFromJson(json, media).objects[0].src).toBe(
+      media["word/media/image1.png"]
+    );
+  });
+
+  it("should import headers, footers and notes as document parts", async () => {
+    const { json, parts } = await importDocx(
+      await docx(
+        '<w:p><w:r><w:t>Body</w:t></w:r><w:r><w:footnoteReference w:id="1"/></w:r></w:p>' +
+          '<w:sectPr><w:headerReference w:type="default" r:id="rId7"/><w:footerReference w:type="default" r:id="rId8"/></w:sectPr>',
+        {
+          "word/header1.xml": `<w:hdr ${W_NS}>${p("Confidential")}</w:hdr>`,
+          "word/footer1.xml": `<w:ftr ${W_NS}>${p("Page")}</w:ftr>`,
+          "word/footnotes.xml":
+            `<w:footnotes ${W_NS}><w:footnote w:type="separator" w:id="-1"><w:p/></w:footnote>` +
+            `<w:footnote w:id="1">${p("See clause 4.")}</w:footnote></w:footnotes>`,
+        },
+        [
+          ["rId7", "header", "header1.xml"],
+          ["rId8", "footer", "footer1.xml"],
+          ["rId3", "footnotes", "footnotes.xml"],
+        ]
+      )
+    );
+
+    expect(parts.map((part) => [part.id, part.sourceId])).toEqual([
+      ["header-1", "rId7"],
+      ["footer-1", "rId8"],
+      ["footnote-1", "1"],
+    ]);
+    expect(extractTextWithFormattingFromJson(parts[2].json).text).toBe("See clause 4.");
+    expect(json.content?.[0].content).toEqual([
+      { type: "text", text: "Body" },
+      { type: "footnoteReference", attrs: { id: "1" } },
+    ]);
+    expect(extractTextWithFormattingFromJson(json).text).toBe("Body");
+  });
+
+  it("should feed two imported documents through the comparison pipeline", async () => {
+    const original = await importDocx(await docx(p("Rent is due monthly.")));
+    const modified = await importDocx(await docx(p("Rent is due quarterly.", "", "<w:b/>")));
+    const extracted = extractTextWithFormattingFromJson(modified.json, modified.media);
+
+    const result = runComparison({
+      originalJson: original.json,
+      modifiedText: extracted.text,
+      modifiedFormatting: extracted.formatting,
+      originalParts: original.parts,
+      modifiedParts: modified.parts,
+      options: { granularity: "word" },
+    });
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({ oldContent: "monthly", content: "quarterly" }),
+    ]);
+    expect(result.formattingChanges.length).toBeGreaterThan(0);
+  });
+
+  it("should reject a zip archive without a document body", async () => {
+    await expect(importDocx(await zip({ "readme.txt": "hello" }))).rejects.toThrow(
+      /Not a DOCX file/
+    );
+  });
+});
@@ -0,0 +1,663 @@
+/**
+ * Headless DOCX Import
+ *
+ * Comparing documents used to mean loading each into a SuperDoc editor (the
+ * original into a hidden one) just to call `getJSON()`, so a comparison
+ * could only run in a browser. This importer reads a DOCX file directly and
+ * builds ProseMirror JSON in the shape SuperDoc gives: paragraphs with their
+ * style, alignment, indentation and spacing, headings as "HeadingN" styled
+ * paragraphs, lists, tables, images and drawings, text marks for direct run
+ * formatting and links, and tracked changes as trackInsert, trackDelete and
+ * trackFormat marks. Headers, footers and notes become document parts and
+ * media become data URIs, so the result feeds runComparison and the
+ * extractors unchanged, on a server, in a worker or from the command line.
+ *
+ * Formatting inherited from styles is not resolved (only direct formatting
+ * is read, as the formatting diff compares), and fields contribute their
+ * displayed result.
+ */
+
+import { createDocumentParts } from "./document-parts";
+import {
+  childElement,
+  childElements,
+  elementText,
+  findElement,
+  findElements,
+  findRelatedPart,
+  readRelationships,
+  readXml,
+  readZip,
+} from "./docx-package";
+import type {
+  DocxRelationship,
+  ImportedDocx,
+  ProseMirrorJsonNode,
+  ProseMirrorMark,
+  ProseMirrorMarkAttrs,
+  ProseMirrorNodeAttrs,
+  SuperDocNote,
+  XmlElement,
+} from "./types";
+
+/**
+ * Relationship type suffixes of the parts the importer reads
+ */
+const RELATIONSHIP_TYPES = {
+  officeDocument: "/officeDocument",
+  styles: "/styles",
+  numbering: "/numbering",
+  footnotes: "/footnotes",
+  endnotes: "/endnotes",
+};
+
+/**
+ * Style names that make a paragraph a heading ("heading 1"...), whatever
+ * the style's ID (Word localizes IDs, e.g. "berschrift1")
+ */
+const HEADING_STYLE_NAME = /^heading\s*(\d)$/i;
+
+/**
+ * Word paragraph alignments and the textAlign they stand for
+ */
+const ALIGNMENTS: Record<string, string> = {
+  left: "left",
+  start: "left",
+  center: "center",
+  right: "right",
+  end: "right",
+  both: "justify",
+  distribute: "justify",
+};
+
+/**
+ * Media types of embedded media, by file extension
+ */
+const MEDIA_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  svg: "image/svg+xml",
+  emf: "image/x-emf",
+  wmf: "image/x-wmf",
+};
+
+/**
+ * English Metric Units per pixel (914400 per inch at 96 pixels per inch)
+ */
+const EMU_PER_PIXEL = 9525;
+
+/**
+ * Inline elements whose content is read as if it were not wrapped
+ */
+const TRANSPARENT_INLINE = new Set([
+  "w:smartTag",
+  "w:customXml",
+  "w:fldSimple",
+  "w:sdtContent",
+  "w:dir",
+  "w:bdo",
+]);
+
+/**
+ * A paragraph style's name and its list numbering, if any
+ */
+interface StyleDefinition {
+  readonly name?: string;
+  readonly numbering?: ListNumbering;
+}
+
+/**
+ * A paragraph's place in a list
+ */
+interface ListNumbering {
+  readonly numId: string;
+  readonly level: number;
+}
+
+/**
+ * What converting any part of a document needs
+ */
+interface ImportContext {
+  /** Relationships of the part being converted */
+  readonly relationships: ReadonlyMap<string, DocxRelationship>;
+  readonly styles: ReadonlyMap<string, StyleDefinition>;
+  /** Number format ("bullet", "decimal"...) of each level of each list */
+  readonly numbering: ReadonlyMap<string, ReadonlyMap<number, string>>;
+}
+
+/**
+ * A node whose content is still being added
+ */
+interface BuildingNode {
+  readonly type: string;
+  readonly attrs?: ProseMirrorNodeAttrs;
+  readonly content: ProseMirrorJsonNode[];
+}
+
+/**
+ * A `w:val` attribute
+ */
+function val(element: XmlElement | undefined): string | undefined {
+  return element?.attrs["w:val"];
+}
+
+/**
+ * Whether an on/off property (`<w:b/>`, `<w:b w:val="0"/>`...) is on
+ */
+function isOn(element: XmlElement | undefined): boolean {
+  if (!element) return false;
+  const value = val(element);
+  return value === undefined || !["0", "false", "off", "none"].includes(value);
+}
+
+/**
+ * A numeric attribute, if present
+ */
+function numberAttr(element: XmlElement | undefined, name: string): number | undefined {
+  const value = element?.attrs[name];
+  return value !== undefined && value !== "" && Number.isFinite(Number(value))
+    ? Number(value)
+    : undefined;
+}
+
+/**
+ * The attributes that are set, or undefined if none are
+ */
+function definedAttrs<T extends object>(attrs: T): T | undefined {
+  const defined = Object.fromEntries(
+    Object.entries(attrs).filter(([, value]) => value !== undefined)
+  ) as T;
+  return Object.keys(defined).length > 0 ? defined : undefined;
+}
+
+/**
+ * A paragraph's list numbering from its `w:numPr`, if it has any
+ * (numbering ID 0 removes numbering)
+ */
+function readNumPr(numPr: XmlElement | undefined): ListNumbering | undefined {
+  const numId = numPr && val(childElement(numPr, "w:numId"));
+  if (!numPr || numId === undefined || numId === "0") return undefined;
+  return { numId, level: Number(val(childElement(numPr, "w:ilvl")) ?? 0) };
+}
+
+/**
+ * Paragraph styles by ID
+ */
+function readStyles(styles: XmlElement | undefined): Map<string, StyleDefinition> {
+  const definitions = new Map<string, StyleDefinition>();
+  for (const style of styles ? childElements(styles, "w:style") : []) {
+    if (style.attrs["w:type"] !== "paragraph") continue;
+    const pPr = childElement(style, "w:pPr");
+    definitions.set(style.attrs["w:styleId"], {
+      name: val(childElement(style, "w:name")),
+      numbering: pPr ? readNumPr(childElement(pPr, "w:numPr")) : undefined,
+    });
+  }
+  return definitions;
+}
+
+/**
+ * Number format of each level of each list, by numbering ID
+ */
+function readNumbering(numbering: XmlElement | undefined): Map<string, Map<number, string>> {
+  const abstractFormats = new Map<string, Map<number, string>>();
+  const formats = new Map<string, Map<number, string>>();
+  if (!numbering) return formats;
+
+  for (const abstractNum of childElements(numbering, "w:abstractNum")) {
+    const levels = new Map<number, string>();
+    for (const lvl of childElements(abstractNum, "w:lvl")) {
+      levels.set(Number(lvl.attrs["w:ilvl"] ?? 0), val(childElement(lvl, "w:numFmt")) ?? "decimal");
+    }
+    abstractFormats.set(abstractNum.attrs["w:abstractNumId"], levels);
+  }
+  for (const num of childElements(numbering, "w:num")) {
+    const abstractId = val(childElement(num, "w:abstractNumId"));
+    formats.set(num.attrs["w:numId"], abstractFormats.get(abstractId ?? "") ?? new Map());
+  }
+  return formats;
+}
+
+/**
+ * Attributes of a tracked change (`w:ins`, `w:del`, `w:rPrChange`...)
+ */
+function revisionAttrs(element: XmlElement): ProseMirrorMarkAttrs {
+  return definedAttrs({
+    id: element.attrs["w:id"],
+    author: element.attrs["w:author"],
+    date: element.attrs["w:date"],
+  }) ?? {};
+}
+
+/**
+ * Marks for a run's direct formatting (`w:rPr`)
+ */
+function runMarks(rPr: XmlElement | undefined): ProseMirrorMark[] {
+  if (!rPr) return [];
+  const property = (name: string) => childElement(rPr, name);
+  const marks: ProseMirrorMark[] = [];
+
+  if (isOn(property("w:b"))) marks.push({ type: "bold" });
+  if (isOn(property("w:i"))) marks.push({ type: "italic" });
+  if (isOn(property("w:u"))) marks.push({ type: "underline" });
+  if (isOn(property("w:strike")) || isOn(property("w:dstrike"))) marks.push({ type: "strike" });
+
+  const vertAlign = val(property("w:vertAlign"));
+  if (vertAlign === "superscript" || vertAlign === "subscript") marks.push({ type: vertAlign });
+
+  const fonts = property("w:rFonts");
+  const halfPoints = numberAttr(property("w:sz"), "w:val");
+  const color = val(property("w:color"));
+  const textStyle = definedAttrs({
+    fontFamily: fonts?.attrs["w:ascii"] ?? fonts?.attrs["w:hAnsi"],
+    fontSize: halfPoints !== undefined ? halfPoints / 2 : undefined,
+    color: color && color !== "auto" ? `#${color}` : undefined,
+  });
+  if (textStyle) marks.push({ type: "textStyle", attrs: textStyle });
+
+  const highlight = val(property("w:highlight"));
+  if (highlight && highlight !== "none") {
+    marks.push({ type: "highlight", attrs: { color: highlight } });
+  }
+
+  const formatChange = property("w:rPrChange");
+  if (formatChange) {
+    marks.push({
+      type: "trackFormat",
+      attrs: {
+        ...revisionAttrs(formatChange),
+        before: runMarks(childElement(formatChange, "w:rPr")),
+        after: [...marks],
+      },
+    });
+  }
+  return marks;
+}
+
+/**
+ * An image or drawing node for a `w:drawing`
+ */
+function convertDrawing(drawing: XmlElement, context: ImportContext): ProseMirrorJsonNode {
+  const frame = childElement(drawing, "wp:inline") ?? childElement(drawing, "wp:anchor") ?? drawing;
+  const extent = childElement(frame, "wp:extent");
+  const cx = numberAttr(extent, "cx");
+  const cy = numberAttr(extent, "cy");
+  const size = definedAttrs({
+    width: cx !== undefined ? Math.round(cx / EMU_PER_PIXEL) : undefined,
+    height: cy !== undefined ? Math.round(cy / EMU_PER_PIXEL) : undefined,
+  });
+  const docPr = childElement(frame, "wp:docPr");
+  const blip = findElement(frame, "a:blip");
+
+  if (!blip) {
+    return {
+      type: findElement(frame, "wpg:wgp") ? "shapeGroup" : "vectorShape",
+      attrs: definedAttrs({ name: docPr?.attrs.name, size }),
+    };
+  }
+
+  const embed = blip.attrs["r:embed"] ?? blip.attrs["r:link"];
+  return {
+    type: "image",
+    attrs: definedAttrs({
+      src: embed ? context.relationships.get(embed)?.target : undefined,
+      alt: docPr?.attrs.descr || undefined,
+      title: docPr?.attrs.title || undefined,
+      size,
+    }),
+  };
+}
+
+/**
+ * Add a text or inline node, merging text into the previous text node when
+ * their marks match (as ProseMirror does)
+ */
+function pushInline(content: ProseMirrorJsonNode[], node: ProseMirrorJsonNode): void {
+  const previous = content[content.length - 1];
+  if (
+    node.text !== undefined &&
+    previous?.text !== undefined &&
+    JSON.stringify(previous.marks ?? []) === JSON.stringify(node.marks ?? [])
+  ) {
+    content[content.length - 1] = { ...previous, text: previous.text + node.text };
+    return;
+  }
+  content.push(node);
+}
+
+/**
+ * Convert the content of a run (`w:r`)
+ */
+function convertRun(
+  run: XmlElement,
+  outerMarks: ReadonlyArray<ProseMirrorMark>,
+  context: ImportContext,
+  content: ProseMirrorJsonNode[]
+): void {
+  const marks = [...outerMarks, ...runMarks(childElement(run, "w:rPr"))];
+  const withMarks = (node: ProseMirrorJsonNode) =>
+    marks.length > 0 ? { ...node, marks } : node;
+
+  for (const child of childElements(run)) {
+    switch (child.name) {
+      case "w:t":
+      case "w:delText": {
+        const text = elementText(child);
+        if (text) pushInline(content, withMarks({ type: "text", text }));
+        break;
+      }
+      case "w:noBreakHyphen":
+        pushInline(content, withMarks({ type: "text", text: "\u2011" }));
+        break;
+      case "w:tab":
+        pushInline(content, withMarks({ type: "tab" }));
+        break;
+      case "w:br":
+      case "w:cr":
+        pushInline(content, withMarks({ type: "hardBreak" }));
+        break;
+      case "w:drawing":
+        pushInline(content, withMarks(convertDrawing(child, context)));
+        break;
+      case "w:footnoteReference":
+      case "w:endnoteReference":
+        pushInline(
+          content,
+          withMarks({
+            type: child.name === "w:footnoteReference" ? "footnoteReference" : "endnoteReference",
+            attrs: { id: child.attrs["w:id"] },
+          })
+        );
+        break;
+    }
+  }
+}
+
+/**
+ * Convert the inline content of a paragraph, or of an element inside one
+ * (links, tracked changes, content controls...)
+ */
+function convertInline(
+  element: XmlElement,
+  marks: ReadonlyArray<ProseMirrorMark>,
+  context: ImportContext,
+  content: ProseMirrorJsonNode[]
+): void {
+  for (const child of childElements(element)) {
+    if (child.name === "w:r") {
+      convertRun(child, marks, context, content);
+    } else if (child.name === "w:hyperlink") {
+      const target = child.attrs["r:id"]
+        ? context.relationships.get(child.attrs["r:id"])?.target
+        : undefined;
+      const anchor = child.attrs["w:anchor"];
+      const href = target ?? (anchor ? `#${anchor}` : undefined);
+      const link = { type: "link", attrs: { href } };
+      convertInline(child, href ? [...marks, link] : marks, context, content);
+    } else if (child.name === "w:ins" || child.name === "w:moveTo") {
+      const insertion = { type: "trackInsert", attrs: revisionAttrs(child) };
+      convertInline(child, [...marks, insertion], context, content);
+    } else if (child.name === "w:del" || child.name === "w:moveFrom") {
+      const deletion = { type: "trackDelete", attrs: revisionAttrs(child) };
+      convertInline(child, [...marks, deletion], context, content);
+    } else if (child.name === "w:sdt") {
+      const sdtContent = childElement(child, "w:sdtContent");
+      if (sdtContent) convertInline(sdtContent, marks, context, content);
+    } else if (TRANSPARENT_INLINE.has(child.name)) {
+      convertInline(child, marks, context, content);
+    }
+  }
+}
+
+/**
+ * Convert a paragraph (`w:p`), and find its place in a list
+ */
+function convertParagraph(
+  paragraph: XmlElement,
+  context: ImportContext
+): { node: ProseMirrorJsonNode; numbering?: ListNumbering } {
+  const pPr = childElement(paragraph, "w:pPr");
+  const property = (name: string) => (pPr ? childElement(pPr, name) : undefined);
+  const styleId = val(property("w:pStyle"));
+  const style = styleId !== undefined ? context.styles.get(styleId) : undefined;
+  const headingLevel = style?.name?.match(HEADING_STYLE_NAME)?.[1];
+
+  const ind = property("w:ind");
+  const spacing = property("w:spacing");
+  const attrs = definedAttrs<ProseMirrorNodeAttrs>({
+    styleId: headingLevel ? `Heading${headingLevel}` : styleId,
+    textAlign: ALIGNMENTS[val(property("w:jc")) ?? ""],
+    indent: ind
+      ? definedAttrs({
+          left: numberAttr(ind, "w:left") ?? numberAttr(ind, "w:start"),
+          right: numberAttr(ind, "w:right") ?? numberAttr(ind, "w:end"),
+          firstLine: numberAttr(ind, "w:firstLine"),
+          hanging: numberAttr(ind, "w:hanging"),
+        })
+      : undefined,
+    spacing: spacing
+      ? definedAttrs({
+          before: numberAttr(spacing, "w:before"),
+          after: numberAttr(spacing, "w:after"),
+          line: numberAttr(spacing, "w:line"),
+        })
+      : undefined,
+  });
+
+  const content: ProseMirrorJsonNode[] = [];
+  convertInline(paragraph, [], context, content);
+
+  const numPr = property("w:numPr");
+  return {
+    node: {
+      type: "paragraph",
+      ...(attrs && { attrs }),
+      ...(content.length > 0 && { content }),
+    },
+    numbering: numPr ? readNumPr(numPr) : style?.numbering,
+  };
+}
+
+/**
+ * Convert a table (`w:tbl`). Cells merged across columns get a colspan; a
+ * vertically merged cell gets a rowspan and the cells it covers are dropped,
+ * as in a ProseMirror table.
+ */
+function convertTable(table: XmlElement, context: ImportContext): ProseMirrorJsonNode {
+  const rows = childElements(table, "w:tr").map((row) => {
+    let column = 0;
+    return childElements(row, "w:tc").map((cell) => {
+      const tcPr = childElement(cell, "w:tcPr");
+      const colspan = numberAttr(tcPr && childElement(tcPr, "w:gridSpan"), "w:val") ?? 1;
+      const vMerge = tcPr && childElement(tcPr, "w:vMerge");
+      const placed = {
+        cell,
+        column,
+        colspan,
+        continuesAbove: vMerge !== undefined && val(vMerge) !== "restart",
+      };
+      column += colspan;
+      return placed;
+    });
+  });
+
+  return {
+    type: "table",
+    content: rows.map((row, rowIndex) => ({
+      type: "tableRow",
+      content: row
+        .filter((placed) => !placed.continuesAbove)
+        .map((placed) => {
+          let rowspan = 1;
+          while (
+            rows[rowIndex + rowspan]?.some(
+              (below) => below.column === placed.column && below.continuesAbove
+            )
+          ) {
+            rowspan++;
+          }
+          const blocks = convertBlocks(childElements(placed.cell), context);
+          return {
+            type: "tableCell",
+            attrs: { colspan: placed.colspan, rowspan },
+            content: blocks.length > 0 ? blocks : [{ type: "paragraph" }],
+          };
+        }),
+    })),
+  };
+}
+
+/**
+ * Convert block content (a body, cell, header, footer or note). Numbered
+ * paragraphs are grouped into bulletList and orderedList nodes, nested by
+ * level, which keep their numbering ID so the list can be written back.
+ */
+function convertBlocks(
+  elements: ReadonlyArray<XmlElement>,
+  context: ImportContext
+): ProseMirrorJsonNode[] {
+  const blocks: ProseMirrorJsonNode[] = [];
+  // Open lists, outermost first
+  let lists: Array<{ numId: string; node: BuildingNode }> = [];
+
+  const addListItem = (paragraph: ProseMirrorJsonNode, { numId, level }: ListNumbering) => {
+    const format = context.numbering.get(numId)?.get(level);
+    const type = format === "bullet" ? "bulletList" : "orderedList";
+
+    // A different list at the same level starts a new list
+    lists = lists.slice(0, level + 1);
+    const sameLevel = lists[level];
+    if (sameLevel && (sameLevel.numId !== numId || sameLevel.node.type !== type)) lists.pop();
+    while (lists.length < level + 1) {
+      const list: BuildingNode = { type, attrs: { numId }, content: [] };
+      const parent = lists[lists.length - 1]?.node;
+      if (!parent) {
+        blocks.push(list);
+      } else {
+        if (parent.content.length === 0) parent.content.push({ type: "listItem", content: [] });
+        (parent.content[parent.content.length - 1] as BuildingNode).content.push(list);
+      }
+      lists.push({ numId, node: list });
+    }
+    lists[level].node.content.push({ type: "listItem", content: [paragraph] });
+  };
+
+  for (const element of elements) {
+    if (element.name === "w:p") {
+      const { node, numbering } = convertParagraph(element, context);
+      if (numbering) {
+        addListItem(node, numbering);
+        continue;
+      }
+      blocks.push(node);
+    } else if (element.name === "w:tbl") {
+      blocks.push(convertTable(element, context));
+    } else if (element.name === "w:sdt" || element.name === "w:customXml") {
+      const inner = element.name === "w:sdt" ? childElement(element, "w:sdtContent") : element;
+      blocks.push(...convertBlocks(inner ? childElements(inner) : [], context));
+    } else {
+      continue;
+    }
+    lists = [];
+  }
+
+  return blocks;
+}
+
+/**
+ * Encode embedded media as a data URI
+ */
+function toDataUri(path: string, data: Uint8Array): string {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  let binary = "";
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return `data:${MEDIA_TYPES[extension] ?? "application/octet-stream"};base64,${btoa(binary)}`;
+}
+
+/**
+ * Convert a DOCX file to ProseMirror JSON without an editor.
+ *
+ * Works anywhere `DecompressionStream` exists (browsers, Web Workers and
+ * Node 18+). Headers and footers are keyed by relationship ID in the order
+ * the document's sections reference them, as SuperDoc keys them, so parts
+ * pair with those of a document loaded in SuperDoc.
+ *
+ * @param data - The DOCX file
+ * @param maxUncompressedSize - Largest total size of the package's parts, in bytes (see `readZip`)
+ * @returns The body as ProseMirror JSON, the document parts and the media
+ * @throws Error if the file is not a readable DOCX package or expands past the limit
+ */
+export async function importDocx(
+  data: ArrayBuffer | Uint8Array,
+  maxUncompressedSize = Infinity
+): Promise<ImportedDocx> {
+  const entries = await readZip(data, maxUncompressedSize);
+  const documentPath =
+    findRelatedPart(readRelationships(entries, ""), RELATIONSHIP_TYPES.officeDocument) ??
+    "word/document.xml";
+  const document = readXml(entries, documentPath);
+  const body = document && childElement(document, "w:body");
+  if (!body) throw new Error(`Not a DOCX file: no document body in ${documentPath}`);
+
+  const relationships = readRelationships(entries, documentPath);
+  const readRelated = (typeSuffix: string) => {
+    const path = findRelatedPart(relationships, typeSuffix);
+    return path ? readXml(entries, path) : undefined;
+  };
+  const base = {
+    styles: readStyles(readRelated(RELATIONSHIP_TYPES.styles)),
+    numbering: readNumbering(readRelated(RELATIONSHIP_TYPES.numbering)),
+  };
+
+  // Parts convert with their own relationships (their images and links)
+  const convertPart = (path: string, root: XmlElement) =>
+    convertBlocks(childElements(root), {
+      ...base,
+      relationships: readRelationships(entries, path),
+    });
+
+  const headerFooters = (reference: "w:headerReference" | "w:footerReference") => {
+    const parts: Record<string, ProseMirrorJsonNode> = {};
+    for (const ref of findElements(body, reference)) {
+      const id = ref.attrs["r:id"];
+      const path = relationships.get(id)?.target;
+      const root = path !== undefined && !(id in parts) ? readXml(entries, path) : undefined;
+      if (path && root) parts[id] = { type: "doc", content: convertPart(path, root) };
+    }
+    return parts;
+  };
+
+  const notes = (typeSuffix: string, noteName: string): SuperDocNote[] => {
+    const path = findRelatedPart(relationships, typeSuffix);
+    const root = path ? readXml(entries, path) : undefined;
+    if (!path || !root) return [];
+    const context = { ...base, relationships: readRelationships(entries, path) };
+    return childElements(root, noteName).map((note) => ({
+      id: note.attrs["w:id"],
+      content: convertBlocks(childElements(note), context),
+    }));
+  };
+
+  const media: Record<string, string> = {};
+  for (const [path, content] of entries) {
+    if (path.includes("/media/")) media[path] = toDataUri(path, content);
+  }
+
+  return {
+    json: { type: "doc", content: convertBlocks(childElements(body), { ...base, relationships }) },
+    parts: createDocumentParts({
+      headers: headerFooters("w:headerReference"),
+      footers: headerFooters("w:footerReference"),
+      footnotes: notes(RELATIONSHIP_TYPES.footnotes, "w:footnote"),
+      endnotes: notes(RELATIONSHIP_TYPES.endnotes, "w:endnote"),
+    }),
+    media,
+  };
+}
@@ -0,0 +1,492 @@
+/**
+ * DOCX Package Utilities
+ *
+ * A DOCX file is a zip archive of XML parts. These functions read and write
+ * the archive and parse and serialize its parts with no dependencies beyond
+ * the platform: entries are inflated with `DecompressionStream` and deflated
+ * with `CompressionStream`, which browsers, Web Workers and Node 18+ all
+ * provide, and the XML parser covers what Word writes (elements, attributes,
+ * text, CDATA and entities; no DTDs).
+ */
+
+import type { DocxRelationship, XmlElement } from "./types";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * The end of central directory record is 22 bytes plus a comment of up to
+ * 64 KiB, so it starts within this many bytes of the end of the archive
+ */
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+/**
+ * Media formats that are already compressed, so are stored rather than deflated
+ */
+const STORED_EXTENSIONS = /\.(png|jpe?g|gif|zip)$/i;
+
+/**
+ * Inflate raw deflate data (zip compression method 8). Inflating stops with
+ * null as soon as the output grows past `maxSize` bytes.
+ */
+async function inflateRaw(data: Uint8Array, maxSize: number): Promise<Uint8Array | null> {
+  const reader = new Response(data as Uint8Array<ArrayBuffer>)
+    .body!.pipeThrough(new DecompressionStream("deflate-raw"))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.length;
+    if (size > maxSize) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(chunk.value);
+  }
+
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Deflate data as raw deflate (zip compression method 8)
+ */
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(data as Uint8Array<ArrayBuffer>).body!.pipeThrough(
+    new CompressionStream("deflate-raw")
+  );
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * CRC-32 lookup table (polynomial 0xEDB88320, as zip uses)
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  return crc >>> 0;
+});
+
+/**
+ * CRC-32 checksum of an entry's uncompressed data
+ */
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Read the entries of a zip archive.
+ *
+ * Stored and deflated entries are supported, which covers every DOCX Word
+ * and SuperDoc write. ZIP64 archives, encrypted entries and other
+ * compression methods are rejected.
+ *
+ * Archives from untrusted sources can declare or inflate to far more data
+ * than they hold (zip bombs). Each entry is inflated to at most its declared
+ * size, and with `maxUncompressedSize` the archive is rejected before the
+ * declared sizes add up to more than that.
+ *
+ * @param data - The archive
+ * @param maxUncompressedSize - Largest total size of the entries, in bytes
+ * @returns Entry contents keyed by path (e.g. "word/document.xml"), in archive order
+ * @throws Error if the data is not a readable zip archive or expands past the limit
+ */
+export async function readZip(
+  data: ArrayBuffer | Uint8Array,
+  maxUncompressedSize = Infinity
+): Promise<Map<string, Uint8Array>> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  let end = -1;
+  const searchFrom = Math.max(0, bytes.length - MAX_END_RECORD_SEARCH);
+  for (let offset = bytes.length - 22; offset >= searchFrom; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a zip archive: end of central directory not found");
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries = new Map<string, Uint8Array>();
+  let totalSize = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Corrupt zip archive: bad central directory entry");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 1) throw new Error(`Encrypted zip entries are not supported: ${name}`);
+    if (
+      localOffset + 30 > bytes.length ||
+      view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER
+    ) {
+      throw new Error(`Corrupt zip archive: bad local header for ${name}`);
+    }
+
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (compressed.length !== compressedSize) {
+      throw new Error(`Corrupt zip archive: ${name} is truncated`);
+    }
+
+    totalSize += method === 0 ? compressedSize : uncompressedSize;
+    if (totalSize > maxUncompressedSize) {
+      throw new Error(`Zip archive expands to more than ${maxUncompressedSize} bytes`);
+    }
+
+    if (method === 0) {
+      entries.set(name, compressed);
+    } else if (method === 8) {
+      const inflated = await inflateRaw(compressed, uncompressedSize);
+      if (!inflated) throw new Error(`Corrupt zip archive: ${name} is larger than declared`);
+      entries.set(name, inflated);
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Write a zip archive. Every entry is deflated, except media that are
+ * already compressed and would not shrink.
+ *
+ * @param entries - Entry contents keyed by path, in the order to write them
+ * @returns The archive
+ */
+export async function writeZip(entries: ReadonlyMap<string, Uint8Array>): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const records: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [path, data] of entries) {
+    const name = encoder.encode(path);
+    const deflated = STORED_EXTENSIONS.test(path) ? undefined : await deflateRaw(data);
+    const content = deflated ?? data;
+    const crc = crc32(data);
+
+    // Local header and central directory entry share these fields
+    const describe = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true); // version needed to extract (2.0)
+      view.setUint16(at + 4, deflated ? 8 : 0, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, content.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, name.length, true);
+    };
+
+    const local = new Uint8Array(30 + name.length + content.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_FILE_HEADER, true);
+    describe(localView, 4);
+    local.set(name, 30);
+    local.set(content, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_DIRECTORY_ENTRY, true);
+    centralView.setUint16(4, 20, true); // version made by
+    describe(centralView, 6);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    records.push(local);
+    directory.push(central);
+    offset += local.length;
+  }
+
+  const directorySize = directory.reduce((size, entry) => size + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, directory.length, true);
+  endView.setUint16(10, directory.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + directorySize + end.length);
+  let position = 0;
+  for (const part of [...records, ...directory, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}
+
+/**
+ * Predefined and numeric character references
+ */
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Replace character references in text or an attribute value
+ */
+function decodeEntities(text: string): string {
+  if (!text.includes("&")) return text;
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (reference, name: string) => {
+    if (name[0] !== "#") return ENTITIES[name] ?? reference;
+    const code = /^#x/i.test(name) ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : reference;
+  });
+}
+
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parse an XML document into its root element.
+ *
+ * Text is kept as it appears, whitespace included; declarations, comments,
+ * processing instructions and doctypes are skipped.
+ *
+ * @param xml - The XML text
+ * @returns The root element
+ * @throws Error if the XML is not well formed
+ */
+export function parseXml(xml: string): XmlElement {
+  type OpenElement = {
+    name: string;
+    attrs: Record<string, string>;
+    children: Array<XmlElement | string>;
+  };
+  const document: OpenElement = { name: "", attrs: {}, children: [] };
+  const stack: OpenElement[] = [document];
+  let index = 0;
+
+  const skipPast = (terminator: string) => {
+    const close = xml.indexOf(terminator, index);
+    if (close < 0) throw new Error(`Malformed XML: missing "${terminator}"`);
+    index = close + terminator.length;
+    return close;
+  };
+
+  while (index < xml.length) {
+    const open = xml.indexOf("<", index);
+    const text = xml.slice(index, open < 0 ? xml.length : open);
+    if (text && stack.length > 1) stack[stack.length - 1].children.push(decodeEntities(text));
+    if (open < 0) break;
+    index = open;
+
+    if (xml.startsWith("<!--", index)) {
+      skipPast("-->");
+    } else if (xml.startsWith("<![CDATA[", index)) {
+      const start = index + 9;
+      const close = skipPast("]]>");
+      stack[stack.length - 1].children.push(xml.slice(start, close));
+    } else if (xml.startsWith("<?", index)) {
+      skipPast("?>");
+    } else if (xml.startsWith("<!", index)) {
+      skipPast(">");
+    } else if (xml.startsWith("</", index)) {
+      const start = index + 2;
+      const name = xml.slice(start, skipPast(">")).trim();
+      const element = stack.pop();
+      if (stack.length === 0 || element?.name !== name) {
+        throw new Error(`Malformed XML: unexpected </${name}>`);
+      }
+    } else {
+      const start = index + 1;
+      const tag = xml.slice(start, skipPast(">"));
+      const selfClosing = tag.endsWith("/");
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const nameEnd = body.search(/\s|$/);
+      const element: OpenElement = { name: body.slice(0, nameEnd), attrs: {}, children: [] };
+      for (const [, attr, doubleQuoted, singleQuoted] of body.slice(nameEnd).matchAll(ATTRIBUTE)) {
+        element.attrs[attr] = decodeEntities(doubleQuoted ?? singleQuoted);
+      }
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  const root = document.children.find((child) => typeof child !== "string");
+  if (stack.length > 1 || !root) throw new Error("Malformed XML: unclosed elements");
+  return root;
+}
+
+/**
+ * Characters escaped when writing XML, and their entities
+ */
+const ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" };
+
+/**
+ * Escape text or an attribute value for XML
+ */
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => ESCAPES[char]);
+}
+
+/**
+ * Serialize an element as XML, the inverse of parseXml. Elements without
+ * children are written self-closing.
+ *
+ * @param element - The root element
+ * @param declaration - Whether to start with an XML declaration, as parts do
+ * @returns The XML text
+ */
+export function serializeXml(element: XmlElement, declaration = false): string {
+  const write = (node: XmlElement | string): string => {
+    if (typeof node === "string") return escapeXml(node);
+    const attrs = Object.entries(node.attrs)
+      .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+      .join("");
+    return node.children.length > 0
+      ? `<${node.name}${attrs}>${node.children.map(write).join("")}</${node.name}>`
+      : `<${node.name}${attrs}/>`;
+  };
+  const xml = write(element);
+  return declaration
+    ? `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${xml}`
+    : xml;
+}
+
+/**
+ * Child elements of an element, optionally only those with a name
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      typeof child !== "string" && (name === undefined || child.name === name)
+  );
+}
+
+/**
+ * The first child element with a name
+ */
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(
+    (child): child is XmlElement => typeof child !== "string" && child.name === name
+  );
+}
+
+/**
+ * The first element with a name anywhere below an element, depth first
+ */
+export function findElement(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of childElements(element)) {
+    if (child.name === name) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Every element with a name below an element, in document order
+ */
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  return childElements(element).flatMap((child) =>
+    child.name === name ? [child] : findElements(child, name)
+  );
+}
+
+/**
+ * The text directly inside an element
+ */
+export function elementText(element: XmlElement): string {
+  return element.children.filter((child) => typeof child === "string").join("");
+}
+
+/**
+ * Parse a part of the package, if it exists
+ */
+export function readXml(
+  entries: ReadonlyMap<string, Uint8Array>,
+  path: string
+): XmlElement | undefined {
+  const data = entries.get(path);
+  return data ? parseXml(new TextDecoder().decode(data)) : undefined;
+}
+
+/**
+ * Resolve a relationship target against the folder of the part it belongs to
+ */
+function resolveTarget(partPath: string, target: string): string {
+  const segments = target.startsWith("/")
+    ? []
+    : partPath.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") segments.pop();
+    else if (segment && segment !== ".") segments.push(segment);
+  }
+  return segments.join("/");
+}
+
+/**
+ * Path of the relationships part of a part ("_rels/<part>.rels" next to it)
+ */
+export function relationshipsPath(partPath: string): string {
+  const slash = partPath.lastIndexOf("/");
+  return `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`;
+}
+
+/**
+ * Read the relationships of a part, by relationship ID
+ */
+export function readRelationships(
+  entries: ReadonlyMap<string, Uint8Array>,
+  partPath: string
+): Map<string, DocxRelationship> {
+  const rels = readXml(entries, relationshipsPath(partPath));
+  const relationships = new Map<string, DocxRelationship>();
+
+  for (const rel of rels ? childElements(rels, "Relationship") : []) {
+    const target = rel.attrs.Target ?? "";
+    relationships.set(rel.attrs.Id, {
+      type: rel.attrs.Type ?? "",
+      target: rel.attrs.TargetMode === "External" ? target : resolveTarget(partPath, target),
+    });
+  }
+  return relationships;
+}
+
+/**
+ * Path of the first part with a relationship type
+ */
+export function findRelatedPart(
+  relationships: ReadonlyMap<string, DocxRelationship>,
+  typeSuffix: string
+): string | undefined {
+  for (const rel of relationships.values()) {
+    if (rel.type.endsWith(typeSuffix)) return rel.target;
+  }
+  return undefined;
+}
@@ -0,0 +1,367 @@
+/**
+ * DOCX Redlines - Tests
+ *
+ * Each change type is checked in the WordprocessingML of the redline's
+ * body, as Word reads it.
+ *
+ * @module docx-redline
+ */
+
+import { describe, it, expect } from "vitest";
+import { docx, p, W_NS } from "./__fixtures__/docx";
+import { seededRandom } from "./__fixtures__/random";
+import { importDocx } from "./docx-import";
+import {
+  childElement,
+  childElements,
+  elementText,
+  parseXml,
+  readZip,
+  serializeXml,
+} from "./docx-package";
+import { createRedlineDocx, createRedlineJson } from "./docx-redline";
+import { resolveRevisionsInJson } from "./revisions";
+import { extractTextFromJson } from "./text-extraction";
+import type { DiffGranularity, DocxRedlineOptions, XmlElement } from "./types";
+
+const DATE = "2026-03-01T09:30:00Z";
+const BY = `w:author="Comparison" w:date="${DATE}"`;
+
+/**
+ * Compare two bodies and return the redline's body as XML
+ */
+async function redline(
+  original: string,
+  modified: string,
+  options: DocxRedlineOptions = {}
+): Promise<string> {
+  const result = await createRedlineDocx(await docx(original), await docx(modified), {
+    granularity: "word",
+    date: DATE,
+    ...options,
+  });
+  return serializeXml(await bodyOf(result.docx));
+}
+
+/**
+ * The body element of a DOCX file
+ */
+async function bodyOf(file: Uint8Array): Promise<XmlElement> {
+  const entries = await readZip(file);
+  const document = parseXml(new TextDecoder().decode(entries.get("word/document.xml")));
+  return childElement(document, "w:body")!;
+}
+
+/**
+ * The paragraphs of a body with every revision accepted or rejected, as Word
+ * gives them: revised runs are kept or dropped, and a paragraph whose mark is
+ * dropped runs on into the next one
+ */
+function resolveBody(body: XmlElement, view: "accepted" | "rejected"): string[] {
+  const dropped = view === "accepted" ? "w:del" : "w:ins";
+  const text = (element: XmlElement): string =>
+    childElements(element)
+      .map((child) => {
+        if (child.name === dropped || child.name === "w:pPr") return "";
+        if (child.name === "w:t" || child.name === "w:delText") return elementText(child);
+        if (child.name === "w:br") return "\n";
+        return text(child);
+      })
+      .join("");
+
+  const paragraphs: string[] = [];
+  let runsOn = false;
+  for (const paragraph of childElements(body, "w:p")) {
+    if (runsOn) paragraphs[paragraphs.length - 1] += text(paragraph);
+    else paragraphs.push(text(paragraph));
+    const properties = childElement(paragraph, "w:pPr");
+    const mark = properties && childElement(properties, "w:rPr");
+    runsOn = Boolean(mark && childElement(mark, dropped));
+  }
+  return paragraphs;
+}
+
+/**
+ * Write a redline of two texts, a paragraph per line, and resolve its body
+ * both ways
+ */
+async function resolveRedline(original: string, modified: string, granularity: DiffGranularity) {
+  const paragraphs = (text: string) => docx(text.split("\n").map((line) => p(line)).join(""));
+  const result = await createRedlineDocx(await paragraphs(original), await paragraphs(modified), {
+    granularity,
+  });
+  const body = await bodyOf(result.docx);
+  return { accepted: resolveBody(body, "accepted"), rejected: resolveBody(body, "rejected") };
+}
+
+describe("createRedlineDocx", () => {
+  it("should write replaced text as a deletion followed by an insertion", async () => {
+    const body = await redline(p("Rent is due monthly."), p("Rent is due quarterly."));
+
+    expect(body).toBe(
+      "<w:body><w:p>" +
+        '<w:r><w:t xml:space="preserve">Rent is due </w:t></w:r>' +
+        `<w:del w:id="1" ${BY}><w:r><w:delText xml:space="preserve">monthly</w:delText></w:r></w:del>` +
+        `<w:ins w:id="2" ${BY}><w:r><w:t xml:space="preserve">quarterly</w:t></w:r></w:ins>` +
+        '<w:r><w:t xml:space="preserve">.</w:t></w:r>' +
+        "</w:p></w:body>"
+    );
+  });
+
+  it("should write insertions and deletions where they happened", async () => {
+    const body = await redline(
+      p("Rent is due promptly each month."),
+      p("Rent is due each month in advance.")
+    );
+
+    expect(body).toBe(
+      "<w:body><w:p>" +
+        '<w:r><w:t xml:space="preserve">Rent is due </w:t></w:r>' +
+        `<w:del w:id="1" ${BY}><w:r><w:delText xml:space="preserve">promptly </w:delText></w:r></w:del>` +
+        '<w:r><w:t xml:space="preserve">each month</w:t></w:r>' +
+        `<w:ins w:id="2" ${BY}><w:r><w:t xml:space="preserve"> in advance</w:t></w:r></w:ins>` +
+        '<w:r><w:t xml:space="preserve">.</w:t></w:r>' +
+        "</w:p></w:body>"
+    );
+  });
+
+  it("should put the configured author and date on every revision", async () => {
+    const body = await redline(p("Rent is due monthly."), p("Rent is due quarterly."), {
+      author: "Legal Review",
+      date: "2026-04-15T08:00:00.000Z",
+    });
+
+    expect(body.match(/w:author="[^"]*"/g)).toEqual([
+      'w:author="Legal Review"',
+      'w:author="Legal Review"',
+    ]);
+    expect(body.match(/w:date="[^"]*"/g)).toEqual([
+      'w:date="2026-04-15T08:00:00Z"',
+      'w:date="2026-04-15T08:00:00Z"',
+    ]);
+  });
+
+  it("should write a move as a deletion at the source and an insertion at the destination", async () => {
+    const body = await redline(
+      p("The quick brown fox jumps over it. Alpha beta gamma. End here."),
+      p("Alpha beta gamma. The quick brown fox jumps over it. End here."),
+      { granularity: "sentence", detectMoves: true }
+    );
+
+    expect(body).toBe(
+      "<w:body><w:p>" +
+        `<w:del w:id="1" ${BY}><w:r><w:delText xml:space="preserve">The quick brown fox jumps over it. </w:delText></w:r></w:del>` +
+        '<w:r><w:t xml:space="preserve">Alpha beta gamma. </w:t></w:r>' +
+        `<w:ins w:id="2" ${BY}><w:r><w:t xml:space="preserve">The quick brown fox jumps over it. </w:t></w:r></w:ins>` +
+        '<w:r><w:t xml:space="preserve">End here.</w:t></w:r>' +
+        "</w:p></w:body>"
+    );
+  });
+
+  it("should insert the paragraph mark of a split paragraph", async () => {
+    const body = await redline(
+      p("First sentence here. Second sentence there."),
+      p("First sentence here.") + p("Second sentence there.")
+    );
+
+    expect(body).toBe(
+      "<w:body>" +
+        `<w:p><w:pPr><w:rPr><w:ins w:id="1" ${BY}/></w:rPr></w:pPr>` +
+        '<w:r><w:t xml:space="preserve">First sentence here.</w:t></w:r>' +
+        `<w:del w:id="2" ${BY}><w:r><w:delText xml:space="preserve"> </w:delText></w:r></w:del></w:p>` +
+        '<w:p><w:r><w:t xml:space="preserve">Second sentence there.</w:t></w:r></w:p>' +
+        "</w:body>"
+    );
+  });
+
+  it("should delete the paragraph mark between merged paragraphs", async () => {
+    const body = await redline(
+      p("First sentence here.") + p("Second sentence there."),
+      p("First sentence here. Second sentence there.")
+    );
+
+    expect(body).toBe(
+      "<w:body>" +
+        `<w:p><w:pPr><w:rPr><w:del w:id="1" ${BY}/></w:rPr></w:pPr>` +
+        '<w:r><w:t xml:space="preserve">First sentence here.</w:t></w:r></w:p>' +
+        `<w:p><w:ins w:id="2" ${BY}><w:r><w:t xml:space="preserve"> </w:t></w:r></w:ins>` +
+        '<w:r><w:t xml:space="preserve">Second sentence there.</w:t></w:r></w:p>' +
+        "</w:body>"
+    );
+  });
+
+  it("should insert the paragraph marks of inserted paragraphs", async () => {
+    const body = await redline(
+      p("Rent is due monthly.") + p("Notices must be in writing."),
+      p("Rent is due monthly.") + p("Pets are not allowed.") + p("Notices must be in writing."),
+      { granularity: "paragraph" }
+    );
+
+    expect(body).toBe(
+      "<w:body>" +
+        '<w:p><w:r><w:t xml:space="preserve">Rent is due monthly.</w:t></w:r></w:p>' +
+        `<w:p><w:pPr><w:rPr><w:ins w:id="1" ${BY}/></w:rPr></w:pPr>` +
+        `<w:ins w:id="2" ${BY}><w:r><w:t xml:space="preserve">Pets are not allowed.</w:t></w:r></w:ins></w:p>` +
+        '<w:p><w:r><w:t xml:space="preserve">Notices must be in writing.</w:t></w:r></w:p>' +
+        "</w:body>"
+    );
+  });
+
+  it("should write deleted paragraphs with deleted paragraph marks", async () => {
+    const body = await redline(
+      p("Rent is due monthly.") + p("Pets are not allowed.") + p("Notices must be in writing."),
+      p("Rent is due monthly.") + p("Notices must be in writing."),
+      { granularity: "paragraph" }
+    );
+
+    expect(body).toBe(
+      "<w:body>" +
+        '<w:p><w:r><w:t xml:space="preserve">Rent is due monthly.</w:t></w:r></w:p>' +
+        `<w:p><w:pPr><w:rPr><w:del w:id="1" ${BY}/></w:rPr></w:pPr>` +
+        `<w:del w:id="2" ${BY}><w:r><w:delText xml:space="preserve">Pets are not allowed.</w:delText></w:r></w:del></w:p>` +
+        '<w:p><w:r><w:t xml:space="preserve">Notices must be in writing.</w:t></w:r></w:p>' +
+        "</w:body>"
+    );
+  });
+
+  it("should keep the old formatting of formatting changes in w:rPrChange", async () => {
+    const body = await redline(
+      p("Notices must be in writing.", "", "<w:i/>"),
+      p("Notices must be in writing.", "", '<w:b/><w:color w:val="FF0000"/>')
+    );
+
+    expect(body).toBe(
+      "<w:body><w:p><w:r><w:rPr>" +
+        '<w:b/><w:color w:val="FF0000"/>' +
+        `<w:rPrChange w:id="1" ${BY}><w:rPr><w:i/></w:rPr></w:rPrChange>` +
+        '</w:rPr><w:t xml:space="preserve">Notices must be in writing.</w:t></w:r></w:p></w:body>'
+    );
+  });
+
+  it("should read back as the modified document accepted and the original rejected", async () => {
+    const original = p("Rent is due monthly.") + p("Notices must be in writing.");
+    const modified = p("Rent is due quarterly.") + p("Notices may be in writing.");
+    const result = await createRedlineDocx(await docx(original), await docx(modified), {
+      granularity: "word",
+    });
+
+    const { json } = await importDocx(result.docx);
+    const text = async (body: string) => extractTextFromJson((await importDocx(await docx(body))).json);
+    expect(extractTextFromJson(resolveRevisionsInJson(json, "accepted"))).toBe(await text(modified));
+    expect(extractTextFromJson(resolveRevisionsInJson(json, "rejected"))).toBe(await text(original));
+  });
+
+  it("should keep the whitespace around changes so rejecting them restores the original", async () => {
+    const original =
+      p("The tenant pays monthly rent to the landlord.") + p("Rent is due  promptly each month.");
+    const modified =
+      p("The tenant pays rent to the new landlord.") + p("Rent is due each month in  advance.");
+    const result = await createRedlineDocx(await docx(original), await docx(modified), {
+      granularity: "word",
+    });
+
+    const { json } = await importDocx(result.docx);
+    const text = async (body: string) => extractTextFromJson((await importDocx(await docx(body))).json);
+    expect(extractTextFromJson(resolveRevisionsInJson(json, "accepted"))).toBe(await text(modified));
+    expect(extractTextFromJson(resolveRevisionsInJson(json, "rejected"))).toBe(await text(original));
+  });
+
+  it("should mark the paragraph marks of line breaks a change removes or adds", async () => {
+    const original = "days days Lease.\nmay tenant rent may Lease.\nNotices must be in writing.";
+    const modified = "days days Lease. rent\ntenant rent may Lease.";
+
+    for (const granularity of ["character", "word", "sentence", "paragraph"] as const) {
+      expect(await resolveRedline(original, modified, granularity)).toEqual({
+        accepted: modified.split("\n"),
+        rejected: original.split("\n"),
+      });
+    }
+  });
+
+  // A character diff edits inside words, and a line break next to such an edit
+  // is not reported as a split or merge, so it is not marked either
+  it.each(["word", "sentence", "paragraph"] as const)(
+    "should accept to the modified paragraphs and reject to the original ones (%s)",
+    async (granularity) => {
+      const random = seededRandom(24);
+      const words = ["days", "Lease.", "may", "tenant", "rent", "The", "pays"];
+      const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+      const text = (tokens: string[], breaks: string[]) =>
+        tokens.map((word, i) => (i ? `${breaks[i - 1]}${word}` : word)).join("");
+
+      for (let run = 0; run < 100; run++) {
+        const tokens = Array.from({ length: 2 + Math.floor(random() * 10) }, () => pick(words));
+        const breaks = tokens.slice(1).map(() => pick([" ", " ", "\n"]));
+        const original = text(tokens, breaks);
+        for (let edit = 0; edit < 1 + Math.floor(random() * 3); edit++) {
+          const at = Math.floor(random() * tokens.length);
+          const kind = random();
+          if (kind < 0.25 && tokens.length > 1) {
+            tokens.splice(at, 1);
+            breaks.splice(Math.min(at, breaks.length - 1), 1);
+          } else if (kind < 0.5) {
+            tokens.splice(at, 0, pick(words));
+            breaks.splice(at, 0, " ");
+          } else if (kind < 0.75 || breaks.length === 0) {
+            tokens[at] = pick(words);
+          } else {
+            breaks[at % breaks.length] = breaks[at % breaks.length] === " " ? "\n" : " ";
+          }
+        }
+        const modified = text(tokens, breaks);
+
+        expect(await resolveRedline(original, modified, granularity)).toEqual({
+          accepted: modified.split("\n"),
+          rejected: original.split("\n"),
+        });
+      }
+    }
+  );
+
+  it("should keep the modified file's other parts and page setup", async () => {
+    const sectPr = '<w:sectPr><w:footerReference w:type="default" r:id="rId8"/></w:sectPr>';
+    const footer = { "word/footer1.xml": `<w:ftr ${W_NS}>${p("Confidential")}</w:ftr>` };
+    const rels: Array<[string, string, string]> = [["rId8", "footer", "footer1.xml"]];
+
+    const result = await createRedlineDocx(
+      await docx(p("Rent is due monthly.") + sectPr, footer, rels),
+      await docx(p("Rent is due quarterly.") + sectPr, footer, rels),
+      { granularity: "word" }
+    );
+    const entries = await readZip(result.docx);
+
+    expect(new TextDecoder().decode(entries.get("word/document.xml"))).toContain(
+      `${sectPr}</w:body>`
+    );
+    expect(new TextDecoder().decode(entries.get("word/footer1.xml"))).toBe(
+      footer["word/footer1.xml"]
+    );
+    expect(result.summary.replacements).toBe(1);
+  });
+});
+
+describe("createRedlineJson", () => {
+  it("should leave out changes an ignore rule matched", () => {
+    const json = {
+      type: "doc",
+      content: [{ type: "paragraph", content: [{ type: "text", text: "Due 2026-05-01." }] }],
+    };
+
+    const redlined = createRedlineJson(json, json, {
+      changes: [
+        {
+          id: "change-1",
+          type: "replacement",
+          content: "2026-05-01",
+          oldContent: "2026-04-01",
+          charStart: 4,
+          charEnd: 14,
+          ignoredBy: "dates",
+        },
+      ],
+      formattingChanges: [],
+    });
+
+    expect(redlined).toEqual(json);
+  });
+});
@@ -0,0 +1,698 @@
+/**
+ * DOCX Redlines
+ *
+ * Writes a comparison of two DOCX files into the modified file as native
+ * Word revisions, so people who never open the app can review it in Word.
+ * The changes from diff-computation.ts are placed on the modified
+ * document's JSON as track marks, much as track-changes.ts places them in
+ * the editor, and the JSON is written back into the file (see
+ * docx-export.ts):
+ *
+ * - Insertions, replacement text, move destinations and inserted table
+ *   cells are inserted runs (`w:ins`); an inserted line break between two
+ *   paragraphs is an inserted paragraph mark
+ * - Deletions, replaced text and move sources are written back as deleted
+ *   runs (`w:del`) where the text was removed; a line break in them splits
+ *   the paragraph there with the first part's mark deleted
+ * - A paragraph split or merge replaces the whitespace between the words
+ *   around it, so a split inserts the first paragraph's mark and a merge
+ *   splits the paragraph again with the first part's mark deleted
+ * - Formatting changes keep the old formatting in a `w:rPrChange`
+ *
+ * Deleted text only has the formatting of the text around it, and deleted
+ * images are left out.
+ */
+
+import type { Change as DiffChange } from "diff";
+import { diffByBlocks } from "./block-alignment";
+import { computeRawDiff } from "./diff-computation";
+import { compareImportedDocx } from "./docx-compare";
+import { exportDocx } from "./docx-export";
+import { importDocx } from "./docx-import";
+import { OBJECT_PLACEHOLDER } from "./object-diff";
+import { resolveRevisionsInJson } from "./revisions";
+import { extractBlockTree } from "./text-extraction";
+import { COMPARISON_USER } from "./track-changes";
+import type {
+  BlockTreeNode,
+  ChangeWithPosition,
+  ComparisonResult,
+  DocxRedlineOptions,
+  DocxRedlineResult,
+  FormattingChangeWithPosition,
+  ImportedDocx,
+  ProseMirrorJsonNode,
+  ProseMirrorMark,
+  TrackChangeUser,
+} from "./types";
+
+/**
+ * Marks that record revisions rather than formatting
+ */
+const TRACK_MARKS = new Set(["trackInsert", "trackDelete", "trackFormat"]);
+
+/**
+ * Textblocks whose inline content carries the changes
+ */
+const TEXTBLOCK_TYPES = new Set(["paragraph", "heading"]);
+
+/**
+ * Inline nodes the extraction counts as one placeholder character
+ */
+const OBJECT_TYPES = new Set(["image", "vectorShape", "shapeGroup"]);
+
+/** Spaces, tabs and the line breaks between paragraphs */
+const WHITESPACE = /^\s+$/;
+
+/**
+ * A range of the modified text marked as inserted
+ */
+interface InsertedRange {
+  readonly from: number;
+  readonly to: number;
+  readonly mark: ProseMirrorMark;
+}
+
+/**
+ * A formatting change over a range of the modified text
+ */
+interface FormattedRange {
+  readonly from: number;
+  readonly to: number;
+  readonly change: FormattingChangeWithPosition;
+  readonly user: TrackChangeUser;
+  readonly date: string;
+}
+
+/**
+ * Deleted text placed at an offset of the modified text
+ */
+interface PointEdit {
+  readonly at: number;
+  readonly text: string;
+  readonly mark: ProseMirrorMark;
+}
+
+/**
+ * Everything placed on the modified document
+ */
+interface RedlineEdits {
+  readonly inserted: InsertedRange[];
+  readonly formatted: FormattedRange[];
+  readonly points: PointEdit[];
+}
+
+/**
+ * A textblock and where its text is in the modified text
+ */
+interface Textblock {
+  readonly path: string;
+  readonly charStart: number;
+  readonly charEnd: number;
+  /** Whether the next textblock is its sibling, so the two are joined by a paragraph mark */
+  readonly siblingFollows: boolean;
+}
+
+/**
+ * A track mark, with the attributes track-changes.ts gives its marks
+ */
+function trackMark(type: string, id: string, user: TrackChangeUser, date: string) {
+  return {
+    type,
+    attrs: { id, author: user.name, authorEmail: user.email, authorImage: user.image, date },
+  };
+}
+
+/**
+ * Collect what each change places on the document, by change type
+ */
+function collectEdits(
+  changes: ReadonlyArray<ChangeWithPosition>,
+  formattingChanges: ReadonlyArray<FormattingChangeWithPosition>,
+  user: TrackChangeUser,
+  date: string
+): RedlineEdits {
+  const edits: RedlineEdits = { inserted: [], formatted: [], points: [] };
+
+  for (const change of changes) {
+    if (change.ignoredBy) continue;
+    const changeUser = change.attribution?.user ?? user;
+    const changeDate = change.attribution?.date ?? date;
+    const insert = trackMark("trackInsert", `insert-${change.id}`, changeUser, changeDate);
+    const remove = trackMark("trackDelete", `delete-${change.id}`, changeUser, changeDate);
+    const hasRange = change.charStart !== undefined && change.charEnd !== undefined;
+
+    const markInserted = () => {
+      const ranges =
+        change.ranges ??
+        (hasRange ? [{ charStart: change.charStart!, charEnd: change.charEnd! }] : []);
+      for (const range of ranges) {
+        edits.inserted.push({ from: range.charStart, to: range.charEnd, mark: insert });
+      }
+    };
+    const placeDeleted = (at: number | undefined, text: string | undefined) => {
+      if (at !== undefined && text) {
+        edits.points.push({ at, text, mark: remove });
+      }
+    };
+
+    switch (change.type) {
+      case "insertion":
+        markInserted();
+        break;
+      // A split or merge replaces the whitespace between two paragraphs
+      case "replacement":
+      case "split":
+      case "merge":
+        markInserted();
+        placeDeleted(change.charStart, change.oldContent);
+        break;
+      case "deletion":
+        placeDeleted(change.insertAt, change.content);
+        break;
+      case "move":
+        markInserted();
+        placeDeleted(change.insertAt, change.content);
+        break;
+    }
+  }
+
+  for (const change of formattingChanges) {
+    // A changed link is not run formatting, so Word cannot track it
+    if (change.markType === "link") continue;
+    edits.formatted.push({ from: change.charStart, to: change.charEnd, change, user, date });
+  }
+
+  return edits;
+}
+
+/**
+ * The mark a change gives text of the other kind: its deletion mark for its
+ * inserted text's mark, and the other way around
+ */
+function counterpartMark(mark: ProseMirrorMark): ProseMirrorMark {
+  const [type, prefix] =
+    mark.type === "trackInsert" ? ["trackDelete", "delete-"] : ["trackInsert", "insert-"];
+  return { type, attrs: { ...mark.attrs, id: mark.attrs?.id?.replace(/^[a-z]+-/, prefix) } };
+}
+
+/**
+ * Diff two texts that only differ in whitespace, gap by gap between the
+ * other characters, so that no whitespace difference is folded into an edit
+ * of the characters around it. Texts that differ in other characters too are
+ * diffed character by character.
+ */
+function diffWhitespace(originalText: string, rejectedText: string): DiffChange[] {
+  const strip = (text: string) => text.replace(/\s+/g, "");
+  if (strip(originalText) !== strip(rejectedText)) {
+    return diffByBlocks(originalText, rejectedText, "character", computeRawDiff);
+  }
+
+  const parts: DiffChange[] = [];
+  const push = (part: DiffChange) => {
+    const last = parts[parts.length - 1];
+    if (last && !last.added && !last.removed && !part.added && !part.removed) {
+      parts[parts.length - 1] = {
+        ...last,
+        value: last.value + part.value,
+        count: last.value.length + part.value.length,
+      };
+    } else {
+      parts.push(part);
+    }
+  };
+  const gapEnd = (text: string, from: number) => {
+    let end = from;
+    while (end < text.length && /\s/.test(text[end])) end++;
+    return end;
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < originalText.length || j < rejectedText.length) {
+    const originalEnd = gapEnd(originalText, i);
+    const rejectedEnd = gapEnd(rejectedText, j);
+    const original = originalText.slice(i, originalEnd);
+    const rejected = rejectedText.slice(j, rejectedEnd);
+    if (original || rejected) computeRawDiff(original, rejected).forEach(push);
+    i = originalEnd;
+    j = rejectedEnd;
+    if (i < originalText.length) {
+      push({ value: originalText[i], count: 1, added: false, removed: false });
+      i++;
+      j++;
+    }
+  }
+  return parts;
+}
+
+/**
+ * Give changes back the whitespace around them.
+ *
+ * Changes hold their text without the whitespace around it, so the document
+ * with every revision rejected can differ from the original in the spaces
+ * next to a change, and in the line breaks (paragraph marks) at its edges.
+ * That document is compared with the original whitespace by whitespace: a
+ * missing space or line break joins the deleted text next to it, or is
+ * deleted by the insertion next to it; a surplus one is taken out of the
+ * deleted text it is in, or inserted by the change next to it. Whitespace
+ * differences away from any change were not reported and are left as they
+ * are.
+ *
+ * @param edits - The edits of the changes
+ * @param originalText - Text of the original document
+ * @param modifiedText - Text of the modified document
+ * @returns The edits with the whitespace around them
+ */
+function restoreWhitespace(
+  edits: RedlineEdits,
+  originalText: string,
+  modifiedText: string
+): RedlineEdits {
+  const inserted = [...edits.inserted];
+  // Index in `inserted` of the range each modified character is in
+  const insertedAt: Array<number | undefined> = [];
+  inserted.forEach((range, index) => {
+    for (let at = range.from; at < range.to; at++) insertedAt[at] ??= index;
+  });
+  const deleted = [...edits.points].sort((a, b) => a.at - b.at);
+
+  // The text with every revision rejected, and where each of its characters
+  // comes from: the modified text, or a deleted text
+  let rejected = "";
+  const sources: Array<{ at: number } | { point: number; index: number }> = [];
+  let next = 0;
+  for (let at = 0; at <= modifiedText.length; at++) {
+    for (; next < deleted.length && deleted[next].at <= at; next++) {
+      const { text } = deleted[next];
+      for (let index = 0; index < text.length; index++) sources.push({ point: next, index });
+      rejected += text;
+    }
+    if (at < modifiedText.length && insertedAt[at] === undefined) {
+      sources.push({ at });
+      rejected += modifiedText[at];
+    }
+  }
+
+  const restored = deleted.map(() => ({ before: "", after: "", dropped: new Set<number>() }));
+  const points: PointEdit[] = [];
+  const parts: Array<{ part: DiffChange; position: number }> = [];
+  let position = 0;
+  for (const part of diffWhitespace(originalText, rejected)) {
+    if (WHITESPACE.test(part.value)) parts.push({ part, position });
+    if (!part.removed) position += part.value.length;
+  }
+
+  // Surplus whitespace first, so that missing whitespace next to it can be
+  // deleted by the insertion that takes it
+  for (const { part, position } of parts.filter(({ part }) => part.added)) {
+    for (let i = position; i < position + part.value.length; i++) {
+      const source = sources[i];
+      if ("point" in source) {
+        restored[source.point].dropped.add(source.index);
+        continue;
+      }
+      const { at } = source;
+      const range = insertedAt[at - 1] ?? insertedAt[at + 1];
+      if (range !== undefined) {
+        const { from, to } = inserted[range];
+        inserted[range] = {
+          ...inserted[range],
+          from: Math.min(from, at),
+          to: Math.max(to, at + 1),
+        };
+        insertedAt[at] = range;
+        continue;
+      }
+      const point = deleted.find((other) => other.at === at || other.at === at + 1);
+      if (point) {
+        insertedAt[at] = inserted.length;
+        inserted.push({ from: at, to: at + 1, mark: counterpartMark(point.mark) });
+      }
+    }
+  }
+
+  for (const { part, position } of parts.filter(({ part }) => part.removed)) {
+    const before = sources[position - 1];
+    const after = sources[position];
+    const endsDeleted =
+      before && "point" in before && before.index === deleted[before.point].text.length - 1;
+    if (endsDeleted) {
+      restored[before.point].after += part.value;
+    } else if (after && "point" in after && after.index === 0) {
+      restored[after.point].before = part.value + restored[after.point].before;
+    } else {
+      // Between two kept characters: deleted by the insertion between them
+      const at = before && "at" in before ? before.at + 1 : 0;
+      const range = insertedAt[at];
+      if (range !== undefined) {
+        const mark = counterpartMark(inserted[range].mark);
+        points.push({ at, text: part.value, mark });
+      }
+    }
+  }
+
+  deleted.forEach((point, index) => {
+    const { before, after, dropped } = restored[index];
+    const kept = point.text
+      .split("")
+      .filter((_, i) => !dropped.has(i))
+      .join("");
+    points.push({ ...point, text: before + kept + after });
+  });
+
+  return { ...edits, inserted, points };
+}
+
+/**
+ * The textblocks of a document in order, from its block tree
+ */
+function collectTextblocks(root: BlockTreeNode): Textblock[] {
+  const found: Array<{ node: BlockTreeNode; parent: string }> = [];
+  const visit = (node: BlockTreeNode) => {
+    for (const child of node.children) {
+      if (TEXTBLOCK_TYPES.has(child.type)) found.push({ node: child, parent: node.path });
+      else visit(child);
+    }
+  };
+  visit(root);
+
+  return found.map(({ node, parent }, index) => ({
+    path: node.path,
+    charStart: node.charStart,
+    charEnd: node.charEnd,
+    siblingFollows: found[index + 1]?.parent === parent,
+  }));
+}
+
+/**
+ * The formatting before a run's formatting changes, undone in reverse
+ */
+function formattingBefore(
+  marks: ReadonlyArray<ProseMirrorMark>,
+  changes: ReadonlyArray<FormattingChangeWithPosition>
+): ProseMirrorMark[] {
+  let before = [...marks];
+  for (const change of [...changes].reverse()) {
+    const without = before.filter((mark) => mark.type !== change.markType);
+    before =
+      change.type === "formatAdded"
+        ? without
+        : [
+            ...without,
+            { type: change.markType, ...(change.oldAttrs && { attrs: change.oldAttrs }) },
+          ];
+  }
+  return before;
+}
+
+/**
+ * Characters an inline node has in the extracted text
+ */
+function inlineLength(node: ProseMirrorJsonNode): number {
+  if (node.text !== undefined) return node.text.length;
+  return OBJECT_TYPES.has(node.type) ? 1 : 0;
+}
+
+/**
+ * A node with other marks
+ */
+function withMarks(
+  node: ProseMirrorJsonNode,
+  marks: ReadonlyArray<ProseMirrorMark>
+): ProseMirrorJsonNode {
+  const { type, text, attrs, content } = node;
+  return {
+    type,
+    ...(text !== undefined && { text }),
+    ...(attrs && { attrs }),
+    ...(content && { content }),
+    ...(marks.length > 0 && { marks }),
+  };
+}
+
+/**
+ * Place the edits on one textblock's inline content.
+ *
+ * The content is walked with an offset into the modified text: text counts
+ * its characters, objects one placeholder character and other inline nodes
+ * nothing, as the extraction counts them. Text is cut where an edit starts
+ * or ends, so each piece is either in or out of every range. Line breaks in
+ * deleted text split the textblock with the first part's paragraph mark
+ * deleted.
+ *
+ * @returns The textblock, or the parts it is split into
+ */
+function redlineTextblock(
+  node: ProseMirrorJsonNode,
+  block: Textblock,
+  edits: RedlineEdits,
+  points: ReadonlyArray<PointEdit>,
+  paragraphMark: ProseMirrorMark | undefined
+): ProseMirrorJsonNode[] {
+  const overlaps = (range: { from: number; to: number }) =>
+    range.from <= block.charEnd && range.to >= block.charStart;
+  const inserted = edits.inserted.filter(overlaps);
+  const formatted = edits.formatted.filter(overlaps);
+  const cuts = new Set([
+    ...inserted.flatMap((range) => [range.from, range.to]),
+    ...formatted.flatMap((range) => [range.from, range.to]),
+    ...points.map((point) => point.at),
+  ]);
+
+  // Formatting of the text around an offset, for deleted text placed there
+  const content = node.content ?? [];
+  const marksAt = (at: number) => {
+    let offset = block.charStart;
+    let before: ReadonlyArray<ProseMirrorMark> | undefined;
+    for (const child of content) {
+      if (child.text !== undefined && offset < at) before = child.marks;
+      if (child.text !== undefined && offset >= at) {
+        before ??= child.marks;
+        break;
+      }
+      offset += inlineLength(child);
+    }
+    return (before ?? []).filter((mark) => !TRACK_MARKS.has(mark.type) && mark.type !== "link");
+  };
+
+  const parts: Array<{ content: ProseMirrorJsonNode[]; mark?: ProseMirrorMark }> = [
+    { content: [] },
+  ];
+  let nextPoint = 0;
+  const split = (mark: ProseMirrorMark) => {
+    parts[parts.length - 1].mark = mark;
+    parts.push({ content: [] });
+  };
+  const placePointsUpTo = (offset: number) => {
+    for (; nextPoint < points.length && points[nextPoint].at <= offset; nextPoint++) {
+      const point = points[nextPoint];
+      const marks = [...marksAt(point.at), point.mark];
+      // Object placeholders (deleted images) are left out
+      point.text
+        .replaceAll(OBJECT_PLACEHOLDER, "")
+        .split("\n")
+        .forEach((line, index) => {
+          if (index > 0) split(point.mark);
+          if (line) parts[parts.length - 1].content.push({ type: "text", text: line, marks });
+        });
+    }
+  };
+
+  // Marks of a piece covering [from, to) (an empty piece is at from)
+  const pieceMarks = (marks: ReadonlyArray<ProseMirrorMark>, from: number, to: number) => {
+    const covers = (range: { from: number; to: number }) =>
+      from === to ? range.from < from && from < range.to : range.from <= from && to <= range.to;
+    const insert = inserted.find(covers);
+    const formats = formatted.filter(covers);
+    let result = [...marks];
+
+    if (insert && !result.some((mark) => mark.type === "trackInsert")) {
+      result.push(insert.mark);
+    }
+    if (formats.length > 0) {
+      const formatting = result.filter((mark) => !TRACK_MARKS.has(mark.type));
+      const { user, date } = formats[0];
+      const ids = formats.map((range) => range.change.id).join(" ");
+      result = result.filter((mark) => mark.type !== "trackFormat");
+      result.push({
+        type: "trackFormat",
+        attrs: {
+          ...trackMark("trackFormat", ids, user, date).attrs,
+          before: formattingBefore(formatting, formats.map((range) => range.change)),
+          after: formatting,
+        },
+      });
+    }
+    return result;
+  };
+
+  let offset = block.charStart;
+  for (const child of content) {
+    const length = inlineLength(child);
+    if (child.text === undefined) {
+      placePointsUpTo(offset);
+      const marks = pieceMarks(child.marks ?? [], offset, offset + length);
+      parts[parts.length - 1].content.push(withMarks(child, marks));
+      offset += length;
+      continue;
+    }
+
+    const pieceStarts = [...cuts]
+      .filter((cut) => cut > offset && cut < offset + length)
+      .sort((a, b) => a - b);
+    for (const [index, start] of [offset, ...pieceStarts].entries()) {
+      const end = pieceStarts[index] ?? offset + length;
+      placePointsUpTo(start);
+      const piece = { ...child, text: child.text.slice(start - offset, end - offset) };
+      parts[parts.length - 1].content.push(
+        withMarks(piece, pieceMarks(child.marks ?? [], start, end))
+      );
+    }
+    offset += length;
+  }
+  placePointsUpTo(Infinity);
+
+  return parts.map((part, index) => {
+    const mark = index === parts.length - 1 ? paragraphMark : part.mark;
+    const attrs = mark ? { ...node.attrs, paragraphMark: mark } : node.attrs;
+    return {
+      type: node.type,
+      ...(attrs && { attrs }),
+      ...(part.content.length > 0 && { content: part.content }),
+    };
+  });
+}
+
+/**
+ * Place a comparison's changes on the modified document as track marks.
+ *
+ * The result is the document as docx-export.ts writes it: content changes
+ * as trackInsert and trackDelete marks, formatting changes as trackFormat
+ * marks whose `before` holds the old formatting, and inserted or deleted
+ * paragraph marks as a `paragraphMark` attribute. Changes a rule ignored are
+ * left out.
+ *
+ * @param original - The original document, for the whitespace around changes
+ * @param modified - The modified document, as compared (revisions resolved)
+ * @param result - The comparison's content and formatting changes
+ * @param user - Author of changes without their own attribution
+ * @param date - Date of changes without their own attribution
+ * @returns The modified document with the changes marked
+ */
+export function createRedlineJson(
+  original: ProseMirrorJsonNode,
+  modified: ProseMirrorJsonNode,
+  result: Pick<ComparisonResult, "changes" | "formattingChanges">,
+  user: TrackChangeUser = COMPARISON_USER,
+  date: string = new Date().toISOString()
+): ProseMirrorJsonNode {
+  const tree = extractBlockTree(modified);
+  const originalTree = extractBlockTree(original);
+  const textblocks = collectTextblocks(tree.root);
+  const edits = restoreWhitespace(
+    collectEdits(result.changes, result.formattingChanges, user, date),
+    originalTree.text,
+    tree.text
+  );
+  const contains = (block: Textblock, at: number) =>
+    block.charStart <= at && at <= block.charEnd;
+  const textblockAt = (at: number) =>
+    textblocks.find((block) => contains(block, at)) ?? textblocks[textblocks.length - 1];
+
+  // Each point goes to the first textblock it is in
+  const points = new Map<string, PointEdit[]>();
+  for (const point of [...edits.points].sort((a, b) => a.at - b.at)) {
+    const block = textblockAt(point.at);
+    if (!block) continue;
+    points.set(block.path, [...(points.get(block.path) ?? []), point]);
+  }
+
+  // Inserted paragraph marks: the line breaks inside insertions
+  const paragraphMarks = new Map<string, ProseMirrorMark>();
+  for (const block of textblocks) {
+    const breakInserted = edits.inserted.find(
+      (range) => range.from <= block.charEnd && block.charEnd < range.to
+    );
+    if (block.siblingFollows && tree.text[block.charEnd] === "\n" && breakInserted) {
+      paragraphMarks.set(block.path, breakInserted.mark);
+    }
+  }
+
+  const blocksByPath = new Map(textblocks.map((block) => [block.path, block]));
+  const rebuild = (node: ProseMirrorJsonNode, path: string): ProseMirrorJsonNode[] => {
+    const block = blocksByPath.get(path);
+    if (block) {
+      return redlineTextblock(node, block, edits, points.get(path) ?? [], paragraphMarks.get(path));
+    }
+    if (!node.content) return [node];
+    return [
+      {
+        ...node,
+        content: node.content.flatMap((child, index) =>
+          rebuild(child, `${path ? `${path}/` : ""}${child.type}[${index}]`)
+        ),
+      },
+    ];
+  };
+
+  return rebuild(modified, "")[0];
+}
+
+/**
+ * Compare two imported DOCX files and write the result as a redline: the
+ * modified file with every change as a tracked revision by one author.
+ *
+ * Revisions already in the modified file are kept when revisions are
+ * compared as they are (the default), and accepted or rejected with the
+ * other revision views. Changes in headers, footers and notes are reported
+ * but not marked.
+ *
+ * @param original - The original document
+ * @param modified - The modified document
+ * @param modifiedFile - The file the modified document was imported from
+ * @param options - Diff options, how revisions are treated, and the revisions' author and date
+ * @returns The comparison, its counts and the redline DOCX file
+ */
+export async function createImportedRedlineDocx(
+  original: ImportedDocx,
+  modified: ImportedDocx,
+  modifiedFile: ArrayBuffer | Uint8Array,
+  options: DocxRedlineOptions = {}
+): Promise<DocxRedlineResult> {
+  const { author, date, ...comparisonOptions } = options;
+  const { revisionView = "asIs", detectStealthEdits = false } = comparisonOptions;
+  const result = compareImportedDocx(original, modified, comparisonOptions);
+
+  const redline = createRedlineJson(
+    resolveRevisionsInJson(original.json, revisionView),
+    detectStealthEdits ? modified.json : resolveRevisionsInJson(modified.json, revisionView),
+    result,
+    author ? { ...COMPARISON_USER, name: author, email: "" } : COMPARISON_USER,
+    // Word writes revision dates without fractional seconds
+    (date ?? new Date().toISOString()).replace(/\.\d+Z$/, "Z")
+  );
+  return { ...result, docx: await exportDocx(redline, modifiedFile) };
+}
+
+/**
+ * Compare two DOCX files and write the result as a redline.
+ *
+ * @param original - The original DOCX file
+ * @param modified - The modified DOCX file, which the redline is written into
+ * @param options - Diff options, how revisions are treated, and the revisions' author and date
+ * @returns The comparison, its counts and the redline DOCX file
+ * @throws Error if either file is not a readable DOCX package
+ */
+export async function createRedlineDocx(
+  original: ArrayBuffer | Uint8Array,
+  modified: ArrayBuffer | Uint8Array,
+  options: DocxRedlineOptions = {}
+): Promise<DocxRedlineResult> {
+  return createImportedRedlineDocx(
+    await importDocx(original),
+    await importDocx(modified),
+    modified,
+    options
+  );
+}
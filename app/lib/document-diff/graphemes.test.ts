@@ -0,0 +1,250 @@
+/**
+ * Grapheme Cluster Utilities - Tests
+ *
+ * Fixtures cover astral-plane characters (surrogate pairs), combining
+ * sequences, emoji ZWJ sequences and flags, and right-to-left scripts with
+ * vowel points. Decomposed Latin letters and joiners are written as escapes,
+ * since they look the same as precomposed letters and plain emoji.
+ *
+ * @module graphemes
+ */
+
+import { describe, it, expect } from "vitest";
+import { computeChangesWithPositions } from "./diff-computation";
+import {
+  alignDiffToGraphemes,
+  diffGraphemes,
+  graphemeEnd,
+  graphemeStart,
+  splitGraphemes,
+} from "./graphemes";
+import { getProseMirrorPosition, getProseMirrorRange } from "./text-extraction";
+import type { DiffGranularity } from "./types";
+
+/** Thumbs up and down: one surrogate pair each */
+const THUMBS_UP = "\u{1F44D}";
+const THUMBS_DOWN = "\u{1F44E}";
+/** Mathematical bold A, outside the Basic Multilingual Plane */
+const BOLD_A = "\u{1D400}";
+/** Family emoji: man, woman and girl or boy joined by zero-width joiners */
+const FAMILY_GIRL = "\u{1F468}\u200D\u{1F469}\u200D\u{1F467}";
+const FAMILY_BOY = "\u{1F468}\u200D\u{1F469}\u200D\u{1F466}";
+/** Flags: pairs of regional indicators */
+const FLAG_VN = "\u{1F1FB}\u{1F1F3}";
+const FLAG_FR = "\u{1F1EB}\u{1F1F7}";
+/** Vietnamese "tieng" with circumflex and acute, then circumflex and grave, decomposed */
+const TIENG_ACUTE = "Tie\u0302\u0301ng";
+const TIENG_GRAVE = "Tie\u0302\u0300ng";
+/** Hebrew "shalom" with its points, then with holam written on the vav */
+const SHALOM = "שָׁלוֹם";
+const SHALOM_HOLAM = "שָׁלֹום";
+/** Arabic "marhaban" with harakat, then with a different final haraka */
+const MARHABAN = "مَرْحَبًا";
+const MARHABUN = "مَرْحَبٌا";
+
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
+/**
+ * Whether an offset is a cluster boundary: a range may start or end there
+ */
+function isBoundary(text: string, index: number): boolean {
+  return graphemeStart(text, index) === index;
+}
+
+/**
+ * Compare two texts and check every change starts and ends on a cluster
+ * boundary, with content that is whole characters
+ */
+function compareWhole(original: string, modified: string, granularity: DiffGranularity) {
+  const changes = computeChangesWithPositions(original, modified, { granularity });
+
+  for (const change of changes) {
+    expect(change.content).not.toMatch(LONE_SURROGATE);
+    expect(change.oldContent ?? "").not.toMatch(LONE_SURROGATE);
+    if (change.charStart !== undefined && change.charEnd !== undefined) {
+      expect(isBoundary(modified, change.charStart)).toBe(true);
+      expect(isBoundary(modified, change.charEnd)).toBe(true);
+    }
+    if (change.insertAt !== undefined) {
+      expect(isBoundary(modified, change.insertAt)).toBe(true);
+    }
+  }
+  return changes;
+}
+
+describe("splitGraphemes", () => {
+  it("should keep surrogate pairs, combining sequences and ZWJ sequences whole", () => {
+    expect(splitGraphemes(`a${THUMBS_UP}${BOLD_A}`)).toEqual(["a", THUMBS_UP, BOLD_A]);
+    expect(splitGraphemes(TIENG_ACUTE)).toEqual(["T", "i", "e\u0302\u0301", "n", "g"]);
+    expect(splitGraphemes(`${FAMILY_GIRL}${FLAG_VN}`)).toEqual([FAMILY_GIRL, FLAG_VN]);
+    expect(splitGraphemes(SHALOM)).toHaveLength(4);
+  });
+
+  it("should split plain text into code units", () => {
+    expect(splitGraphemes("rent")).toEqual(["r", "e", "n", "t"]);
+  });
+});
+
+describe("graphemeStart and graphemeEnd", () => {
+  it("should move an offset inside a cluster to the cluster's edges", () => {
+    const text = `a${FAMILY_GIRL}b`;
+
+    expect(graphemeStart(text, 3)).toBe(1);
+    expect(graphemeEnd(text, 3)).toBe(1 + FAMILY_GIRL.length);
+  });
+
+  it("should leave boundaries and offsets outside the text as they are", () => {
+    expect(graphemeStart(`a${THUMBS_UP}`, 1)).toBe(1);
+    expect(graphemeEnd(`a${THUMBS_UP}`, 3)).toBe(3);
+    expect(graphemeStart("abc", 2)).toBe(2);
+  });
+});
+
+describe("diffGraphemes", () => {
+  it("should report a changed diacritic as the whole letter", () => {
+    expect(diffGraphemes(TIENG_ACUTE, TIENG_GRAVE)).toEqual([
+      expect.objectContaining({ value: "Ti" }),
+      expect.objectContaining({ value: "e\u0302\u0301", removed: true }),
+      expect.objectContaining({ value: "e\u0302\u0300", added: true }),
+      expect.objectContaining({ value: "ng" }),
+    ]);
+  });
+
+  it("should match jsdiff's character diff on plain text", () => {
+    expect(diffGraphemes("rent due", "rant due")).toEqual([
+      { count: 1, added: false, removed: false, value: "r" },
+      { count: 1, added: false, removed: true, value: "e" },
+      { count: 1, added: true, removed: false, value: "a" },
+      { count: 6, added: false, removed: false, value: "nt due" },
+    ]);
+  });
+});
+
+describe("alignDiffToGraphemes", () => {
+  it("should move a boundary inside a ZWJ sequence out to the whole emoji", () => {
+    const prefix = FAMILY_GIRL.slice(0, -2);
+
+    const aligned = alignDiffToGraphemes([
+      { value: `Family ${prefix}`, count: 1, added: false, removed: false },
+      { value: "\u{1F467}", count: 1, added: false, removed: true },
+      { value: "\u{1F466}", count: 1, added: true, removed: false },
+      { value: " here", count: 1, added: false, removed: false },
+    ]);
+
+    expect(
+      aligned.map((part) => [part.removed ? "-" : part.added ? "+" : "=", part.value])
+    ).toEqual([
+      ["=", "Family "],
+      ["-", FAMILY_GIRL],
+      ["+", FAMILY_BOY],
+      ["=", " here"],
+    ]);
+  });
+
+  it("should leave a diff of plain text unchanged", () => {
+    const diffs = [
+      { value: "rent ", count: 1, added: false, removed: false },
+      { value: "due", count: 1, added: true, removed: false },
+    ];
+
+    expect(alignDiffToGraphemes(diffs)).toBe(diffs);
+  });
+});
+
+describe("computeChangesWithPositions with grapheme clusters", () => {
+  const granularities: DiffGranularity[] = ["character", "word", "sentence"];
+
+  it.each(granularities)("should replace a whole emoji at %s granularity", (granularity) => {
+    const [change] = compareWhole(
+      `Approved ${THUMBS_UP} by counsel.`,
+      `Approved ${THUMBS_DOWN} by counsel.`,
+      granularity
+    );
+
+    expect(change.content).toContain(THUMBS_DOWN);
+    expect(change.oldContent).toContain(THUMBS_UP);
+  });
+
+  it.each(granularities)(
+    "should replace a whole ZWJ sequence at %s granularity",
+    (granularity) => {
+      const [change] = compareWhole(
+        `Family ${FAMILY_GIRL} here.`,
+        `Family ${FAMILY_BOY} here.`,
+        granularity
+      );
+
+      expect(change.content).toContain(FAMILY_BOY);
+    }
+  );
+
+  it("should replace a whole flag", () => {
+    const [change] = compareWhole(
+      `Governed by ${FLAG_VN} law`,
+      `Governed by ${FLAG_FR} law`,
+      "character"
+    );
+
+    expect(change).toMatchObject({ oldContent: FLAG_VN, content: FLAG_FR });
+  });
+
+  it.each(granularities)(
+    "should keep decomposed Vietnamese letters whole at %s granularity",
+    (granularity) => {
+      const modified = `${TIENG_GRAVE} Vie\u0323\u0302t.`;
+      const [change] = compareWhole(`${TIENG_ACUTE} Vie\u0323\u0302t.`, modified, granularity);
+
+      expect(modified.slice(change.charStart, change.charEnd)).toBe(change.content);
+      expect(change.content).toContain("e\u0302\u0300");
+    }
+  );
+
+  it("should keep an inserted astral character whole", () => {
+    const modified = `Section ${BOLD_A} applies.`;
+    const [change] = compareWhole("Section applies.", modified, "character");
+
+    expect(change).toMatchObject({ type: "insertion", content: BOLD_A });
+  });
+
+  it("should keep Hebrew letters with their points", () => {
+    const [change] = compareWhole(`א ${SHALOM}`, `א ${SHALOM_HOLAM}`, "character");
+
+    expect(change.content).toBe("לֹו");
+    expect(change.oldContent).toBe("לוֹ");
+  });
+
+  it("should keep Arabic letters with their harakat", () => {
+    const [change] = compareWhole(MARHABAN, MARHABUN, "character");
+
+    expect(change).toMatchObject({ oldContent: "بً", content: "بٌ" });
+  });
+
+  it("should keep clusters whole through semantic cleanup", () => {
+    const modified = `${THUMBS_DOWN}${TIENG_GRAVE} ${FAMILY_BOY}`;
+    const changes = computeChangesWithPositions(
+      `${THUMBS_UP}${TIENG_ACUTE} ${FAMILY_GIRL}`,
+      modified,
+      { granularity: "character", semanticCleanup: true }
+    );
+
+    for (const change of changes) {
+      expect(isBoundary(modified, change.charStart!)).toBe(true);
+      expect(isBoundary(modified, change.charEnd!)).toBe(true);
+    }
+  });
+});
+
+describe("position lookups on grapheme clusters", () => {
+  // "a", a thumbs up (two code units) and "b" in a paragraph starting at 1
+  const posMap = { text: `a${THUMBS_UP}b`, charToPos: [1, 2, 3, 4] };
+
+  it("should widen a range that splits a surrogate pair to the whole character", () => {
+    expect(getProseMirrorRange(posMap, 2, 3)).toEqual({ from: 2, to: 4 });
+    expect(getProseMirrorRange(posMap, 0, 2)).toEqual({ from: 1, to: 4 });
+  });
+
+  it("should move a position inside a cluster to the cluster's start", () => {
+    expect(getProseMirrorPosition(posMap, 2)).toBe(2);
+    expect(getProseMirrorPosition(posMap, 3)).toBe(4);
+  });
+});
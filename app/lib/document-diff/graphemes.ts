@@ -0,0 +1,247 @@
+/**
+ * Grapheme Cluster Utilities
+ *
+ * Text is stored as UTF-16 code units, but a reader sees grapheme clusters:
+ * an emoji outside the Basic Multilingual Plane is two code units, a letter
+ * with combining diacritics (Vietnamese, Hebrew points, Arabic harakat) is
+ * several, and an emoji ZWJ sequence can be a dozen. A diff that splits one
+ * of these reports half a character as changed, and marking that half breaks
+ * the character. These functions find cluster boundaries with
+ * `Intl.Segmenter` (falling back to code points where it is missing) and
+ * keep diffs and position lookups on them.
+ */
+
+import { diffArrays, diffChars, diffWords, type Change as DiffChange } from "diff";
+
+/**
+ * Text that may contain clusters longer than one code unit: combining marks
+ * (from U+0300), surrogate pairs and everything else past them, or a CRLF
+ * pair
+ */
+const MULTI_UNIT_CLUSTERS = /[\u0300-\uffff]|\r\n/;
+
+const segmenters = new Map<"grapheme" | "word", Intl.Segmenter | null>();
+
+/**
+ * Shared segmenter for a granularity, or null where `Intl.Segmenter` is
+ * unavailable
+ */
+function getSegmenter(granularity: "grapheme" | "word"): Intl.Segmenter | null {
+  if (!segmenters.has(granularity)) {
+    segmenters.set(
+      granularity,
+      typeof Intl !== "undefined" && "Segmenter" in Intl
+        ? new Intl.Segmenter(undefined, { granularity })
+        : null
+    );
+  }
+  return segmenters.get(granularity)!;
+}
+
+/**
+ * Split text into grapheme clusters
+ *
+ * @param text - The text to split
+ * @returns The clusters, in order
+ */
+export function splitGraphemes(text: string): string[] {
+  if (!MULTI_UNIT_CLUSTERS.test(text)) return text.split("");
+
+  const graphemes = getSegmenter("grapheme");
+  if (!graphemes) return Array.from(text);
+  return Array.from(graphemes.segment(text), (s) => s.segment);
+}
+
+/**
+ * Cluster boundaries of the last text looked up, which is usually the same
+ * document text for every change being marked
+ */
+let cachedBoundaries: { text: string; boundaries: Uint8Array } | null = null;
+
+/**
+ * Which code unit offsets of a text (0 to its length) are cluster boundaries
+ *
+ * @param text - The text
+ * @returns 1 at each boundary offset, 0 inside a cluster
+ */
+function graphemeBoundaries(text: string): Uint8Array {
+  if (cachedBoundaries?.text === text) return cachedBoundaries.boundaries;
+
+  const boundaries = new Uint8Array(text.length + 1);
+  let offset = 0;
+  boundaries[0] = 1;
+  for (const grapheme of splitGraphemes(text)) {
+    offset += grapheme.length;
+    boundaries[offset] = 1;
+  }
+
+  cachedBoundaries = { text, boundaries };
+  return boundaries;
+}
+
+/**
+ * The nearest cluster boundary at or before an offset
+ *
+ * @param text - The text
+ * @param index - A code unit offset into the text
+ * @returns The offset of the cluster containing `index` (or `index` itself if it is a boundary or out of range)
+ */
+export function graphemeStart(text: string, index: number): number {
+  if (index <= 0 || index >= text.length || !MULTI_UNIT_CLUSTERS.test(text)) return index;
+
+  const boundaries = graphemeBoundaries(text);
+  let start = index;
+  while (start > 0 && !boundaries[start]) start--;
+  return start;
+}
+
+/**
+ * The nearest cluster boundary at or after an offset
+ *
+ * @param text - The text
+ * @param index - A code unit offset into the text
+ * @returns The offset just past the cluster containing `index` (or `index` itself if it is a boundary or out of range)
+ */
+export function graphemeEnd(text: string, index: number): number {
+  if (index <= 0 || index >= text.length || !MULTI_UNIT_CLUSTERS.test(text)) return index;
+
+  const boundaries = graphemeBoundaries(text);
+  let end = index;
+  while (end < text.length && !boundaries[end]) end++;
+  return end;
+}
+
+/**
+ * Character-level diff that compares whole grapheme clusters, so a changed
+ * diacritic or emoji is reported as the whole character it belongs to
+ *
+ * @param originalText - The original text
+ * @param modifiedText - The modified text
+ * @returns Diff parts whose boundaries are all cluster boundaries
+ */
+export function diffGraphemes(originalText: string, modifiedText: string): DiffChange[] {
+  if (!MULTI_UNIT_CLUSTERS.test(originalText) && !MULTI_UNIT_CLUSTERS.test(modifiedText)) {
+    return diffChars(originalText, modifiedText);
+  }
+
+  return diffArrays(splitGraphemes(originalText), splitGraphemes(modifiedText)).map(
+    (part) => ({
+      value: part.value.join(""),
+      count: part.value.length,
+      added: part.added,
+      removed: part.removed,
+    })
+  );
+}
+
+/**
+ * Word-level diff. Text with clusters longer than one code unit is split
+ * into words with `Intl.Segmenter`, whose word boundaries never fall inside
+ * a cluster; other text is split by jsdiff's own rules as before.
+ *
+ * @param originalText - The original text
+ * @param modifiedText - The modified text
+ * @returns Diff parts at word boundaries
+ */
+export function diffGraphemeWords(originalText: string, modifiedText: string): DiffChange[] {
+  const words =
+    MULTI_UNIT_CLUSTERS.test(originalText) || MULTI_UNIT_CLUSTERS.test(modifiedText)
+      ? getSegmenter("word")
+      : null;
+  return words
+    ? diffWords(originalText, modifiedText, { intlSegmenter: words })
+    : diffWords(originalText, modifiedText);
+}
+
+/**
+ * Move the boundaries of a diff that fall inside a grapheme cluster out to
+ * the cluster's edges. Unchanged text is trimmed back to where both sides
+ * have a boundary, and the trimmed pieces join the neighbouring change as
+ * removed and re-added text. Sentence diffs and semantic cleanup can leave
+ * such boundaries.
+ *
+ * Both sides are rebuilt from the parts, since jsdiff's word diff may report
+ * unchanged text with the modified side's whitespace.
+ *
+ * @param diffs - Diff parts from an original to a modified text
+ * @returns The diff with every boundary on a cluster boundary on both sides
+ */
+export function alignDiffToGraphemes(diffs: DiffChange[]): DiffChange[] {
+  const originalText = diffs.map((part) => (part.added ? "" : part.value)).join("");
+  const modifiedText = diffs.map((part) => (part.removed ? "" : part.value)).join("");
+  if (!MULTI_UNIT_CLUSTERS.test(originalText) && !MULTI_UNIT_CLUSTERS.test(modifiedText)) {
+    return diffs;
+  }
+
+  const originalBoundaries = graphemeBoundaries(originalText);
+  const modifiedBoundaries = graphemeBoundaries(modifiedText);
+  const isBoundary = (original: number, modified: number) =>
+    originalBoundaries[original] === 1 && modifiedBoundaries[modified] === 1;
+  const aligned: DiffChange[] = [];
+  let pendingRemoved = "";
+  let pendingAdded = "";
+  let originalIndex = 0;
+  let modifiedIndex = 0;
+
+  const flushChange = () => {
+    if (pendingRemoved) {
+      aligned.push({
+        value: pendingRemoved,
+        count: pendingRemoved.length,
+        added: false,
+        removed: true,
+      });
+    }
+    if (pendingAdded) {
+      aligned.push({
+        value: pendingAdded,
+        count: pendingAdded.length,
+        added: true,
+        removed: false,
+      });
+    }
+    pendingRemoved = "";
+    pendingAdded = "";
+  };
+
+  for (const part of diffs) {
+    const length = part.value.length;
+
+    if (part.removed) {
+      pendingRemoved += part.value;
+      originalIndex += length;
+      continue;
+    }
+    if (part.added) {
+      pendingAdded += part.value;
+      modifiedIndex += length;
+      continue;
+    }
+
+    let start = 0;
+    while (start < length && !isBoundary(originalIndex + start, modifiedIndex + start)) start++;
+    let end = length;
+    while (end > start && !isBoundary(originalIndex + end, modifiedIndex + end)) end--;
+
+    const head = part.value.slice(0, start);
+    pendingRemoved += head;
+    pendingAdded += head;
+    if (end > start) {
+      flushChange();
+      aligned.push(
+        start === 0 && end === length
+          ? part
+          : { ...part, value: part.value.slice(start, end), count: end - start }
+      );
+    }
+    const tail = part.value.slice(Math.max(start, end));
+    pendingRemoved += tail;
+    pendingAdded += tail;
+
+    originalIndex += length;
+    modifiedIndex += length;
+  }
+  flushChange();
+
+  return aligned;
+}
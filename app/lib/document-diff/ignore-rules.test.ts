@@ -0,0 +1,141 @@
+/**
+ * Unit tests for ignore rules
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  applyIgnoreRules,
+  parseIgnoreRules,
+  serializeIgnoreRules,
+} from "./ignore-rules";
+import { computeChangesWithPositions, computeDiffSummary } from "./diff-computation";
+import type { IgnoreRule } from "./types";
+
+const DRAFT_RULE: IgnoreRule = {
+  id: "draft",
+  description: "Draft watermark",
+  pattern: "Draft v\\d+",
+};
+
+const DATE_RULE: IgnoreRule = {
+  id: "footer-date",
+  description: "Footer dates",
+  pattern: "\\d{1,2} (January|February|March|April|May|June|July|August|September|October|November|December) \\d{4}",
+  flags: "i",
+};
+
+const ORIGINAL = "Draft v7\nThe Supplier shall deliver the goods.\nPrinted 3 March 2025";
+const MODIFIED = "Draft v8\nThe Supplier must deliver the goods.\nPrinted 14 April 2025";
+
+describe("serializeIgnoreRules / parseIgnoreRules", () => {
+  it("should round-trip rules through JSON", () => {
+    const rules = [DRAFT_RULE, { ...DATE_RULE, action: "suppress" as const }];
+
+    const parsed = parseIgnoreRules(serializeIgnoreRules(rules));
+
+    expect(parsed).toEqual({ success: true, rules });
+  });
+
+  it("should reject invalid JSON", () => {
+    expect(parseIgnoreRules("{ rules: ")).toEqual({
+      success: false,
+      errors: ["Rules must be valid JSON"],
+    });
+  });
+
+  it("should reject invalid patterns, flags and versions", () => {
+    const result = parseIgnoreRules(
+      JSON.stringify({
+        version: 1,
+        rules: [
+          { id: "a", description: "", pattern: "(unclosed" },
+          { id: "b", description: "", pattern: "x", flags: "g" },
+        ],
+      })
+    );
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors).toEqual([
+      "rules.0.pattern: Invalid regular expression",
+      "rules.1.flags: Only the i, m, s, u and v flags are allowed",
+    ]);
+    expect(parseIgnoreRules(JSON.stringify({ version: 2, rules: [] })).success).toBe(false);
+  });
+
+  it("should reject duplicate rule ids", () => {
+    const result = parseIgnoreRules(serializeIgnoreRules([DRAFT_RULE, DRAFT_RULE]));
+
+    expect(result).toEqual({ success: false, errors: ['Duplicate rule id "draft"'] });
+  });
+});
+
+describe("applyIgnoreRules", () => {
+  const changes = computeChangesWithPositions(ORIGINAL, MODIFIED, { granularity: "word" });
+
+  it("should tag changes covered by a rule on both sides", () => {
+    const result = applyIgnoreRules(changes, MODIFIED, [DRAFT_RULE, DATE_RULE]);
+
+    expect(result.map((c) => [c.oldContent, c.content, c.ignoredBy])).toEqual([
+      ["v7", "v8", "draft"],
+      ["shall", "must", undefined],
+      ["3 March", "14 April", "footer-date"],
+    ]);
+  });
+
+  it("should drop changes matched by a suppress rule", () => {
+    const result = applyIgnoreRules(changes, MODIFIED, [{ ...DRAFT_RULE, action: "suppress" }]);
+
+    expect(result.map((c) => c.content)).toEqual(["must", "14 April"]);
+  });
+
+  it("should not ignore a change that only partly matches", () => {
+    const original = "Draft v7 of the lease";
+    const modified = "Draft v8 of the licence";
+    const partial = computeChangesWithPositions(original, modified);
+
+    const result = applyIgnoreRules(partial, modified, [
+      { id: "draft", description: "", pattern: "Draft v\\d+ of the" },
+    ]);
+
+    expect(result.filter((c) => c.ignoredBy).map((c) => c.content)).toEqual(["8"]);
+    expect(result.some((c) => !c.ignoredBy)).toBe(true);
+  });
+
+  it("should match removed text of deletions", () => {
+    const original = "See page 12 for details.";
+    const modified = "See for details.";
+    const deletions = computeChangesWithPositions(original, modified, { granularity: "word" });
+
+    const result = applyIgnoreRules(deletions, modified, [
+      { id: "page-ref", description: "Page references", pattern: "page \\d+" },
+    ]);
+
+    expect(result).toEqual([
+      expect.objectContaining({ type: "deletion", content: "page 12", ignoredBy: "page-ref" }),
+    ]);
+  });
+
+  it("should skip rules with invalid patterns", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = applyIgnoreRules(changes, MODIFIED, [
+      { id: "broken", description: "", pattern: "(" },
+    ]);
+
+    expect(result).toBe(changes);
+    expect(warn).toHaveBeenCalledWith('Skipping ignore rule "broken": invalid pattern');
+    warn.mockRestore();
+  });
+});
+
+describe("computeChangesWithPositions with ignoreRules", () => {
+  it("should apply rules and leave ignored changes out of the summary counts", () => {
+    const changes = computeChangesWithPositions(ORIGINAL, MODIFIED, {
+      granularity: "word",
+      ignoreRules: [DRAFT_RULE, DATE_RULE],
+    });
+
+    expect(changes.filter((c) => c.ignoredBy)).toHaveLength(2);
+    expect(computeDiffSummary(changes)).toMatchObject({ replacements: 1, ignored: 2 });
+  });
+});
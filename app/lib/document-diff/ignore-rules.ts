@@ -0,0 +1,236 @@
+/**
+ * Ignore Rules
+ *
+ * User-defined regex rules for content that changes on every version and
+ * should never be reviewed (footer dates, document IDs, "Draft v7" marks,
+ * page references). Rules are plain JSON so a team can share them.
+ */
+
+import { z } from "zod";
+import type {
+  ChangeWithPosition,
+  IgnoreRule,
+  IgnoreRuleParseResult,
+} from "./types";
+
+/**
+ * Version of the serialized rules format
+ */
+export const IGNORE_RULES_VERSION = 1;
+
+/**
+ * Characters of surrounding modified text used to rebuild the removed side of
+ * a change, so rules can match text that spans the edit ("Draft v7" → "v8")
+ */
+const PROBE_CONTEXT_LENGTH = 100;
+
+/**
+ * Flags a rule may use ("g" and "y" are managed by the matcher)
+ */
+const ALLOWED_FLAGS = /^[imsuv]*$/;
+
+const ignoreRuleSchema = z
+  .object({
+    id: z.string().min(1),
+    description: z.string(),
+    pattern: z.string().min(1),
+    flags: z
+      .string()
+      .regex(ALLOWED_FLAGS, "Only the i, m, s, u and v flags are allowed")
+      .optional(),
+    action: z.enum(["ignore", "suppress"]).optional(),
+  })
+  // Bad flags are reported above; only check the pattern itself here
+  .refine((rule) => !ALLOWED_FLAGS.test(rule.flags ?? "") || compileRule(rule) !== null, {
+    message: "Invalid regular expression",
+    path: ["pattern"],
+  });
+
+const ignoreRulesFileSchema = z.object({
+  version: z.literal(IGNORE_RULES_VERSION),
+  rules: z.array(ignoreRuleSchema),
+});
+
+/**
+ * Serialize rules to JSON for sharing
+ *
+ * @param rules - Rules to serialize
+ * @returns Pretty-printed JSON document
+ */
+export function serializeIgnoreRules(rules: ReadonlyArray<IgnoreRule>): string {
+  return JSON.stringify({ version: IGNORE_RULES_VERSION, rules }, null, 2);
+}
+
+/**
+ * Parse and validate serialized rules
+ *
+ * @param json - JSON produced by serializeIgnoreRules
+ * @returns The rules, or the validation errors
+ */
+export function parseIgnoreRules(json: string): IgnoreRuleParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { success: false, errors: ["Rules must be valid JSON"] };
+  }
+
+  const result = ignoreRulesFileSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "rules"}: ${issue.message}`
+      ),
+    };
+  }
+
+  const ids = result.data.rules.map((rule) => rule.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    return { success: false, errors: [`Duplicate rule id "${duplicate}"`] };
+  }
+
+  return { success: true, rules: result.data.rules };
+}
+
+/**
+ * Compile a rule's pattern, or null if it is not a valid regex
+ */
+function compileRule(rule: Pick<IgnoreRule, "pattern" | "flags">): RegExp | null {
+  try {
+    return new RegExp(rule.pattern, `${rule.flags ?? ""}g`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A compiled rule with its matches in the modified text
+ */
+interface CompiledRule {
+  rule: IgnoreRule;
+  regex: RegExp;
+  /** Non-empty matches in the modified text as [start, end), in order */
+  matches: Array<[number, number]>;
+}
+
+/**
+ * Find all non-empty matches of a regex in text, in order
+ */
+function findMatches(regex: RegExp, text: string): Array<[number, number]> {
+  const matches: Array<[number, number]> = [];
+  for (const match of text.matchAll(regex)) {
+    if (match[0].length > 0) matches.push([match.index, match.index + match[0].length]);
+  }
+  return matches;
+}
+
+/**
+ * Check whether one of the (ordered, non-overlapping) matches covers [start, end)
+ */
+function isCovered(matches: Array<[number, number]>, start: number, end: number): boolean {
+  // Binary search for the last match starting at or before `start`
+  let low = 0;
+  let high = matches.length - 1;
+  let candidate = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (matches[mid][0] <= start) {
+      candidate = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return candidate >= 0 && matches[candidate][1] >= end;
+}
+
+/**
+ * Check whether a rule covers every side of a change.
+ *
+ * Added text is matched in place in the modified text. Removed text is
+ * matched inside a probe rebuilt from the removed text and the modified text
+ * around where it was removed.
+ */
+function ruleCoversChange(
+  compiled: CompiledRule,
+  change: ChangeWithPosition,
+  modifiedText: string
+): boolean {
+  const coversRemoved = (removed: string, from: number, to: number) => {
+    const before = modifiedText.slice(Math.max(0, from - PROBE_CONTEXT_LENGTH), from);
+    const after = modifiedText.slice(to, to + PROBE_CONTEXT_LENGTH);
+    const probe = before + removed + after;
+    return isCovered(
+      findMatches(compiled.regex, probe),
+      before.length,
+      before.length + removed.length
+    );
+  };
+
+  if (change.type !== "deletion") {
+    if (change.charStart === undefined || change.charEnd === undefined) return false;
+    if (!isCovered(compiled.matches, change.charStart, change.charEnd)) return false;
+  }
+
+  switch (change.type) {
+    case "replacement":
+      return coversRemoved(change.oldContent ?? "", change.charStart!, change.charEnd!);
+    case "deletion":
+    case "move": {
+      const at = change.insertAt ?? 0;
+      return coversRemoved(change.content, at, at);
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Apply ignore rules to computed changes.
+ *
+ * A rule applies to a change when its regex covers all of the change's text
+ * (both the removed and the added side). The first matching rule wins:
+ * - action "ignore" (default): the change is kept with `ignoredBy` set to the
+ *   rule's ID, so the UI can list it in a collapsed "ignored" bucket
+ * - action "suppress": the change is dropped
+ *
+ * Rules with invalid patterns are skipped with a warning.
+ *
+ * @param changes - Changes from computeChangesWithPositions
+ * @param modifiedText - The modified text the changes were computed against
+ * @param rules - Ignore rules, in priority order
+ * @returns Changes with ignored ones tagged and suppressed ones removed
+ */
+export function applyIgnoreRules(
+  changes: ChangeWithPosition[],
+  modifiedText: string,
+  rules: ReadonlyArray<IgnoreRule>
+): ChangeWithPosition[] {
+  const compiled: CompiledRule[] = [];
+  for (const rule of rules) {
+    const regex = compileRule(rule);
+    if (regex) {
+      compiled.push({ rule, regex, matches: findMatches(regex, modifiedText) });
+    } else {
+      console.warn(`Skipping ignore rule "${rule.id}": invalid pattern`);
+    }
+  }
+  if (compiled.length === 0) return changes;
+
+  const result: ChangeWithPosition[] = [];
+  for (const change of changes) {
+    const match = compiled.find((rule) =>
+      ruleCoversChange(rule, change, modifiedText)
+    );
+
+    if (!match) {
+      result.push(change);
+    } else if (match.rule.action !== "suppress") {
+      result.push({ ...change, ignoredBy: match.rule.id });
+    }
+  }
+
+  return result;
+}
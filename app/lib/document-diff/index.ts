@@ -49,27 +49,111 @@ export type {
   SuperDocEditor,
   SuperDocCommands,
   SuperDocChain,
+  SuperDocConverter,
+  SuperDocNote,
+  SuperDocPartEditor,
   SearchResult,
 } from "./types";
 
 // Types - Diff
 export type {
   Change,
+  ChangeComputationResult,
   ChangeType,
   ChangeWithPosition,
+  ComparisonOptions,
+  DiffGranularity,
+  DiffOptions,
   DiffSummary,
+  IgnoreRule,
+  IgnoreRuleAction,
+  IgnoreRuleParseResult,
+  NormalizedText,
+  ParagraphBoundaryChange,
   PositionMap,
   PositionMapWithFormatting,
+  SemanticCleanupResult,
 } from "./types";
 
 // Types - Formatting
 export type {
+  FormattingAttributeChange,
   FormattingChange,
   FormattingChangeType,
   FormattingChangeWithPosition,
   FormattingSpan,
 } from "./types";
 
+// Types - Tables
+export type {
+  MaskedText,
+  TableCellSnapshot,
+  TableChange,
+  TableChangeKind,
+  TableLocation,
+  TableSnapshot,
+  TableStructure,
+  TextRange,
+} from "./types";
+
+// Types - Structure
+export type {
+  AlignedPair,
+  BlockSnapshot,
+  StructuralChange,
+  StructuralChangeType,
+  StructuralChangeWithPosition,
+} from "./types";
+
+// Types - Objects
+export type {
+  ObjectChange,
+  ObjectChangeType,
+  ObjectSnapshot,
+} from "./types";
+
+// Types - Revisions
+export type {
+  RevisionCount,
+  RevisionView,
+  TrackedRevision,
+  TrackedRevisionType,
+} from "./types";
+
+// Types - Block tree
+export type { BlockTree, BlockTreeNode } from "./types";
+
+// Types - DOCX import
+export type {
+  DocxComparisonOptions,
+  DocxComparisonResult,
+  DocxRelationship,
+  ImportedDocx,
+  XmlElement,
+} from "./types";
+
+// Types - DOCX export
+export type { DocxRedlineOptions, DocxRedlineResult } from "./types";
+
+// Types - Merge
+export type {
+  ConflictResolution,
+  MergeConflict,
+  MergeEdit,
+  MergeSide,
+  ThreeWayMergeResult,
+} from "./types";
+
+// Types - Version history
+export type { ChangeAttribution, VersionSnapshot } from "./types";
+
+// Types - Document parts
+export type {
+  DocumentPart,
+  DocumentPartChanges,
+  DocumentPartKind,
+} from "./types";
+
 // Types - Track changes
 export type {
   DocumentModification,
@@ -77,11 +161,23 @@ export type {
   TrackChangesResult,
 } from "./types";
 
+// Types - Comparison worker
+export type {
+  CompareInWorkerOptions,
+  ComparisonInput,
+  ComparisonProgress,
+  ComparisonResult,
+  ComparisonStage,
+  ComparisonWorkerRequest,
+  ComparisonWorkerResponse,
+} from "./types";
+
 // Types - Component props
 export type { DocumentComparisonProps } from "./types";
 
 // Text extraction utilities
 export {
+  extractBlockTree,
   extractContext,
   extractTextFromJson,
   extractTextWithFormattingFromEditor,
@@ -93,29 +189,163 @@ export {
 
 // Diff computation utilities
 export {
+  computeChangeResult,
   computeChangesWithPositions,
   computeDiffSummary,
+  computeRawDiff,
   computeFormattingChanges,
+  describeFormatAttributeChange,
   filterChangesByType,
   getDeletionSearchContext,
+  getFormatAttributeLabel,
   getMarkTypeLabel,
   hasSufficientContext,
   sortChangesForApplication,
 } from "./diff-computation";
 
+// Stable change IDs (derived from the change, not its position)
+export {
+  assignStableIds,
+  hashString,
+  withStableChangeIds,
+  withStableFormattingIds,
+  withStableObjectIds,
+  withStableStructuralIds,
+} from "./change-ids";
+
+// Grapheme cluster utilities (emoji, combining marks)
+export {
+  alignDiffToGraphemes,
+  diffGraphemes,
+  diffGraphemeWords,
+  graphemeEnd,
+  graphemeStart,
+  splitGraphemes,
+} from "./graphemes";
+
+// Text normalization utilities
+export {
+  hasNormalization,
+  mapDiffToSource,
+  normalizeText,
+} from "./text-normalization";
+
+// Block alignment utilities
+export { alignSequences, diffByBlocks, splitIntoBlocks } from "./block-alignment";
+
+// Diff cleanup utilities
+export { cleanupSemantic } from "./diff-cleanup";
+
+// Ignore rules
+export {
+  applyIgnoreRules,
+  IGNORE_RULES_VERSION,
+  parseIgnoreRules,
+  serializeIgnoreRules,
+} from "./ignore-rules";
+
+// Move detection utilities
+export { detectMoves } from "./move-detection";
+
+// Paragraph boundary utilities
+export { detectParagraphBoundaryChanges } from "./paragraph-boundaries";
+
+// Table diff utilities
+export {
+  diffTable,
+  maskTables,
+  pairTables,
+  TABLE_PLACEHOLDER,
+} from "./table-diff";
+
+// Structure diff utilities
+export {
+  computeStructuralChanges,
+  describeStructuralChange,
+  getStructuralChangeLabel,
+} from "./structure-diff";
+
+// Object diff utilities (images, drawings)
+export {
+  computeObjectChanges,
+  describeObjectChange,
+  getObjectTypeLabel,
+  OBJECT_PLACEHOLDER,
+} from "./object-diff";
+
+// Revision utilities (revisions already in the inputs)
+export {
+  countRevisions,
+  resolveRevisionsInEditor,
+  resolveRevisionsInJson,
+} from "./revisions";
+
+// Stealth edit detection (untracked edits in a tracked document)
+export { detectStealthEdits, removeTrackedInsertions } from "./stealth-edits";
+
+// Three-way merge utilities (two versions edited from the same base)
+export {
+  applyEditsToText,
+  computeThreeWayMerge,
+  resolveConflict,
+} from "./three-way-merge";
+export type { ThreeWayMergeOptions } from "./three-way-merge";
+
+// Version history utilities (a series of versions of one document)
+export { attributeChanges, computeVersionHistoryChanges } from "./version-history";
+
+// Document part utilities (headers, footers, footnotes, endnotes)
+export {
+  compareDocumentParts,
+  createDocumentParts,
+  extractDocumentParts,
+  getDocumentPartEditor,
+} from "./document-parts";
+
+// Headless DOCX import (no editor or browser needed)
+export { importDocx } from "./docx-import";
+export { compareDocx, compareImportedDocx } from "./docx-compare";
+export { parseXml, readZip, serializeXml, writeZip } from "./docx-package";
+
+// Headless DOCX export (redlines as native Word revisions)
+export { exportDocx } from "./docx-export";
+export {
+  createImportedRedlineDocx,
+  createRedlineDocx,
+  createRedlineJson,
+} from "./docx-redline";
+
+// Comparison pipeline (runs in a Web Worker via compareInWorker)
+export {
+  COMPARISON_STAGES,
+  handleComparisonRequest,
+  runComparison,
+} from "./comparison-pipeline";
+export { compareInWorker } from "./comparison-client";
+
 // Track changes utilities
 export {
   addCommentsToChanges,
   applyFormattingTrackChanges,
+  applyMergeEdits,
+  applyStructuralTrackChanges,
   applyTrackChanges,
   approveChange,
+  approveFormattingChange,
+  approveStructuralChange,
   buildModifications,
+  canRejectStructuralChange,
   COMPARISON_USER,
   createTrackDeleteMark,
   createTrackInsertMark,
   getFormattingMarks,
   navigateToChange,
   navigateToFormattingChange,
+  navigateToMergeConflict,
+  navigateToObjectChange,
+  PARAGRAPH_MARKER,
   rejectChange,
+  rejectFormattingChange,
+  rejectStructuralChange,
   sortModificationsForApplication,
 } from "./track-changes";
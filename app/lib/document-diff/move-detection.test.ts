@@ -0,0 +1,129 @@
+/**
+ * Unit tests for move detection utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import { detectMoves } from "./move-detection";
+import { computeChangesWithPositions, computeDiffSummary } from "./diff-computation";
+import type { ChangeWithPosition } from "./types";
+
+const ORIGINAL = [
+  "Clause one covers payment terms.",
+  "Clause two covers termination rights.",
+  "Clause three covers governing law.",
+].join("\n");
+
+const MODIFIED = [
+  "Clause two covers termination rights.",
+  "Clause one covers payment terms.",
+  "Clause three covers governing law.",
+].join("\n");
+
+describe("detectMoves", () => {
+  it("should merge a matching deletion and insertion into one move", () => {
+    const changes: ChangeWithPosition[] = [
+      {
+        id: "change-0",
+        type: "deletion",
+        content: "a relocated clause of text",
+        insertAt: 0,
+        contextBefore: "",
+      },
+      {
+        id: "change-1",
+        type: "insertion",
+        content: "a relocated clause of text",
+        charStart: 40,
+        charEnd: 66,
+      },
+    ];
+
+    expect(detectMoves(changes)).toEqual([
+      {
+        id: "change-0",
+        type: "move",
+        content: "a relocated clause of text",
+        charStart: 40,
+        charEnd: 66,
+        insertAt: 0,
+        contextBefore: "",
+        granularity: undefined,
+      },
+    ]);
+  });
+
+  it("should ignore whitespace differences when matching", () => {
+    const changes: ChangeWithPosition[] = [
+      { id: "change-0", type: "insertion", content: "moved  clause\ttext here", charStart: 0, charEnd: 23 },
+      { id: "change-1", type: "deletion", content: "moved clause text here", insertAt: 30 },
+    ];
+
+    const result = detectMoves(changes);
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ id: "change-1", type: "move", charStart: 0, insertAt: 30 });
+  });
+
+  it("should not pair text shorter than the minimum length", () => {
+    const changes: ChangeWithPosition[] = [
+      { id: "change-0", type: "deletion", content: "the", insertAt: 0 },
+      { id: "change-1", type: "insertion", content: "the", charStart: 10, charEnd: 13 },
+    ];
+
+    expect(detectMoves(changes)).toBe(changes);
+    expect(detectMoves(changes, 3).map((c) => c.type)).toEqual(["move"]);
+  });
+
+  it("should leave unrelated changes in place", () => {
+    const changes: ChangeWithPosition[] = [
+      { id: "change-0", type: "deletion", content: "a relocated clause of text", insertAt: 0 },
+      { id: "change-1", type: "replacement", content: "new", oldContent: "old", charStart: 5, charEnd: 8 },
+      { id: "change-2", type: "insertion", content: "a relocated clause of text", charStart: 20, charEnd: 46 },
+      { id: "change-3", type: "insertion", content: "something else entirely", charStart: 50, charEnd: 73 },
+    ];
+
+    expect(detectMoves(changes).map((c) => `${c.id}:${c.type}`)).toEqual([
+      "change-0:move",
+      "change-1:replacement",
+      "change-3:insertion",
+    ]);
+  });
+});
+
+describe("computeChangesWithPositions with detectMoves", () => {
+  it("should report a moved paragraph as a single move", () => {
+    const changes = computeChangesWithPositions(ORIGINAL, MODIFIED, {
+      granularity: "paragraph",
+      detectMoves: true,
+    });
+
+    const moves = changes.filter((c) => c.type === "move");
+    expect(moves).toHaveLength(1);
+    expect(MODIFIED.slice(moves[0].charStart, moves[0].charEnd)).toBe(moves[0].content);
+    expect(computeDiffSummary(changes).moves).toBe(1);
+  });
+
+  it("should report a moved sentence as a move at sentence granularity", () => {
+    const changes = computeChangesWithPositions(
+      "The quick brown fox jumps over it. Alpha beta gamma. End here.",
+      "Alpha beta gamma. The quick brown fox jumps over it. End here.",
+      { granularity: "sentence", detectMoves: true }
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        type: "move",
+        content: "The quick brown fox jumps over it.",
+        insertAt: 0,
+      }),
+    ]);
+  });
+
+  it("should not detect moves unless enabled", () => {
+    const changes = computeChangesWithPositions(ORIGINAL, MODIFIED, {
+      granularity: "paragraph",
+    });
+
+    expect(changes.some((c) => c.type === "move")).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Move Detection Utilities
+ *
+ * Pairs deletions with insertions of the same text so a clause that was cut
+ * from one place and pasted elsewhere is reported as a single move.
+ */
+
+import type { ChangeWithPosition } from "./types";
+
+/**
+ * Minimum length of moved text. Shorter runs (single words, numbers) repeat
+ * too often in documents to be reliable move candidates.
+ */
+const MIN_MOVE_LENGTH = 20;
+
+/**
+ * Normalize text for move matching (whitespace differences are ignored)
+ */
+function normalizeForMatch(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Detect moved text among a list of changes.
+ *
+ * A deletion and an insertion with the same (whitespace-normalized) content
+ * are merged into one change of type "move":
+ * - charStart/charEnd locate the destination in the modified text
+ * - insertAt/contextBefore locate the source, like a deletion
+ *
+ * The move keeps the deletion's ID and takes the place of whichever of the
+ * pair came first. Unpaired changes are returned unchanged.
+ *
+ * @param changes - Changes from computeChangesWithPositions
+ * @param minLength - Minimum length of text considered a move (default 20)
+ * @returns Changes with matching deletion/insertion pairs merged into moves
+ */
+export function detectMoves(
+  changes: ChangeWithPosition[],
+  minLength: number = MIN_MOVE_LENGTH
+): ChangeWithPosition[] {
+  // Index insertions by normalized content, in document order
+  const insertionsByContent = new Map<string, number[]>();
+  changes.forEach((change, index) => {
+    if (change.type !== "insertion") return;
+    const key = normalizeForMatch(change.content);
+    if (key.length < minLength) return;
+    insertionsByContent.set(key, [...(insertionsByContent.get(key) ?? []), index]);
+  });
+
+  const moves = new Map<number, ChangeWithPosition>();
+  const consumed = new Set<number>();
+
+  changes.forEach((change, index) => {
+    if (change.type !== "deletion") return;
+    const candidates = insertionsByContent.get(normalizeForMatch(change.content));
+    const insertionIndex = candidates?.find((i) => !consumed.has(i));
+    if (insertionIndex === undefined) return;
+
+    const insertion = changes[insertionIndex];
+    consumed.add(insertionIndex);
+    consumed.add(index);
+    moves.set(Math.min(index, insertionIndex), {
+      id: change.id,
+      type: "move",
+      content: insertion.content,
+      charStart: insertion.charStart,
+      charEnd: insertion.charEnd,
+      insertAt: change.insertAt,
+      contextBefore: change.contextBefore,
+      granularity: change.granularity,
+    });
+  });
+
+  if (moves.size === 0) return changes;
+
+  const result: ChangeWithPosition[] = [];
+  changes.forEach((change, index) => {
+    const move = moves.get(index);
+    if (move) {
+      result.push(move);
+    } else if (!consumed.has(index)) {
+      result.push(change);
+    }
+  });
+
+  return result;
+}
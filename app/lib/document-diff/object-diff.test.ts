@@ -0,0 +1,181 @@
+/**
+ * Object Diff - Tests
+ *
+ * Objects are extracted with extractTextWithFormattingFromJson, the same way
+ * the comparison pipeline gets the original document's objects.
+ *
+ * @module object-diff
+ */
+
+import { describe, it, expect } from "vitest";
+import { doc, extractBoth, image, paragraph } from "./__fixtures__/prosemirror";
+import { computeChangesWithPositions } from "./diff-computation";
+import {
+  computeObjectChanges,
+  describeObjectChange,
+  OBJECT_PLACEHOLDER,
+} from "./object-diff";
+import { extractTextWithFormattingFromJson } from "./text-extraction";
+import type { ProseMirrorJsonNode } from "./types";
+
+const LOGO = "data:image/png;base64,bG9nbw==";
+const NEW_LOGO = "data:image/png;base64,bmV3IGxvZ28=";
+
+/**
+ * Compare the objects of two documents
+ */
+function compare(originalDoc: ProseMirrorJsonNode, modifiedDoc: ProseMirrorJsonNode) {
+  const { original, modified } = extractBoth(originalDoc, modifiedDoc);
+  const changes = computeObjectChanges(
+    original.objects,
+    modified.objects,
+    original.text,
+    modified.text
+  );
+  return { changes, modifiedText: modified.text };
+}
+
+describe("extractTextWithFormattingFromJson objects", () => {
+  it("should put a placeholder in the text for each object and fingerprint it", () => {
+    const result = extractTextWithFormattingFromJson(
+      doc(paragraph("Logo: ", image(LOGO)), paragraph("Terms"))
+    );
+
+    expect(result.text).toBe(`Logo: ${OBJECT_PLACEHOLDER}\nTerms`);
+    expect(result.objects).toEqual([
+      {
+        charStart: 6,
+        charEnd: 7,
+        type: "image",
+        index: 0,
+        hash: expect.stringMatching(/^[0-9a-f]{8}$/),
+        width: 120,
+        height: 40,
+        src: LOGO,
+      },
+    ]);
+  });
+
+  it("should resolve media paths and hash the media, not the path", () => {
+    const json = doc(paragraph(image("word/media/image1.png")));
+
+    const first = extractTextWithFormattingFromJson(json, {
+      "word/media/image1.png": LOGO,
+    });
+    const second = extractTextWithFormattingFromJson(json, {
+      "word/media/image1.png": NEW_LOGO,
+    });
+
+    expect(first.objects[0].src).toBe(LOGO);
+    expect(first.objects[0].hash).not.toBe(second.objects[0].hash);
+  });
+});
+
+describe("computeObjectChanges", () => {
+  it("should report nothing for identical documents", () => {
+    const document = doc(paragraph("Logo: ", image(LOGO)));
+
+    expect(compare(document, document).changes).toEqual([]);
+  });
+
+  it("should report a swapped image as replaced, on the new image's placeholder", () => {
+    const { changes, modifiedText } = compare(
+      doc(paragraph("Logo: ", image(LOGO))),
+      doc(paragraph("Logo: ", image(NEW_LOGO)))
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        id: expect.stringMatching(/^object-[0-9a-f]{8}$/),
+        type: "objectReplaced",
+        original: expect.objectContaining({ src: LOGO }),
+        modified: expect.objectContaining({ src: NEW_LOGO }),
+        charStart: 6,
+        charEnd: 7,
+      }),
+    ]);
+    expect(modifiedText.slice(changes[0].charStart, changes[0].charEnd)).toBe(
+      OBJECT_PLACEHOLDER
+    );
+  });
+
+  it("should report a resized image as replaced", () => {
+    const { changes } = compare(
+      doc(paragraph(image(LOGO, 120, 40))),
+      doc(paragraph(image(LOGO, 240, 80)))
+    );
+
+    expect(changes.map(describeObjectChange)).toEqual([
+      "Image replaced (120×40 → 240×80)",
+    ]);
+  });
+
+  it("should report added objects and keep unchanged ones aligned", () => {
+    const { changes } = compare(
+      doc(paragraph("Logo: ", image(LOGO)), paragraph("Signed")),
+      doc(paragraph("Logo: ", image(LOGO)), paragraph("Signed ", image(NEW_LOGO)))
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "objectAdded", charStart: 15, charEnd: 16 }),
+    ]);
+    expect(changes[0].original).toBeUndefined();
+  });
+
+  it("should position a removed object after the text that preceded it", () => {
+    const { changes, modifiedText } = compare(
+      doc(paragraph("Signed by the tenant ", image(LOGO), " on 1 May")),
+      doc(paragraph("Signed by the tenant  on 1 May"))
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "objectRemoved", original: expect.anything() }),
+    ]);
+    expect(modifiedText.slice(0, changes[0].charStart)).toBe("Signed by the tenant ");
+    expect(changes[0].charEnd).toBe(changes[0].charStart);
+  });
+});
+
+describe("describeObjectChange", () => {
+  it("should name the object type and what happened to it", () => {
+    const { changes } = compare(
+      doc(paragraph(image(LOGO), { type: "vectorShape", attrs: { id: "1" } })),
+      doc(paragraph({ type: "unknownObject" }))
+    );
+
+    expect(changes.map(describeObjectChange)).toEqual(["Image removed", "Drawing removed"]);
+  });
+});
+
+describe("computeChangesWithPositions objects", () => {
+  it("should leave added and removed objects to the object diff", () => {
+    const original = `Logo: ${OBJECT_PLACEHOLDER}\nTerms`;
+
+    expect(computeChangesWithPositions(original, "Logo: \nTerms", { granularity: "word" })).toEqual([]);
+    expect(computeChangesWithPositions("Logo: \nTerms", original, { granularity: "word" })).toEqual([]);
+  });
+
+  it("should drop placeholders from the content of text changes", () => {
+    const changes = computeChangesWithPositions(
+      "Intro.",
+      `Intro. See ${OBJECT_PLACEHOLDER} below.`,
+      { granularity: "word" }
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "insertion", content: "See below.", charStart: 7, charEnd: 19 }),
+    ]);
+  });
+
+  it("should report text that replaced an object as an insertion", () => {
+    const changes = computeChangesWithPositions(
+      `Signature: ${OBJECT_PLACEHOLDER}`,
+      "Signature: J. Smith",
+      { granularity: "word" }
+    );
+
+    expect(changes.map((c) => [c.type, c.content, c.oldContent])).toEqual([
+      ["insertion", "J. Smith", undefined],
+    ]);
+  });
+});
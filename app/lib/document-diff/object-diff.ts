@@ -0,0 +1,185 @@
+/**
+ * Object Diff Utilities
+ *
+ * Detects changes to images, drawings and other embedded objects. Objects
+ * contribute no text, so a swapped logo or a replaced signature image never
+ * shows up in the text diff. Extraction puts one placeholder character in
+ * the text for each object and fingerprints it by type, source hash and
+ * size; here the fingerprints of both documents are aligned and the objects
+ * that do not line up are reported as added, removed or replaced.
+ */
+
+import { diffArrays } from "diff";
+import { withStableObjectIds } from "./change-ids";
+import type { ObjectChange, ObjectSnapshot } from "./types";
+
+/**
+ * Character standing in for an object in extracted text. U+E000 (the first
+ * private-use character) rather than U+FFFC, which masks tables in the text diff.
+ */
+export const OBJECT_PLACEHOLDER = "\uE000";
+
+/**
+ * Characters of original text before a removed object used to find where it was
+ */
+const CONTEXT_LENGTH = 30;
+
+/**
+ * Shortest context worth searching for
+ */
+const MIN_CONTEXT_LENGTH = 5;
+
+/**
+ * Display labels for object node types
+ */
+const OBJECT_TYPE_LABELS: Record<string, string> = {
+  image: "Image",
+  vectorShape: "Drawing",
+  shapeGroup: "Drawing",
+};
+
+/**
+ * Get a human-readable label for an object node type ("Object" for unknown types)
+ */
+export function getObjectTypeLabel(type: string): string {
+  return OBJECT_TYPE_LABELS[type] ?? "Object";
+}
+
+function sizeLabel(object: ObjectSnapshot): string | undefined {
+  return object.width !== undefined && object.height !== undefined
+    ? `${object.width}×${object.height}`
+    : undefined;
+}
+
+/**
+ * Describe an object change, e.g. "Image added" or
+ * "Image replaced (120×40 → 240×80)"
+ */
+export function describeObjectChange(change: ObjectChange): string {
+  const object = change.modified ?? change.original;
+  const label = getObjectTypeLabel(object?.type ?? "");
+
+  switch (change.type) {
+    case "objectAdded":
+      return `${label} added`;
+    case "objectRemoved":
+      return `${label} removed`;
+    case "objectReplaced": {
+      const before = change.original && sizeLabel(change.original);
+      const after = change.modified && sizeLabel(change.modified);
+      return before && after && before !== after
+        ? `${label} replaced (${before} → ${after})`
+        : `${label} replaced`;
+    }
+  }
+}
+
+/**
+ * Key two objects share when they are the same object
+ */
+function fingerprint(object: ObjectSnapshot): string {
+  return `${object.type}:${object.hash}:${object.width ?? ""}x${object.height ?? ""}`;
+}
+
+/**
+ * Find where a removed object was in the modified text: after the original
+ * text before it, if that text is still there, otherwise at `fallback`
+ */
+function locateRemovedObject(
+  object: ObjectSnapshot,
+  originalText: string,
+  modifiedText: string,
+  fallback: number
+): number {
+  const context = originalText.slice(
+    Math.max(0, object.charStart - CONTEXT_LENGTH),
+    object.charStart
+  );
+  if (context.trim().length < MIN_CONTEXT_LENGTH) return fallback;
+
+  const index = modifiedText.indexOf(context);
+  return index < 0 ? fallback : index + context.length;
+}
+
+/**
+ * Compute object changes between two documents' objects.
+ *
+ * Objects are aligned in document order by fingerprint (type, source hash
+ * and size). Between two aligned objects, removed and added objects are
+ * paired in order as replacements; the rest are removals and additions. A
+ * removed object is positioned after the text that preceded it, or else
+ * before the next aligned object.
+ *
+ * @param originalObjects - Objects of the original document
+ * @param modifiedObjects - Objects of the modified document
+ * @param originalText - Text extracted from the original document
+ * @param modifiedText - Text extracted from the modified document
+ * @returns Object changes in modified document order
+ */
+export function computeObjectChanges(
+  originalObjects: ReadonlyArray<ObjectSnapshot>,
+  modifiedObjects: ReadonlyArray<ObjectSnapshot>,
+  originalText: string,
+  modifiedText: string
+): ObjectChange[] {
+  const changes: Array<Omit<ObjectChange, "id">> = [];
+  let originalIndex = 0;
+  let modifiedIndex = 0;
+  let removed: ObjectSnapshot[] = [];
+  let added: ObjectSnapshot[] = [];
+
+  const flush = () => {
+    const next = modifiedObjects[modifiedIndex];
+    const fallback = next ? next.charStart : modifiedText.length;
+
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      const original = removed[i];
+      const modified = added[i];
+      if (original && modified) {
+        changes.push({
+          type: "objectReplaced",
+          original,
+          modified,
+          charStart: modified.charStart,
+          charEnd: modified.charEnd,
+        });
+      } else if (modified) {
+        changes.push({
+          type: "objectAdded",
+          modified,
+          charStart: modified.charStart,
+          charEnd: modified.charEnd,
+        });
+      } else {
+        const at = locateRemovedObject(original, originalText, modifiedText, fallback);
+        changes.push({ type: "objectRemoved", original, charStart: at, charEnd: at });
+      }
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const part of diffArrays(
+    originalObjects.map(fingerprint),
+    modifiedObjects.map(fingerprint)
+  )) {
+    const count = part.value.length;
+    if (part.removed) {
+      removed.push(...originalObjects.slice(originalIndex, originalIndex + count));
+      originalIndex += count;
+    } else if (part.added) {
+      added.push(...modifiedObjects.slice(modifiedIndex, modifiedIndex + count));
+      modifiedIndex += count;
+    } else {
+      flush();
+      originalIndex += count;
+      modifiedIndex += count;
+    }
+  }
+  flush();
+
+  return withStableObjectIds(
+    changes.sort((a, b) => a.charStart - b.charStart),
+    modifiedText
+  );
+}
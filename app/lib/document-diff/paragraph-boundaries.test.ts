@@ -0,0 +1,119 @@
+/**
+ * Paragraph Boundaries - Tests
+ *
+ * @module paragraph-boundaries
+ */
+
+import { describe, it, expect } from "vitest";
+import { computeChangesWithPositions } from "./diff-computation";
+import { detectParagraphBoundaryChanges } from "./paragraph-boundaries";
+import type { DiffGranularity } from "./types";
+
+const JOINED = "The tenant pays rent monthly. Rent is due on the first day.\nEnd.";
+const SPLIT = "The tenant pays rent monthly.\nRent is due on the first day.\nEnd.";
+
+describe("detectParagraphBoundaryChanges", () => {
+  it("should report a split on the whitespace between the two paragraphs", () => {
+    const changes = detectParagraphBoundaryChanges(JOINED, SPLIT);
+
+    expect(changes).toEqual([
+      {
+        type: "split",
+        content: "Rent is due on the first day.",
+        oldContent: " ",
+        charStart: 29,
+        charEnd: 30,
+      },
+    ]);
+    expect(SPLIT.slice(changes[0].charStart, changes[0].charEnd)).toBe("\n");
+  });
+
+  it("should report a merge anchored on the joining whitespace", () => {
+    const changes = detectParagraphBoundaryChanges(SPLIT, JOINED);
+
+    expect(changes).toEqual([
+      {
+        type: "merge",
+        content: "Rent is due on the first day.",
+        oldContent: "\n",
+        charStart: 29,
+        charEnd: 30,
+        insertAt: 29,
+      },
+    ]);
+  });
+
+  it("should report nothing for identical texts or whitespace edits within paragraphs", () => {
+    expect(detectParagraphBoundaryChanges(SPLIT, SPLIT)).toEqual([]);
+    expect(
+      detectParagraphBoundaryChanges("Pay  rent.\nEnd.", "Pay rent.\nEnd.")
+    ).toEqual([]);
+  });
+
+  it("should not report boundaries around edited words", () => {
+    const changes = detectParagraphBoundaryChanges(
+      "Rent is due. Late fees apply.",
+      "Rent is due.\nNo fees apply."
+    );
+
+    expect(changes).toEqual([]);
+  });
+
+  it("should report a split next to an edit in the same paragraph", () => {
+    const changes = detectParagraphBoundaryChanges(
+      "Rent is due monthly. Late fees apply.",
+      "Rent is due weekly.\nLate fees apply."
+    );
+
+    expect(changes.map((c) => [c.type, c.content])).toEqual([
+      ["split", "Late fees apply."],
+    ]);
+  });
+
+  it("should compare words with comparison options", () => {
+    const changes = detectParagraphBoundaryChanges(
+      "RENT IS DUE. LATE FEES APPLY.",
+      "Rent is due.\nLate fees apply.",
+      { ignoreCase: true }
+    );
+
+    expect(changes.map((c) => c.type)).toEqual(["split"]);
+  });
+});
+
+describe("computeChangesWithPositions paragraph boundaries", () => {
+  it.each<DiffGranularity>(["character", "word", "sentence", "paragraph"])(
+    "should report a split as one split change at %s granularity",
+    (granularity) => {
+      const changes = computeChangesWithPositions(JOINED, SPLIT, { granularity });
+
+      expect(changes).toEqual([
+        expect.objectContaining({ id: expect.stringMatching(/^change-[0-9a-f]{8}$/), type: "split", oldContent: " " }),
+      ]);
+    }
+  );
+
+  it.each<DiffGranularity>(["character", "word", "sentence", "paragraph"])(
+    "should report a merge as one merge change at %s granularity",
+    (granularity) => {
+      const changes = computeChangesWithPositions(SPLIT, JOINED, { granularity });
+
+      expect(changes).toEqual([
+        expect.objectContaining({ id: expect.stringMatching(/^change-[0-9a-f]{8}$/), type: "merge", oldContent: "\n" }),
+      ]);
+    }
+  );
+
+  it("should keep text edits alongside a split", () => {
+    const changes = computeChangesWithPositions(
+      "Rent is due monthly. Late fees apply.",
+      "Rent is due weekly.\nLate fees apply.",
+      { granularity: "word" }
+    );
+
+    expect(changes.map((c) => [c.type, c.content])).toEqual([
+      ["replacement", "weekly"],
+      ["split", "Late fees apply."],
+    ]);
+  });
+});
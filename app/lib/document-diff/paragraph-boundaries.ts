@@ -0,0 +1,179 @@
+/**
+ * Paragraph Boundary Detection
+ *
+ * Finds paragraphs that were split in two or joined into one. In extracted
+ * text a paragraph boundary is a newline, so a split is only " " becoming
+ * "\n": the word diff treats that as unchanged and the other diffs report a
+ * whitespace-only edit that is dropped. Here the words of each changed run of
+ * blocks are aligned and the whitespace between neighbouring words is
+ * compared: a separator that gained a newline is a split, one that lost its
+ * newline is a merge.
+ */
+
+import { diffArrays } from "diff";
+import { splitIntoBlocks } from "./block-alignment";
+import { hasNormalization, normalizeText } from "./text-normalization";
+import type { ComparisonOptions, ParagraphBoundaryChange } from "./types";
+
+/**
+ * Characters of the second paragraph shown as a change's content
+ */
+const CONTENT_LENGTH = 50;
+
+/**
+ * Words and single punctuation marks. Punctuation is its own token (as in
+ * diffWords) so the full stop before a split still aligns when the word
+ * before it was edited.
+ */
+const TOKEN_PATTERN = /[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu;
+
+/**
+ * A word of text with its position
+ */
+interface Word {
+  readonly key: string;
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * Split text into words and punctuation, keyed for comparison
+ */
+function tokenize(
+  text: string,
+  offset: number,
+  comparison: ComparisonOptions | undefined
+): Word[] {
+  return Array.from(text.matchAll(TOKEN_PATTERN), (match) => ({
+    key: comparison ? normalizeText(match[0], comparison).text : match[0],
+    start: offset + match.index,
+    end: offset + match.index + match[0].length,
+  }));
+}
+
+/**
+ * Start of the paragraph following a boundary, for display
+ */
+function paragraphStart(text: string, from: number): string {
+  const end = text.indexOf("\n", from);
+  return text
+    .slice(from, end < 0 ? undefined : end)
+    .trim()
+    .substring(0, CONTENT_LENGTH);
+}
+
+/**
+ * Compare the separators between aligned neighbouring words of one changed run
+ */
+function compareRun(
+  originalText: string,
+  originalWords: Word[],
+  modifiedText: string,
+  modifiedWords: Word[],
+  changes: ParagraphBoundaryChange[]
+): void {
+  let originalIndex = 0;
+  let modifiedIndex = 0;
+
+  for (const part of diffArrays(
+    originalWords.map((word) => word.key),
+    modifiedWords.map((word) => word.key)
+  )) {
+    const count = part.value.length;
+    if (part.removed) {
+      originalIndex += count;
+      continue;
+    }
+    if (part.added) {
+      modifiedIndex += count;
+      continue;
+    }
+
+    // Separators between consecutive words that are both unchanged
+    for (let i = 1; i < count; i++) {
+      const o = originalIndex + i;
+      const m = modifiedIndex + i;
+      const originalSeparator = originalText.slice(
+        originalWords[o - 1].end,
+        originalWords[o].start
+      );
+      const charStart = modifiedWords[m - 1].end;
+      const charEnd = modifiedWords[m].start;
+      const wasBoundary = originalSeparator.includes("\n");
+      const isBoundary = modifiedText.slice(charStart, charEnd).includes("\n");
+      if (wasBoundary === isBoundary) continue;
+
+      changes.push({
+        type: isBoundary ? "split" : "merge",
+        content: paragraphStart(modifiedText, charEnd),
+        oldContent: originalSeparator,
+        charStart,
+        charEnd,
+        ...(isBoundary ? {} : { insertAt: charStart }),
+      });
+    }
+
+    originalIndex += count;
+    modifiedIndex += count;
+  }
+}
+
+/**
+ * Detect paragraph splits and merges between two texts.
+ *
+ * Blocks are aligned first (as in diffByBlocks), so only runs of changed
+ * blocks are tokenized. Within a run, words are aligned with an array diff;
+ * only separators between two consecutive aligned words are compared, so
+ * edited or moved text never produces a boundary change. With `comparison`
+ * options words are compared normalized.
+ *
+ * @param originalText - The original (older) text
+ * @param modifiedText - The modified (newer) text
+ * @param comparison - Differences to ignore when aligning words
+ * @returns Splits and merges in modified-text order
+ */
+export function detectParagraphBoundaryChanges(
+  originalText: string,
+  modifiedText: string,
+  comparison?: ComparisonOptions
+): ParagraphBoundaryChange[] {
+  const options = hasNormalization(comparison) ? comparison : undefined;
+  const originalBlocks = splitIntoBlocks(originalText);
+  const modifiedBlocks = splitIntoBlocks(modifiedText);
+  const changes: ParagraphBoundaryChange[] = [];
+
+  let originalOffset = 0;
+  let modifiedOffset = 0;
+  let runOriginalStart = 0;
+  let runModifiedStart = 0;
+
+  const flushRun = () => {
+    if (originalOffset > runOriginalStart && modifiedOffset > runModifiedStart) {
+      compareRun(
+        originalText,
+        tokenize(originalText.slice(runOriginalStart, originalOffset), runOriginalStart, options),
+        modifiedText,
+        tokenize(modifiedText.slice(runModifiedStart, modifiedOffset), runModifiedStart, options),
+        changes
+      );
+    }
+  };
+
+  for (const part of diffArrays(originalBlocks, modifiedBlocks)) {
+    const length = part.value.join("").length;
+    if (part.removed) {
+      originalOffset += length;
+    } else if (part.added) {
+      modifiedOffset += length;
+    } else {
+      flushRun();
+      originalOffset += length;
+      modifiedOffset += length;
+      runOriginalStart = originalOffset;
+      runModifiedStart = modifiedOffset;
+    }
+  }
+  flushRun();
+
+  return changes;
+}
@@ -0,0 +1,110 @@
+/**
+ * Revisions - Tests
+ *
+ * Documents use the marks SuperDoc imports Word revisions as. Resolving
+ * revisions in a live editor is tested with the track changes editor tests.
+ *
+ * @module revisions
+ */
+
+import { describe, it, expect } from "vitest";
+import { deleted, doc, inserted, paragraph, text } from "./__fixtures__/prosemirror";
+import { countRevisions, resolveRevisionsInJson } from "./revisions";
+import { extractTextFromJson } from "./text-extraction";
+import type { ProseMirrorJsonNode } from "./types";
+
+const NOTICE = doc(
+  paragraph(
+    text("Notice of "),
+    text("thirty", deleted("1")),
+    text("sixty", inserted("2")),
+    text(" days")
+  ),
+  paragraph(text("Signed by the "), text("landlord", inserted("3")), text("."))
+);
+
+describe("countRevisions", () => {
+  it("should count each revision once, even when split over text nodes", () => {
+    const split = doc(
+      paragraph(
+        text("Rent "),
+        text("is due", inserted("7")),
+        text(" monthly", inserted("7"), { type: "bold" })
+      )
+    );
+
+    expect(countRevisions(NOTICE)).toEqual({
+      insertions: 2,
+      deletions: 1,
+      formatting: 0,
+      total: 3,
+    });
+    expect(countRevisions(split).insertions).toBe(1);
+  });
+
+  it("should count marks without an ID once per node", () => {
+    const result = countRevisions(
+      doc(paragraph(text("a", { type: "trackDelete" }), text("b", { type: "trackDelete" })))
+    );
+
+    expect(result.deletions).toBe(2);
+  });
+
+  it("should report nothing for a document without revisions", () => {
+    expect(countRevisions(doc(paragraph(text("Plain", { type: "bold" })))).total).toBe(0);
+  });
+});
+
+describe("resolveRevisionsInJson", () => {
+  it("should keep insertions and drop deletions when accepted", () => {
+    const resolved = resolveRevisionsInJson(NOTICE, "accepted");
+
+    expect(extractTextFromJson(resolved)).toBe(
+      "Notice of sixty days\nSigned by the landlord."
+    );
+    expect(countRevisions(resolved).total).toBe(0);
+  });
+
+  it("should keep deletions and drop insertions when rejected", () => {
+    const resolved = resolveRevisionsInJson(NOTICE, "rejected");
+
+    expect(extractTextFromJson(resolved)).toBe("Notice of thirty days\nSigned by the .");
+    expect(countRevisions(resolved).total).toBe(0);
+  });
+
+  it("should return the document unchanged as is", () => {
+    expect(resolveRevisionsInJson(NOTICE, "asIs")).toBe(NOTICE);
+  });
+
+  it("should keep the new formatting when accepted and restore the old when rejected", () => {
+    const reformatted = doc(
+      paragraph(
+        text(
+          "Confidential",
+          { type: "italic" },
+          {
+            type: "trackFormat",
+            attrs: { id: "4", before: [{ type: "bold" }], after: [{ type: "italic" }] },
+          }
+        )
+      )
+    );
+    const marksOf = (node: ProseMirrorJsonNode) => node.content![0].content![0].marks;
+
+    expect(marksOf(resolveRevisionsInJson(reformatted, "accepted"))).toEqual([
+      { type: "italic" },
+    ]);
+    expect(marksOf(resolveRevisionsInJson(reformatted, "rejected"))).toEqual([
+      { type: "bold" },
+    ]);
+  });
+
+  it("should keep other marks on text that stays", () => {
+    const resolved = resolveRevisionsInJson(
+      doc(paragraph(text("Term", { type: "bold" }, inserted("5")))),
+      "accepted"
+    );
+
+    expect(resolved.content![0].content).toEqual([text("Term", { type: "bold" })]);
+  });
+});
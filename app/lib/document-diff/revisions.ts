@@ -0,0 +1,211 @@
+/**
+ * Revision Utilities
+ *
+ * Documents can arrive with Word revisions still pending. SuperDoc imports
+ * them as trackInsert, trackDelete and trackFormat marks, and the extractors
+ * read marked text like any other text, so deleted text counted as content
+ * and the diff compared a mix of two versions. These functions count pending
+ * revisions and resolve them before diffing, viewing each input with all
+ * revisions accepted or all rejected ("asIs" leaves the document untouched).
+ */
+
+import type { Mark as PMMark, Schema } from "prosemirror-model";
+import type { Transaction } from "prosemirror-state";
+import type {
+  ProseMirrorJsonNode,
+  ProseMirrorMark,
+  ProseMirrorMarkAttrs,
+  RevisionCount,
+  RevisionView,
+  SuperDocEditor,
+} from "./types";
+
+/**
+ * Marks of a trackFormat revision: the marks before and after the change
+ * (as SuperDoc imports Word formatting revisions)
+ */
+interface FormatRevisionAttrs {
+  readonly before?: ReadonlyArray<ProseMirrorMark>;
+  readonly after?: ReadonlyArray<ProseMirrorMark>;
+}
+
+/**
+ * Mark type whose content is removed under a view (the other one is kept)
+ */
+function removedMarkType(view: Exclude<RevisionView, "asIs">): string {
+  return view === "accepted" ? "trackDelete" : "trackInsert";
+}
+
+/**
+ * Resolve the marks of a node that stays: revision marks are dropped, and a
+ * rejected formatting revision puts back the marks from before the change
+ */
+function resolveMarks(
+  marks: ReadonlyArray<ProseMirrorMark>,
+  view: Exclude<RevisionView, "asIs">
+): ProseMirrorMark[] {
+  let resolved = marks.filter(
+    (mark) => mark.type !== "trackInsert" && mark.type !== "trackDelete"
+  );
+
+  for (const revision of marks.filter((mark) => mark.type === "trackFormat")) {
+    resolved = resolved.filter((mark) => mark !== revision);
+    if (view === "accepted") continue;
+
+    const { before = [], after = [] } = (revision.attrs ?? {}) as FormatRevisionAttrs;
+    const changedTypes = new Set([...before, ...after].map((mark) => mark.type));
+    resolved = [
+      ...resolved.filter((mark) => !changedTypes.has(mark.type)),
+      ...before,
+    ];
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolve a node and its content; null if the node itself is removed
+ */
+function resolveNode(
+  node: ProseMirrorJsonNode,
+  view: Exclude<RevisionView, "asIs">
+): ProseMirrorJsonNode | null {
+  const removed = removedMarkType(view);
+  if (node.marks?.some((mark) => mark.type === removed)) return null;
+
+  const marks = node.marks ? resolveMarks(node.marks, view) : undefined;
+  const content = node.content
+    ?.map((child) => resolveNode(child, view))
+    .filter((child): child is ProseMirrorJsonNode => child !== null);
+
+  return { ...node, marks: marks?.length ? marks : undefined, content };
+}
+
+/**
+ * Count the revisions pending in a document.
+ * Marks of one revision share an ID, so a revision split over several text
+ * nodes counts once; marks without an ID count once per node.
+ *
+ * @param node - Document as ProseMirror JSON
+ * @returns Pending insertions, deletions and formatting changes
+ */
+export function countRevisions(node: ProseMirrorJsonNode): RevisionCount {
+  const ids = {
+    trackInsert: new Set<string>(),
+    trackDelete: new Set<string>(),
+    trackFormat: new Set<string>(),
+  };
+  let anonymous = 0;
+
+  const visit = (n: ProseMirrorJsonNode) => {
+    for (const mark of n.marks ?? []) {
+      if (!(mark.type in ids)) continue;
+      const id = mark.attrs?.id;
+      ids[mark.type as keyof typeof ids].add(id ? String(id) : `#${anonymous++}`);
+    }
+    n.content?.forEach(visit);
+  };
+  visit(node);
+
+  const insertions = ids.trackInsert.size;
+  const deletions = ids.trackDelete.size;
+  const formatting = ids.trackFormat.size;
+  return { insertions, deletions, formatting, total: insertions + deletions + formatting };
+}
+
+/**
+ * View a document with its pending revisions accepted or rejected.
+ *
+ * Accepting removes text marked deleted and keeps inserted text; rejecting
+ * does the opposite and restores the formatting from before each formatting
+ * revision. Revision marks are removed either way.
+ *
+ * @param node - Document as ProseMirror JSON
+ * @param view - How to treat revisions ("asIs" returns the node unchanged)
+ * @returns The resolved document
+ */
+export function resolveRevisionsInJson(
+  node: ProseMirrorJsonNode,
+  view: RevisionView
+): ProseMirrorJsonNode {
+  if (view === "asIs") return node;
+  return resolveNode(node, view) ?? { type: node.type, content: [] };
+}
+
+/**
+ * Accept or reject all pending revisions in a live editor, in one
+ * transaction. Use before extracting the document's text so positions in the
+ * extracted text match the resolved document.
+ *
+ * @param editor - The editor instance
+ * @param view - How to treat revisions ("asIs" leaves the document untouched)
+ * @returns True if the document changed
+ */
+export function resolveRevisionsInEditor(
+  editor: SuperDocEditor,
+  view: RevisionView
+): boolean {
+  if (view === "asIs") return false;
+
+  const { schema } = editor;
+  const removed = removedMarkType(view);
+  const deletions: Array<{ from: number; to: number }> = [];
+  const tr = editor.state.tr;
+
+  editor.state.doc.descendants((node, pos) => {
+    if (!node.isInline) return true;
+    const from = pos;
+    const to = pos + node.nodeSize;
+
+    if (node.marks.some((mark) => mark.type.name === removed)) {
+      deletions.push({ from, to });
+      return false;
+    }
+
+    for (const mark of node.marks) {
+      const name = mark.type.name;
+      if (name === "trackInsert" || name === "trackDelete") {
+        tr.removeMark(from, to, mark);
+      } else if (name === "trackFormat") {
+        if (view === "rejected") restoreFormatting(tr, from, to, mark, schema);
+        tr.removeMark(from, to, mark);
+      }
+    }
+    return false;
+  });
+
+  // Delete from the end so earlier positions stay valid
+  for (const { from, to } of deletions.reverse()) {
+    tr.delete(from, to);
+  }
+
+  if (!tr.docChanged) return false;
+  editor.view.dispatch(tr);
+  return true;
+}
+
+/**
+ * Put back the marks from before a formatting revision
+ */
+function restoreFormatting(
+  tr: Transaction,
+  from: number,
+  to: number,
+  revision: PMMark,
+  schema: Schema
+): void {
+  const { before = [], after = [] } = revision.attrs as FormatRevisionAttrs;
+
+  for (const mark of after) {
+    const markType = schema.marks[mark.type];
+    if (markType) tr.removeMark(from, to, markType);
+  }
+  for (const mark of before) {
+    const markType = schema.marks[mark.type];
+    if (markType) {
+      tr.addMark(from, to, markType.create(mark.attrs as ProseMirrorMarkAttrs | undefined));
+    } else {
+      console.warn(`Cannot restore formatting: unknown mark "${mark.type}"`);
+    }
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Stealth Edit Detection - Tests
+ *
+ * Modified documents are given as ProseMirror JSON with the marks SuperDoc
+ * imports Word revisions as, and extracted the way the comparison pipeline
+ * extracts them.
+ *
+ * @module stealth-edits
+ */
+
+import { describe, it, expect } from "vitest";
+import { deleted, doc, inserted, paragraph, text } from "./__fixtures__/prosemirror";
+import { detectStealthEdits, removeTrackedInsertions } from "./stealth-edits";
+import { extractTextWithFormattingFromJson } from "./text-extraction";
+import type { ProseMirrorJsonNode } from "./types";
+
+const ORIGINAL = "Notice of thirty days.\nPayment within 10 days.";
+
+/** The first paragraph of ORIGINAL with "thirty" changed to "sixty" as a tracked change */
+const NOTICE = paragraph(
+  "Notice of ",
+  text("thirty", deleted("1")),
+  text("sixty", inserted("2")),
+  " days."
+);
+
+/**
+ * Find the stealth edits of a modified document against ORIGINAL
+ */
+function detect(modified: ProseMirrorJsonNode) {
+  const { text: modifiedText, revisions } = extractTextWithFormattingFromJson(modified);
+  const edits = detectStealthEdits(ORIGINAL, modifiedText, revisions, {
+    granularity: "word",
+  });
+  return { edits, modifiedText };
+}
+
+describe("removeTrackedInsertions", () => {
+  it("should remove inserted text and map what is left to the full text", () => {
+    const { text: full, revisions } = extractTextWithFormattingFromJson(
+      doc(paragraph(text("Notice of "), text("thirty", deleted("1")), text("sixty", inserted("2"))))
+    );
+
+    const rejected = removeTrackedInsertions(full, revisions);
+
+    expect(rejected.text).toBe("Notice of thirty");
+    expect(rejected.toModified).toHaveLength(rejected.text.length + 1);
+    expect(rejected.toModified[rejected.toModified.length - 1]).toBe(full.length);
+    expect(full[rejected.toModified[10]]).toBe("t");
+  });
+
+  it("should remove a paragraph inserted whole with its line break", () => {
+    const { text: full, revisions } = extractTextWithFormattingFromJson(
+      doc("First", paragraph(text("Added", inserted("1"))), "Last")
+    );
+
+    expect(removeTrackedInsertions(full, revisions).text).toBe("First\nLast");
+  });
+});
+
+describe("detectStealthEdits", () => {
+  it("should report nothing when every change was tracked", () => {
+    const { edits } = detect(
+      doc(
+        NOTICE,
+        paragraph(text("Payment within 10 days."))
+      )
+    );
+
+    expect(edits).toEqual([]);
+  });
+
+  it("should report an untracked edit, positioned in the document as sent", () => {
+    const { edits, modifiedText } = detect(
+      doc(
+        NOTICE,
+        paragraph(text("Payment within 30 days."))
+      )
+    );
+
+    expect(edits).toEqual([
+      expect.objectContaining({
+        type: "replacement",
+        oldContent: "10",
+        content: "30",
+        untracked: true,
+      }),
+    ]);
+    expect(modifiedText.slice(edits[0].charStart, edits[0].charEnd)).toBe("30");
+  });
+
+  it("should position an untracked deletion after tracked insertions before it", () => {
+    const { edits, modifiedText } = detect(
+      doc(
+        NOTICE,
+        paragraph(text("Payment within days."))
+      )
+    );
+
+    expect(edits).toEqual([
+      expect.objectContaining({ type: "deletion", content: "10", untracked: true }),
+    ]);
+    expect(modifiedText.slice(0, edits[0].insertAt)).toBe(
+      "Notice of thirtysixty days.\nPayment within "
+    );
+  });
+});
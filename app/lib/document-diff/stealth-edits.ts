@@ -0,0 +1,115 @@
+/**
+ * Stealth Edit Detection
+ *
+ * A counterparty returning a document with their own tracked changes can
+ * also make edits they did not track. Rejecting all their revisions should
+ * give back the document they were sent, so whatever still differs from our
+ * original was changed without a revision. The extracted text keeps tracked
+ * deletions, so rejecting only takes the tracked insertions out; the rest of
+ * the text is diffed against the original and the changes are mapped back
+ * onto the modified document as it is, with the revisions still in it.
+ */
+
+import { computeChangesWithPositions } from "./diff-computation";
+import type {
+  ChangeWithPosition,
+  DiffOptions,
+  TextRange,
+  TrackedRevision,
+} from "./types";
+
+/**
+ * Text with tracked insertions removed, and where each of its characters is
+ * in the text they were removed from
+ */
+interface RejectedText {
+  readonly text: string;
+  /** Index in the full text of each character, plus the full text's length */
+  readonly toModified: ReadonlyArray<number>;
+}
+
+/**
+ * Remove the text of tracked insertions. A paragraph that was inserted whole
+ * is removed with its line break, so it does not leave an empty paragraph.
+ *
+ * @param text - Text extracted from a document
+ * @param revisions - Revisions tracked in that document
+ * @returns The text as if the insertions were rejected, mapped to the full text
+ */
+export function removeTrackedInsertions(
+  text: string,
+  revisions: ReadonlyArray<TrackedRevision>
+): RejectedText {
+  const removed = new Array<boolean>(text.length).fill(false);
+  for (const { type, charStart, charEnd } of revisions) {
+    if (type !== "insertion") continue;
+    for (let i = charStart; i < charEnd; i++) removed[i] = true;
+  }
+
+  // Remove the line break of lines whose text was all removed
+  let lineStart = 0;
+  for (let i = 0; i <= text.length; i++) {
+    if (i < text.length && text[i] !== "\n") continue;
+    const wholeLine = i > lineStart && removed.slice(lineStart, i).every(Boolean);
+    if (wholeLine && i < text.length) removed[i] = true;
+    else if (wholeLine && lineStart > 0) removed[lineStart - 1] = true;
+    lineStart = i + 1;
+  }
+
+  let rejected = "";
+  const toModified: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (removed[i]) continue;
+    rejected += text[i];
+    toModified.push(i);
+  }
+  toModified.push(text.length);
+
+  return { text: rejected, toModified };
+}
+
+/**
+ * Map a range in rejected text onto the full text
+ */
+function mapRange(range: TextRange, toModified: ReadonlyArray<number>): TextRange {
+  const charStart = toModified[range.charStart];
+  const charEnd =
+    range.charEnd > range.charStart ? toModified[range.charEnd - 1] + 1 : charStart;
+  return { charStart, charEnd };
+}
+
+/**
+ * Find the content changes a document made without tracking them.
+ *
+ * The original text is diffed against the modified text with its tracked
+ * insertions removed (its revisions rejected), so tracked changes drop out
+ * and only untracked ones remain. Positions are mapped back onto the
+ * modified text as given. Table options are not used: table snapshots are
+ * positioned in the full text.
+ *
+ * @param originalText - Text extracted from the original document
+ * @param modifiedText - Text extracted from the modified document, revisions included
+ * @param revisions - Revisions tracked in the modified document
+ * @param options - Diff options
+ * @returns Untracked changes, positioned in the modified text
+ */
+export function detectStealthEdits(
+  originalText: string,
+  modifiedText: string,
+  revisions: ReadonlyArray<TrackedRevision>,
+  options: DiffOptions = {}
+): ChangeWithPosition[] {
+  const { text, toModified } = removeTrackedInsertions(modifiedText, revisions);
+
+  return computeChangesWithPositions(originalText, text, { ...options, tables: undefined }).map(
+    (change): ChangeWithPosition => ({
+      ...change,
+      ...(change.charStart !== undefined &&
+        change.charEnd !== undefined &&
+        mapRange({ charStart: change.charStart, charEnd: change.charEnd }, toModified)),
+      ...(change.insertAt !== undefined && { insertAt: toModified[change.insertAt] }),
+      ...(change.ranges && { ranges: change.ranges.map((r) => mapRange(r, toModified)) }),
+      untracked: true,
+    })
+  );
+}
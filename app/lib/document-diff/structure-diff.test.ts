@@ -0,0 +1,196 @@
+/**
+ * Structure Diff - Tests
+ *
+ * Blocks are extracted with extractTextWithFormattingFromJson, the same way
+ * the comparison pipeline gets the original document's blocks.
+ *
+ * @module structure-diff
+ */
+
+import { describe, it, expect } from "vitest";
+import { doc, extractBoth, heading, list, paragraph } from "./__fixtures__/prosemirror";
+import {
+  computeStructuralChanges,
+  describeStructuralChange,
+  getStructuralChangeLabel,
+} from "./structure-diff";
+import type { ProseMirrorJsonNode } from "./types";
+
+/**
+ * Compare the structure of two documents
+ */
+function compare(originalDoc: ProseMirrorJsonNode, modifiedDoc: ProseMirrorJsonNode) {
+  const { original, modified } = extractBoth(originalDoc, modifiedDoc);
+  const changes = computeStructuralChanges(original.blocks, modified.blocks);
+  return { changes, modifiedText: modified.text };
+}
+
+describe("computeStructuralChanges", () => {
+  it("should report nothing for identical documents", () => {
+    const document = doc(heading("Terms", 1), paragraph("The tenant pays rent."));
+
+    expect(compare(document, document).changes).toEqual([]);
+  });
+
+  it("should report a paragraph turned into a heading on the heading's text", () => {
+    const { changes, modifiedText } = compare(
+      doc(paragraph("Payment terms"), paragraph("Rent is due monthly.")),
+      doc(heading("Payment terms", 2), paragraph("Rent is due monthly."))
+    );
+
+    expect(changes).toEqual([
+      {
+        id: expect.stringMatching(/^structure-[0-9a-f]{8}$/),
+        type: "blockType",
+        content: "Payment terms",
+        oldValue: "Paragraph",
+        newValue: "Heading 2",
+        charStart: 0,
+        charEnd: 13,
+      },
+    ]);
+    expect(modifiedText.slice(changes[0].charStart, changes[0].charEnd)).toBe(
+      "Payment terms"
+    );
+  });
+
+  it("should report heading level changes", () => {
+    const { changes } = compare(doc(heading("Scope", 1)), doc(heading("Scope", 3)));
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "headingLevel", oldValue: "1", newValue: "3" }),
+    ]);
+  });
+
+  it("should treat paragraphs with a heading style as headings", () => {
+    const { changes } = compare(
+      doc({ ...paragraph("Scope"), attrs: { styleId: "Heading1" } }),
+      doc({ ...paragraph("Scope"), attrs: { styleId: "Heading2" } })
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "headingLevel", oldValue: "1", newValue: "2" }),
+    ]);
+  });
+
+  it("should report list type changes instead of nesting changes", () => {
+    const { changes } = compare(
+      doc(list("bulletList", [paragraph("First")], [paragraph("Second")])),
+      doc(list("orderedList", [paragraph("First")], [paragraph("Second")]))
+    );
+
+    expect(changes.map((c) => [c.type, c.content, c.oldValue, c.newValue])).toEqual([
+      ["listType", "First", "Bulleted list", "Numbered list"],
+      ["listType", "Second", "Bulleted list", "Numbered list"],
+    ]);
+  });
+
+  it("should report paragraphs moved into a list", () => {
+    const { changes } = compare(
+      doc(paragraph("Intro"), paragraph("Item")),
+      doc(paragraph("Intro"), list("bulletList", [paragraph("Item")]))
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "listType", content: "Item", newValue: "Bulleted list" }),
+    ]);
+    expect(changes[0].oldValue).toBeUndefined();
+  });
+
+  it("should report list nesting depth changes", () => {
+    const { changes } = compare(
+      doc(list("bulletList", [paragraph("Parent")], [paragraph("Child")])),
+      doc(list("bulletList", [paragraph("Parent"), list("bulletList", [paragraph("Child")])]))
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "listDepth", content: "Child", oldValue: "1", newValue: "2" }),
+    ]);
+  });
+
+  it("should report blocks moved into a blockquote", () => {
+    const { changes } = compare(
+      doc(paragraph("Quoted clause")),
+      doc({ type: "blockquote", content: [paragraph("Quoted clause")] })
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "blockquote", newValue: "1" }),
+    ]);
+  });
+
+  it("should report alignment, indent and spacing changes separately", () => {
+    const { changes } = compare(
+      doc({ ...paragraph("Signed"), attrs: { textAlign: "left", indent: { left: 0 } } }),
+      doc({
+        ...paragraph("Signed"),
+        attrs: {
+          textAlign: "right",
+          indent: { left: 720, hanging: 360 },
+          spacing: { before: 240 },
+        },
+      })
+    );
+
+    expect(changes.map((c) => [c.type, c.oldValue, c.newValue])).toEqual([
+      ["alignment", "left", "right"],
+      ["indent", "left 0", "hanging 360, left 720"],
+      ["spacing", undefined, "before 240"],
+    ]);
+  });
+
+  it("should compare the structure of edited blocks that kept most of their words", () => {
+    const { changes } = compare(
+      doc(paragraph("Payment terms and conditions")),
+      doc(heading("Payment terms and conditions apply", 1))
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "blockType", oldValue: "Paragraph", newValue: "Heading 1" }),
+    ]);
+  });
+
+  it("should not compare rewritten blocks", () => {
+    const { changes } = compare(
+      doc(paragraph("Payment terms")),
+      doc(heading("Definitions and interpretation", 1))
+    );
+
+    expect(changes).toEqual([]);
+  });
+
+  it("should pair blocks around inserted and deleted blocks", () => {
+    const { changes } = compare(
+      doc(paragraph("Old intro"), heading("Scope", 1), paragraph("Body")),
+      doc(heading("Scope", 2), paragraph("New clause"), paragraph("Body"))
+    );
+
+    expect(changes.map((c) => [c.type, c.content])).toEqual([["headingLevel", "Scope"]]);
+  });
+});
+
+describe("describeStructuralChange", () => {
+  it("should describe block type changes by their values", () => {
+    expect(
+      describeStructuralChange({
+        id: "structure-0",
+        type: "blockType",
+        content: "Scope",
+        oldValue: "Paragraph",
+        newValue: "Heading 2",
+      })
+    ).toBe("Paragraph → Heading 2");
+  });
+
+  it("should label other changes and show missing values as none", () => {
+    expect(
+      describeStructuralChange({
+        id: "structure-0",
+        type: "alignment",
+        content: "Signed",
+        newValue: "center",
+      })
+    ).toBe("Alignment: none → center");
+    expect(getStructuralChangeLabel("listDepth")).toBe("List level");
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Structure Diff Utilities
+ *
+ * Detects changes to the structure around text rather than to the text
+ * itself: a paragraph turned into a heading, a heading level change, a bullet
+ * list made numbered, list nesting, blockquotes, and paragraph alignment,
+ * indent and spacing. None of these change the extracted text, so the text
+ * diff never sees them. Blocks are aligned by their text and each paired
+ * block's structure is compared.
+ */
+
+import { alignSequences } from "./block-alignment";
+import { withStableStructuralIds } from "./change-ids";
+import type {
+  BlockSnapshot,
+  StructuralChange,
+  StructuralChangeType,
+  StructuralChangeWithPosition,
+} from "./types";
+
+/**
+ * Share of words an edited block must keep for its structure to be compared.
+ * Below this the block was rewritten and the text diff already reports it.
+ */
+const MIN_SHARED_WORDS = 0.5;
+
+/**
+ * Display labels for block types
+ */
+const BLOCK_TYPE_LABELS: Record<string, string> = {
+  paragraph: "Paragraph",
+  heading: "Heading",
+  codeBlock: "Code block",
+};
+
+/**
+ * Display labels for list types
+ */
+const LIST_TYPE_LABELS: Record<NonNullable<BlockSnapshot["listType"]>, string> = {
+  bullet: "Bulleted list",
+  ordered: "Numbered list",
+};
+
+/**
+ * Display labels for structural change types
+ */
+const STRUCTURAL_CHANGE_LABELS: Record<StructuralChangeType, string> = {
+  blockType: "Block type",
+  headingLevel: "Heading level",
+  listType: "List",
+  listDepth: "List level",
+  blockquote: "Quote level",
+  alignment: "Alignment",
+  indent: "Indent",
+  spacing: "Spacing",
+};
+
+/**
+ * Get a human-readable label for a structural change type
+ */
+export function getStructuralChangeLabel(type: StructuralChangeType): string {
+  return STRUCTURAL_CHANGE_LABELS[type];
+}
+
+/**
+ * Describe a structural change, e.g. "Paragraph → Heading 2" or
+ * "Alignment: none → center"
+ */
+export function describeStructuralChange(change: StructuralChange): string {
+  const values = `${change.oldValue ?? "none"} → ${change.newValue ?? "none"}`;
+  return change.type === "blockType"
+    ? values
+    : `${STRUCTURAL_CHANGE_LABELS[change.type]}: ${values}`;
+}
+
+function blockTypeLabel(block: BlockSnapshot): string {
+  if (block.type === "heading") return `Heading ${block.headingLevel ?? 1}`;
+  return BLOCK_TYPE_LABELS[block.type] ?? block.type;
+}
+
+/**
+ * Read back a block type label: the node type, and the level for headings
+ */
+export function parseBlockTypeLabel(label: string): { type: string; headingLevel?: number } {
+  const level = label.match(/^Heading (\d+)$/)?.[1];
+  if (level !== undefined) return { type: "heading", headingLevel: Number(level) };
+
+  const type = Object.keys(BLOCK_TYPE_LABELS).find((key) => BLOCK_TYPE_LABELS[key] === label);
+  return { type: type ?? label };
+}
+
+function depthLabel(depth: number): string | undefined {
+  return depth > 0 ? String(depth) : undefined;
+}
+
+/**
+ * Words of a block's text, for pairing edited blocks
+ */
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Share of the longer block's words that also appear in the other block
+ */
+function sharedWords(original: string[], modified: string[]): number {
+  const longest = Math.max(original.length, modified.length);
+  if (longest === 0) return 0;
+
+  const originalWords = new Set(original);
+  const shared = modified.filter((word) => originalWords.has(word)).length;
+  return shared / longest;
+}
+
+/**
+ * Compare the structure of two paired blocks.
+ * A block type change is reported instead of a heading level change, and a
+ * list type change instead of a nesting change.
+ */
+function compareBlocks(
+  original: BlockSnapshot,
+  modified: BlockSnapshot
+): Array<Omit<StructuralChange, "id" | "content">> {
+  const changes: Array<Omit<StructuralChange, "id" | "content">> = [];
+  const compare = (
+    type: StructuralChangeType,
+    oldValue: string | undefined,
+    newValue: string | undefined
+  ) => {
+    if (oldValue !== newValue) changes.push({ type, oldValue, newValue });
+  };
+
+  if (original.type !== modified.type) {
+    compare("blockType", blockTypeLabel(original), blockTypeLabel(modified));
+  } else if (original.type === "heading") {
+    compare(
+      "headingLevel",
+      String(original.headingLevel ?? 1),
+      String(modified.headingLevel ?? 1)
+    );
+  }
+
+  if (original.listType !== modified.listType) {
+    compare(
+      "listType",
+      original.listType && LIST_TYPE_LABELS[original.listType],
+      modified.listType && LIST_TYPE_LABELS[modified.listType]
+    );
+  } else {
+    compare("listDepth", depthLabel(original.listDepth), depthLabel(modified.listDepth));
+  }
+
+  compare("blockquote", depthLabel(original.quoteDepth), depthLabel(modified.quoteDepth));
+  compare("alignment", original.textAlign, modified.textAlign);
+  compare("indent", original.indent, modified.indent);
+  compare("spacing", original.spacing, modified.spacing);
+
+  return changes;
+}
+
+/**
+ * Compute structural changes between two documents' blocks.
+ *
+ * Blocks are aligned by text (see alignSequences). Paired blocks with the
+ * same text, or edited blocks that kept at least half their words, have
+ * their structure compared; each aspect that differs is one change
+ * positioned on the modified block.
+ *
+ * @param originalBlocks - Blocks of the original document
+ * @param modifiedBlocks - Blocks of the modified document
+ * @returns Structural changes in document order
+ */
+export function computeStructuralChanges(
+  originalBlocks: ReadonlyArray<BlockSnapshot>,
+  modifiedBlocks: ReadonlyArray<BlockSnapshot>
+): StructuralChangeWithPosition[] {
+  const originalWords = originalBlocks.map((block) => words(block.text));
+  const modifiedWords = modifiedBlocks.map((block) => words(block.text));
+  const similarity = (o: number, m: number) =>
+    sharedWords(originalWords[o], modifiedWords[m]);
+
+  const alignment = alignSequences(
+    originalBlocks.map((block) => block.text),
+    modifiedBlocks.map((block) => block.text),
+    similarity
+  );
+
+  const changes: Array<Omit<StructuralChangeWithPosition, "id">> = [];
+  const blockTexts: string[] = [];
+
+  for (const pair of alignment) {
+    if (pair.original === undefined || pair.modified === undefined) continue;
+
+    const original = originalBlocks[pair.original];
+    const modified = modifiedBlocks[pair.modified];
+    if (
+      original.text !== modified.text &&
+      similarity(pair.original, pair.modified) < MIN_SHARED_WORDS
+    ) {
+      continue;
+    }
+
+    for (const change of compareBlocks(original, modified)) {
+      changes.push({
+        ...change,
+        content: modified.text.trim().substring(0, 50),
+        charStart: modified.charStart,
+        charEnd: modified.charEnd,
+      });
+      blockTexts.push(modified.text);
+    }
+  }
+
+  return withStableStructuralIds(changes, blockTexts);
+}
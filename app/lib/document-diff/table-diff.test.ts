@@ -0,0 +1,200 @@
+/**
+ * Table Diff - Tests
+ *
+ * Tables are compared through computeChangesWithPositions with the table
+ * structure recorded by extractTextWithFormattingFromJson, the same way the
+ * comparison pipeline runs them.
+ *
+ * @module table-diff
+ */
+
+import { describe, it, expect } from "vitest";
+import { doc, extractBoth, paragraph, table } from "./__fixtures__/prosemirror";
+import { computeChangesWithPositions } from "./diff-computation";
+import { maskTables, pairTables, TABLE_PLACEHOLDER } from "./table-diff";
+import { extractTextWithFormattingFromJson } from "./text-extraction";
+import { normalizeText } from "./text-normalization";
+import type { DiffOptions, ProseMirrorJsonNode } from "./types";
+
+const PRICES = [
+  ["Item", "Price"],
+  ["Apples", "1.20"],
+  ["Pears", "2.10"],
+];
+
+/**
+ * Compare two documents with the table diff enabled
+ */
+function compare(
+  originalDoc: ProseMirrorJsonNode,
+  modifiedDoc: ProseMirrorJsonNode,
+  options: DiffOptions = {}
+) {
+  const { original, modified } = extractBoth(originalDoc, modifiedDoc);
+  const changes = computeChangesWithPositions(original.text, modified.text, {
+    granularity: "word",
+    ...options,
+    tables: { original: original.tables, modified: modified.tables },
+  });
+  return { changes, modifiedText: modified.text };
+}
+
+describe("maskTables / pairTables", () => {
+  it("should replace each table by one placeholder and pair unchanged placeholders", () => {
+    const extracted = extractTextWithFormattingFromJson(
+      doc(paragraph("Before"), table(PRICES), paragraph("After"))
+    );
+
+    const masked = maskTables(normalizeText(extracted.text, {}), extracted.tables);
+
+    expect(masked.text.text).toBe(`Before\n${TABLE_PLACEHOLDER}\nAfter`);
+    expect(masked.placeholders).toEqual([0]);
+    expect(
+      pairTables([{ value: masked.text.text }], masked, masked)
+    ).toEqual([[0, 0]]);
+  });
+});
+
+describe("table-aware diff", () => {
+  it("should report an edited cell as one change scoped to the cell", () => {
+    const modifiedRows = PRICES.map((row) => [...row]);
+    modifiedRows[2][1] = "2.40";
+
+    const { changes, modifiedText } = compare(doc(table(PRICES)), doc(table(modifiedRows)));
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        type: "replacement",
+        oldContent: "2.10",
+        content: "2.40",
+        table: { tableIndex: 0, kind: "cellChanged", row: 2, column: 1 },
+      }),
+    ]);
+    const [change] = changes;
+    expect(modifiedText.slice(change.charStart, change.charEnd)).toBe("2.40");
+  });
+
+  it("should narrow a cell change to the edited words", () => {
+    const { changes } = compare(
+      doc(table([["Payment within 30 days of invoice"]])),
+      doc(table([["Payment within 45 days of invoice"]]))
+    );
+
+    expect(changes.map((c) => [c.oldContent, c.content])).toEqual([["30", "45"]]);
+  });
+
+  it("should report an inserted row as one change marking each of its cells", () => {
+    const modifiedRows = [...PRICES.slice(0, 2), ["Plums", "3.00"], PRICES[2]];
+
+    const { changes, modifiedText } = compare(doc(table(PRICES)), doc(table(modifiedRows)));
+
+    expect(changes).toHaveLength(1);
+    const [change] = changes;
+    expect(change).toMatchObject({
+      type: "insertion",
+      content: "Plums | 3.00",
+      table: { tableIndex: 0, kind: "rowInserted", row: 2 },
+    });
+    expect(change.ranges?.map((r) => modifiedText.slice(r.charStart, r.charEnd))).toEqual([
+      "Plums",
+      "3.00",
+    ]);
+  });
+
+  it("should pair an edited row and report a new row next to it", () => {
+    const modifiedRows = [PRICES[0], ["Apples", "1.25"], ["Plums", "3.00"], PRICES[2]];
+
+    const { changes } = compare(doc(table(PRICES)), doc(table(modifiedRows)));
+
+    expect(changes.map((c) => [c.table?.kind, c.table?.row, c.content])).toEqual([
+      ["cellChanged", 1, "1.25"],
+      ["rowInserted", 2, "Plums | 3.00"],
+    ]);
+  });
+
+  it("should anchor a deleted row at the start of the next row", () => {
+    const modifiedRows = [PRICES[0], PRICES[2]];
+
+    const { changes, modifiedText } = compare(doc(table(PRICES)), doc(table(modifiedRows)));
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        type: "deletion",
+        content: "Apples | 1.20",
+        table: { tableIndex: 0, kind: "rowDeleted", row: 1 },
+      }),
+    ]);
+    expect(modifiedText.slice(changes[0].insertAt)).toMatch(/^Pears/);
+  });
+
+  it("should report an added column as one change marking each of its cells", () => {
+    const modifiedRows = [
+      ["Item", "Origin", "Price"],
+      ["Apples", "Kent", "1.20"],
+      ["Pears", "", "2.10"],
+    ];
+
+    const { changes, modifiedText } = compare(doc(table(PRICES)), doc(table(modifiedRows)));
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      type: "insertion",
+      content: "Origin | Kent",
+      table: { tableIndex: 0, kind: "columnInserted", column: 1 },
+    });
+    expect(
+      changes[0].ranges?.map((r) => modifiedText.slice(r.charStart, r.charEnd))
+    ).toEqual(["Origin", "Kent"]);
+  });
+
+  it("should report a deleted column with its original index", () => {
+    const modifiedRows = PRICES.map(([item]) => [item]);
+
+    const { changes } = compare(doc(table(PRICES)), doc(table(modifiedRows)));
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        type: "deletion",
+        content: "Price | 1.20 | 2.10",
+        table: { tableIndex: 0, kind: "columnDeleted", column: 1 },
+      }),
+    ]);
+  });
+
+  it("should keep text changes outside tables and number tables in the modified document", () => {
+    const modifiedRows = PRICES.map((row) => [...row]);
+    modifiedRows[1][0] = "Green Apples";
+
+    const { changes } = compare(
+      doc(paragraph("Price list"), table([["Note"]]), table(PRICES), paragraph("Valid today")),
+      doc(paragraph("Price list"), table([["Note"]]), table(modifiedRows), paragraph("Valid tomorrow"))
+    );
+
+    expect(changes.map((c) => [c.content, c.table?.tableIndex])).toEqual([
+      ["Green", 1],
+      ["tomorrow", undefined],
+    ]);
+  });
+
+  it("should report an inserted table as ordinary inserted text", () => {
+    const { changes } = compare(
+      doc(paragraph("Intro")),
+      doc(paragraph("Intro"), table([["A", "B"]]))
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "insertion", content: "A\nB" }),
+    ]);
+    expect(changes[0].table).toBeUndefined();
+  });
+
+  it("should apply comparison options to cells", () => {
+    const modifiedRows = PRICES.map((row) => row.map((cell) => cell.toUpperCase()));
+
+    const { changes } = compare(doc(table(PRICES)), doc(table(modifiedRows)), {
+      comparison: { ignoreCase: true },
+    });
+
+    expect(changes).toEqual([]);
+  });
+});
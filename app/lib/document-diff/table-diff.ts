@@ -0,0 +1,532 @@
+/**
+ * Table Diff Utilities
+ *
+ * Structural diffing for tables. Each table is masked out of the text diff as
+ * a single placeholder character, so tables present in both documents line up
+ * as unchanged text. Paired tables are then compared column by column and row
+ * by row: an added row becomes one "row inserted" change and an edited cell
+ * one change scoped to that cell, instead of a run of character edits across
+ * the whole table.
+ */
+
+import { alignSequences } from "./block-alignment";
+import { normalizeText } from "./text-normalization";
+import type {
+  AlignedPair,
+  ComparisonOptions,
+  DiffGranularity,
+  MaskedText,
+  NormalizedText,
+  TableCellSnapshot,
+  TableChange,
+  TableLocation,
+  TableSnapshot,
+  TextRange,
+} from "./types";
+
+/**
+ * Character standing in for a whole table in the text diff (U+FFFC OBJECT REPLACEMENT CHARACTER)
+ */
+export const TABLE_PLACEHOLDER = "\uFFFC";
+
+/**
+ * Separator between cell texts in the content of row and column changes
+ */
+const CELL_SEPARATOR = " | ";
+
+/**
+ * Characters of the cell before a deletion kept as context for positioning
+ */
+const CELL_CONTEXT_LENGTH = 30;
+
+/**
+ * Settings shared by the comparison of every cell
+ */
+interface TableDiffContext {
+  readonly granularity: DiffGranularity;
+  readonly comparison?: ComparisonOptions;
+  readonly tableIndex: number;
+  readonly modifiedText: string;
+}
+
+/**
+ * Replace each table in (normalized) text by a single placeholder character.
+ * The placeholder maps back to the whole table in the source text, so
+ * `mapDiffToSource` turns an inserted or deleted table into its full text.
+ *
+ * @param text - Text to mask (use normalizeText(text, {}) for unnormalized text)
+ * @param tables - Tables in the source text, in document order
+ * @returns Masked text and the table behind each placeholder
+ */
+export function maskTables(
+  text: NormalizedText,
+  tables: ReadonlyArray<TableSnapshot>
+): MaskedText {
+  let masked = "";
+  const sourceOffsets: number[] = [];
+  const sourceEnds: number[] = [];
+  const placeholders: number[] = [];
+  let tableIndex = 0;
+  let lastMasked = -1;
+
+  for (let i = 0; i < text.text.length; i++) {
+    const offset = text.sourceOffsets[i];
+    while (tableIndex < tables.length && tables[tableIndex].charEnd <= offset) {
+      tableIndex++;
+    }
+
+    const table = tables[tableIndex];
+    if (table && offset >= table.charStart) {
+      if (lastMasked !== tableIndex) {
+        masked += TABLE_PLACEHOLDER;
+        sourceOffsets.push(table.charStart);
+        sourceEnds.push(table.charEnd);
+        placeholders.push(tableIndex);
+        lastMasked = tableIndex;
+      }
+      continue;
+    }
+
+    masked += text.text[i];
+    sourceOffsets.push(offset);
+    sourceEnds.push(text.sourceEnds[i]);
+    if (text.text[i] === TABLE_PLACEHOLDER) placeholders.push(-1);
+  }
+
+  return {
+    text: { text: masked, source: text.source, sourceOffsets, sourceEnds },
+    placeholders,
+  };
+}
+
+/**
+ * Find tables that line up in a diff of masked texts (their placeholders are
+ * part of an unchanged run).
+ *
+ * @param diffs - Diff parts over the masked texts
+ * @param original - Masked original text
+ * @param modified - Masked modified text
+ * @returns [original table index, modified table index] pairs, in order
+ */
+export function pairTables(
+  diffs: ReadonlyArray<{ value: string; added?: boolean; removed?: boolean }>,
+  original: MaskedText,
+  modified: MaskedText
+): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  let originalCount = 0;
+  let modifiedCount = 0;
+
+  for (const diff of diffs) {
+    const count = countPlaceholders(diff.value);
+    if (diff.removed) {
+      originalCount += count;
+    } else if (diff.added) {
+      modifiedCount += count;
+    } else {
+      for (let k = 0; k < count; k++) {
+        const originalTable = original.placeholders[originalCount++];
+        const modifiedTable = modified.placeholders[modifiedCount++];
+        if (originalTable >= 0 && modifiedTable >= 0) {
+          pairs.push([originalTable, modifiedTable]);
+        }
+      }
+    }
+  }
+
+  return pairs;
+}
+
+function countPlaceholders(value: string): number {
+  let count = 0;
+  for (let i = value.indexOf(TABLE_PLACEHOLDER); i >= 0; i = value.indexOf(TABLE_PLACEHOLDER, i + 1)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Compare two versions of a table.
+ *
+ * Columns are aligned first (by header text and column contents), then rows
+ * (by the text of the columns both versions share). Aligned cells whose text
+ * differs become one change each, narrowed to the edited part of the cell.
+ * Unaligned rows and columns become row/column insertions and deletions.
+ * Deleted rows and columns have nowhere to go in the modified table, so their
+ * text is anchored at the start of a neighbouring cell in the modified table.
+ *
+ * @param original - Table from the original document
+ * @param modified - The same table in the modified document
+ * @param tableIndex - Index of the modified table, reported in each change
+ * @param modifiedText - Text the modified table was extracted from
+ * @param granularity - Unit edits inside a cell are widened to
+ * @param comparison - Cosmetic differences to ignore when comparing cells
+ * @returns Changes in modified document order, without IDs
+ */
+export function diffTable(
+  original: TableSnapshot,
+  modified: TableSnapshot,
+  tableIndex: number,
+  modifiedText: string,
+  granularity: DiffGranularity,
+  comparison?: ComparisonOptions
+): TableChange[] {
+  const context: TableDiffContext = { granularity, comparison, tableIndex, modifiedText };
+  const key = (cell: TableCellSnapshot | undefined) => cellKey(cell, comparison);
+
+  const columns = alignColumns(original, modified, key);
+  const pairedColumns = columns.filter(isPaired);
+  const rows = alignRows(original, modified, pairedColumns, key);
+  const changes: TableChange[] = [];
+
+  rows.forEach((row, index) => {
+    if (row.original !== undefined && row.modified !== undefined) {
+      for (const column of pairedColumns) {
+        const change = diffCell(
+          original.rows[row.original][column.original],
+          modified.rows[row.modified][column.modified],
+          { kind: "cellChanged", row: row.modified, column: column.modified },
+          context
+        );
+        if (change) changes.push(change);
+      }
+    } else if (row.modified !== undefined) {
+      const change = createRangesInsertion(
+        modified.rows[row.modified],
+        { tableIndex, kind: "rowInserted", row: row.modified },
+        granularity
+      );
+      if (change) changes.push(change);
+    } else if (row.original !== undefined) {
+      const change = createAnchoredDeletion(
+        original.rows[row.original],
+        rowAnchor(modified, rows, index),
+        { tableIndex, kind: "rowDeleted", row: row.original },
+        granularity
+      );
+      if (change) changes.push(change);
+    }
+  });
+
+  // Rows present in both versions, for column changes
+  const pairedRows = rows.filter(isPaired);
+
+  for (const column of columns) {
+    if (column.modified !== undefined && column.original === undefined) {
+      const change = createRangesInsertion(
+        pairedRows.map((row) => modified.rows[row.modified][column.modified!]),
+        { tableIndex, kind: "columnInserted", column: column.modified },
+        granularity
+      );
+      if (change) changes.push(change);
+    } else if (column.original !== undefined && column.modified === undefined) {
+      const change = createAnchoredDeletion(
+        pairedRows.map((row) => original.rows[row.original][column.original!]),
+        columnAnchor(modified, pairedRows, pairedColumns, column.original),
+        { tableIndex, kind: "columnDeleted", column: column.original },
+        granularity
+      );
+      if (change) changes.push(change);
+    }
+  }
+
+  return changes.sort((a, b) => changePosition(a) - changePosition(b));
+}
+
+function isPaired(pair: AlignedPair): pair is { original: number; modified: number } {
+  return pair.original !== undefined && pair.modified !== undefined;
+}
+
+function changePosition(change: TableChange): number {
+  return change.charStart ?? change.insertAt ?? 0;
+}
+
+/**
+ * Text a cell is compared by
+ */
+function cellKey(
+  cell: TableCellSnapshot | undefined,
+  comparison: ComparisonOptions | undefined
+): string {
+  const text = cell?.text.trim() ?? "";
+  return comparison ? normalizeText(text, comparison).text : text;
+}
+
+function columnCount(table: TableSnapshot): number {
+  return Math.max(0, ...table.rows.map((row) => row.length));
+}
+
+/**
+ * Align the columns of two tables. Same column count: columns pair up in
+ * order. Otherwise header cells are aligned, and header cells that changed
+ * are paired by how many cells of their columns match.
+ */
+function alignColumns(
+  original: TableSnapshot,
+  modified: TableSnapshot,
+  key: (cell: TableCellSnapshot | undefined) => string
+): AlignedPair[] {
+  const originalCount = columnCount(original);
+  const modifiedCount = columnCount(modified);
+
+  if (originalCount === modifiedCount) {
+    return Array.from({ length: originalCount }, (_, i) => ({ original: i, modified: i }));
+  }
+
+  const header = (table: TableSnapshot, count: number) =>
+    Array.from({ length: count }, (_, i) => key(table.rows[0]?.[i]));
+  const rowCount = Math.min(original.rows.length, modified.rows.length);
+
+  return alignSequences(
+    header(original, originalCount),
+    header(modified, modifiedCount),
+    (o, m) => {
+      let matches = 0;
+      for (let r = 0; r < rowCount; r++) {
+        if (key(original.rows[r][o]) === key(modified.rows[r][m])) matches++;
+      }
+      return matches;
+    }
+  );
+}
+
+/**
+ * Align the rows of two tables by the text of their shared columns. Rows
+ * that changed are paired by how many shared cells still match.
+ */
+function alignRows(
+  original: TableSnapshot,
+  modified: TableSnapshot,
+  columns: ReadonlyArray<{ original: number; modified: number }>,
+  key: (cell: TableCellSnapshot | undefined) => string
+): AlignedPair[] {
+  const originalKeys = original.rows.map((row) =>
+    columns.map((column) => key(row[column.original]))
+  );
+  const modifiedKeys = modified.rows.map((row) =>
+    columns.map((column) => key(row[column.modified]))
+  );
+
+  return alignSequences(
+    originalKeys.map((cells) => cells.join("\u0000")),
+    modifiedKeys.map((cells) => cells.join("\u0000")),
+    (o, m) => originalKeys[o].filter((cell, i) => cell === modifiedKeys[m][i]).length
+  );
+}
+
+/**
+ * Compare one pair of aligned cells
+ */
+function diffCell(
+  originalCell: TableCellSnapshot | undefined,
+  modifiedCell: TableCellSnapshot | undefined,
+  location: Omit<TableLocation, "tableIndex">,
+  context: TableDiffContext
+): TableChange | null {
+  // A cell missing from the modified row (merged cells) can't be marked
+  if (!modifiedCell) return null;
+  if (cellKey(originalCell, context.comparison) === cellKey(modifiedCell, context.comparison)) {
+    return null;
+  }
+
+  const oldText = originalCell?.text ?? "";
+  const newText = modifiedCell.text;
+  const region = changedRegion(oldText, newText, context.granularity);
+  const removed = oldText.slice(region.start, region.originalEnd);
+  const added = newText.slice(region.start, region.modifiedEnd);
+  const table = { tableIndex: context.tableIndex, ...location };
+  const charStart = modifiedCell.charStart + region.start + leadingWhitespace(added);
+  const base = { granularity: context.granularity, table };
+
+  if (added.trim() && removed.trim()) {
+    return {
+      ...base,
+      type: "replacement",
+      content: added.trim(),
+      oldContent: removed.trim(),
+      charStart,
+      charEnd: charStart + added.trim().length,
+    };
+  }
+
+  if (added.trim()) {
+    return {
+      ...base,
+      type: "insertion",
+      content: added.trim(),
+      charStart,
+      charEnd: charStart + added.trim().length,
+    };
+  }
+
+  if (!removed.trim()) return null;
+
+  const insertAt =
+    region.start > 0 ? modifiedCell.charStart + region.start : cellAnchor(modifiedCell);
+  return {
+    ...base,
+    type: "deletion",
+    content: removed.trim(),
+    insertAt,
+    // Context never reaches outside the cell
+    contextBefore: context.modifiedText
+      .slice(modifiedCell.charStart, insertAt)
+      .slice(-CELL_CONTEXT_LENGTH),
+  };
+}
+
+function leadingWhitespace(text: string): number {
+  return text.length - text.trimStart().length;
+}
+
+/**
+ * Find the part of a cell that differs: the texts minus their common prefix
+ * and suffix, widened to whole words for word granularity and to the whole
+ * cell for sentence and paragraph granularity.
+ */
+function changedRegion(
+  original: string,
+  modified: string,
+  granularity: DiffGranularity
+): { start: number; originalEnd: number; modifiedEnd: number } {
+  if (granularity === "sentence" || granularity === "paragraph") {
+    return { start: 0, originalEnd: original.length, modifiedEnd: modified.length };
+  }
+
+  let start = 0;
+  const maxPrefix = Math.min(original.length, modified.length);
+  while (start < maxPrefix && original[start] === modified[start]) start++;
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - start;
+  while (
+    suffix < maxSuffix &&
+    original[original.length - 1 - suffix] === modified[modified.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  if (granularity === "word") {
+    const atBoundary = (text: string, index: number) =>
+      index === 0 || index === text.length || /\s/.test(text[index - 1]) || /\s/.test(text[index]);
+    while (start > 0 && !(atBoundary(original, start) && atBoundary(modified, start))) {
+      start--;
+    }
+    while (
+      suffix > 0 &&
+      !(atBoundary(original, original.length - suffix) &&
+        atBoundary(modified, modified.length - suffix))
+    ) {
+      suffix--;
+    }
+  }
+
+  return {
+    start,
+    originalEnd: original.length - suffix,
+    modifiedEnd: modified.length - suffix,
+  };
+}
+
+/**
+ * Create an insertion marking several cells (an inserted row or column)
+ */
+function createRangesInsertion(
+  cells: ReadonlyArray<TableCellSnapshot | undefined>,
+  table: TableLocation,
+  granularity: DiffGranularity
+): TableChange | null {
+  const ranges: TextRange[] = [];
+  const texts: string[] = [];
+
+  for (const cell of cells) {
+    const text = cell?.text.trim();
+    if (!cell || !text) continue;
+    const charStart = cell.charStart + leadingWhitespace(cell.text);
+    ranges.push({ charStart, charEnd: charStart + text.length });
+    texts.push(text);
+  }
+
+  if (ranges.length === 0) return null;
+
+  return {
+    type: "insertion",
+    content: texts.join(CELL_SEPARATOR),
+    charStart: ranges[0].charStart,
+    charEnd: ranges[ranges.length - 1].charEnd,
+    ranges,
+    granularity,
+    table,
+  };
+}
+
+/**
+ * Create a deletion of several cells (a deleted row or column) anchored at
+ * one position in the modified table
+ */
+function createAnchoredDeletion(
+  cells: ReadonlyArray<TableCellSnapshot | undefined>,
+  insertAt: number,
+  table: TableLocation,
+  granularity: DiffGranularity
+): TableChange | null {
+  const texts = cells
+    .map((cell) => cell?.text.trim() ?? "")
+    .filter((text) => text.length > 0);
+  if (texts.length === 0) return null;
+
+  return {
+    type: "deletion",
+    content: texts.join(CELL_SEPARATOR),
+    insertAt,
+    granularity,
+    table,
+  };
+}
+
+/**
+ * Position of the start of a cell in the modified text. An empty cell has no
+ * text of its own, so the newline before it stands in: it maps to the start
+ * of the cell's node, and track changes moves it into the cell.
+ */
+function cellAnchor(cell: TableCellSnapshot): number {
+  return cell.charEnd > cell.charStart || cell.charStart === 0
+    ? cell.charStart
+    : cell.charStart - 1;
+}
+
+/**
+ * Where a deleted row is shown: the start of the next row that still exists,
+ * or of the last row when the deleted row was at the end
+ */
+function rowAnchor(
+  modified: TableSnapshot,
+  rows: ReadonlyArray<AlignedPair>,
+  index: number
+): number {
+  for (let i = index + 1; i < rows.length; i++) {
+    const row = rows[i].modified;
+    if (row !== undefined && modified.rows[row].length > 0) {
+      return cellAnchor(modified.rows[row][0]);
+    }
+  }
+  const last = [...modified.rows].reverse().find((row) => row.length > 0);
+  return last ? cellAnchor(last[0]) : modified.charStart;
+}
+
+/**
+ * Where a deleted column is shown: in the first remaining row, the start of
+ * the cell that now follows it, or of the row's last cell
+ */
+function columnAnchor(
+  modified: TableSnapshot,
+  pairedRows: ReadonlyArray<{ original: number; modified: number }>,
+  pairedColumns: ReadonlyArray<{ original: number; modified: number }>,
+  originalColumn: number
+): number {
+  const row = modified.rows[pairedRows[0]?.modified ?? 0];
+  if (!row || row.length === 0) return modified.charStart;
+
+  const next = pairedColumns.find((column) => column.original > originalColumn);
+  return cellAnchor(row[next?.modified ?? row.length - 1] ?? row[row.length - 1]);
+}
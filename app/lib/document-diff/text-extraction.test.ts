@@ -10,19 +10,29 @@
  * - Text extraction flattens this tree into plain text
  * - Position mapping tracks where each character came from in the document
  * - Formatting spans track which marks apply to which text ranges
+ * - JSON and live documents are extracted by the same traversal; the contract
+ *   tests at the end check both give identical results
  *
  * @module text-extraction
  */
 
 import { describe, it, expect } from "vitest";
+import { Schema } from "prosemirror-model";
+import { EditorState } from "prosemirror-state";
+import { heading, paragraph, text } from "./__fixtures__/prosemirror";
+import { computeChangesWithPositions } from "./diff-computation";
 import {
+  extractBlockTree,
   extractTextFromJson,
+  extractTextWithFormattingFromEditor,
   extractTextWithFormattingFromJson,
+  extractTextWithPositions,
   extractContext,
   getProseMirrorPosition,
   getProseMirrorRange,
+  parseLayoutAttr,
 } from "./text-extraction";
-import type { ProseMirrorJsonNode, PositionMap } from "./types";
+import type { ProseMirrorJsonNode, PositionMap, SuperDocEditor } from "./types";
 
 describe("extractTextFromJson", () => {
   it("should extract text from a simple text node", () => {
@@ -603,6 +613,200 @@ describe("extractTextWithFormattingFromJson", () => {
       expect(result.formatting[0].charEnd).toBe(12);
     });
   });
+
+  describe("table structure", () => {
+    const cell = (...content: ProseMirrorJsonNode[]): ProseMirrorJsonNode => ({
+      type: "tableCell",
+      content,
+    });
+    const paragraph = (text: string): ProseMirrorJsonNode => ({
+      type: "paragraph",
+      content: [{ type: "text", text }],
+    });
+
+    it("puts each cell on its own line and records rows and cells", () => {
+      const doc: ProseMirrorJsonNode = {
+        type: "doc",
+        content: [
+          paragraph("Intro"),
+          {
+            type: "table",
+            content: [
+              { type: "tableRow", content: [cell(paragraph("A1")), cell(paragraph("B1"))] },
+              { type: "tableRow", content: [cell(paragraph("A2")), cell(paragraph("B2"))] },
+            ],
+          },
+        ],
+      };
+
+      const result = extractTextWithFormattingFromJson(doc);
+
+      expect(result.text).toBe("Intro\nA1\nB1\nA2\nB2");
+      expect(result.tables).toEqual([
+        {
+          charStart: 6,
+          charEnd: 17,
+          rows: [
+            [
+              { charStart: 6, charEnd: 8, text: "A1" },
+              { charStart: 9, charEnd: 11, text: "B1" },
+            ],
+            [
+              { charStart: 12, charEnd: 14, text: "A2" },
+              { charStart: 15, charEnd: 17, text: "B2" },
+            ],
+          ],
+        },
+      ]);
+    });
+
+    it("keeps nested tables as part of their cell's text", () => {
+      const nested: ProseMirrorJsonNode = {
+        type: "table",
+        content: [{ type: "tableRow", content: [cell(paragraph("Inner"))] }],
+      };
+      const doc: ProseMirrorJsonNode = {
+        type: "doc",
+        content: [
+          {
+            type: "table",
+            content: [{ type: "tableRow", content: [cell(paragraph("Outer"), nested)] }],
+          },
+        ],
+      };
+
+      const result = extractTextWithFormattingFromJson(doc);
+
+      expect(result.tables).toHaveLength(1);
+      expect(result.tables[0].rows).toEqual([
+        [{ charStart: 0, charEnd: 11, text: "Outer\nInner" }],
+      ]);
+    });
+  });
+
+  describe("block structure", () => {
+    it("records each non-empty textblock with its list and quote context", () => {
+      const doc: ProseMirrorJsonNode = {
+        type: "doc",
+        content: [
+          { type: "heading", attrs: { level: 2 }, content: [{ type: "text", text: "Title" }] },
+          { type: "paragraph", content: [] },
+          {
+            type: "blockquote",
+            content: [
+              {
+                type: "orderedList",
+                content: [
+                  {
+                    type: "listItem",
+                    content: [
+                      {
+                        type: "paragraph",
+                        attrs: { textAlign: "center", spacing: { after: 120, before: null } },
+                        content: [{ type: "text", text: "Item" }],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const result = extractTextWithFormattingFromJson(doc);
+
+      expect(result.text).toBe("Title\nItem");
+      expect(result.blocks).toEqual([
+        {
+          charStart: 0,
+          charEnd: 5,
+          text: "Title",
+          type: "heading",
+          headingLevel: 2,
+          listType: undefined,
+          listDepth: 0,
+          quoteDepth: 0,
+          textAlign: undefined,
+          indent: undefined,
+          spacing: undefined,
+        },
+        {
+          charStart: 6,
+          charEnd: 10,
+          text: "Item",
+          type: "paragraph",
+          headingLevel: undefined,
+          listType: "ordered",
+          listDepth: 1,
+          quoteDepth: 1,
+          textAlign: "center",
+          indent: undefined,
+          spacing: "after 120",
+        },
+      ]);
+    });
+
+    it("reads back the indent and spacing it formats", () => {
+      const indent = { left: 720, hanging: 360 };
+      const [block] = extractTextWithFormattingFromJson({
+        type: "doc",
+        content: [{ ...paragraph("Item"), attrs: { indent, spacing: 240 } }],
+      }).blocks;
+
+      expect(block).toMatchObject({ indent: "hanging 360, left 720", spacing: "240" });
+      expect(parseLayoutAttr(block.indent!)).toEqual(indent);
+      expect(parseLayoutAttr(block.spacing!)).toBe(240);
+      expect(parseLayoutAttr(null)).toBeNull();
+    });
+  });
+
+  describe("tracked revisions", () => {
+    it("records each revision once across the text nodes it spans", () => {
+      const insert = { type: "trackInsert", attrs: { id: "7", author: "Counsel" } };
+      const doc: ProseMirrorJsonNode = {
+        type: "doc",
+        content: [
+          {
+            type: "paragraph",
+            content: [
+              { type: "text", text: "Rent is " },
+              { type: "text", text: "900", marks: [{ type: "trackDelete", attrs: { id: "6" } }] },
+              { type: "text", text: "950 ", marks: [insert] },
+              { type: "text", text: "net", marks: [insert, { type: "bold" }] },
+            ],
+          },
+        ],
+      };
+
+      const result = extractTextWithFormattingFromJson(doc);
+
+      expect(result.text).toBe("Rent is 900950 net");
+      expect(result.revisions).toEqual([
+        {
+          id: "6",
+          type: "deletion",
+          charStart: 8,
+          charEnd: 11,
+          content: "900",
+          author: undefined,
+          date: undefined,
+        },
+        {
+          id: "7",
+          type: "insertion",
+          charStart: 11,
+          charEnd: 18,
+          content: "950 net",
+          author: "Counsel",
+          date: undefined,
+        },
+      ]);
+      expect(result.formatting).toEqual([
+        { charStart: 15, charEnd: 18, marks: [{ type: "bold" }] },
+      ]);
+    });
+  });
 });
 
 // =============================================================================
@@ -712,3 +916,188 @@ describe("Integration: Text Extraction Workflow", () => {
     // This range can be used with editor.commands.setTextSelection({ from: 7, to: 12 })
   });
 });
+
+// =============================================================================
+// Contract: JSON and live documents extract identically
+// =============================================================================
+
+/**
+ * A schema with SuperDoc's kinds of nodes: runs (inline nodes holding text),
+ * inline and block leaves, and a block wrapper not known to the extractor
+ */
+const schema = new Schema({
+  nodes: {
+    doc: { content: "block+" },
+    paragraph: {
+      group: "block",
+      content: "inline*",
+      attrs: { textAlign: { default: null }, styleId: { default: null } },
+    },
+    heading: { group: "block", content: "inline*", attrs: { level: { default: 1 } } },
+    bulletList: { group: "block", content: "listItem+" },
+    orderedList: { group: "block", content: "listItem+" },
+    listItem: { content: "paragraph block*" },
+    blockquote: { group: "block", content: "block+" },
+    structuredContentBlock: { group: "block", content: "block+" },
+    horizontalRule: { group: "block" },
+    table: { group: "block", content: "tableRow+" },
+    tableRow: { content: "tableCell+" },
+    tableCell: { content: "block+" },
+    run: { group: "inline", inline: true, content: "inline*" },
+    hardBreak: { group: "inline", inline: true },
+    image: {
+      group: "inline",
+      inline: true,
+      atom: true,
+      attrs: { src: { default: null }, size: { default: null } },
+    },
+    text: { group: "inline" },
+  },
+  marks: {
+    bold: {},
+    textStyle: { attrs: { fontSize: { default: null } } },
+    trackInsert: { attrs: { id: { default: "" }, author: { default: "" }, date: { default: "" } } },
+  },
+});
+
+function cell(...content: ProseMirrorJsonNode[]): ProseMirrorJsonNode {
+  return { type: "tableCell", content };
+}
+
+const CONTRACT_DOC: ProseMirrorJsonNode = {
+  type: "doc",
+  content: [
+    heading("Lease terms"),
+    paragraph(
+      text("The tenant pays "),
+      text("rent", { type: "bold" }),
+      text(" monthly", { type: "trackInsert", attrs: { id: "r1", author: "Ann" } }),
+      { type: "hardBreak" },
+      text("in advance.")
+    ),
+    paragraph(),
+    paragraph({
+      type: "run",
+      content: [text("Run text ", { type: "textStyle", attrs: { fontSize: "12pt" } })],
+    }),
+    {
+      type: "bulletList",
+      content: [
+        {
+          type: "listItem",
+          content: [
+            paragraph(text("First item")),
+            {
+              type: "orderedList",
+              content: [{ type: "listItem", content: [paragraph(text("Nested item"))] }],
+            },
+          ],
+        },
+      ],
+    },
+    { type: "blockquote", content: [paragraph(text("Quoted"))] },
+    { type: "horizontalRule" },
+    {
+      type: "table",
+      content: [
+        {
+          type: "tableRow",
+          content: [cell(paragraph(text("A1"))), cell(paragraph(text("B1")))],
+        },
+        {
+          type: "tableRow",
+          content: [
+            cell(paragraph(text("Logo "), { type: "image", attrs: { src: "logo.png" } })),
+            cell(paragraph(), paragraph(text("B2"))),
+          ],
+        },
+      ],
+    },
+    { type: "structuredContentBlock", content: [paragraph(text("Field one"))] },
+    { type: "structuredContentBlock", content: [paragraph(text("Field two"))] },
+  ],
+};
+
+/**
+ * The same document as a live node and as the JSON the editor would give
+ */
+function bothForms(json: ProseMirrorJsonNode) {
+  const live = schema.nodeFromJSON(json);
+  return { live, json: live.toJSON() as ProseMirrorJsonNode };
+}
+
+describe("extractBlockTree contract: JSON and live documents", () => {
+  it("should extract identical text, positions, formatting and structure", () => {
+    const { live, json } = bothForms(CONTRACT_DOC);
+
+    expect(extractBlockTree(json)).toEqual(extractBlockTree(live));
+  });
+
+  it("should put every block after the first on a new line", () => {
+    const { live, json } = bothForms(CONTRACT_DOC);
+    const expected = [
+      "Lease terms",
+      "The tenant pays rent monthlyin advance.",
+      "Run text ",
+      "First item",
+      "Nested item",
+      "Quoted",
+      "A1",
+      "B1",
+      "Logo \uE000",
+      "B2",
+      "Field one",
+      "Field two",
+    ].join("\n");
+
+    expect(extractBlockTree(live).text).toBe(expected);
+    expect(extractTextFromJson(json)).toBe(expected);
+  });
+
+  it("should map every character of text to its position in the document", () => {
+    const { live, json } = bothForms(CONTRACT_DOC);
+
+    for (const tree of [extractBlockTree(live), extractBlockTree(json)]) {
+      for (let i = 0; i < tree.text.length; i++) {
+        const char = tree.text[i];
+        if (char === "\n" || char === "\uE000") continue;
+        expect(live.textBetween(tree.charToPos[i], tree.charToPos[i] + 1)).toBe(char);
+      }
+    }
+  });
+
+  it("should give every block its path, position and text range", () => {
+    const { live, json } = bothForms(CONTRACT_DOC);
+    const tree = extractBlockTree(json);
+    const table = tree.root.children[7];
+    const cellParagraph = table.children[1].children[1].children[1];
+
+    expect(tree.root).toMatchObject({ type: "doc", path: "", pos: -1 });
+    expect(cellParagraph).toMatchObject({
+      type: "paragraph",
+      path: "table[7]/tableRow[1]/tableCell[1]/paragraph[1]",
+    });
+    expect(tree.text.slice(cellParagraph.charStart, cellParagraph.charEnd)).toBe("B2");
+    expect(live.nodeAt(cellParagraph.pos)?.textContent).toBe("B2");
+  });
+
+  it("should extract the editor's document the same as its JSON", () => {
+    const { live, json } = bothForms(CONTRACT_DOC);
+    const editor = { state: EditorState.create({ doc: live }) } as unknown as SuperDocEditor;
+
+    const fromEditor = extractTextWithFormattingFromEditor(editor);
+    const fromJson = extractTextWithFormattingFromJson(json);
+
+    expect(extractTextWithPositions(editor).text).toBe(fromJson.text);
+    expect(fromEditor).toMatchObject(fromJson);
+    expect(computeChangesWithPositions(fromJson.text, fromEditor.text)).toEqual([]);
+  });
+
+  it("should extract a node given on its own as a document's only child", () => {
+    const tree = extractBlockTree(paragraph(text("Alone")));
+
+    expect(tree.text).toBe("Alone");
+    expect(tree.charToPos).toEqual([1, 2, 3, 4, 5]);
+    expect(tree.root.children.map((block) => block.path)).toEqual(["paragraph[0]"]);
+  });
+});
@@ -2,79 +2,278 @@
  * Text Extraction Utilities
  *
  * Functions for extracting text from ProseMirror documents with position mapping.
+ * JSON documents and live editor documents go through the same traversal
+ * (`extractBlockTree`), so their texts are built exactly the same way.
  */
 
 import type { Node as PMNode } from "prosemirror-model";
+import { hashString } from "./change-ids";
+import { graphemeEnd, graphemeStart } from "./graphemes";
+import { OBJECT_PLACEHOLDER } from "./object-diff";
 import type {
+  BlockSnapshot,
+  BlockTree,
+  BlockTreeNode,
   FormattingSpan,
+  ObjectSnapshot,
   PositionMap,
   PositionMapWithFormatting,
   ProseMirrorJsonNode,
   ProseMirrorMark,
+  ProseMirrorNodeAttrs,
   SuperDocEditor,
+  TableCellSnapshot,
+  TableSnapshot,
+  TrackedRevision,
+  TrackedRevisionType,
 } from "./types";
 
 /**
- * Block-level node types that should add newlines between content
+ * Table-related node types. Tables, rows and cells are blocks, so every cell
+ * starts on its own line, the same as in text extracted from the editor.
  */
-const BLOCK_TYPES = new Set([
-  "paragraph",
-  "heading",
-  "listItem",
-  "bulletList",
-  "orderedList",
-  "blockquote",
-  "codeBlock",
-  "horizontalRule",
-]);
+const TABLE_TYPES = new Set(["table", "tableRow", "tableCell", "tableHeader"]);
 
 /**
- * Table-related node types that need spacing
+ * Textblock node types recorded for the structural diff
  */
-const TABLE_TYPES = new Set(["tableCell", "tableRow", "table"]);
+const TEXTBLOCK_TYPES = new Set(["paragraph", "heading", "codeBlock"]);
 
 /**
- * Extract text from ProseMirror JSON node structure.
- * Used for computing diffs from serialized document data.
- *
- * @param node - The ProseMirror JSON node to extract text from
- * @returns The extracted plain text
+ * List node types and the list type they stand for
  */
-export function extractTextFromJson(node: ProseMirrorJsonNode): string {
-  if (!node) return "";
+const LIST_TYPES: Record<string, "bullet" | "ordered"> = {
+  bulletList: "bullet",
+  orderedList: "ordered",
+};
 
-  // Text node - return the text content
-  if (node.text) return node.text;
+/**
+ * Inline atom node types that are objects rather than text (SuperDoc's images
+ * and drawings). Each is one OBJECT_PLACEHOLDER character in extracted text.
+ */
+const OBJECT_TYPES = new Set(["image", "vectorShape", "shapeGroup"]);
 
-  // No content to traverse
-  if (!node.content) return "";
+/**
+ * Track change marks and the kind of revision each records
+ */
+const REVISION_MARK_TYPES: Readonly<Record<string, TrackedRevisionType>> = {
+  trackInsert: "insertion",
+  trackDelete: "deletion",
+  trackFormat: "formatting",
+};
 
-  const parts: string[] = [];
+/**
+ * Paragraph styles that make a paragraph a heading (Word's "Heading1"...)
+ */
+export const HEADING_STYLE = /^heading\s*(\d)$/i;
 
-  for (const child of node.content) {
-    const childType = child.type;
+/**
+ * A node's type and attributes, as needed to describe a block's structure
+ */
+interface StructureNode {
+  readonly type: string;
+  readonly attrs?: ProseMirrorNodeAttrs;
+}
 
-    // Add newline before block elements (except at the start)
-    if (BLOCK_TYPES.has(childType) && parts.length > 0) {
-      const lastPart = parts[parts.length - 1];
-      if (lastPart && !lastPart.endsWith("\n")) {
-        parts.push("\n");
-      }
-    }
+/**
+ * Format an indent or spacing attribute for display and comparison.
+ * Per-side values are sorted by side so equal values format identically.
+ */
+function formatLayoutAttr(value: unknown): string | undefined {
+  if (typeof value === "number") return String(value);
+  if (!value || typeof value !== "object") return undefined;
+
+  const sides = Object.entries(value as Record<string, unknown>)
+    .filter(([, side]) => side !== null && side !== undefined && side !== "")
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([side, amount]) => `${side} ${String(amount)}`);
+  return sides.length > 0 ? sides.join(", ") : undefined;
+}
 
-    // Add space for table cells/rows to separate content
-    if (TABLE_TYPES.has(childType)) {
-      const lastPart = parts[parts.length - 1];
-      if (lastPart && !lastPart.endsWith(" ") && !lastPart.endsWith("\n")) {
-        parts.push(" ");
-      }
+/**
+ * Read back an indent or spacing attribute formatted by formatLayoutAttr
+ * (null for none)
+ */
+export function parseLayoutAttr(
+  value: string | null
+): number | Record<string, unknown> | null {
+  if (value === null) return null;
+  // Only a plain number formats without a side
+  if (!value.includes(" ")) return Number(value);
+
+  const toValue = (text: string) =>
+    text !== "" && Number.isFinite(Number(text)) ? Number(text) : text;
+
+  return Object.fromEntries(
+    value.split(", ").map((side) => {
+      const space = side.indexOf(" ");
+      return [side.slice(0, space), toValue(side.slice(space + 1))];
+    })
+  );
+}
+
+/**
+ * Describe a textblock and the lists and blockquotes around it
+ *
+ * @param node - The textblock
+ * @param ancestors - Nodes containing the textblock, outermost first
+ */
+function createBlockSnapshot(
+  node: StructureNode,
+  ancestors: ReadonlyArray<StructureNode>,
+  charStart: number,
+  charEnd: number,
+  text: string
+): BlockSnapshot {
+  const attrs = node.attrs ?? {};
+  const styleLevel = attrs.styleId?.match(HEADING_STYLE)?.[1];
+  const isHeading = node.type === "heading" || styleLevel !== undefined;
+  const lists = ancestors.filter((ancestor) => ancestor.type in LIST_TYPES);
+
+  return {
+    charStart,
+    charEnd,
+    text,
+    type: isHeading ? "heading" : node.type,
+    headingLevel: isHeading ? (attrs.level ?? Number(styleLevel ?? 1)) : undefined,
+    listType: lists.length > 0 ? LIST_TYPES[lists[lists.length - 1].type] : undefined,
+    listDepth: lists.length,
+    quoteDepth: ancestors.filter((ancestor) => ancestor.type === "blockquote").length,
+    textAlign: attrs.textAlign ?? undefined,
+    indent: formatLayoutAttr(attrs.indent),
+    spacing: formatLayoutAttr(attrs.spacing),
+  };
+}
+
+/**
+ * A width or height attribute as a whole number, if it is one
+ */
+function toDimension(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.round(value)
+    : undefined;
+}
+
+/**
+ * Fingerprint an object node by its type, source and size
+ *
+ * @param node - The object node
+ * @param index - Number of objects before it in the document
+ * @param charStart - Index of its placeholder in the extracted text
+ * @param media - Document media, to resolve sources given as media paths
+ */
+function createObjectSnapshot(
+  node: StructureNode,
+  index: number,
+  charStart: number,
+  media: Readonly<Record<string, string>> | undefined
+): ObjectSnapshot {
+  const attrs = node.attrs ?? {};
+  const src = attrs.src ? (media?.[attrs.src] ?? attrs.src) : undefined;
+
+  return {
+    charStart,
+    charEnd: charStart + 1,
+    type: node.type,
+    index,
+    // Objects without a source (drawings) are identified by their attributes
+    hash: hashString(src ?? JSON.stringify(attrs)),
+    width: toDimension(attrs.size?.width ?? attrs.width),
+    height: toDimension(attrs.size?.height ?? attrs.height),
+    src,
+  };
+}
+
+/**
+ * A live node's marks in their JSON form (marks without attributes have no
+ * `attrs`, as in the document's JSON)
+ */
+function toJsonMarks(node: PMNode): ProseMirrorMark[] {
+  return node.marks.map((mark) => mark.toJSON() as ProseMirrorMark);
+}
+
+/**
+ * Record the revisions marked on a node's text. A revision continuing one
+ * that ended right before (same ID and type) extends it.
+ *
+ * @param revisions - Revisions recorded so far, extended in place
+ * @param marks - The node's marks
+ * @param charStart - Index of the node's text in the extracted text
+ * @param content - The node's text
+ */
+function recordRevisions(
+  revisions: TrackedRevision[],
+  marks: ReadonlyArray<ProseMirrorMark>,
+  charStart: number,
+  content: string
+): void {
+  for (const mark of marks) {
+    const type = REVISION_MARK_TYPES[mark.type];
+    if (!type) continue;
+
+    const attrs = mark.attrs ?? {};
+    const id = attrs.id ? String(attrs.id) : "";
+    const previous = revisions.findIndex(
+      (r) => id && r.id === id && r.type === type && r.charEnd === charStart
+    );
+    if (previous >= 0) {
+      const revision = revisions[previous];
+      revisions[previous] = {
+        ...revision,
+        charEnd: charStart + content.length,
+        content: revision.content + content,
+      };
+      continue;
     }
 
-    // Recursively extract text from child
-    parts.push(extractTextFromJson(child));
+    revisions.push({
+      id,
+      type,
+      charStart,
+      charEnd: charStart + content.length,
+      content,
+      author: attrs.author || undefined,
+      date: attrs.date || undefined,
+    });
   }
+}
 
-  return parts.join("");
+/**
+ * Collects the rows and cells of top-level tables as their nodes are visited.
+ * Nodes must be entered and exited in document order; tables nested in a
+ * cell are left as part of that cell's text.
+ */
+function createTableCollector() {
+  const tables: TableSnapshot[] = [];
+  let depth = 0;
+  let rows: TableCellSnapshot[][] = [];
+  let cells: TableCellSnapshot[] = [];
+
+  return {
+    tables,
+    enter(type: string) {
+      if (type === "table") depth++;
+    },
+    exit(type: string, charStart: number, charEnd: number, text: string) {
+      if (type === "table") {
+        depth--;
+        if (depth === 0) {
+          tables.push({ charStart, charEnd, rows });
+          rows = [];
+        }
+        return;
+      }
+      // Only the outermost table's own rows and cells are recorded
+      if (depth !== 1) return;
+
+      if (type === "tableRow") {
+        rows.push(cells);
+        cells = [];
+      } else {
+        cells.push({ charStart, charEnd, text });
+      }
+    },
+  };
 }
 
 /**
@@ -89,120 +288,277 @@ const EXCLUDED_MARK_TYPES = new Set([
 ]);
 
 /**
- * Extract text from ProseMirror JSON node structure WITH formatting information.
- * Used for computing formatting diffs from serialized document data.
- *
- * @param node - The ProseMirror JSON node to extract text from
- * @returns Object with extracted text and formatting spans
+ * Read access to a document node. JSON and live nodes are extracted by the
+ * same traversal through one of these, so both give the same text.
+ */
+interface TreeSource<N> {
+  type(node: N): string;
+  attrs(node: N): ProseMirrorNodeAttrs | undefined;
+  /** Text of a text node, undefined for other nodes */
+  text(node: N): string | undefined;
+  marks(node: N): ReadonlyArray<ProseMirrorMark>;
+  children(node: N): ReadonlyArray<N>;
+  /** Whether a node's children are inline, given whether the node is */
+  inlineContent(node: N, inline: boolean): boolean;
+  /** ProseMirror size of a node, for nodes whose children are not visited */
+  size(node: N): number;
+}
+
+/**
+ * ProseMirror size of a JSON node. Without a schema, a node with no content
+ * array is taken to be a leaf (size 1) unless it is a textblock.
  */
-export function extractTextWithFormattingFromJson(node: ProseMirrorJsonNode): {
+function jsonNodeSize(node: ProseMirrorJsonNode): number {
+  if (node.text !== undefined) return node.text.length;
+  if (!node.content) return TEXTBLOCK_TYPES.has(node.type) ? 2 : 1;
+  return node.content.reduce((size, child) => size + jsonNodeSize(child), 2);
+}
+
+const JSON_SOURCE: TreeSource<ProseMirrorJsonNode> = {
+  type: (node) => node.type,
+  attrs: (node) => node.attrs,
+  text: (node) => node.text,
+  marks: (node) => node.marks ?? [],
+  children: (node) => node.content ?? [],
+  // Textblocks and nodes holding text or objects have inline content, as do
+  // inline nodes such as runs
+  inlineContent: (node, inline) =>
+    inline ||
+    TEXTBLOCK_TYPES.has(node.type) ||
+    (node.content ?? []).some(
+      (child) => child.text !== undefined || OBJECT_TYPES.has(child.type)
+    ),
+  size: jsonNodeSize,
+};
+
+/**
+ * Extracted in place of a missing document
+ */
+const EMPTY_DOC: ProseMirrorJsonNode = { type: "doc" };
+
+const LIVE_SOURCE: TreeSource<PMNode> = {
+  type: (node) => node.type.name,
+  // Nodes without attributes have no `attrs`, as in the document's JSON
+  attrs: (node) =>
+    Object.keys(node.attrs).length > 0 ? (node.attrs as ProseMirrorNodeAttrs) : undefined,
+  text: (node) => (node.isText ? node.text : undefined),
+  marks: toJsonMarks,
+  children: (node) => node.children,
+  inlineContent: (node) => node.inlineContent,
+  size: (node) => node.nodeSize,
+};
+
+/**
+ * The canonical extraction, with arrays still being filled
+ */
+interface MutableBlockTree {
   text: string;
+  charToPos: number[];
   formatting: FormattingSpan[];
-} {
+  tables: TableSnapshot[];
+  blocks: BlockSnapshot[];
+  objects: ObjectSnapshot[];
+  revisions: TrackedRevision[];
+  root: BlockTreeNode;
+}
+
+/**
+ * Walk a document once, building its text and everything recorded against
+ * it. Every block after the first starts on a new line, the newline mapped
+ * to the block's position; text maps code unit by code unit; each object is
+ * one placeholder character.
+ */
+function buildBlockTree<N>(
+  rootNode: N,
+  source: TreeSource<N>,
+  media: Readonly<Record<string, string>> | undefined
+): MutableBlockTree {
+  const charToPos: number[] = [];
   const formatting: FormattingSpan[] = [];
-  let charIndex = 0;
+  const tables = createTableCollector();
+  const blocks: BlockSnapshot[] = [];
+  const objects: ObjectSnapshot[] = [];
+  const revisions: TrackedRevision[] = [];
+  let text = "";
 
-  function traverse(n: ProseMirrorJsonNode): string {
-    if (!n) return "";
+  // Returns the node's ProseMirror size and, for a block, its tree node
+  function visit(
+    node: N,
+    pos: number,
+    inline: boolean,
+    ancestors: ReadonlyArray<StructureNode>,
+    path: string
+  ): { size: number; block?: BlockTreeNode } {
+    const type = source.type(node);
+    const attrs = source.attrs(node);
+    const nodeText = source.text(node);
 
     // Text node - record text and its marks
-    if (n.text) {
-      const marks = (n.marks || []).filter(
-        (m) => !EXCLUDED_MARK_TYPES.has(m.type)
-      );
+    if (nodeText !== undefined) {
+      const charStart = text.length;
+      const marks = source.marks(node);
+      const formattingMarks = marks.filter((mark) => !EXCLUDED_MARK_TYPES.has(mark.type));
+      for (let i = 0; i < nodeText.length; i++) {
+        charToPos.push(pos + i);
+      }
+      text += nodeText;
 
-      if (marks.length > 0) {
-        formatting.push({
-          charStart: charIndex,
-          charEnd: charIndex + n.text.length,
-          marks,
-        });
+      if (formattingMarks.length > 0) {
+        formatting.push({ charStart, charEnd: text.length, marks: formattingMarks });
       }
+      recordRevisions(revisions, marks, charStart, nodeText);
+      return { size: nodeText.length };
+    }
 
-      charIndex += n.text.length;
-      return n.text;
+    // Object node - record its fingerprint behind a placeholder character
+    if (OBJECT_TYPES.has(type)) {
+      objects.push(createObjectSnapshot({ type, attrs }, objects.length, text.length, media));
+      recordRevisions(revisions, source.marks(node), text.length, OBJECT_PLACEHOLDER);
+      charToPos.push(pos);
+      text += OBJECT_PLACEHOLDER;
+      return { size: source.size(node) };
     }
 
-    // No content to traverse
-    if (!n.content) return "";
+    // Add newline before block elements (except at the start)
+    if (!inline && text.length > 0 && !text.endsWith("\n")) {
+      charToPos.push(pos);
+      text += "\n";
+    }
 
-    const parts: string[] = [];
+    // Recursively extract children, recording table and block structure
+    const charStart = text.length;
+    const isTableNode = TABLE_TYPES.has(type);
+    if (isTableNode) tables.enter(type);
+    const children = source.children(node);
+    const childrenInline = source.inlineContent(node, inline);
+    const childAncestors = [...ancestors, { type, attrs }];
+    const childBlocks: BlockTreeNode[] = [];
+    let childPos = pos + 1;
+    children.forEach((child, index) => {
+      const childPath = `${path ? `${path}/` : ""}${source.type(child)}[${index}]`;
+      const visited = visit(child, childPos, childrenInline, childAncestors, childPath);
+      if (visited.block) childBlocks.push(visited.block);
+      childPos += visited.size;
+    });
+
+    const nodeTextContent = text.slice(charStart);
+    if (isTableNode) tables.exit(type, charStart, text.length, nodeTextContent);
+    if (TEXTBLOCK_TYPES.has(type) && nodeTextContent) {
+      blocks.push(
+        createBlockSnapshot({ type, attrs }, ancestors, charStart, text.length, nodeTextContent)
+      );
+    }
 
-    for (const child of n.content) {
-      const childType = child.type;
+    const size = children.length > 0 ? childPos + 1 - pos : source.size(node);
+    if (inline) return { size };
+    return {
+      size,
+      block: { type, path, pos, attrs, charStart, charEnd: text.length, children: childBlocks },
+    };
+  }
 
-      // Add newline before block elements (except at the start)
-      if (BLOCK_TYPES.has(childType) && parts.length > 0) {
-        const lastPart = parts[parts.length - 1];
-        if (lastPart && !lastPart.endsWith("\n")) {
-          parts.push("\n");
-          charIndex += 1;
-        }
-      }
+  // A document's content starts at position 0. A node given on its own is
+  // extracted as the only child of a document.
+  let root: BlockTreeNode;
+  if (source.type(rootNode) === "doc") {
+    root = visit(rootNode, -1, false, [], "").block!;
+  } else {
+    const { block } = visit(rootNode, 0, false, [], `${source.type(rootNode)}[0]`);
+    root = {
+      type: "doc",
+      path: "",
+      pos: -1,
+      charStart: 0,
+      charEnd: text.length,
+      children: block ? [block] : [],
+    };
+  }
 
-      // Add space for table cells/rows to separate content
-      if (TABLE_TYPES.has(childType)) {
-        const lastPart = parts[parts.length - 1];
-        if (lastPart && !lastPart.endsWith(" ") && !lastPart.endsWith("\n")) {
-          parts.push(" ");
-          charIndex += 1;
-        }
-      }
+  return {
+    text,
+    charToPos,
+    formatting,
+    tables: tables.tables,
+    blocks,
+    objects,
+    revisions,
+    root,
+  };
+}
 
-      // Recursively extract text from child
-      parts.push(traverse(child));
-    }
+/**
+ * Extract the canonical block tree of a document: its text, a position map,
+ * formatting spans, tables, textblocks, objects, tracked revisions and its
+ * blocks with their paths. A ProseMirror JSON node and the live node it
+ * describes give the same result, so texts compared against each other are
+ * always built the same way.
+ *
+ * Positions for JSON are computed with ProseMirror's size rules, taking a
+ * node without a content array to be a leaf unless it is a textblock.
+ *
+ * @param node - The document, as JSON or a live ProseMirror node
+ * @param media - Document media, to resolve image sources given as media paths
+ * @returns The document's block tree
+ */
+export function extractBlockTree(
+  node: ProseMirrorJsonNode | PMNode,
+  media?: Readonly<Record<string, string>>
+): BlockTree {
+  if (!node) return buildBlockTree(EMPTY_DOC, JSON_SOURCE, media);
+  return typeof node.type === "string"
+    ? buildBlockTree(node as ProseMirrorJsonNode, JSON_SOURCE, media)
+    : buildBlockTree(node as PMNode, LIVE_SOURCE, media);
+}
 
-    return parts.join("");
-  }
+/**
+ * Extract text from ProseMirror JSON node structure.
+ * Used for computing diffs from serialized document data.
+ *
+ * @param node - The ProseMirror JSON node to extract text from
+ * @returns The extracted plain text
+ */
+export function extractTextFromJson(node: ProseMirrorJsonNode): string {
+  return extractBlockTree(node).text;
+}
 
-  const text = traverse(node);
-  return { text, formatting };
+/**
+ * Extract text from ProseMirror JSON node structure WITH formatting information.
+ * Used for computing formatting diffs from serialized document data.
+ *
+ * @param node - The ProseMirror JSON node to extract text from
+ * @param media - Document media, to resolve image sources given as media paths
+ * @returns Object with extracted text, formatting spans, top-level tables, textblocks, objects and tracked revisions
+ */
+export function extractTextWithFormattingFromJson(
+  node: ProseMirrorJsonNode,
+  media?: Readonly<Record<string, string>>
+): {
+  text: string;
+  formatting: FormattingSpan[];
+  tables: TableSnapshot[];
+  blocks: BlockSnapshot[];
+  objects: ObjectSnapshot[];
+  revisions: TrackedRevision[];
+} {
+  const { text, formatting, tables, blocks, objects, revisions } = buildBlockTree(
+    node || EMPTY_DOC,
+    JSON_SOURCE,
+    media
+  );
+  return { text, formatting, tables, blocks, objects, revisions };
 }
 
 /**
  * Extract text from a live ProseMirror editor with accurate position mapping.
  * Maps each character index in the extracted text to its ProseMirror position.
+ * Indices are UTF-16 code units, as ProseMirror positions are, so each code
+ * unit of an astral-plane character or combining sequence has its own entry.
  *
  * @param editor - The SuperDoc editor instance
  * @returns Object containing extracted text and character-to-position mapping
  */
 export function extractTextWithPositions(editor: SuperDocEditor): PositionMap {
-  const doc = editor.state.doc;
-  const charToPos: number[] = [];
-  let text = "";
-  let lastBlockEnd = -1;
-
-  // Traverse all nodes in the document
-  doc.descendants((node: PMNode, pos: number) => {
-    // Handle text nodes
-    if (node.isText && node.text) {
-      // Add separator if we're starting a new block
-      if (node.isBlock && lastBlockEnd >= 0 && text.length > 0) {
-        charToPos.push(pos);
-        text += "\n";
-      }
-
-      // Map each character to its ProseMirror position
-      for (let i = 0; i < node.text.length; i++) {
-        charToPos.push(pos + i);
-      }
-      text += node.text;
-    }
-
-    // Track block boundaries
-    if (node.isBlock) {
-      // Add newline between blocks
-      if (lastBlockEnd >= 0 && text.length > 0 && !text.endsWith("\n")) {
-        charToPos.push(pos);
-        text += "\n";
-      }
-      lastBlockEnd = pos;
-    }
-
-    return true; // Continue traversing
-  });
-
+  const { text, charToPos } = extractBlockTree(editor.state.doc);
   return { text, charToPos };
 }
 
@@ -210,66 +566,21 @@ export function extractTextWithPositions(editor: SuperDocEditor): PositionMap {
  * Extract text from a live ProseMirror editor with position mapping AND formatting.
  * This captures both positions and formatting marks for comprehensive comparison.
  *
- * Uses the same extraction logic as extractTextWithPositions for consistency.
+ * Uses the same extraction as the JSON functions (see `extractBlockTree`).
  *
  * @param editor - The SuperDoc editor instance
- * @returns Object containing extracted text, position mapping, and formatting spans
+ * @returns Object containing extracted text, position mapping, formatting spans, top-level tables, textblocks, objects and tracked revisions
  */
 export function extractTextWithFormattingFromEditor(
   editor: SuperDocEditor
 ): PositionMapWithFormatting {
-  const doc = editor.state.doc;
-  const charToPos: number[] = [];
-  const formatting: FormattingSpan[] = [];
-  let text = "";
-
-  // Traverse all nodes in the document
-  doc.descendants((node: PMNode, pos: number) => {
-    // Add newline before block elements (not for the first one)
-    if (node.isBlock && text.length > 0 && !text.endsWith("\n")) {
-      charToPos.push(pos);
-      text += "\n";
-    }
-
-    // Handle text nodes
-    if (node.isText && node.text) {
-      const charStart = text.length;
-
-      // Map each character to its ProseMirror position
-      for (let i = 0; i < node.text.length; i++) {
-        charToPos.push(pos + i);
-      }
-      text += node.text;
-
-      // Record formatting marks (excluding track change marks)
-      const marks: ProseMirrorMark[] = [];
-      for (const mark of node.marks) {
-        if (!EXCLUDED_MARK_TYPES.has(mark.type.name)) {
-          marks.push({
-            type: mark.type.name,
-            attrs: mark.attrs as Record<string, unknown> | undefined,
-          });
-        }
-      }
-
-      if (marks.length > 0) {
-        formatting.push({
-          charStart,
-          charEnd: text.length,
-          marks,
-        });
-      }
-    }
-
-    return true; // Continue traversing
-  });
-
-  return { text, charToPos, formatting };
+  return extractBlockTree(editor.state.doc, editor.converter?.media);
 }
 
 /**
  * Get the ProseMirror position for a character index.
- * Handles edge cases when the exact index isn't mapped.
+ * Handles edge cases when the exact index isn't mapped. An index inside a
+ * grapheme cluster is moved to the cluster's start.
  *
  * @param posMap - The position map from extractTextWithPositions
  * @param charIndex - The character index to look up
@@ -281,7 +592,7 @@ export function getProseMirrorPosition(
 ): number | undefined {
   // Direct lookup
   if (charIndex >= 0 && charIndex < posMap.charToPos.length) {
-    return posMap.charToPos[charIndex];
+    return posMap.charToPos[graphemeStart(posMap.text, charIndex)];
   }
 
   // Try previous position if at or past end
@@ -297,7 +608,8 @@ export function getProseMirrorPosition(
 }
 
 /**
- * Get a range of ProseMirror positions for a character range.
+ * Get a range of ProseMirror positions for a character range. A range that
+ * starts or ends inside a grapheme cluster is widened to the whole cluster.
  *
  * @param posMap - The position map from extractTextWithPositions
  * @param charStart - The start character index (inclusive)
@@ -309,10 +621,10 @@ export function getProseMirrorRange(
   charStart: number,
   charEnd: number
 ): { from: number; to: number } | undefined {
-  const from = posMap.charToPos[charStart];
+  const from = posMap.charToPos[graphemeStart(posMap.text, charStart)];
 
   // For the end position, we need the position after the last character
-  const lastCharIndex = charEnd - 1;
+  const lastCharIndex = graphemeEnd(posMap.text, charEnd) - 1;
   const lastCharPos = posMap.charToPos[lastCharIndex];
 
   if (from === undefined || lastCharPos === undefined) {
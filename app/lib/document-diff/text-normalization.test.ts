@@ -0,0 +1,139 @@
+/**
+ * Unit tests for text normalization utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  hasNormalization,
+  mapDiffToSource,
+  normalizeText,
+} from "./text-normalization";
+import { computeChangesWithPositions, computeRawDiff } from "./diff-computation";
+import type { ComparisonOptions } from "./types";
+
+const ALL: ComparisonOptions = {
+  ignoreWhitespace: true,
+  ignoreCase: true,
+  ignorePunctuation: true,
+  ignoreQuoteStyle: true,
+  ignoreDashStyle: true,
+  normalizeUnicode: true,
+};
+
+describe("hasNormalization", () => {
+  it("should be true only when a toggle is on", () => {
+    expect(hasNormalization(undefined)).toBe(false);
+    expect(hasNormalization({})).toBe(false);
+    expect(hasNormalization({ ignoreCase: false })).toBe(false);
+    expect(hasNormalization({ ignoreCase: true })).toBe(true);
+  });
+});
+
+describe("normalizeText", () => {
+  it.each<[string, ComparisonOptions, string, string]>([
+    ["whitespace", { ignoreWhitespace: true }, "  a \t b  \n  c  ", "a b\nc"],
+    ["case", { ignoreCase: true }, "The Tenant", "the tenant"],
+    ["punctuation", { ignorePunctuation: true }, "Hello, world!", "Hello world"],
+    ["quotes", { ignoreQuoteStyle: true }, "“It’s” «done»", `"It's" "done"`],
+    ["dashes", { ignoreDashStyle: true }, "2020–2024 — a − b", "2020-2024 - a - b"],
+    ["unicode", { normalizeUnicode: true }, "é ﬁle", "é file"],
+  ])("should normalize %s independently", (_name, options, input, expected) => {
+    expect(normalizeText(input, options).text).toBe(expected);
+  });
+
+  it("should leave text untouched with no options", () => {
+    const text = "“Quoted”  Text – here";
+
+    expect(normalizeText(text, {}).text).toBe(text);
+  });
+
+  it("should record the source offset of each normalized character", () => {
+    const { text, sourceOffsets, sourceEnds } = normalizeText("A,  “b”", ALL);
+
+    expect(text).toBe("a b");
+    expect(sourceOffsets).toEqual([0, 2, 5]);
+    expect(sourceEnds).toEqual([1, 3, 6]);
+  });
+});
+
+describe("mapDiffToSource", () => {
+  it("should rebuild the modified source from equal and added parts", () => {
+    const original = normalizeText("The  “Tenant” shall pay.", ALL);
+    const modified = normalizeText("The \"tenant\" must pay!", ALL);
+
+    const diffs = mapDiffToSource(
+      computeRawDiff(original.text, modified.text, "word"),
+      original,
+      modified
+    );
+
+    expect(diffs.filter((d) => !d.removed).map((d) => d.value).join("")).toBe(
+      modified.source
+    );
+    expect(diffs.filter((d) => d.removed).map((d) => d.value)).toEqual(["shall"]);
+  });
+});
+
+describe("computeChangesWithPositions with comparison options", () => {
+  const original = "The  “Tenant” shall pay rent – monthly.";
+  const modified = "The \"tenant\" shall pay rent - quarterly.";
+
+  it("should report cosmetic differences without options", () => {
+    expect(
+      computeChangesWithPositions(original, modified, { granularity: "word" }).length
+    ).toBeGreaterThan(1);
+  });
+
+  it("should only report real edits when cosmetic differences are ignored", () => {
+    const changes = computeChangesWithPositions(original, modified, {
+      granularity: "word",
+      comparison: ALL,
+    });
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        type: "replacement",
+        oldContent: "monthly",
+        content: "quarterly",
+      }),
+    ]);
+  });
+
+  it("should keep positions in the unnormalized modified text", () => {
+    const source = "Clause 1:  the “Buyer” pays – promptly.";
+    const changes = computeChangesWithPositions(
+      "Clause 1: The \"Buyer\" pays - later.",
+      source,
+      { granularity: "word", comparison: ALL }
+    );
+
+    expect(changes).toHaveLength(1);
+    const [change] = changes;
+    expect(source.slice(change.charStart, change.charEnd)).toBe(change.content);
+    expect(change.content).toBe("promptly");
+  });
+
+  it("should place deletions in the unnormalized modified text", () => {
+    const source = "Pay  “all” invoices.";
+    const [change] = computeChangesWithPositions(
+      "Pay \"all\" outstanding invoices.",
+      source,
+      { granularity: "word", comparison: ALL }
+    );
+
+    expect(change).toMatchObject({ type: "deletion", content: "outstanding" });
+    expect(source.slice(0, change.insertAt)).toBe("Pay  “all” ");
+  });
+
+  it("should map word diffs whose whitespace differs between the texts", () => {
+    const changes = computeChangesWithPositions(
+      "The  tenant pays the monthly rent on time.",
+      "the tenant pays the monthly fees on time.",
+      { granularity: "word", comparison: { ignoreCase: true } }
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "replacement", oldContent: "rent", content: "fees" }),
+    ]);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Text Normalization Utilities
+ *
+ * Normalizes text before diffing so cosmetic differences (quote styles,
+ * non-breaking spaces, double spaces, capitalization...) aren't reported as
+ * changes. Every normalized character remembers where it came from, so diffs
+ * of normalized text can be mapped back onto the source text and from there
+ * through PositionMap.charToPos.
+ */
+
+import type { Change as DiffChange } from "diff";
+import { originalOffsets } from "./block-alignment";
+import type { ComparisonOptions, NormalizedText } from "./types";
+
+/**
+ * Typographic quotes and their plain equivalents
+ */
+const SINGLE_QUOTES = /[‘’‚‛′ʼ]/g;
+const DOUBLE_QUOTES = /[“”„‟″«»]/g;
+
+/**
+ * Hyphens, dashes and the minus sign
+ */
+const DASHES = /[\u2010-\u2015\u2212\uFE58\uFE63\uFF0D]/g;
+
+const PUNCTUATION = /\p{P}/gu;
+
+/** Whitespace other than the newline that separates blocks */
+const INLINE_WHITESPACE = /^[^\S\n]+$/;
+
+/**
+ * A base character followed by its combining marks, so Unicode normalization
+ * can compose sequences like "é" into "é"
+ */
+const CHARACTER_CLUSTER = /\P{M}\p{M}*|\p{M}+/gu;
+
+/**
+ * Check whether any normalization option is enabled
+ */
+export function hasNormalization(
+  options: ComparisonOptions | undefined
+): options is ComparisonOptions {
+  return (
+    options !== undefined &&
+    Object.values(options).some((enabled) => enabled === true)
+  );
+}
+
+/**
+ * Normalize text for comparison.
+ *
+ * Each option is independent:
+ * - normalizeUnicode: NFKC (non-breaking spaces, ligatures, full-width forms,
+ *   composed accents)
+ * - ignoreQuoteStyle: curly and angled quotes become ' and "
+ * - ignoreDashStyle: en/em dashes, minus signs etc. become -
+ * - ignoreCase: lowercase
+ * - ignorePunctuation: punctuation is removed
+ * - ignoreWhitespace: runs of spaces become one space, spaces next to line
+ *   breaks are removed (line breaks themselves are kept)
+ *
+ * @param text - Source text
+ * @param options - Which differences to ignore
+ * @returns Normalized text plus the source range of each normalized character
+ */
+export function normalizeText(
+  text: string,
+  options: ComparisonOptions
+): NormalizedText {
+  let normalized = "";
+  const sourceOffsets: number[] = [];
+  const sourceEnds: number[] = [];
+
+  const emit = (value: string, sourceOffset: number, sourceEnd: number) => {
+    for (const char of value) {
+      normalized += char;
+      for (let i = 0; i < char.length; i++) {
+        sourceOffsets.push(sourceOffset);
+        sourceEnds.push(sourceEnd);
+      }
+    }
+  };
+
+  const dropLast = () => {
+    normalized = normalized.slice(0, -1);
+    sourceOffsets.pop();
+    sourceEnds.pop();
+  };
+
+  for (const match of text.matchAll(CHARACTER_CLUSTER)) {
+    const sourceOffset = match.index;
+    let value = match[0];
+
+    if (options.normalizeUnicode) value = value.normalize("NFKC");
+    if (options.ignoreQuoteStyle) {
+      value = value.replace(SINGLE_QUOTES, "'").replace(DOUBLE_QUOTES, '"');
+    }
+    if (options.ignoreDashStyle) value = value.replace(DASHES, "-");
+    if (options.ignoreCase) value = value.toLowerCase();
+    if (options.ignorePunctuation) value = value.replace(PUNCTUATION, "");
+    if (!value) continue;
+
+    if (options.ignoreWhitespace) {
+      const previous = normalized[normalized.length - 1];
+      if (INLINE_WHITESPACE.test(value)) {
+        // Collapse runs and drop spaces at the start of a block
+        if (previous === undefined || previous === " " || previous === "\n") continue;
+        value = " ";
+      } else if (value === "\n" && previous === " ") {
+        // Drop spaces at the end of a block
+        dropLast();
+      }
+    }
+
+    emit(value, sourceOffset, sourceOffset + match[0].length);
+  }
+
+  if (options.ignoreWhitespace && normalized.endsWith(" ")) {
+    dropLast();
+  }
+
+  return { text: normalized, source: text, sourceOffsets, sourceEnds };
+}
+
+/**
+ * Map diff parts computed on normalized texts back onto the source texts.
+ *
+ * Removed parts take their value from the original source, equal and added
+ * parts from the modified source. Changed parts cover exactly the source
+ * characters they were normalized from; characters dropped by normalization
+ * (collapsed spaces, ignored punctuation) go to the neighbouring equal parts.
+ * Equal and added values therefore join back into the modified source text
+ * exactly, which keeps positions computed from them valid for the modified
+ * document's PositionMap. Removed parts are found in the original with
+ * `originalOffsets`, as word diffs give equal parts the modified whitespace.
+ *
+ * @param diffs - Diff parts over the normalized texts
+ * @param original - Normalized original text
+ * @param modified - Normalized modified text
+ * @returns Diff parts over the source texts
+ */
+export function mapDiffToSource(
+  diffs: DiffChange[],
+  original: NormalizedText,
+  modified: NormalizedText
+): DiffChange[] {
+  const result: DiffChange[] = [];
+  const originalStarts = originalOffsets(original.text, diffs);
+  let modifiedIndex = 0;
+  // Next unconsumed position in the modified source
+  let cursor = 0;
+
+  const pushEqual = (to: number) => {
+    if (to > cursor) {
+      const value = modified.source.slice(cursor, to);
+      result.push({ value, added: false, removed: false, count: value.length });
+      cursor = to;
+    }
+  };
+
+  // Characters dropped before the first change belong to an equal part
+  if (diffs[0] && (diffs[0].added || diffs[0].removed)) {
+    pushEqual(modified.sourceOffsets[0] ?? 0);
+  }
+
+  for (const [index, diff] of diffs.entries()) {
+    const length = diff.value.length;
+
+    if (diff.removed) {
+      const from = original.sourceOffsets[originalStarts[index]];
+      const to = original.sourceEnds[originalStarts[index] + length - 1];
+      result.push({ ...diff, value: original.source.slice(from, to) });
+    } else if (diff.added) {
+      const to = modified.sourceEnds[modifiedIndex + length - 1];
+      result.push({ ...diff, value: modified.source.slice(cursor, to) });
+      cursor = to;
+      modifiedIndex += length;
+    } else {
+      modifiedIndex += length;
+      pushEqual(
+        modifiedIndex < modified.sourceOffsets.length
+          ? modified.sourceOffsets[modifiedIndex]
+          : modified.source.length
+      );
+    }
+  }
+
+  // Characters dropped after the last change
+  pushEqual(modified.source.length);
+
+  return result;
+}
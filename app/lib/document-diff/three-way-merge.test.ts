@@ -0,0 +1,187 @@
+/**
+ * Three-Way Merge - Tests
+ *
+ * @module three-way-merge
+ */
+
+import { describe, it, expect } from "vitest";
+import { seededRandom } from "./__fixtures__/random";
+import {
+  applyEditsToText,
+  computeThreeWayMerge,
+  resolveConflict,
+} from "./three-way-merge";
+
+const BASE = "The tenant pays rent monthly.\nNotices must be in writing.";
+
+describe("computeThreeWayMerge", () => {
+  it("should merge edits to different ranges and attribute each to its side", () => {
+    const ours = "The tenant pays rent quarterly.\nNotices must be in writing.";
+    const theirs = "The tenant pays rent monthly.\nNotices must be sent in writing.";
+
+    const result = computeThreeWayMerge(BASE, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.edits.map((e) => [e.side, e.oldContent, e.content])).toEqual([
+      ["ours", "monthly", "quarterly"],
+      ["theirs", "", "sent "],
+    ]);
+    expect(applyEditsToText(BASE, result.edits)).toBe(
+      "The tenant pays rent quarterly.\nNotices must be sent in writing."
+    );
+  });
+
+  it("should merge the same edit made by both sides once", () => {
+    const edited = "The tenant pays rent quarterly.\nNotices must be in writing.";
+
+    const result = computeThreeWayMerge(BASE, edited, edited);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.edits).toEqual([
+      expect.objectContaining({ id: "merge-0", side: "both", content: "quarterly" }),
+    ]);
+  });
+
+  it("should report overlapping edits as a conflict with each side's version", () => {
+    const ours = "The tenant pays rent quarterly.\nNotices must be in writing.";
+    const theirs = "The tenant pays rent weekly.\nNotices must be in writing.";
+
+    const result = computeThreeWayMerge(BASE, ours, theirs);
+
+    expect(result.edits).toEqual([]);
+    expect(result.conflicts).toEqual([
+      {
+        id: "conflict-0",
+        baseStart: 21,
+        baseEnd: 28,
+        base: "monthly",
+        ours: "quarterly",
+        theirs: "weekly",
+      },
+    ]);
+  });
+
+  it("should cover the whole overlapping range when the edits differ in extent", () => {
+    const ours = "The landlord pays rent monthly.\nNotices must be in writing.";
+    const theirs = "The tenant pays nothing.\nNotices must be in writing.";
+
+    const [conflict] = computeThreeWayMerge(BASE, ours, theirs, {
+      granularity: "sentence",
+    }).conflicts;
+
+    expect(conflict.base).toBe("The tenant pays rent monthly.");
+    expect(conflict.ours).toBe("The landlord pays rent monthly.");
+    expect(conflict.theirs).toBe("The tenant pays nothing.");
+  });
+
+  it("should merge a side's whitespace change along with the other side's edits", () => {
+    const base = "Hello  world, the tenant pays rent.";
+    const ours = "Hello world, the tenant pays fees.";
+    const theirs = "Hello  world, the landlord pays rent.";
+
+    const result = computeThreeWayMerge(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.edits.map((e) => [e.side, e.oldContent, e.content])).toEqual([
+      ["ours", " ", ""],
+      ["theirs", "tenant", "landlord"],
+      ["ours", "rent", "fees"],
+    ]);
+    expect(applyEditsToText(base, result.edits)).toBe("Hello world, the landlord pays fees.");
+  });
+
+  it("should keep the space before text appended to a paragraph", () => {
+    const base = "The tenant pays.";
+    const ours = "The tenant pays rent.";
+
+    const { edits } = computeThreeWayMerge(base, ours, base);
+
+    expect(edits).toEqual([
+      expect.objectContaining({ baseStart: 15, baseEnd: 15, content: " rent" }),
+    ]);
+    expect(applyEditsToText(base, edits)).toBe(ours);
+  });
+
+  it.each(["character", "word", "sentence", "paragraph"] as const)(
+    "should give back the edited side when only one side changed (%s)",
+    (granularity) => {
+      const random = seededRandom(11);
+      const words = ["The", "tenant", "pays", "rent", "monthly", "fees", "90", "days."];
+      const spaces = [" ", " ", " ", "  ", "\n"];
+      const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+      const text = () =>
+        Array.from({ length: 1 + Math.floor(random() * 12) }, (_, i) =>
+          i ? `${pick(spaces)}${pick(words)}` : pick(words)
+        ).join("");
+
+      for (let run = 0; run < 300; run++) {
+        const base = text();
+        const tokens = base.split(/(\s+)/);
+        for (let edit = 0; edit < 1 + Math.floor(random() * 3); edit++) {
+          const at = Math.floor(random() * tokens.length);
+          const kind = random();
+          if (kind < 0.25) tokens.splice(at, 1);
+          else if (kind < 0.5) tokens.splice(at, 0, ` ${pick(words)}`);
+          else if (kind < 0.75) tokens[at] = pick(words);
+          else tokens[at] = pick(spaces);
+        }
+        const edited = tokens.join("");
+
+        for (const [ours, theirs] of [[edited, base], [base, edited]]) {
+          const result = computeThreeWayMerge(base, ours, theirs, { granularity });
+
+          expect(result.conflicts).toEqual([]);
+          expect(applyEditsToText(base, result.edits)).toBe(edited);
+        }
+      }
+    }
+  );
+
+  it("should report nothing when neither side changed the base", () => {
+    expect(computeThreeWayMerge(BASE, BASE, BASE)).toEqual({ edits: [], conflicts: [] });
+  });
+});
+
+describe("resolveConflict", () => {
+  const conflict = {
+    id: "conflict-0",
+    baseStart: 21,
+    baseEnd: 28,
+    base: "monthly",
+    ours: "quarterly",
+    theirs: "weekly",
+  };
+
+  it("should replace the base range with the chosen version", () => {
+    expect(resolveConflict(conflict, "theirs")).toEqual([
+      {
+        id: "conflict-0-theirs",
+        side: "theirs",
+        baseStart: 21,
+        baseEnd: 28,
+        oldContent: "monthly",
+        content: "weekly",
+      },
+    ]);
+  });
+
+  it("should keep our version followed by theirs when keeping both", () => {
+    const edits = resolveConflict(conflict, "both");
+
+    expect(edits.map((e) => e.side)).toEqual(["ours", "theirs"]);
+    expect(applyEditsToText(BASE, edits)).toBe(
+      "The tenant pays rent quarterlyweekly.\nNotices must be in writing."
+    );
+  });
+});
+
+describe("applyEditsToText", () => {
+  it("should apply edits in base order regardless of the order given", () => {
+    const text = applyEditsToText("one two three", [
+      { baseStart: 8, baseEnd: 13, content: "3" },
+      { baseStart: 0, baseEnd: 3, content: "1" },
+    ]);
+
+    expect(text).toBe("1 two 3");
+  });
+});
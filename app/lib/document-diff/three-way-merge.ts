@@ -0,0 +1,259 @@
+/**
+ * Three-Way Merge Utilities
+ *
+ * Merges two documents edited in parallel from the same base draft. Each
+ * side is diffed against the base and its edits become base ranges with
+ * replacement text. Edits to different ranges merge automatically, and the
+ * same edit made by both sides merges once. Ranges both sides edited
+ * differently are conflicts, which the reviewer resolves by keeping our
+ * version, theirs, or both.
+ */
+
+import { diffByBlocks } from "./block-alignment";
+import { cleanupSemantic } from "./diff-cleanup";
+import { computeRawDiff } from "./diff-computation";
+import type {
+  ConflictResolution,
+  DiffOptions,
+  MergeConflict,
+  MergeEdit,
+  MergeSide,
+  ThreeWayMergeResult,
+} from "./types";
+
+/**
+ * Options for the two diffs against the base
+ */
+export type ThreeWayMergeOptions = Pick<DiffOptions, "granularity" | "semanticCleanup">;
+
+type SideEdit = Omit<MergeEdit, "id">;
+
+const isWhitespace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+
+/**
+ * Diff one side against the base and collect its edits as base ranges.
+ *
+ * The diff only decides which characters are kept: each non-whitespace
+ * character of an equal part pairs a base position with a side position.
+ * Word diffs give equal parts the side's whitespace, so edits are cut from
+ * the texts themselves, not from the parts: wherever the base and side text
+ * between two kept characters differ, that span is an edit (less whitespace
+ * both share at its edges). Applying a side's edits to the base therefore
+ * gives back exactly that side.
+ */
+function computeSideEdits(
+  baseText: string,
+  sideText: string,
+  side: MergeSide,
+  options: ThreeWayMergeOptions
+): SideEdit[] {
+  const raw = diffByBlocks(baseText, sideText, options.granularity ?? "word", computeRawDiff);
+  const diffs = options.semanticCleanup ? cleanupSemantic(raw).diffs : raw;
+  const edits: SideEdit[] = [];
+  // Start of the text after the last kept character, and the scan positions
+  let baseGap = 0;
+  let sideGap = 0;
+  let baseIndex = 0;
+  let sideIndex = 0;
+
+  const addEdit = (baseEnd: number, sideEnd: number) => {
+    let baseStart = baseGap;
+    let sideStart = sideGap;
+    while (
+      baseStart < baseEnd &&
+      sideStart < sideEnd &&
+      isWhitespace(baseText[baseStart]) &&
+      baseText[baseStart] === sideText[sideStart]
+    ) {
+      baseStart++;
+      sideStart++;
+    }
+    while (
+      baseEnd > baseStart &&
+      sideEnd > sideStart &&
+      isWhitespace(baseText[baseEnd - 1]) &&
+      baseText[baseEnd - 1] === sideText[sideEnd - 1]
+    ) {
+      baseEnd--;
+      sideEnd--;
+    }
+    const oldContent = baseText.slice(baseStart, baseEnd);
+    const content = sideText.slice(sideStart, sideEnd);
+    if (oldContent !== content) edits.push({ side, baseStart, baseEnd, oldContent, content });
+  };
+
+  const nextCharacter = (text: string, index: number) => {
+    while (isWhitespace(text[index])) index++;
+    return index;
+  };
+
+  for (const part of diffs) {
+    for (const char of part.value) {
+      if (isWhitespace(char)) continue;
+      if (part.removed) {
+        baseIndex = nextCharacter(baseText, baseIndex) + char.length;
+      } else if (part.added) {
+        sideIndex = nextCharacter(sideText, sideIndex) + char.length;
+      } else {
+        const baseKept = nextCharacter(baseText, baseIndex);
+        const sideKept = nextCharacter(sideText, sideIndex);
+        addEdit(baseKept, sideKept);
+        baseIndex = baseGap = baseKept + char.length;
+        sideIndex = sideGap = sideKept + char.length;
+      }
+    }
+  }
+  addEdit(baseText.length, sideText.length);
+
+  return edits;
+}
+
+/**
+ * Whether two edits touch the same base text. Edits that only meet at a
+ * boundary do not overlap; two insertions at the same point do.
+ */
+function overlaps(a: SideEdit, b: SideEdit): boolean {
+  if (a.baseStart === a.baseEnd && b.baseStart === b.baseEnd) {
+    return a.baseStart === b.baseStart;
+  }
+  return a.baseStart < b.baseEnd && b.baseStart < a.baseEnd;
+}
+
+function isSameEdit(a: SideEdit, b: SideEdit): boolean {
+  return a.baseStart === b.baseStart && a.baseEnd === b.baseEnd && a.content === b.content;
+}
+
+/**
+ * Apply edits to base text. Edits must not overlap; edits at the same point
+ * are applied in the order given.
+ *
+ * @param baseText - The base text
+ * @param edits - Edits positioned in the base text
+ * @returns The base text with the edits applied
+ */
+export function applyEditsToText(
+  baseText: string,
+  edits: ReadonlyArray<Pick<MergeEdit, "baseStart" | "baseEnd" | "content">>
+): string {
+  const sorted = [...edits].sort((a, b) => a.baseStart - b.baseStart);
+  let result = "";
+  let cursor = 0;
+
+  for (const edit of sorted) {
+    result += baseText.slice(cursor, edit.baseStart) + edit.content;
+    cursor = Math.max(cursor, edit.baseEnd);
+  }
+
+  return result + baseText.slice(cursor);
+}
+
+/**
+ * Merge two documents edited from the same base.
+ *
+ * Both sides are diffed against the base (paragraphs aligned first, then at
+ * the requested granularity). Their edits are grouped where they overlap:
+ * a group with edits from one side only merges as is, two identical edits
+ * merge once as made by "both", and anything else is a conflict covering
+ * the whole group's base range.
+ *
+ * @param baseText - Text of the base draft
+ * @param oursText - Text of our version
+ * @param theirsText - Text of their version
+ * @param options - Granularity (default "word") and semantic cleanup
+ * @returns Edits that merge automatically and conflicts to resolve
+ */
+export function computeThreeWayMerge(
+  baseText: string,
+  oursText: string,
+  theirsText: string,
+  options: ThreeWayMergeOptions = {}
+): ThreeWayMergeResult {
+  const all = [
+    ...computeSideEdits(baseText, oursText, "ours", options),
+    ...computeSideEdits(baseText, theirsText, "theirs", options),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const groups: SideEdit[][] = [];
+  for (const edit of all) {
+    const group = groups[groups.length - 1];
+    if (group?.some((other) => overlaps(other, edit))) group.push(edit);
+    else groups.push([edit]);
+  }
+
+  const edits: MergeEdit[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  for (const group of groups) {
+    const sides = new Set(group.map((edit) => edit.side));
+    if (sides.size === 1) {
+      edits.push(...group.map((edit) => ({ id: `merge-${edits.length}`, ...edit })));
+      continue;
+    }
+    if (group.length === 2 && isSameEdit(group[0], group[1])) {
+      edits.push({ id: `merge-${edits.length}`, ...group[0], side: "both" });
+      continue;
+    }
+
+    const baseStart = Math.min(...group.map((edit) => edit.baseStart));
+    const baseEnd = Math.max(...group.map((edit) => edit.baseEnd));
+    const base = baseText.slice(baseStart, baseEnd);
+    const version = (side: MergeSide) =>
+      applyEditsToText(
+        base,
+        group
+          .filter((edit) => edit.side === side)
+          .map((edit) => ({
+            ...edit,
+            baseStart: edit.baseStart - baseStart,
+            baseEnd: edit.baseEnd - baseStart,
+          }))
+      );
+
+    conflicts.push({
+      id: `conflict-${conflicts.length}`,
+      baseStart,
+      baseEnd,
+      base,
+      ours: version("ours"),
+      theirs: version("theirs"),
+    });
+  }
+
+  return { edits, conflicts };
+}
+
+/**
+ * Turn a conflict resolution into the edits that apply it. Keeping both
+ * replaces the base range with our version followed by theirs.
+ *
+ * @param conflict - The conflict
+ * @param resolution - Which version to keep
+ * @returns Edits positioned in the base text, IDs prefixed with the conflict ID
+ */
+export function resolveConflict(
+  conflict: MergeConflict,
+  resolution: ConflictResolution
+): MergeEdit[] {
+  const { id, baseStart, baseEnd, base } = conflict;
+  const replace = (side: "ours" | "theirs"): MergeEdit => ({
+    id: `${id}-${side}`,
+    side,
+    baseStart,
+    baseEnd,
+    oldContent: base,
+    content: conflict[side],
+  });
+
+  if (resolution !== "both") return [replace(resolution)];
+  return [
+    replace("ours"),
+    {
+      id: `${id}-theirs`,
+      side: "theirs",
+      baseStart: baseEnd,
+      baseEnd,
+      oldContent: "",
+      content: conflict.theirs,
+    },
+  ];
+}
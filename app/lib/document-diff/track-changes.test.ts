@@ -8,20 +8,52 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { Schema } from "prosemirror-model";
+import { Schema, type Mark as PMMark, type Node as PMNode } from "prosemirror-model";
 import { EditorState } from "prosemirror-state";
 import { EditorView } from "prosemirror-view";
+import { heading, list, paragraph } from "./__fixtures__/prosemirror";
 import {
   COMPARISON_USER,
   sortModificationsForApplication,
   buildModifications,
   applyFormattingTrackChanges,
+  applyStructuralTrackChanges,
+  applyMergeEdits,
+  applyTrackChanges,
+  approveChange,
+  approveFormattingChange,
+  approveStructuralChange,
+  canRejectStructuralChange,
+  navigateToFormattingChange,
+  navigateToMergeConflict,
+  navigateToObjectChange,
+  PARAGRAPH_MARKER,
+  rejectChange,
+  rejectFormattingChange,
+  rejectStructuralChange,
 } from "./track-changes";
+import {
+  computeChangesWithPositions,
+  computeFormattingChanges,
+} from "./diff-computation";
+import { computeObjectChanges, OBJECT_PLACEHOLDER } from "./object-diff";
+import { computeStructuralChanges } from "./structure-diff";
+import { resolveRevisionsInEditor, resolveRevisionsInJson } from "./revisions";
+import { computeThreeWayMerge, resolveConflict } from "./three-way-merge";
+import { attributeChanges } from "./version-history";
+import {
+  extractTextWithFormattingFromEditor,
+  extractTextWithFormattingFromJson,
+} from "./text-extraction";
 import type {
   ChangeWithPosition,
   DocumentModification,
   FormattingChangeWithPosition,
+  MergeSide,
   PositionMap,
+  ProseMirrorJsonNode,
+  ProseMirrorMark,
+  StructuralChangeWithPosition,
   SuperDocEditor,
   TrackChangeUser,
 } from "./types";
@@ -40,9 +72,64 @@ function createTestSchema() {
       paragraph: {
         group: "block",
         content: "inline*",
+        attrs: { textAlign: { default: null } },
         toDOM: () => ["p", 0],
         parseDOM: [{ tag: "p" }],
       },
+      heading: {
+        group: "block",
+        content: "inline*",
+        attrs: { level: { default: 1 } },
+        toDOM: (node) => [`h${node.attrs.level}`, 0],
+        parseDOM: [{ tag: "h1" }],
+      },
+      bulletList: {
+        group: "block",
+        content: "listItem+",
+        toDOM: () => ["ul", 0],
+        parseDOM: [{ tag: "ul" }],
+      },
+      orderedList: {
+        group: "block",
+        content: "listItem+",
+        toDOM: () => ["ol", 0],
+        parseDOM: [{ tag: "ol" }],
+      },
+      listItem: {
+        content: "paragraph block*",
+        toDOM: () => ["li", 0],
+        parseDOM: [{ tag: "li" }],
+      },
+      blockquote: {
+        group: "block",
+        content: "block+",
+        toDOM: () => ["blockquote", 0],
+        parseDOM: [{ tag: "blockquote" }],
+      },
+      table: {
+        group: "block",
+        content: "tableRow+",
+        toDOM: () => ["table", ["tbody", 0]],
+        parseDOM: [{ tag: "table" }],
+      },
+      tableRow: {
+        content: "tableCell+",
+        toDOM: () => ["tr", 0],
+        parseDOM: [{ tag: "tr" }],
+      },
+      tableCell: {
+        content: "paragraph+",
+        toDOM: () => ["td", 0],
+        parseDOM: [{ tag: "td" }],
+      },
+      image: {
+        group: "inline",
+        inline: true,
+        atom: true,
+        attrs: { src: { default: null }, size: { default: null } },
+        toDOM: (node) => ["img", { src: node.attrs.src }],
+        parseDOM: [{ tag: "img" }],
+      },
       text: { group: "inline" },
     },
     marks: {
@@ -79,6 +166,8 @@ function createTestSchema() {
           markType: { default: "" },
           oldAttrs: { default: undefined },
           newAttrs: { default: undefined },
+          before: { default: undefined },
+          after: { default: undefined },
         },
         toDOM: () => ["span", { class: "track-format" }, 0],
         parseDOM: [{ tag: "span.track-format" }],
@@ -91,6 +180,15 @@ function createTestSchema() {
         toDOM: () => ["em", 0],
         parseDOM: [{ tag: "em" }],
       },
+      textStyle: {
+        attrs: {
+          fontFamily: { default: null },
+          fontSize: { default: null },
+          color: { default: null },
+        },
+        toDOM: () => ["span", 0],
+        parseDOM: [{ tag: "span" }],
+      },
     },
   });
 }
@@ -107,6 +205,18 @@ function createTestEditor(content: string): SuperDocEditor {
   );
   const doc = schema.nodes.doc.create(null, paragraphs);
 
+  return createTestEditorFromDoc(doc);
+}
+
+/**
+ * Creates a test editor from a ProseMirror JSON document (for tables and lists)
+ */
+function createTestEditorFromJson(json: ProseMirrorJsonNode): SuperDocEditor {
+  return createTestEditorFromDoc(createTestSchema().nodeFromJSON(json));
+}
+
+function createTestEditorFromDoc(doc: PMNode): SuperDocEditor {
+  const schema = doc.type.schema;
   const state = EditorState.create({ doc, schema });
 
   // Create a container element for the editor
@@ -581,6 +691,363 @@ describe("buildModifications", () => {
   });
 });
 
+// =============================================================================
+// applyTrackChanges (with real editor)
+// =============================================================================
+
+/**
+ * Collects track change marks in document order as { mark, id, text } entries
+ */
+function collectTrackMarks(editor: SuperDocEditor) {
+  const found: Array<{ mark: string; id: string; text: string }> = [];
+  editor.state.doc.descendants((node) => {
+    if (node.isText) {
+      for (const mark of node.marks) {
+        if (mark.type.name.startsWith("track")) {
+          found.push({ mark: mark.type.name, id: mark.attrs.id, text: node.text! });
+        }
+      }
+    }
+    return true;
+  });
+  return found;
+}
+
+describe("applyTrackChanges", () => {
+  let editor: SuperDocEditor;
+
+  afterEach(() => {
+    if (editor) {
+      destroyTestEditor(editor);
+    }
+  });
+
+  it("applies a word-level replacement as a single insert/delete pair", () => {
+    editor = createTestEditor("The dog stood on the mat");
+    const posMap = createPositionMap(editor);
+    const changes = computeChangesWithPositions(
+      "The cat sat on the mat",
+      posMap.text,
+      { granularity: "word" }
+    );
+
+    const result = applyTrackChanges(editor, changes, posMap);
+
+    expect(result.successCount).toBe(1);
+    expect(collectTrackMarks(editor)).toEqual([
+      { mark: "trackDelete", id: `delete-${changes[0].id}`, text: "cat sat" },
+      { mark: "trackInsert", id: `insert-${changes[0].id}`, text: "dog stood" },
+    ]);
+  });
+
+  it("applies a replacement over several paragraphs paragraph by paragraph", () => {
+    editor = createTestEditor("A one.\nX.\nC four.");
+    const posMap = extractTextWithFormattingFromEditor(editor);
+    const changes = computeChangesWithPositions(
+      "A one.\nB two.\nC three.",
+      posMap.text,
+      { granularity: "paragraph" }
+    );
+
+    applyTrackChanges(editor, changes, posMap);
+
+    const id = changes[0].id;
+    expect(changes).toHaveLength(1);
+    expect(collectTrackMarks(editor)).toEqual([
+      { mark: "trackDelete", id: `delete-${id}`, text: "B two." },
+      { mark: "trackInsert", id: `insert-${id}`, text: "X." },
+      { mark: "trackDelete", id: `delete-${id}`, text: "C three." },
+      { mark: "trackInsert", id: `insert-${id}`, text: "C four." },
+    ]);
+    expect(editor.state.doc.textContent).not.toContain("\n");
+  });
+
+  it("puts each change's own author and date on its marks", () => {
+    const original = "Rent is due monthly. Notices by post.";
+    editor = createTestEditor("Rent is due quarterly. Notices by email.");
+    const posMap = createPositionMap(editor);
+    const changes = attributeChanges(
+      computeChangesWithPositions(original, posMap.text, { granularity: "word" }),
+      [
+        { name: "v1.docx", text: original },
+        {
+          name: "v2.docx",
+          text: "Rent is due quarterly. Notices by post.",
+          date: "2024-02-01T00:00:00.000Z",
+        },
+        { name: "v3.docx", text: posMap.text, date: "2024-03-01T00:00:00.000Z" },
+      ]
+    );
+
+    applyTrackChanges(editor, changes, posMap);
+
+    const authors: Array<[string, string, string]> = [];
+    editor.state.doc.descendants((node) => {
+      const mark = node.marks.find((m) => m.type.name === "trackInsert");
+      if (node.text && mark) authors.push([node.text, mark.attrs.author, mark.attrs.date]);
+    });
+    expect(authors).toEqual([
+      ["quarterly", "v2.docx", "2024-02-01T00:00:00.000Z"],
+      ["email", "v3.docx", "2024-03-01T00:00:00.000Z"],
+    ]);
+  });
+
+  it("maps normalized comparisons back through charToPos", () => {
+    editor = createTestEditor("The  “Buyer” pays – promptly.");
+    const posMap = createPositionMap(editor);
+    const changes = computeChangesWithPositions(
+      'The "Buyer" pays - later.',
+      posMap.text,
+      {
+        granularity: "word",
+        comparison: { ignoreWhitespace: true, ignoreQuoteStyle: true, ignoreDashStyle: true },
+      }
+    );
+
+    applyTrackChanges(editor, changes, posMap);
+
+    expect(collectTrackMarks(editor)).toEqual([
+      { mark: "trackDelete", id: `delete-${changes[0].id}`, text: "later" },
+      { mark: "trackInsert", id: `insert-${changes[0].id}`, text: "promptly" },
+    ]);
+  });
+
+  describe("moves", () => {
+    const ORIGINAL = "The quick brown fox jumps over it. Alpha beta gamma. End here.";
+    const MODIFIED = "Alpha beta gamma. The quick brown fox jumps over it. End here.";
+
+    function applyMove() {
+      editor = createTestEditor(MODIFIED);
+      const posMap = createPositionMap(editor);
+      const changes = computeChangesWithPositions(ORIGINAL, posMap.text, {
+        granularity: "sentence",
+        detectMoves: true,
+      });
+      const result = applyTrackChanges(editor, changes, posMap);
+      return { move: changes[0], result };
+    }
+
+    it("marks the source as deleted and the destination as inserted", () => {
+      const { move, result } = applyMove();
+
+      expect(move.type).toBe("move");
+      expect(result.successCount).toBe(2);
+      expect(collectTrackMarks(editor)).toEqual([
+        { mark: "trackDelete", id: `delete-${move.id}`, text: move.content },
+        { mark: "trackInsert", id: `insert-${move.id}`, text: move.content },
+      ]);
+    });
+
+    it("accepts both ends of a move at once", () => {
+      const { move } = applyMove();
+
+      expect(approveChange(editor, move.id, move.type)).toBe(true);
+      expect(collectTrackMarks(editor)).toEqual([]);
+      expect(editor.state.doc.textContent).toBe(MODIFIED);
+    });
+
+    it("rejects both ends of a move at once", () => {
+      const { move } = applyMove();
+
+      expect(rejectChange(editor, move.id, move.type)).toBe(true);
+      expect(collectTrackMarks(editor)).toEqual([]);
+      // The moved sentence is back at its source and gone from its destination
+      const text = editor.state.doc.textContent;
+      expect(text.startsWith(move.content)).toBe(true);
+      expect(text.split(move.content)).toHaveLength(2);
+    });
+  });
+
+  describe("tables", () => {
+    const table = (rows: string[][]): ProseMirrorJsonNode => ({
+      type: "doc",
+      content: [
+        {
+          type: "table",
+          content: rows.map((cells) => ({
+            type: "tableRow",
+            content: cells.map((text) => ({
+              type: "tableCell",
+              content: [{ type: "paragraph", content: text ? [{ type: "text", text }] : [] }],
+            })),
+          })),
+        },
+      ],
+    });
+
+    const ORIGINAL = table([
+      ["Item", "Price"],
+      ["Apples", "1.20"],
+      ["Pears", "2.10"],
+    ]);
+
+    function applyTableChanges(modified: ProseMirrorJsonNode) {
+      editor = createTestEditorFromJson(modified);
+      const original = extractTextWithFormattingFromJson(ORIGINAL);
+      const posMap = extractTextWithFormattingFromEditor(editor);
+      const changes = computeChangesWithPositions(original.text, posMap.text, {
+        granularity: "word",
+        tables: { original: original.tables, modified: posMap.tables ?? [] },
+      });
+      applyTrackChanges(editor, changes, posMap);
+      return changes;
+    }
+
+    /** Text of each cell, with deleted text in [-...-] and inserted text in [+...+] */
+    function cellTexts(): string[] {
+      const cells: string[] = [];
+      editor.state.doc.descendants((node) => {
+        if (node.type.name !== "tableCell") return true;
+        let text = "";
+        node.descendants((child) => {
+          if (!child.isText) return true;
+          const name = child.marks.find((m) => m.type.name.startsWith("track"))?.type.name;
+          text +=
+            name === "trackDelete"
+              ? `[-${child.text}-]`
+              : name === "trackInsert"
+                ? `[+${child.text}+]`
+                : child.text;
+          return true;
+        });
+        cells.push(text);
+        return false;
+      });
+      return cells;
+    }
+
+    it("extracts the same text from the editor as from JSON", () => {
+      editor = createTestEditorFromJson(ORIGINAL);
+
+      const fromEditor = extractTextWithFormattingFromEditor(editor);
+
+      expect(fromEditor.text).toBe(extractTextWithFormattingFromJson(ORIGINAL).text);
+      expect(fromEditor.tables).toEqual(extractTextWithFormattingFromJson(ORIGINAL).tables);
+    });
+
+    it("scopes a cell change to its cell", () => {
+      applyTableChanges(table([["Item", "Price"], ["Apples", "1.25"], ["Pears", "2.10"]]));
+
+      expect(cellTexts()).toEqual(["Item", "Price", "Apples", "[-1.20-][+1.25+]", "Pears", "2.10"]);
+    });
+
+    it("marks every cell of an inserted row with one change ID", () => {
+      const [change] = applyTableChanges(
+        table([["Item", "Price"], ["Apples", "1.20"], ["Plums", "3.00"], ["Pears", "2.10"]])
+      );
+
+      expect(cellTexts().slice(4, 6)).toEqual(["[+Plums+]", "[+3.00+]"]);
+      expect(new Set(collectTrackMarks(editor).map((m) => m.id))).toEqual(
+        new Set([`insert-${change.id}`])
+      );
+
+      expect(rejectChange(editor, change.id, change.type)).toBe(true);
+      expect(cellTexts().slice(4, 6)).toEqual(["", ""]);
+    });
+
+    it("keeps the text of a cleared cell inside that cell", () => {
+      applyTableChanges(table([["Item", "Price"], ["Apples", ""], ["Pears", "2.10"]]));
+
+      expect(cellTexts()).toEqual(["Item", "Price", "Apples", "[-1.20-]", "Pears", "2.10"]);
+    });
+
+    it("shows a deleted row's text inside the next row's first cell", () => {
+      applyTableChanges(table([["Item", "Price"], ["Pears", "2.10"]]));
+
+      expect(cellTexts()).toEqual(["Item", "Price", "[-Apples | 1.20-]Pears", "2.10"]);
+    });
+
+    it("shows a deleted last row's text inside the last row", () => {
+      applyTableChanges(table([["Item", "Price"], ["Apples", "1.20"]]));
+
+      expect(cellTexts()).toEqual(["Item", "Price", "[-Pears | 2.10-]Apples", "1.20"]);
+    });
+  });
+
+  describe("paragraph splits and merges", () => {
+    const JOINED = "First part. Second part.";
+    const SPLIT = "First part.\nSecond part.";
+
+    function applyBoundaryChange(original: string, modified: string) {
+      editor = createTestEditor(modified);
+      const posMap = extractTextWithFormattingFromEditor(editor);
+      const changes = computeChangesWithPositions(original, posMap.text, {
+        granularity: "word",
+      });
+      const result = applyTrackChanges(editor, changes, posMap);
+      return { change: changes[0], result };
+    }
+
+    /** Text of each paragraph, with deleted text in [-...-] and inserted text in [+...+] */
+    function paragraphTexts(): string[] {
+      const paragraphs: string[] = [];
+      editor.state.doc.forEach((node) => {
+        let text = "";
+        node.forEach((child) => {
+          const name = child.marks.find((m) => m.type.name.startsWith("track"))?.type.name;
+          text +=
+            name === "trackDelete"
+              ? `[-${child.text}-]`
+              : name === "trackInsert"
+                ? `[+${child.text}+]`
+                : child.text;
+        });
+        paragraphs.push(text);
+      });
+      return paragraphs;
+    }
+
+    it("marks a split with an inserted marker after the removed space", () => {
+      const { change, result } = applyBoundaryChange(JOINED, SPLIT);
+
+      expect(change.type).toBe("split");
+      expect(result.successCount).toBe(1);
+      expect(paragraphTexts()).toEqual([
+        `First part.[- -][+${PARAGRAPH_MARKER}+]`,
+        "Second part.",
+      ]);
+    });
+
+    it("accepts a split by removing the marker", () => {
+      const { change } = applyBoundaryChange(JOINED, SPLIT);
+
+      expect(approveChange(editor, change.id, change.type)).toBe(true);
+      expect(paragraphTexts()).toEqual(["First part.", "Second part."]);
+    });
+
+    it("rejects a split by joining the paragraphs again", () => {
+      const { change } = applyBoundaryChange(JOINED, SPLIT);
+
+      expect(rejectChange(editor, change.id, change.type)).toBe(true);
+      expect(paragraphTexts()).toEqual(["First part. Second part."]);
+    });
+
+    it("marks a merge with a deleted marker before the inserted space", () => {
+      const { change, result } = applyBoundaryChange(SPLIT, JOINED);
+
+      expect(change.type).toBe("merge");
+      expect(result.successCount).toBe(1);
+      expect(paragraphTexts()).toEqual([
+        `First part.[-${PARAGRAPH_MARKER}-][+ +]Second part.`,
+      ]);
+    });
+
+    it("accepts a merge by keeping the joined paragraph", () => {
+      const { change } = applyBoundaryChange(SPLIT, JOINED);
+
+      expect(approveChange(editor, change.id, change.type)).toBe(true);
+      expect(paragraphTexts()).toEqual(["First part. Second part."]);
+    });
+
+    it("rejects a merge by splitting the paragraph again", () => {
+      const { change } = applyBoundaryChange(SPLIT, JOINED);
+
+      expect(rejectChange(editor, change.id, change.type)).toBe(true);
+      expect(paragraphTexts()).toEqual(["First part.", "Second part."]);
+    });
+  });
+});
+
 // =============================================================================
 // applyFormattingTrackChanges (with real editor)
 // =============================================================================
@@ -910,3 +1377,579 @@ describe("applyFormattingTrackChanges", () => {
     expect(editor.state.doc.textContent).toBe(originalText);
   });
 });
+
+// =============================================================================
+// approveFormattingChange / rejectFormattingChange (with real editor)
+// =============================================================================
+
+describe("approveFormattingChange / rejectFormattingChange", () => {
+  let editor: SuperDocEditor;
+
+  afterEach(() => {
+    if (editor) {
+      destroyTestEditor(editor);
+    }
+  });
+
+  const doc = (...content: ProseMirrorJsonNode[]): ProseMirrorJsonNode => ({
+    type: "doc",
+    content: [{ type: "paragraph", content }],
+  });
+  const text = (value: string, ...marks: ProseMirrorMark[]): ProseMirrorJsonNode => ({
+    type: "text",
+    text: value,
+    marks,
+  });
+
+  /**
+   * Open the modified document and mark its formatting changes against the original
+   */
+  function applyFormatting(original: ProseMirrorJsonNode, modified: ProseMirrorJsonNode) {
+    editor = createTestEditorFromJson(modified);
+    const originalMap = extractTextWithFormattingFromJson(original);
+    const posMap = extractTextWithFormattingFromEditor(editor);
+    const changes = computeFormattingChanges(
+      originalMap.text,
+      originalMap.formatting,
+      posMap.text,
+      posMap.formatting
+    );
+    applyFormattingTrackChanges(editor, changes, posMap);
+    return changes;
+  }
+
+  /** Each text node with its marks, e.g. "Hello[trackFormat,bold]" */
+  function formattedText(): string[] {
+    const nodes: string[] = [];
+    editor.state.doc.descendants((node) => {
+      if (!node.isText) return true;
+      const marks = node.marks.map((m) =>
+        m.type.name === "textStyle" ? `textStyle(${m.attrs.fontSize})` : m.type.name
+      );
+      nodes.push(marks.length ? `${node.text}[${marks.join(",")}]` : node.text!);
+      return true;
+    });
+    return nodes;
+  }
+
+  it("accepts added formatting by keeping it and removing the trackFormat mark", () => {
+    const [change] = applyFormatting(
+      doc(text("Hello world")),
+      doc(text("Hello", { type: "bold" }), text(" world"))
+    );
+    expect(formattedText()).toEqual(["Hello[trackFormat,bold]", " world"]);
+
+    expect(approveFormattingChange(editor, change.id)).toBe(true);
+    expect(formattedText()).toEqual(["Hello[bold]", " world"]);
+  });
+
+  it("rejects added formatting by removing the added mark", () => {
+    const [change] = applyFormatting(
+      doc(text("Hello world")),
+      doc(text("Hello", { type: "bold" }), text(" world"))
+    );
+
+    expect(rejectFormattingChange(editor, change.id)).toBe(true);
+    expect(formattedText()).toEqual(["Hello world"]);
+  });
+
+  it("rejects removed formatting by restoring the original mark", () => {
+    const [change] = applyFormatting(
+      doc(text("Hello", { type: "italic" }), text(" world")),
+      doc(text("Hello world"))
+    );
+
+    expect(rejectFormattingChange(editor, change.id)).toBe(true);
+    expect(formattedText()).toEqual(["Hello[italic]", " world"]);
+  });
+
+  it("rejects modified formatting by restoring the old attributes", () => {
+    const sized = (fontSize: string) =>
+      doc(text("Hello", { type: "textStyle", attrs: { fontSize } }), text(" world"));
+    const [change] = applyFormatting(sized("11pt"), sized("12pt"));
+    expect(change.type).toBe("formatModified");
+
+    expect(rejectFormattingChange(editor, change.id)).toBe(true);
+    expect(formattedText()).toEqual(["Hello[textStyle(11pt)]", " world"]);
+  });
+
+  it("returns false for an unknown change ID", () => {
+    editor = createTestEditor("Hello world");
+
+    expect(approveFormattingChange(editor, "format-9")).toBe(false);
+    expect(rejectFormattingChange(editor, "format-9")).toBe(false);
+  });
+});
+
+describe("applyStructuralTrackChanges", () => {
+  let editor: SuperDocEditor;
+
+  afterEach(() => {
+    if (editor) {
+      destroyTestEditor(editor);
+    }
+  });
+
+  const STRUCTURED_DOC: ProseMirrorJsonNode = {
+    type: "doc",
+    content: [
+      { type: "heading", attrs: { level: 2 }, content: [{ type: "text", text: "Scope" }] },
+      {
+        type: "blockquote",
+        content: [
+          {
+            type: "bulletList",
+            content: [
+              {
+                type: "listItem",
+                content: [
+                  {
+                    type: "paragraph",
+                    attrs: { textAlign: "center" },
+                    content: [{ type: "text", text: "Item" }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  it("records the same blocks from the editor as from its JSON", () => {
+    editor = createTestEditorFromJson(STRUCTURED_DOC);
+
+    const fromEditor = extractTextWithFormattingFromEditor(editor);
+    const fromJson = extractTextWithFormattingFromJson(editor.getJSON());
+
+    expect(fromEditor.blocks).toEqual(fromJson.blocks);
+    expect(fromEditor.blocks?.map((b) => [b.type, b.listType, b.quoteDepth])).toEqual([
+      ["heading", undefined, 0],
+      ["paragraph", "bullet", 1],
+    ]);
+  });
+
+  it("marks each block once with the IDs of all its changes", () => {
+    editor = createTestEditorFromJson(STRUCTURED_DOC);
+    const posMap = extractTextWithFormattingFromEditor(editor);
+    const item = posMap.blocks![1];
+
+    const range = { charStart: item.charStart, charEnd: item.charEnd };
+    const changes: StructuralChangeWithPosition[] = [
+      { id: "structure-0", type: "listType", content: "Item", newValue: "Bulleted list", ...range },
+      { id: "structure-1", type: "alignment", content: "Item", newValue: "center", ...range },
+    ];
+
+    const result = applyStructuralTrackChanges(editor, changes, posMap);
+
+    expect(result).toEqual({ successCount: 2, totalCount: 2, errors: [] });
+    expect(collectTrackMarks(editor)).toEqual([
+      { mark: "trackFormat", id: "structure-0 structure-1", text: "Item" },
+    ]);
+
+    navigateToFormattingChange(editor, changes[1]);
+    const { from, to } = editor.state.selection;
+    expect(editor.state.doc.textBetween(from, to)).toBe("Item");
+  });
+});
+
+describe("approveStructuralChange / rejectStructuralChange", () => {
+  let editor: SuperDocEditor;
+
+  afterEach(() => {
+    if (editor) {
+      destroyTestEditor(editor);
+    }
+  });
+
+  const aligned = (value: string, textAlign: string): ProseMirrorJsonNode => ({
+    ...paragraph(value),
+    attrs: { textAlign },
+  });
+
+  /**
+   * Open the modified document and mark its structural changes against the original
+   */
+  function applyStructure(original: ProseMirrorJsonNode, modified: ProseMirrorJsonNode) {
+    editor = createTestEditorFromJson(modified);
+    const posMap = extractTextWithFormattingFromEditor(editor);
+    const changes = computeStructuralChanges(
+      extractTextWithFormattingFromJson(original).blocks,
+      posMap.blocks ?? []
+    );
+    applyStructuralTrackChanges(editor, changes, posMap);
+    return changes;
+  }
+
+  /** Each block's type, heading level, list type and alignment */
+  function blockStructure() {
+    return extractTextWithFormattingFromEditor(editor).blocks?.map((b) => [
+      b.type,
+      b.headingLevel,
+      b.listType,
+      b.textAlign,
+    ]);
+  }
+
+  // A bulleted item made numbered and centred: two changes sharing one mark
+  const listItemChanges = () =>
+    applyStructure(
+      { type: "doc", content: [list("bulletList", [aligned("Item", "left")])] },
+      { type: "doc", content: [list("orderedList", [aligned("Item", "center")])] }
+    );
+
+  it("accepts a change by keeping the new structure and removing it from the mark", () => {
+    const [listType, alignment] = listItemChanges();
+    expect([listType.type, alignment.type]).toEqual(["listType", "alignment"]);
+
+    expect(approveStructuralChange(editor, alignment.id)).toBe(true);
+    expect(collectTrackMarks(editor)).toEqual([
+      { mark: "trackFormat", id: listType.id, text: "Item" },
+    ]);
+
+    expect(approveStructuralChange(editor, listType.id)).toBe(true);
+    expect(collectTrackMarks(editor)).toEqual([]);
+    expect(blockStructure()).toEqual([["paragraph", undefined, "ordered", "center"]]);
+  });
+
+  it("rejects an alignment change by restoring the old alignment", () => {
+    const [listType, alignment] = listItemChanges();
+
+    expect(rejectStructuralChange(editor, alignment.id)).toBe(true);
+    expect(blockStructure()).toEqual([["paragraph", undefined, "ordered", "left"]]);
+
+    // The block's other change is still marked, with its own values
+    const marks: PMMark[] = [];
+    editor.state.doc.descendants((node) => {
+      marks.push(...node.marks.filter((m) => m.type.name === "trackFormat"));
+      return true;
+    });
+    expect(marks).toHaveLength(1);
+    expect(marks[0].attrs).toMatchObject({
+      id: listType.id,
+      markType: "listType",
+      oldAttrs: JSON.stringify({ listType: "Bulleted list" }),
+      newAttrs: JSON.stringify({ listType: "Numbered list" }),
+    });
+  });
+
+  it("rejects a block type change by restoring the original node type", () => {
+    const [change] = applyStructure(
+      { type: "doc", content: [paragraph("Payment terms")] },
+      { type: "doc", content: [heading("Payment terms", 2)] }
+    );
+    expect(change.type).toBe("blockType");
+
+    expect(rejectStructuralChange(editor, change.id)).toBe(true);
+    expect(blockStructure()).toEqual([["paragraph", undefined, undefined, undefined]]);
+    expect(collectTrackMarks(editor)).toEqual([]);
+  });
+
+  it("rejects a heading level change by restoring the old level", () => {
+    const [change] = applyStructure(
+      { type: "doc", content: [heading("Scope", 1)] },
+      { type: "doc", content: [heading("Scope", 3)] }
+    );
+    expect(change.type).toBe("headingLevel");
+
+    expect(rejectStructuralChange(editor, change.id)).toBe(true);
+    expect(blockStructure()).toEqual([["heading", 1, undefined, undefined]]);
+  });
+
+  it("cannot reject a change to the lists around a block", () => {
+    const [listType] = listItemChanges();
+
+    expect(canRejectStructuralChange(listType)).toBe(false);
+    expect(rejectStructuralChange(editor, listType.id)).toBe(false);
+    expect(blockStructure()).toEqual([["paragraph", undefined, "ordered", "center"]]);
+    expect(collectTrackMarks(editor)).toHaveLength(1);
+  });
+
+  it("returns false for an unknown change ID", () => {
+    editor = createTestEditor("Hello world");
+
+    expect(approveStructuralChange(editor, "structure-9")).toBe(false);
+    expect(rejectStructuralChange(editor, "structure-9")).toBe(false);
+  });
+});
+
+// =============================================================================
+// Images and Objects
+// =============================================================================
+
+describe("images and objects", () => {
+  let editor: SuperDocEditor;
+
+  const LOGO = "data:image/png;base64,bG9nbw==";
+  const NEW_LOGO = "data:image/png;base64,bmV3IGxvZ28=";
+
+  function signedBy(party: string, src: string): ProseMirrorJsonNode {
+    return {
+      type: "doc",
+      content: [
+        {
+          type: "paragraph",
+          content: [
+            { type: "text", text: "Signed: " },
+            { type: "image", attrs: { src, size: { width: 120, height: 40 } } },
+            { type: "text", text: ` by the ${party}.` },
+          ],
+        },
+      ],
+    };
+  }
+
+  afterEach(() => {
+    editor?.view.destroy();
+  });
+
+  it("extracts the same text and objects from the editor as from JSON", () => {
+    const json = signedBy("tenant", LOGO);
+    editor = createTestEditorFromJson(json);
+
+    const fromEditor = extractTextWithFormattingFromEditor(editor);
+    const fromJson = extractTextWithFormattingFromJson(json);
+
+    expect(fromEditor.text).toBe(`Signed: ${OBJECT_PLACEHOLDER} by the tenant.`);
+    expect(fromEditor.text).toBe(fromJson.text);
+    expect(fromEditor.objects).toEqual(fromJson.objects);
+  });
+
+  it("maps an object's placeholder to the object's position", () => {
+    editor = createTestEditorFromJson(signedBy("tenant", LOGO));
+
+    const posMap = extractTextWithFormattingFromEditor(editor);
+    const pos = posMap.charToPos[posMap.text.indexOf(OBJECT_PLACEHOLDER)];
+
+    expect(editor.state.doc.nodeAt(pos)?.type.name).toBe("image");
+  });
+
+  it("selects a replaced image after content changes shifted positions", () => {
+    const original = extractTextWithFormattingFromJson(signedBy("tenant", LOGO));
+    editor = createTestEditorFromJson(signedBy("landlord", NEW_LOGO));
+    const posMap = extractTextWithFormattingFromEditor(editor);
+
+    applyTrackChanges(
+      editor,
+      computeChangesWithPositions(original.text, posMap.text, { granularity: "word" }),
+      posMap
+    );
+    const [change] = computeObjectChanges(
+      original.objects,
+      posMap.objects!,
+      original.text,
+      posMap.text
+    );
+    navigateToObjectChange(editor, change);
+
+    const selected = editor.state.doc.nodeAt(editor.state.selection.from);
+    expect(change.type).toBe("objectReplaced");
+    expect(selected?.type.name).toBe("image");
+    expect(selected?.attrs.src).toBe(NEW_LOGO);
+  });
+});
+
+// =============================================================================
+// Revisions Already in the Document
+// =============================================================================
+
+describe("resolveRevisionsInEditor", () => {
+  let editor: SuperDocEditor;
+
+  const WITH_REVISIONS: ProseMirrorJsonNode = {
+    type: "doc",
+    content: [
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "Rent is " },
+          { type: "text", text: "900", marks: [{ type: "trackDelete", attrs: { id: "1" } }] },
+          { type: "text", text: "950", marks: [{ type: "trackInsert", attrs: { id: "2" } }] },
+          { type: "text", text: " a month, " },
+          {
+            type: "text",
+            text: "payable",
+            marks: [
+              { type: "italic" },
+              {
+                type: "trackFormat",
+                attrs: { id: "3", before: [{ type: "bold" }], after: [{ type: "italic" }] },
+              },
+            ],
+          },
+          { type: "text", text: " in advance." },
+        ],
+      },
+    ],
+  };
+
+  afterEach(() => {
+    editor?.view.destroy();
+  });
+
+  it.each(["accepted", "rejected"] as const)(
+    "leaves the editor with the same document as resolving the JSON (%s)",
+    (view) => {
+      editor = createTestEditorFromJson(WITH_REVISIONS);
+
+      expect(resolveRevisionsInEditor(editor, view)).toBe(true);
+
+      expect(editor.getJSON()).toEqual(
+        createTestSchema()
+          .nodeFromJSON(resolveRevisionsInJson(WITH_REVISIONS, view))
+          .toJSON()
+      );
+    }
+  );
+
+  it("restores the formatting from before a rejected formatting revision", () => {
+    editor = createTestEditorFromJson(WITH_REVISIONS);
+
+    resolveRevisionsInEditor(editor, "rejected");
+
+    const marks: string[] = [];
+    editor.state.doc.descendants((node) => {
+      if (node.text === "payable") marks.push(...node.marks.map((m) => m.type.name));
+    });
+    expect(editor.state.doc.textContent).toBe("Rent is 900 a month, payable in advance.");
+    expect(marks).toEqual(["bold"]);
+  });
+
+  it("extracts positions that match the resolved text", () => {
+    editor = createTestEditorFromJson(WITH_REVISIONS);
+
+    resolveRevisionsInEditor(editor, "accepted");
+    const posMap = extractTextWithFormattingFromEditor(editor);
+    const at = posMap.text.indexOf("950");
+
+    expect(posMap.text).toBe("Rent is 950 a month, payable in advance.");
+    expect(editor.state.doc.textBetween(posMap.charToPos[at], posMap.charToPos[at] + 3)).toBe(
+      "950"
+    );
+  });
+
+  it("leaves the document untouched as is", () => {
+    editor = createTestEditorFromJson(WITH_REVISIONS);
+    const before = editor.getJSON();
+
+    expect(resolveRevisionsInEditor(editor, "asIs")).toBe(false);
+    expect(editor.getJSON()).toEqual(before);
+  });
+});
+
+describe("applyMergeEdits", () => {
+  let editor: SuperDocEditor;
+
+  const BASE = "The tenant pays rent monthly.\nNotices must be in writing.";
+  const ATTRIBUTION: Record<MergeSide, TrackChangeUser> = {
+    ours: { name: "Ours", email: "ours@example.com" },
+    theirs: { name: "Theirs", email: "theirs@example.com" },
+    both: { name: "Both", email: "both@example.com" },
+  };
+
+  /** Tracked text and its author, in document order */
+  function trackedText(type: "trackInsert" | "trackDelete"): Array<[string, string]> {
+    const found: Array<[string, string]> = [];
+    editor.state.doc.descendants((node) => {
+      const mark = node.marks.find((m) => m.type.name === type);
+      if (node.text && mark) found.push([node.text, mark.attrs.author]);
+    });
+    return found;
+  }
+
+  afterEach(() => {
+    editor?.view.destroy();
+  });
+
+  it("marks each side's edits with its author", () => {
+    editor = createTestEditor(BASE);
+    const { edits } = computeThreeWayMerge(
+      BASE,
+      "The tenant pays rent quarterly.\nNotices must be in writing.",
+      "The tenant pays rent monthly.\nNotices must be sent in writing."
+    );
+
+    const result = applyMergeEdits(editor, edits, BASE, ATTRIBUTION);
+
+    expect(result).toEqual({ successCount: 2, totalCount: 2, errors: [] });
+    expect(trackedText("trackDelete")).toEqual([["monthly", "Ours"]]);
+    expect(trackedText("trackInsert")).toEqual([
+      ["quarterly", "Ours"],
+      ["sent ", "Theirs"],
+    ]);
+    expect(editor.state.doc.textContent).toBe(
+      "The tenant pays rent monthlyquarterly.Notices must be sent in writing."
+    );
+  });
+
+  it("positions later edits by the base text after earlier ones were applied", () => {
+    editor = createTestEditor(BASE);
+    const merge = computeThreeWayMerge(
+      BASE,
+      "The landlord pays rent quarterly.\nNotices must be in writing.",
+      "The tenant pays rent weekly.\nNotices must be sent in writing."
+    );
+    applyMergeEdits(editor, merge.edits, BASE, ATTRIBUTION);
+
+    const result = applyMergeEdits(
+      editor,
+      resolveConflict(merge.conflicts[0], "both"),
+      BASE,
+      ATTRIBUTION
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(trackedText("trackInsert")).toEqual([
+      ["landlord", "Ours"],
+      ["quarterly", "Ours"],
+      ["weekly", "Theirs"],
+      ["sent ", "Theirs"],
+    ]);
+  });
+
+  it("uses the content change IDs so edits can be approved", () => {
+    editor = createTestEditor(BASE);
+    const edits = resolveConflict(
+      { id: "conflict-0", baseStart: 21, baseEnd: 28, base: "monthly", ours: "quarterly", theirs: "weekly" },
+      "theirs"
+    );
+    applyMergeEdits(editor, edits, BASE, ATTRIBUTION);
+
+    expect(approveChange(editor, "conflict-0-theirs", "replacement")).toBe(true);
+    expect(editor.state.doc.textContent).toBe(
+      "The tenant pays rent weekly.Notices must be in writing."
+    );
+  });
+
+  it("reports an error when the editor does not show the base", () => {
+    editor = createTestEditor("Something else entirely.");
+
+    const result = applyMergeEdits(
+      editor,
+      [{ id: "merge-0", side: "ours", baseStart: 0, baseEnd: 3, oldContent: "The", content: "A" }],
+      BASE,
+      ATTRIBUTION
+    );
+
+    expect(result.successCount).toBe(0);
+    expect(result.errors).toHaveLength(1);
+  });
+});
+
+describe("navigateToMergeConflict", () => {
+  it("selects the conflict's base text", () => {
+    const base = "The tenant pays rent monthly.";
+    const editor = createTestEditor(base);
+
+    navigateToMergeConflict(
+      editor,
+      { id: "conflict-0", baseStart: 21, baseEnd: 28, base: "monthly", ours: "", theirs: "" },
+      base
+    );
+
+    const { from, to } = editor.state.selection;
+    expect(editor.state.doc.textBetween(from, to)).toBe("monthly");
+    editor.view.destroy();
+  });
+});
@@ -8,19 +8,37 @@ import type {
   MarkType,
   Mark as PMMark,
   Node as PMNode,
+  NodeType,
   Schema,
 } from "prosemirror-model";
-import type { Transaction } from "prosemirror-state";
+import { Selection, type Transaction } from "prosemirror-state";
 import {
   getDeletionSearchContext,
   hasSufficientContext,
 } from "./diff-computation";
+import { OBJECT_PLACEHOLDER } from "./object-diff";
+import { parseBlockTypeLabel } from "./structure-diff";
+import {
+  extractTextWithFormattingFromEditor,
+  extractTextWithPositions,
+  HEADING_STYLE,
+  parseLayoutAttr,
+} from "./text-extraction";
 import type {
+  ChangeType,
   ChangeWithPosition,
   DocumentModification,
   FormattingChangeWithPosition,
+  MergeConflict,
+  MergeEdit,
+  MergeSide,
+  ObjectChange,
   PositionMap,
   PositionMapWithFormatting,
+  ProseMirrorMarkAttrs,
+  StructuralChange,
+  StructuralChangeType,
+  StructuralChangeWithPosition,
   SuperDocEditor,
   TrackChangeUser,
   TrackChangesResult,
@@ -31,6 +49,11 @@ import type {
  */
 const TRACK_MARK_NAMES = ["trackInsert", "trackDelete", "trackFormat"] as const;
 
+/**
+ * Marker shown at a paragraph split (as inserted text) or merge (as deleted text)
+ */
+export const PARAGRAPH_MARKER = "¶";
+
 /**
  * Default user for comparison track changes
  */
@@ -57,6 +80,24 @@ export function buildModifications(
   const modifications: DocumentModification[] = [];
 
   for (const change of changes) {
+    // Moves need two modifications: the destination (insert) and the source (delete)
+    if (change.type === "move") {
+      modifications.push(...mapMove(editor, change, posMap));
+      continue;
+    }
+
+    // Inserted table rows and columns mark each of their cells
+    if (change.ranges) {
+      modifications.push(...mapRanges(change, posMap));
+      continue;
+    }
+
+    // Replacements over several paragraphs are marked paragraph by paragraph
+    if (change.type === "replacement" && change.oldContent?.includes("\n")) {
+      modifications.push(...mapParagraphReplacement(change, posMap));
+      continue;
+    }
+
     const modification = mapChangeToModification(editor, change, posMap);
     if (modification) {
       modifications.push(modification);
@@ -88,9 +129,128 @@ function mapChangeToModification(
     return mapDeletion(editor, change, posMap);
   }
 
+  // Splits and merges are marked at the paragraph boundary
+  if (
+    (change.type === "split" || change.type === "merge") &&
+    change.charStart !== undefined &&
+    change.charEnd !== undefined
+  ) {
+    return mapParagraphBoundary(change, posMap);
+  }
+
   return null;
 }
 
+/**
+ * Map a split or merge. A split's marker goes at the end of the first
+ * paragraph's text; a merge covers the whitespace that replaced the line break.
+ */
+function mapParagraphBoundary(
+  change: ChangeWithPosition,
+  posMap: PositionMap
+): DocumentModification | null {
+  if (change.type === "merge") return mapInsertionOrReplacement(change, posMap);
+
+  const lastCharPos = posMap.charToPos[change.charStart! - 1];
+  if (lastCharPos === undefined) {
+    console.warn(
+      `Position mapping failed for split before "${change.content.substring(0, 30)}..."`
+    );
+    return null;
+  }
+
+  return { change, pmFrom: lastCharPos + 1, pmTo: lastCharPos + 1 };
+}
+
+/**
+ * Map a move to its destination and source modifications.
+ * Both ends carry the same change so their track marks share one ID.
+ */
+function mapMove(
+  editor: SuperDocEditor,
+  change: ChangeWithPosition,
+  posMap: PositionMap
+): DocumentModification[] {
+  const modifications: DocumentModification[] = [];
+
+  if (change.charStart !== undefined && change.charEnd !== undefined) {
+    const destination = mapInsertionOrReplacement(change, posMap);
+    if (destination) modifications.push(destination);
+  }
+
+  const source = mapDeletion(editor, change, posMap);
+  if (source) modifications.push(source);
+
+  return modifications;
+}
+
+/**
+ * Map each range of a multi-cell change. All modifications carry the same
+ * change so their track marks share one ID.
+ */
+function mapRanges(
+  change: ChangeWithPosition,
+  posMap: PositionMap
+): DocumentModification[] {
+  const modifications: DocumentModification[] = [];
+
+  for (const range of change.ranges ?? []) {
+    const modification = mapInsertionOrReplacement(
+      { ...change, charStart: range.charStart, charEnd: range.charEnd },
+      posMap
+    );
+    if (modification) modifications.push({ ...modification, change });
+  }
+
+  return modifications;
+}
+
+/**
+ * Map a replacement spanning paragraph breaks, as paragraph and sentence
+ * granularity produce, to one replacement per modified paragraph so deleted
+ * text is never inserted with a line break in it. Deleted paragraphs pair up
+ * with modified ones in order; any left over join the last pair's deleted
+ * text. All modifications carry the change's ID.
+ */
+function mapParagraphReplacement(
+  change: ChangeWithPosition,
+  posMap: PositionMap
+): DocumentModification[] {
+  const modifications: DocumentModification[] = [];
+  const lines = change.content.split("\n");
+  const oldLines = change.oldContent!.split("\n");
+  let lineStart = change.charStart!;
+  let pendingOld = "";
+
+  lines.forEach((line, i) => {
+    const last = i === lines.length - 1;
+    const old = last ? oldLines.slice(i).join(" ") : (oldLines[i] ?? "");
+    pendingOld = [pendingOld, old.trim()].filter(Boolean).join(" ");
+
+    const content = line.trim();
+    const charStart = lineStart + line.length - line.trimStart().length;
+    lineStart += line.length + 1;
+    // Deleted text of an empty paragraph moves on to the next one
+    if (!content) return;
+
+    const modification = mapInsertionOrReplacement(
+      {
+        ...change,
+        type: pendingOld ? "replacement" : "insertion",
+        content,
+        oldContent: pendingOld || undefined,
+        charStart,
+        charEnd: charStart + content.length,
+      },
+      posMap
+    );
+    if (modification) modifications.push(modification);
+    pendingOld = "";
+  });
+
+  return modifications;
+}
+
 /**
  * Map an insertion or replacement change to positions
  */
@@ -156,6 +316,11 @@ function mapDeletion(
       }
     }
 
+    // Table text must land inside a cell, not between cells or rows
+    if (pmInsertAt !== undefined && change.table) {
+      pmInsertAt = snapIntoTextblock(editor, pmInsertAt);
+    }
+
     if (pmInsertAt !== undefined) {
       return {
         change,
@@ -172,6 +337,20 @@ function mapDeletion(
   return null;
 }
 
+/**
+ * Move a position that is between block nodes into the next textblock (the
+ * newline before an empty table cell maps to the start of the cell's node)
+ */
+function snapIntoTextblock(editor: SuperDocEditor, pos: number): number {
+  const { doc } = editor.state;
+  const $pos = doc.resolve(Math.min(pos, doc.content.size));
+  if ($pos.parent.inlineContent) return pos;
+
+  const selection =
+    Selection.findFrom($pos, 1, true) ?? Selection.findFrom($pos, -1, true);
+  return selection ? selection.from : pos;
+}
+
 /**
  * Sort modifications for safe application (descending by position).
  * Modifications should be applied from end to start to avoid position shifts.
@@ -288,10 +467,16 @@ export function createTrackDeleteMark(
  * Apply track changes to a document (legacy method using marks).
  * This is the main entry point for applying diff results as track changes.
  *
+ * Changes are marked at the granularity they were computed at: each carries
+ * its exact range in the modified text, so no granularity option is needed
+ * here. Coarse replacements spanning several paragraphs are marked paragraph
+ * by paragraph (see `mapParagraphReplacement`).
+ *
  * @param editor - The editor instance
  * @param changes - Changes to apply
  * @param posMap - Position mapping from text extraction
- * @param user - User attribution for track changes (default: COMPARISON_USER)
+ * @param user - User attribution for track changes (default: COMPARISON_USER),
+ *   for changes without their own attribution (see ChangeWithPosition.attribution)
  * @returns Result with success count and errors
  */
 export function applyTrackChanges(
@@ -331,8 +516,8 @@ export function applyTrackChanges(
         schema,
         trackInsertMark,
         trackDeleteMark,
-        user,
-        now
+        mod.change.attribution?.user ?? user,
+        mod.change.attribution?.date ?? now
       );
       successCount++;
     } catch (e) {
@@ -408,6 +593,31 @@ function generateChangeCommentHtml(change: ChangeWithPosition): string {
         </div>
       `.trim();
 
+    case "move":
+      return `
+        <div style="font-family: system-ui, sans-serif;">
+          <p style="margin: 0 0 8px 0; color: #0369a1; font-weight: 600;">
+            ⇅ Text Moved
+          </p>
+          <p style="margin: 0 0 12px 0; padding: 8px; background: #e0f2fe; border-radius: 4px; font-size: 13px;">
+            "${escapeHtml(truncateText(change.content, 150))}"
+          </p>
+        </div>
+      `.trim();
+
+    case "split":
+    case "merge":
+      return `
+        <div style="font-family: system-ui, sans-serif;">
+          <p style="margin: 0 0 8px 0; color: #7c3aed; font-weight: 600;">
+            ${PARAGRAPH_MARKER} ${change.type === "split" ? "Paragraph Split" : "Paragraphs Merged"}
+          </p>
+          <p style="margin: 0 0 12px 0; padding: 8px; background: #ede9fe; border-radius: 4px; font-size: 13px;">
+            ${change.type === "split" ? "New paragraph" : "Joined"}: "${escapeHtml(truncateText(change.content, 150))}"
+          </p>
+        </div>
+      `.trim();
+
     default:
       return `<p>Modified content - please review.</p>`;
   }
@@ -511,6 +721,8 @@ export function addCommentsToChanges(
  * For insertions: The inserted text is kept and the track mark is removed.
  * For deletions: The deleted text is removed from the document.
  * For replacements: Both the insertion is kept and the deletion is removed.
+ * For moves: The text is kept at its destination and removed from its source.
+ * For splits and merges: The marker is removed and the paragraphs stay as they are.
  *
  * NOTE: SuperDoc's native commands don't work with programmatically-created marks
  * because they're not registered in SuperDoc's internal track changes state.
@@ -524,7 +736,7 @@ export function addCommentsToChanges(
 export function approveChange(
   editor: SuperDocEditor,
   changeId: string,
-  changeType?: "insertion" | "deletion" | "replacement"
+  changeType?: ChangeType
 ): boolean {
   const result = manuallyAcceptChange(editor, changeId, changeType);
 
@@ -551,8 +763,12 @@ export function approveChange(
 function manuallyAcceptChange(
   editor: SuperDocEditor,
   changeId: string,
-  _changeType?: "insertion" | "deletion" | "replacement"
+  changeType?: ChangeType
 ): boolean {
+  if (changeType === "split" || changeType === "merge") {
+    return resolveParagraphBoundary(editor, changeId, changeType, true);
+  }
+
   const schema = editor.schema;
   const trackInsertMark = schema.marks.trackInsert;
   const trackDeleteMark = schema.marks.trackDelete;
@@ -605,6 +821,8 @@ function manuallyAcceptChange(
  * For insertions: The inserted text is removed from the document.
  * For deletions: The deleted text is restored to the document.
  * For replacements: The new text is removed and old text is restored.
+ * For moves: The text is removed from its destination and restored at its source.
+ * For splits and merges: The paragraph break is undone (joined or split again).
  *
  * NOTE: SuperDoc's native commands don't work with programmatically-created marks
  * because they're not registered in SuperDoc's internal track changes state.
@@ -618,7 +836,7 @@ function manuallyAcceptChange(
 export function rejectChange(
   editor: SuperDocEditor,
   changeId: string,
-  changeType?: "insertion" | "deletion" | "replacement"
+  changeType?: ChangeType
 ): boolean {
   const result = manuallyRejectChange(editor, changeId, changeType);
 
@@ -645,8 +863,12 @@ export function rejectChange(
 function manuallyRejectChange(
   editor: SuperDocEditor,
   changeId: string,
-  _changeType?: "insertion" | "deletion" | "replacement"
+  changeType?: ChangeType
 ): boolean {
+  if (changeType === "split" || changeType === "merge") {
+    return resolveParagraphBoundary(editor, changeId, changeType, false);
+  }
+
   const schema = editor.schema;
   const trackInsertMark = schema.marks.trackInsert;
   const trackDeleteMark = schema.marks.trackDelete;
@@ -732,6 +954,55 @@ function applyModification(
         date
       );
 
+    case "move":
+      // The source end is re-inserted as deleted text, the destination is marked inserted
+      if (isDeletion) {
+        return applyDeletion(
+          tr,
+          change,
+          pmFrom,
+          schema,
+          trackDeleteMark,
+          user,
+          date,
+          contextRange
+        );
+      }
+      return applyInsertion(
+        tr,
+        change,
+        pmFrom,
+        pmTo,
+        trackInsertMark,
+        user,
+        date
+      );
+
+    case "split":
+      return applySplit(
+        tr,
+        change,
+        pmFrom,
+        schema,
+        trackInsertMark,
+        trackDeleteMark,
+        user,
+        date
+      );
+
+    case "merge":
+      return applyMerge(
+        tr,
+        change,
+        pmFrom,
+        pmTo,
+        schema,
+        trackInsertMark,
+        trackDeleteMark,
+        user,
+        date
+      );
+
     case "deletion":
       if (isDeletion) {
         return applyDeletion(
@@ -845,6 +1116,146 @@ function applyDeletion(
   return tr;
 }
 
+/**
+ * Apply a paragraph split: a marker inserted at the end of the first
+ * paragraph, after the whitespace the split removed (shown as deleted)
+ */
+function applySplit(
+  tr: Transaction,
+  change: ChangeWithPosition,
+  pmFrom: number,
+  schema: Schema,
+  trackInsertMark: MarkType,
+  trackDeleteMark: MarkType,
+  user: TrackChangeUser,
+  date: string
+): Transaction {
+  const nodes: PMNode[] = [];
+  if (change.oldContent) {
+    nodes.push(
+      schema.text(change.oldContent, [
+        createTrackDeleteMark(trackDeleteMark, `delete-${change.id}`, user, date),
+      ])
+    );
+  }
+  nodes.push(
+    schema.text(PARAGRAPH_MARKER, [
+      createTrackInsertMark(trackInsertMark, `insert-${change.id}`, user, date),
+    ])
+  );
+  return tr.insert(pmFrom, nodes);
+}
+
+/**
+ * Apply a paragraph merge: the joining whitespace is marked inserted and a
+ * marker for the removed paragraph break is inserted before it as deleted text
+ */
+function applyMerge(
+  tr: Transaction,
+  change: ChangeWithPosition,
+  pmFrom: number,
+  pmTo: number,
+  schema: Schema,
+  trackInsertMark: MarkType,
+  trackDeleteMark: MarkType,
+  user: TrackChangeUser,
+  date: string
+): Transaction {
+  tr = tr.addMark(
+    pmFrom,
+    pmTo,
+    createTrackInsertMark(trackInsertMark, `insert-${change.id}`, user, date)
+  );
+  return tr.insert(
+    pmFrom,
+    schema.text(PARAGRAPH_MARKER, [
+      createTrackDeleteMark(trackDeleteMark, `delete-${change.id}`, user, date),
+    ])
+  );
+}
+
+/**
+ * Accept or reject a paragraph split or merge.
+ *
+ * The marker is always removed. Accepting a split drops the whitespace it
+ * replaced; rejecting it keeps that whitespace and joins the paragraphs at
+ * the marker. Accepting a merge keeps the joining whitespace; rejecting it
+ * drops the whitespace and splits the paragraph at the marker again.
+ */
+function resolveParagraphBoundary(
+  editor: SuperDocEditor,
+  changeId: string,
+  changeType: "split" | "merge",
+  accept: boolean
+): boolean {
+  const { trackInsert: trackInsertMark, trackDelete: trackDeleteMark } =
+    editor.schema.marks;
+  if (!trackInsertMark || !trackDeleteMark) return false;
+
+  const insertMarkId = `insert-${changeId}`;
+  const deleteMarkId = `delete-${changeId}`;
+  const markerId = changeType === "split" ? insertMarkId : deleteMarkId;
+
+  // Process marks from end to start to avoid position shifts
+  const relevantMarks = findTrackChangeMarks(editor)
+    .filter((m) => m.id === insertMarkId || m.id === deleteMarkId)
+    .sort((a, b) => b.from - a.from);
+  const marker = relevantMarks.find((m) => m.id === markerId);
+  if (!marker) return false;
+
+  // Whitespace around the marker: removed by a split, added by a merge
+  const keepWhitespace = changeType === "split" ? !accept : accept;
+
+  let tr = editor.state.tr;
+  for (const mark of relevantMarks) {
+    const mappedFrom = tr.mapping.map(mark.from);
+    const mappedTo = tr.mapping.map(mark.to);
+    if (mark.id === markerId || !keepWhitespace) {
+      tr = tr.delete(mappedFrom, mappedTo);
+    } else {
+      tr = tr.removeMark(
+        mappedFrom,
+        mappedTo,
+        mark.id === insertMarkId ? trackInsertMark : trackDeleteMark
+      );
+    }
+  }
+
+  if (!accept) {
+    const at = tr.mapping.map(marker.from);
+    tr = changeType === "split" ? joinParagraphsAt(tr, at) : splitParagraphAt(tr, at);
+  }
+
+  editor.view.dispatch(tr);
+  return true;
+}
+
+/**
+ * Join the textblock containing `at` with the next one, removing everything
+ * from `at` to the start of the next textblock's text
+ */
+function joinParagraphsAt(tr: Transaction, at: number): Transaction {
+  const $at = tr.doc.resolve(at);
+  const next = Selection.findFrom(tr.doc.resolve($at.after()), 1, true);
+  return next ? tr.delete(at, next.from) : tr;
+}
+
+/**
+ * Split the textblock at `at`. A paragraph in a list item splits the list
+ * item too, so each half gets its own bullet.
+ */
+function splitParagraphAt(tr: Transaction, at: number): Transaction {
+  const $at = tr.doc.resolve(at);
+  const inListItem =
+    $at.depth > 1 && $at.node($at.depth - 1).type.name === "listItem";
+
+  try {
+    return tr.split(at, inListItem ? 2 : 1);
+  } catch {
+    return tr.split(at);
+  }
+}
+
 /**
  * Find all track change marks in the document with their positions
  */
@@ -975,101 +1386,426 @@ export function applyFormattingTrackChanges(
 }
 
 /**
- * Navigate to a formatting change in the editor.
- * Finds the trackFormat mark by ID and selects it.
+ * Apply structural changes as trackFormat marks over their blocks' text.
  *
- * @param editor - The editor instance
- * @param change - The formatting change to navigate to
+ * A block can only carry one trackFormat mark, so all changes to the same
+ * block share one mark: its id lists their IDs (space-separated), markType
+ * their types, and oldAttrs/newAttrs their values keyed by type. Apply these
+ * before formatting changes so a formatting mark wins on the text it covers.
+ *
+ * @param editor - The SuperDoc editor instance
+ * @param structuralChanges - Structural changes to mark
+ * @param posMap - Position map for the modified document
+ * @param user - User info for attribution
+ * @returns Result with success count and any errors
  */
-export function navigateToFormattingChange(
+export function applyStructuralTrackChanges(
   editor: SuperDocEditor,
-  change: FormattingChangeWithPosition
-): void {
-  const doc = editor.state.doc;
-  let foundFrom: number | null = null;
-  let foundTo: number | null = null;
-
-  // Search for the trackFormat mark with matching ID
-  doc.descendants((node, pos) => {
-    if (foundFrom !== null) return false; // Stop if already found
+  structuralChanges: StructuralChangeWithPosition[],
+  posMap: PositionMap | PositionMapWithFormatting,
+  user: TrackChangeUser = COMPARISON_USER
+): TrackChangesResult {
+  const trackFormatMark = editor.schema.marks.trackFormat;
 
-    if (node.isText) {
-      for (const mark of node.marks) {
-        if (mark.type.name === "trackFormat" && mark.attrs.id === change.id) {
-          foundFrom = pos;
-          foundTo = pos + node.nodeSize;
-          return false; // Stop traversal
-        }
-      }
-    }
-    return true; // Continue traversal
-  });
+  if (!trackFormatMark) {
+    console.warn("trackFormat mark not available in schema");
+    return {
+      successCount: 0,
+      totalCount: structuralChanges.length,
+      errors: ["Schema missing trackFormat mark"],
+    };
+  }
 
-  if (foundFrom === null || foundTo === null) {
-    console.warn("Could not find trackFormat mark for change:", change.id);
-    return;
+  // Group changes by block
+  const blocks = new Map<string, StructuralChangeWithPosition[]>();
+  for (const change of structuralChanges) {
+    const key = `${change.charStart}:${change.charEnd}`;
+    blocks.set(key, [...(blocks.get(key) ?? []), change]);
   }
 
-  // Set selection
-  editor.commands.setTextSelection({ from: foundFrom, to: foundTo });
+  let tr = editor.state.tr;
+  const now = new Date().toISOString();
+  let successCount = 0;
+  const errors: string[] = [];
 
-  // Scroll into view
-  setTimeout(() => {
-    try {
-      const findScrollContainer = (
-        startElement: HTMLElement | null
-      ): HTMLElement | null => {
-        let current = startElement;
-        while (current) {
-          const style = window.getComputedStyle(current);
-          const hasOverflow =
-            style.overflow === "auto" ||
-            style.overflow === "scroll" ||
-            style.overflowY === "auto" ||
-            style.overflowY === "scroll";
-          const isScrollable = current.scrollHeight > current.clientHeight + 10;
+  for (const changes of blocks.values()) {
+    const [first] = changes;
+    const pmFrom = posMap.charToPos[first.charStart];
+    const pmTo = posMap.charToPos[first.charEnd - 1];
 
-          if (hasOverflow && isScrollable) {
-            return current;
-          }
-          current = current.parentElement;
-        }
-        return null;
-      };
+    if (pmFrom === undefined || pmTo === undefined) {
+      errors.push(
+        `Position mapping failed for structural change: ${first.content.substring(0, 20)}...`
+      );
+      continue;
+    }
 
-      const presentationEditor = editor.presentationEditor as unknown as {
-        visibleHost?: HTMLElement;
-        element?: HTMLElement;
-      } | null;
+    const valuesByType = (value: "oldValue" | "newValue") =>
+      JSON.stringify(
+        Object.fromEntries(changes.map((change) => [change.type, change[value] ?? null]))
+      );
 
-      const startElement =
-        presentationEditor?.visibleHost ||
-        presentationEditor?.element ||
-        (document.querySelector(".presentation-editor") as HTMLElement);
+    try {
+      const mark = trackFormatMark.create({
+        id: changes.map((change) => change.id).join(" "),
+        author: user.name,
+        authorEmail: user.email,
+        authorImage: user.image,
+        date: now,
+        changeType: "structure",
+        markType: changes.map((change) => change.type).join(","),
+        oldAttrs: valuesByType("oldValue"),
+        newAttrs: valuesByType("newValue"),
+      });
 
-      let scrollContainer = findScrollContainer(startElement);
+      tr = tr.addMark(pmFrom, pmTo + 1, mark);
+      successCount += changes.length;
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      errors.push(`Failed to apply structural change: ${errorMsg}`);
+    }
+  }
 
-      if (!scrollContainer) {
-        const superdocMain = document.getElementById("superdoc-main");
-        scrollContainer = findScrollContainer(superdocMain);
+  if (successCount > 0) {
+    editor.view.dispatch(tr);
+  }
+
+  console.log(
+    `Structural track changes applied: ${successCount}/${structuralChanges.length}`
+  );
+
+  return { successCount, totalCount: structuralChanges.length, errors };
+}
+
+/**
+ * Accept a formatting change: the new formatting is kept and the trackFormat
+ * mark is removed.
+ *
+ * @param editor - The editor instance
+ * @param changeId - The formatting change ID to accept
+ * @returns True if successful
+ */
+export function approveFormattingChange(
+  editor: SuperDocEditor,
+  changeId: string
+): boolean {
+  return resolveFormattingChange(editor, changeId, true);
+}
+
+/**
+ * Reject a formatting change: the original formatting is restored from the
+ * mark's stored oldAttrs and the trackFormat mark is removed.
+ *
+ * For formatAdded: The added mark is removed.
+ * For formatRemoved: The removed mark is added back with its old attributes.
+ * For formatModified: The mark is replaced by one with its old attributes.
+ *
+ * @param editor - The editor instance
+ * @param changeId - The formatting change ID to reject
+ * @returns True if successful
+ */
+export function rejectFormattingChange(
+  editor: SuperDocEditor,
+  changeId: string
+): boolean {
+  return resolveFormattingChange(editor, changeId, false);
+}
+
+/**
+ * Parse mark attributes stored as JSON on a trackFormat mark
+ */
+function parseStoredAttrs(value: unknown): ProseMirrorMarkAttrs | undefined {
+  if (typeof value !== "string") return undefined;
+  try {
+    return JSON.parse(value) as ProseMirrorMarkAttrs;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Remove a formatting change's trackFormat mark, first restoring the original
+ * formatting when rejecting
+ */
+function resolveFormattingChange(
+  editor: SuperDocEditor,
+  changeId: string,
+  accept: boolean
+): boolean {
+  const trackFormatMark = editor.schema.marks.trackFormat;
+  if (!trackFormatMark) return false;
+
+  const ranges: Array<{ from: number; to: number; mark: PMMark }> = [];
+  editor.state.doc.descendants((node, pos) => {
+    if (node.isText) {
+      const mark = node.marks.find(
+        (m) => m.type === trackFormatMark && m.attrs.id === changeId
+      );
+      if (mark) ranges.push({ from: pos, to: pos + node.nodeSize, mark });
+    }
+    return true;
+  });
+  if (ranges.length === 0) return false;
+
+  let tr = editor.state.tr;
+  for (const { from, to, mark } of ranges) {
+    if (!accept) {
+      const markType = editor.schema.marks[mark.attrs.markType as string];
+      if (!markType) {
+        console.warn(`Cannot restore formatting: unknown mark "${mark.attrs.markType}"`);
+        return false;
       }
 
-      if (scrollContainer && foundFrom !== null) {
-        const docLength = editor.state.doc.content.size;
-        const positionRatio = foundFrom / docLength;
-        const maxScroll =
-          scrollContainer.scrollHeight - scrollContainer.clientHeight;
-        const scrollTo = positionRatio * maxScroll;
+      if (mark.attrs.changeType === "formatAdded") {
+        tr = tr.removeMark(from, to, markType);
+      } else {
+        // Adding a mark replaces any mark of the same type (formatModified)
+        tr = tr.addMark(from, to, markType.create(parseStoredAttrs(mark.attrs.oldAttrs)));
+      }
+    }
+    tr = tr.removeMark(from, to, mark);
+  }
 
-        scrollContainer.scrollTo({
-          top: Math.max(0, scrollTo),
-          behavior: "smooth",
-        });
+  editor.view.dispatch(tr);
+  return true;
+}
+
+/**
+ * Structural change types stored on the block itself, which rejecting can
+ * restore. Lists and blockquotes are nodes around the block, so changes to
+ * them can only be accepted.
+ */
+const RESTORABLE_STRUCTURAL_TYPES: ReadonlySet<StructuralChangeType> = new Set([
+  "blockType",
+  "headingLevel",
+  "alignment",
+  "indent",
+  "spacing",
+]);
+
+/**
+ * Whether rejecting a structural change can restore the block's original
+ * structure
+ */
+export function canRejectStructuralChange(change: StructuralChange): boolean {
+  return RESTORABLE_STRUCTURAL_TYPES.has(change.type);
+}
+
+/**
+ * Accept a structural change: the new structure is kept and the change is
+ * removed from its block's trackFormat mark (the mark goes with the block's
+ * last change).
+ *
+ * @param editor - The editor instance
+ * @param changeId - The structural change ID to accept
+ * @returns True if successful
+ */
+export function approveStructuralChange(
+  editor: SuperDocEditor,
+  changeId: string
+): boolean {
+  return resolveStructuralChange(editor, changeId, true);
+}
+
+/**
+ * Reject a structural change: the block's original type, heading level,
+ * alignment, indent or spacing is restored from the mark's stored oldAttrs,
+ * then the change is removed from the mark. List and blockquote changes
+ * cannot be rejected (see canRejectStructuralChange).
+ *
+ * @param editor - The editor instance
+ * @param changeId - The structural change ID to reject
+ * @returns True if successful
+ */
+export function rejectStructuralChange(
+  editor: SuperDocEditor,
+  changeId: string
+): boolean {
+  return resolveStructuralChange(editor, changeId, false);
+}
+
+/**
+ * Parse the per-type values stored as JSON on a structural trackFormat mark
+ */
+function parseStoredValues(value: unknown): Record<string, string | null> {
+  if (typeof value !== "string") return {};
+  try {
+    return JSON.parse(value) as Record<string, string | null>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * The type and attributes a block had before a structural change, or
+ * undefined when they cannot be restored
+ */
+function restoreBlockStructure(
+  schema: Schema,
+  block: PMNode,
+  type: StructuralChangeType,
+  value: string | null
+): { type: NodeType; attrs: Record<string, unknown> } | undefined {
+  const attrs: Record<string, unknown> = { ...block.attrs };
+  switch (type) {
+    case "alignment":
+      return { type: block.type, attrs: { ...attrs, textAlign: value } };
+    case "indent":
+    case "spacing":
+      return { type: block.type, attrs: { ...attrs, [type]: parseLayoutAttr(value) } };
+    case "headingLevel":
+    case "blockType": {
+      if (value === null) return undefined;
+      const { type: typeName, headingLevel } =
+        type === "headingLevel"
+          ? { type: "heading", headingLevel: Number(value) }
+          : parseBlockTypeLabel(value);
+      const styleId = typeof attrs.styleId === "string" ? attrs.styleId : undefined;
+      const styledHeading = styleId !== undefined && HEADING_STYLE.test(styleId);
+
+      // Headings stored as styled paragraphs are restored through their style
+      if (headingLevel !== undefined && block.type.name !== "heading" && "styleId" in attrs) {
+        const level = String(headingLevel);
+        const restoredStyle = styledHeading ? styleId.replace(/\d$/, level) : `Heading${level}`;
+        return { type: block.type, attrs: { ...attrs, styleId: restoredStyle } };
       }
-    } catch {
-      // Silently fail - selection is still set
+
+      const nodeType = schema.nodes[typeName];
+      if (!nodeType) return undefined;
+      return {
+        type: nodeType,
+        attrs: {
+          ...attrs,
+          ...(headingLevel !== undefined && { level: headingLevel }),
+          // The heading style is what made the paragraph a heading
+          ...(headingLevel === undefined && styledHeading && { styleId: null }),
+        },
+      };
     }
-  }, 100);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Remove a structural change from its block's trackFormat mark, first
+ * restoring the block's original structure when rejecting
+ */
+function resolveStructuralChange(
+  editor: SuperDocEditor,
+  changeId: string,
+  accept: boolean
+): boolean {
+  const trackFormatMark = editor.schema.marks.trackFormat;
+  if (!trackFormatMark) return false;
+
+  const ranges: Array<{ from: number; to: number; mark: PMMark }> = [];
+  editor.state.doc.descendants((node, pos) => {
+    if (node.isText) {
+      const mark = node.marks.find(
+        (m) =>
+          m.type === trackFormatMark &&
+          m.attrs.changeType === "structure" &&
+          String(m.attrs.id).split(" ").includes(changeId)
+      );
+      if (mark) ranges.push({ from: pos, to: pos + node.nodeSize, mark });
+    }
+    return true;
+  });
+  if (ranges.length === 0) return false;
+
+  const { mark } = ranges[0];
+  const ids = String(mark.attrs.id).split(" ");
+  const types = String(mark.attrs.markType).split(",") as StructuralChangeType[];
+  const oldValues = parseStoredValues(mark.attrs.oldAttrs);
+  const newValues = parseStoredValues(mark.attrs.newAttrs);
+  const type = types[ids.indexOf(changeId)];
+
+  let tr = editor.state.tr;
+  if (!accept) {
+    const $from = tr.doc.resolve(ranges[0].from);
+    const restored = restoreBlockStructure(
+      editor.schema,
+      $from.parent,
+      type,
+      oldValues[type] ?? null
+    );
+    if (!restored) {
+      console.warn(`Cannot restore the block's ${type} for change:`, changeId);
+      return false;
+    }
+    tr = tr.setNodeMarkup($from.before(), restored.type, restored.attrs);
+  }
+
+  // The block's other changes keep the mark
+  const remaining = ids.flatMap((id, i) => (id === changeId ? [] : [{ id, type: types[i] }]));
+  const valuesByType = (values: Record<string, string | null>) =>
+    JSON.stringify(Object.fromEntries(remaining.map((c) => [c.type, values[c.type] ?? null])));
+  for (const { from, to } of ranges) {
+    tr = tr.removeMark(from, to, mark);
+    if (remaining.length > 0) {
+      tr = tr.addMark(
+        from,
+        to,
+        trackFormatMark.create({
+          ...mark.attrs,
+          id: remaining.map((c) => c.id).join(" "),
+          markType: remaining.map((c) => c.type).join(","),
+          oldAttrs: valuesByType(oldValues),
+          newAttrs: valuesByType(newValues),
+        })
+      );
+    }
+  }
+
+  editor.view.dispatch(tr);
+  return true;
+}
+
+/**
+ * Navigate to a formatting or structural change in the editor.
+ * Finds the trackFormat mark by ID and selects it.
+ *
+ * @param editor - The editor instance
+ * @param change - The formatting or structural change to navigate to
+ */
+export function navigateToFormattingChange(
+  editor: SuperDocEditor,
+  change: FormattingChangeWithPosition | StructuralChangeWithPosition
+): void {
+  const doc = editor.state.doc;
+  let foundFrom: number | null = null;
+  let foundTo: number | null = null;
+
+  // Search for the trackFormat mark with matching ID
+  doc.descendants((node, pos) => {
+    if (foundFrom !== null) return false; // Stop if already found
+
+    if (node.isText) {
+      for (const mark of node.marks) {
+        // Structural marks list the IDs of all changes to their block
+        if (
+          mark.type.name === "trackFormat" &&
+          String(mark.attrs.id).split(" ").includes(change.id)
+        ) {
+          foundFrom = pos;
+          foundTo = pos + node.nodeSize;
+          return false; // Stop traversal
+        }
+      }
+    }
+    return true; // Continue traversal
+  });
+
+  if (foundFrom === null || foundTo === null) {
+    console.warn("Could not find trackFormat mark for change:", change.id);
+    return;
+  }
+
+  // Set selection
+  editor.commands.setTextSelection({ from: foundFrom, to: foundTo });
+
+  scrollToPosition(editor, foundFrom);
 
   editor.view.focus();
 }
@@ -1080,20 +1816,30 @@ export function navigateToFormattingChange(
  *
  * @param editor - The editor instance
  * @param change - The change to navigate to
+ * @param end - For moves, which end to jump to (default: "destination")
  */
 export async function navigateToChange(
   editor: SuperDocEditor,
-  change: ChangeWithPosition
+  change: ChangeWithPosition,
+  end: "source" | "destination" = "destination"
 ): Promise<void> {
   // Find all track change marks in document
   const trackMarks = findTrackChangeMarks(editor);
 
-  // Determine which mark type to look for
-  const targetType = change.type === "deletion" ? "delete" : "insert";
+  // Determine which mark type to look for (a move's source and a merge's
+  // marker are shown as deleted text)
+  const targetType =
+    change.type === "deletion" ||
+    change.type === "merge" ||
+    (change.type === "move" && end === "source")
+      ? "delete"
+      : "insert";
 
   // Find mark matching this change by ID
   let targetMark = trackMarks.find(
-    (m) => m.type === targetType && m.id === change.id
+    (m) =>
+      m.type === targetType &&
+      (m.id === change.id || m.id === `${targetType}-${change.id}`)
   );
 
   // If not found by ID, try to find by content match
@@ -1129,8 +1875,51 @@ export async function navigateToChange(
   // Set selection
   editor.commands.setTextSelection({ from, to });
 
-  // SuperDoc uses a hidden editor + visible paginated pages
-  // We need to find the actual scroll container and scroll based on position ratio
+  scrollToPosition(editor, from);
+
+  editor.view.focus();
+}
+
+/**
+ * Navigate to an added or replaced image or object in the editor.
+ * Objects are found by their index among the placeholders of freshly
+ * extracted text, since applied track changes shift document positions.
+ * Removed objects are no longer in the document, so there is nothing to select.
+ *
+ * @param editor - The editor instance
+ * @param change - The object change to navigate to
+ */
+export function navigateToObjectChange(
+  editor: SuperDocEditor,
+  change: ObjectChange
+): void {
+  if (!change.modified) return;
+
+  const posMap = extractTextWithPositions(editor);
+  let charIndex = -1;
+  for (let i = 0; i <= change.modified.index; i++) {
+    charIndex = posMap.text.indexOf(OBJECT_PLACEHOLDER, charIndex + 1);
+    if (charIndex < 0) break;
+  }
+
+  const pos = charIndex < 0 ? undefined : posMap.charToPos[charIndex];
+  if (pos === undefined) {
+    console.warn("Could not find object for change:", change.id);
+    return;
+  }
+
+  editor.commands.setTextSelection({ from: pos, to: pos + 1 });
+  scrollToPosition(editor, pos);
+  editor.view.focus();
+}
+
+/**
+ * Scroll the document so a position is in view.
+ * SuperDoc uses a hidden editor + visible paginated pages, so the scroll
+ * container is found from the presentation editor and scrolled by the
+ * position's ratio of the document length.
+ */
+function scrollToPosition(editor: SuperDocEditor, pos: number): void {
   setTimeout(() => {
     try {
       // Find the scroll container by looking for an element with overflow:auto/scroll
@@ -1177,7 +1966,7 @@ export async function navigateToChange(
       if (scrollContainer) {
         // Calculate scroll position based on document position ratio
         const docLength = editor.state.doc.content.size;
-        const positionRatio = from / docLength;
+        const positionRatio = pos / docLength;
         const maxScroll =
           scrollContainer.scrollHeight - scrollContainer.clientHeight;
         const scrollTo = positionRatio * maxScroll;
@@ -1187,10 +1976,168 @@ export async function navigateToChange(
           behavior: "smooth",
         });
       }
-    } catch (e) {
+    } catch {
       // Silently fail - selection is still set
     }
   }, 100);
+}
+
+// =============================================================================
+// Three-Way Merge Track Changes
+// =============================================================================
+
+/**
+ * Where the base text is in an editor showing the base with merge edits
+ * tracked: the text without tracked insertions, and the index of each of its
+ * characters in the full extracted text
+ */
+function mapBaseText(posMap: PositionMapWithFormatting): {
+  text: string;
+  toCurrent: number[];
+} {
+  const inserted = new Array<boolean>(posMap.text.length).fill(false);
+  for (const revision of posMap.revisions ?? []) {
+    if (revision.type !== "insertion") continue;
+    for (let i = revision.charStart; i < revision.charEnd; i++) inserted[i] = true;
+  }
+
+  let text = "";
+  const toCurrent: number[] = [];
+  for (let i = 0; i < posMap.text.length; i++) {
+    if (inserted[i]) continue;
+    text += posMap.text[i];
+    toCurrent.push(i);
+  }
+  toCurrent.push(posMap.text.length);
+
+  return { text, toCurrent };
+}
+
+/**
+ * Order in which edits at the same base position are applied, so that after
+ * applying from the end our text comes before theirs
+ */
+const MERGE_SIDE_ORDER: Record<MergeSide, number> = { ours: 0, both: 1, theirs: 2 };
+
+/**
+ * Apply three-way merge edits to an editor showing the base document, as
+ * track changes attributed to the side that made each edit: the replaced
+ * base text is marked deleted and the new text is inserted after it, marked
+ * inserted. Mark IDs follow the content changes (`insert-<id>`,
+ * `delete-<id>`), so approveChange and rejectChange work on merge edits.
+ *
+ * Edits are positioned by the base text, found again on each call by leaving
+ * out tracked insertions, so edits can be applied in several calls (conflicts
+ * as they are resolved).
+ *
+ * @param editor - Editor showing the base document
+ * @param edits - Edits positioned in the base text
+ * @param baseText - Text extracted from the base document
+ * @param attribution - User each side's edits are attributed to
+ * @returns Result with success count and errors
+ */
+export function applyMergeEdits(
+  editor: SuperDocEditor,
+  edits: ReadonlyArray<MergeEdit>,
+  baseText: string,
+  attribution: Readonly<Record<MergeSide, TrackChangeUser>>
+): TrackChangesResult {
+  const schema = editor.schema;
+  const trackInsertMark = schema.marks.trackInsert;
+  const trackDeleteMark = schema.marks.trackDelete;
+
+  if (!trackInsertMark || !trackDeleteMark) {
+    console.warn("Track change marks not available in schema");
+    return { successCount: 0, totalCount: edits.length, errors: ["Schema missing track marks"] };
+  }
+
+  const posMap = extractTextWithFormattingFromEditor(editor);
+  const base = mapBaseText(posMap);
+  if (base.text !== baseText) {
+    console.warn("Editor text differs from the merge base");
+    return { successCount: 0, totalCount: edits.length, errors: ["Editor text differs from the merge base"] };
+  }
+
+  const sorted = [...edits].sort(
+    (a, b) =>
+      b.baseStart - a.baseStart || MERGE_SIDE_ORDER[b.side] - MERGE_SIDE_ORDER[a.side]
+  );
+  let tr = editor.state.tr;
+  const now = new Date().toISOString();
+  let successCount = 0;
+  const errors: string[] = [];
 
+  for (const edit of sorted) {
+    try {
+      const user = attribution[edit.side];
+      let insertAt: number;
+
+      if (edit.baseEnd > edit.baseStart) {
+        const from = posMap.charToPos[base.toCurrent[edit.baseStart]];
+        const to = posMap.charToPos[base.toCurrent[edit.baseEnd - 1]] + 1;
+        tr = tr.addMark(
+          from,
+          to,
+          createTrackDeleteMark(trackDeleteMark, `delete-${edit.id}`, user, now)
+        );
+        insertAt = to;
+      } else {
+        const current = base.toCurrent[edit.baseStart];
+        insertAt = snapIntoTextblock(
+          editor,
+          current > 0 ? posMap.charToPos[current - 1] + 1 : (posMap.charToPos[0] ?? 0)
+        );
+      }
+
+      if (edit.content) {
+        const insertMark = createTrackInsertMark(
+          trackInsertMark,
+          `insert-${edit.id}`,
+          user,
+          now
+        );
+        const formattingMarks = getFormattingMarks(tr, undefined, insertAt);
+        tr = tr.insert(insertAt, schema.text(edit.content, [...formattingMarks, insertMark]));
+      }
+      successCount++;
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      errors.push(`Failed to apply ${edit.id}: ${errorMsg}`);
+    }
+  }
+
+  editor.view.dispatch(tr);
+
+  return { successCount, totalCount: edits.length, errors };
+}
+
+/**
+ * Select the base text of a merge conflict in the editor showing the base
+ *
+ * @param editor - Editor showing the base document
+ * @param conflict - The conflict to navigate to
+ * @param baseText - Text extracted from the base document
+ */
+export function navigateToMergeConflict(
+  editor: SuperDocEditor,
+  conflict: MergeConflict,
+  baseText: string
+): void {
+  const posMap = extractTextWithFormattingFromEditor(editor);
+  const base = mapBaseText(posMap);
+  if (base.text !== baseText) {
+    console.warn("Could not find conflict:", conflict.id);
+    return;
+  }
+
+  const from = posMap.charToPos[base.toCurrent[conflict.baseStart]];
+  const to =
+    conflict.baseEnd > conflict.baseStart
+      ? posMap.charToPos[base.toCurrent[conflict.baseEnd - 1]] + 1
+      : from;
+  if (from === undefined) return;
+
+  editor.commands.setTextSelection({ from, to });
+  scrollToPosition(editor, from);
   editor.view.focus();
 }
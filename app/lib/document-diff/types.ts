@@ -8,6 +8,7 @@
 import type { EditorView } from "prosemirror-view";
 import type { EditorState, Transaction } from "prosemirror-state";
 import type { Schema, Node as PMNode, Mark as PMMark, ResolvedPos } from "prosemirror-model";
+import type { Change as DiffChange } from "diff";
 
 // =============================================================================
 // Re-export ProseMirror types for convenience
@@ -56,6 +57,17 @@ export interface ProseMirrorNodeAttrs {
   readonly start?: number;
   readonly colspan?: number;
   readonly rowspan?: number;
+  /** Paragraph style (e.g. "Heading2" for headings stored as styled paragraphs) */
+  readonly styleId?: string;
+  readonly textAlign?: string;
+  /** Indentation, as a number or per-side values (e.g. { left: 720, hanging: 360 }) */
+  readonly indent?: number | Record<string, unknown>;
+  /** Spacing, as a number or per-side values (e.g. { before: 240, after: 120 }) */
+  readonly spacing?: number | Record<string, unknown>;
+  /** Source of an image: a data URI, URL or media path in the DOCX package */
+  readonly src?: string;
+  /** Display size of an image or drawing */
+  readonly size?: { readonly width?: number; readonly height?: number };
   [key: string]: unknown;
 }
 
@@ -130,6 +142,42 @@ export interface SuperDocPresentationEditor {
   goToAnchor(anchor: string): Promise<boolean>;
 }
 
+/**
+ * A header or footer editor created by SuperDoc for one part
+ */
+export interface SuperDocPartEditor {
+  /** Relationship ID of the header or footer */
+  readonly id: string;
+  readonly editor: SuperDocEditor;
+}
+
+/**
+ * A footnote or endnote as stored by the SuperDoc converter
+ */
+export interface SuperDocNote {
+  readonly id: string | number;
+  /** Block nodes of the note */
+  readonly content: ReadonlyArray<ProseMirrorJsonNode>;
+}
+
+/**
+ * SuperDoc document converter - holds the parts of the DOCX outside the main body
+ */
+export interface SuperDocConverter {
+  /** Header documents keyed by relationship ID */
+  readonly headers?: Readonly<Record<string, ProseMirrorJsonNode>>;
+  /** Footer documents keyed by relationship ID */
+  readonly footers?: Readonly<Record<string, ProseMirrorJsonNode>>;
+  readonly footnotes?: ReadonlyArray<SuperDocNote>;
+  readonly endnotes?: ReadonlyArray<SuperDocNote>;
+  /** Editors for headers, created once the document is laid out */
+  readonly headerEditors?: ReadonlyArray<SuperDocPartEditor>;
+  /** Editors for footers, created once the document is laid out */
+  readonly footerEditors?: ReadonlyArray<SuperDocPartEditor>;
+  /** Embedded media as data URIs, keyed by media path (e.g. "word/media/image1.png") */
+  readonly media?: Readonly<Record<string, string>>;
+}
+
 /**
  * SuperDoc Editor interface - matches the actual SuperDoc Editor class
  * This uses real ProseMirror types for proper type safety
@@ -143,6 +191,8 @@ export interface SuperDocEditor {
   readonly schema: Schema;
   /** Reference to the PresentationEditor (if running in presentation mode) */
   readonly presentationEditor?: SuperDocPresentationEditor | null;
+  /** DOCX converter (headers, footers and notes) */
+  readonly converter?: SuperDocConverter;
   /** Get document as JSON */
   getJSON(): ProseMirrorJsonNode;
   /** Get document as HTML */
@@ -160,7 +210,121 @@ export interface SuperDocEditor {
 /**
  * Type of change detected in document comparison (content changes)
  */
-export type ChangeType = "insertion" | "deletion" | "replacement";
+export type ChangeType =
+  | "insertion"
+  | "deletion"
+  | "replacement"
+  | "move"
+  | "split"
+  | "merge";
+
+/**
+ * Unit of text compared by the content diff
+ */
+export type DiffGranularity = "character" | "word" | "sentence" | "paragraph";
+
+/**
+ * Options for content diff computation
+ */
+export interface DiffOptions {
+  /** Unit of comparison (default: "character") */
+  readonly granularity?: DiffGranularity;
+  /** Merge fragmented edits separated by short unchanged islands (default: false) */
+  readonly semanticCleanup?: boolean;
+  /** Report deleted text re-inserted elsewhere as a single move (default: false) */
+  readonly detectMoves?: boolean;
+  /** Align paragraphs first and only diff changed ones in detail (default: true) */
+  readonly blockAlignment?: boolean;
+  /** Cosmetic differences to ignore (default: none) */
+  readonly comparison?: ComparisonOptions;
+  /** Regex rules for content that should never be reviewed (default: none) */
+  readonly ignoreRules?: ReadonlyArray<IgnoreRule>;
+  /** Table structure of both texts; paired tables are diffed cell by cell (default: none) */
+  readonly tables?: TableStructure;
+}
+
+/**
+ * What happens to a change matched by an ignore rule:
+ * - "ignore": kept, tagged with `ignoredBy`, shown collapsed
+ * - "suppress": dropped entirely
+ */
+export type IgnoreRuleAction = "ignore" | "suppress";
+
+/**
+ * A user-defined rule for noisy content (JSON-serializable)
+ */
+export interface IgnoreRule {
+  /** Stable identifier, referenced by ChangeWithPosition.ignoredBy */
+  readonly id: string;
+  /** What the rule is for, e.g. "Footer dates" */
+  readonly description: string;
+  /** Regular expression source */
+  readonly pattern: string;
+  /** Regular expression flags (i, m, s, u, v) */
+  readonly flags?: string;
+  /** Default: "ignore" */
+  readonly action?: IgnoreRuleAction;
+}
+
+/**
+ * Result of parsing serialized ignore rules
+ */
+export type IgnoreRuleParseResult =
+  | { readonly success: true; readonly rules: IgnoreRule[] }
+  | { readonly success: false; readonly errors: string[] };
+
+/**
+ * Cosmetic differences to ignore when comparing text.
+ * Each toggle is independent; all default to false.
+ */
+export interface ComparisonOptions {
+  /** Treat runs of spaces as one space and ignore spaces around line breaks */
+  readonly ignoreWhitespace?: boolean;
+  /** Compare case-insensitively */
+  readonly ignoreCase?: boolean;
+  /** Ignore punctuation characters */
+  readonly ignorePunctuation?: boolean;
+  /** Treat curly and angled quotes as straight quotes */
+  readonly ignoreQuoteStyle?: boolean;
+  /** Treat en/em dashes and minus signs as hyphens */
+  readonly ignoreDashStyle?: boolean;
+  /** Apply Unicode NFKC normalization (non-breaking spaces, ligatures, accents) */
+  readonly normalizeUnicode?: boolean;
+}
+
+/**
+ * Text normalized for comparison, with a mapping back to the source text
+ */
+export interface NormalizedText {
+  /** Normalized text */
+  readonly text: string;
+  /** Text before normalization */
+  readonly source: string;
+  /** Source offset of each normalized character (UTF-16 code unit) */
+  readonly sourceOffsets: ReadonlyArray<number>;
+  /** Source offset just past the character each normalized character came from */
+  readonly sourceEnds: ReadonlyArray<number>;
+}
+
+/**
+ * Result of a semantic cleanup pass over raw diff parts
+ */
+export interface SemanticCleanupResult {
+  /** Cleaned diff parts */
+  readonly diffs: DiffChange[];
+  /** Number of raw diff parts merged away by the cleanup */
+  readonly mergedCount: number;
+}
+
+/**
+ * Result of computeChangeResult
+ */
+export interface ChangeComputationResult {
+  /** Changes with position information */
+  readonly changes: ChangeWithPosition[];
+  /** Number of raw diff parts merged away by the semantic cleanup (0 without it) */
+  readonly mergedCount: number;
+}
 
 /**
  * Type of formatting change detected
@@ -178,19 +342,54 @@ export interface Change {
 }
 
 /**
- * Change with position information for applying to document
+ * Change with position information for applying to document.
+ *
+ * Moves use both position kinds: charStart/charEnd locate the destination and
+ * insertAt/contextBefore locate the source the text was moved from.
+ *
+ * Paragraph splits and merges have charStart/charEnd on the whitespace
+ * between the two paragraphs' words in the modified text (holding the new
+ * line break of a split, or replacing the removed one of a merge), the
+ * original whitespace as oldContent, and the start of the second paragraph
+ * as content.
  */
 export interface ChangeWithPosition extends Change {
-  /** Character start position in modified text (for insertions/replacements) */
+  /** Character start position in modified text (for insertions/replacements/move destinations) */
   readonly charStart?: number;
-  /** Character end position in modified text (for insertions/replacements) */
+  /** Character end position in modified text (for insertions/replacements/move destinations) */
   readonly charEnd?: number;
-  /** Position in modified text where deleted content should be inserted */
+  /** Position in modified text where deleted content should be inserted (deletions/move sources) */
   readonly insertAt?: number;
   /** Text context before the deletion (for finding insertion point) */
   readonly contextBefore?: string;
+  /** Granularity the change was computed at */
+  readonly granularity?: DiffGranularity;
+  /** ID of the ignore rule that matched this change (not for review) */
+  readonly ignoredBy?: string;
+  /** Where the change is in a table, for changes found by the table diff */
+  readonly table?: TableLocation;
+  /**
+   * Ranges in modified text to mark for a change spanning several table cells
+   * (inserted rows and columns). charStart/charEnd cover all of them.
+   */
+  readonly ranges?: ReadonlyArray<TextRange>;
+  /**
+   * The modified document has tracked revisions but this change is not one of
+   * them (an untracked, or "stealth", edit)
+   */
+  readonly untracked?: boolean;
+  /**
+   * Version that introduced the change, when comparing a series of versions.
+   * Its author and date go on the change's track marks.
+   */
+  readonly attribution?: ChangeAttribution;
 }
 
+/**
+ * A paragraph split or merge, before it is given an ID
+ */
+export type ParagraphBoundaryChange = Omit<ChangeWithPosition, "id">;
+
 /**
  * Mapping from character index to ProseMirror position
  */
@@ -223,6 +422,14 @@ export interface FormattingSpan {
 export interface PositionMapWithFormatting extends PositionMap {
   /** Formatting spans for the extracted text */
   readonly formatting: ReadonlyArray<FormattingSpan>;
+  /** Top-level tables in the extracted text */
+  readonly tables?: ReadonlyArray<TableSnapshot>;
+  /** Non-empty textblocks in the extracted text, in document order */
+  readonly blocks?: ReadonlyArray<BlockSnapshot>;
+  /** Images and other embedded objects, in document order */
+  readonly objects?: ReadonlyArray<ObjectSnapshot>;
+  /** Revisions tracked in the document, in document order */
+  readonly revisions?: ReadonlyArray<TrackedRevision>;
 }
 
 /**
@@ -239,6 +446,20 @@ export interface FormattingChange {
   readonly oldAttrs?: ProseMirrorMarkAttrs;
   /** Mark attributes after change (for formatAdded/formatModified) */
   readonly newAttrs?: ProseMirrorMarkAttrs;
+  /** Compared attributes whose value changed (for formatModified) */
+  readonly attributes?: ReadonlyArray<FormattingAttributeChange>;
+}
+
+/**
+ * A mark attribute whose value changed, e.g. a textStyle fontSize from 11pt
+ * to 12pt. Values are display strings; a missing value means the attribute
+ * was unset.
+ */
+export interface FormattingAttributeChange {
+  /** Attribute name (e.g. "fontSize", "href") */
+  readonly attribute: string;
+  readonly oldValue?: string;
+  readonly newValue?: string;
 }
 
 /**
@@ -258,7 +479,469 @@ export interface DiffSummary {
   readonly insertions: number;
   readonly deletions: number;
   readonly replacements: number;
+  readonly moves: number;
+  readonly splits: number;
+  readonly merges: number;
+  /** Changes matched by an ignore rule (not counted above) */
+  readonly ignored: number;
   readonly formattingChanges: number;
+  readonly structuralChanges: number;
+  readonly objectChanges: number;
+}
+
+// =============================================================================
+// Table Types
+// =============================================================================
+
+/**
+ * A range of extracted text, as [charStart, charEnd)
+ */
+export interface TextRange {
+  readonly charStart: number;
+  readonly charEnd: number;
+}
+
+/**
+ * A table cell's text and where it is in the extracted text
+ */
+export interface TableCellSnapshot extends TextRange {
+  /** Cell text (paragraphs separated by newlines) */
+  readonly text: string;
+}
+
+/**
+ * A top-level table in extracted text. Nested tables are part of their cell's text.
+ */
+export interface TableSnapshot extends TextRange {
+  /** Cells of each row, in document order */
+  readonly rows: ReadonlyArray<ReadonlyArray<TableCellSnapshot>>;
+}
+
+/**
+ * Tables of both texts being compared, in document order
+ */
+export interface TableStructure {
+  readonly original: ReadonlyArray<TableSnapshot>;
+  readonly modified: ReadonlyArray<TableSnapshot>;
+}
+
+/**
+ * Kind of structural table change
+ */
+export type TableChangeKind =
+  | "rowInserted"
+  | "rowDeleted"
+  | "columnInserted"
+  | "columnDeleted"
+  | "cellChanged";
+
+/**
+ * Location of a table change.
+ * Indexes are zero-based and refer to the modified table, except for deleted
+ * rows and columns, which refer to the original table.
+ */
+export interface TableLocation {
+  /** Index of the table among the modified document's tables */
+  readonly tableIndex: number;
+  readonly kind: TableChangeKind;
+  /** Row index (not set for column changes) */
+  readonly row?: number;
+  /** Column index (not set for row changes) */
+  readonly column?: number;
+}
+
+/**
+ * A change found by the table diff, before it is given an ID
+ */
+export type TableChange = Omit<ChangeWithPosition, "id">;
+
+/**
+ * Text with its tables masked out of the text diff
+ */
+export interface MaskedText {
+  /** Text with each table replaced by a placeholder character */
+  readonly text: NormalizedText;
+  /** Table index of each placeholder in order (-1 for one that was already in the text) */
+  readonly placeholders: ReadonlyArray<number>;
+}
+
+// =============================================================================
+// Structure Types
+// =============================================================================
+
+/**
+ * A textblock (paragraph, heading, code block...) with the structure it sits in
+ */
+export interface BlockSnapshot extends TextRange {
+  readonly text: string;
+  /** Block type; paragraphs with a heading style count as "heading" */
+  readonly type: string;
+  /** Heading level (headings only) */
+  readonly headingLevel?: number;
+  /** Type of the innermost list the block is in */
+  readonly listType?: "bullet" | "ordered";
+  /** Number of lists the block is nested in (0 outside lists) */
+  readonly listDepth: number;
+  /** Number of blockquotes the block is nested in */
+  readonly quoteDepth: number;
+  readonly textAlign?: string;
+  /** Indentation, formatted for display (e.g. "hanging 360, left 720") */
+  readonly indent?: string;
+  /** Spacing, formatted for display (e.g. "after 120, before 240") */
+  readonly spacing?: string;
+}
+
+/**
+ * Aspect of a block's structure that changed
+ */
+export type StructuralChangeType =
+  | "blockType"
+  | "headingLevel"
+  | "listType"
+  | "listDepth"
+  | "blockquote"
+  | "alignment"
+  | "indent"
+  | "spacing";
+
+/**
+ * A change to a block's structure while its text stayed (mostly) the same
+ */
+export interface StructuralChange {
+  readonly id: string;
+  readonly type: StructuralChangeType;
+  /** The block's text */
+  readonly content: string;
+  /** Value before the change, formatted for display (unset for none) */
+  readonly oldValue?: string;
+  /** Value after the change, formatted for display (unset for none) */
+  readonly newValue?: string;
+}
+
+/**
+ * Structural change with the position of its block in the modified text
+ */
+export interface StructuralChangeWithPosition extends StructuralChange {
+  readonly charStart: number;
+  readonly charEnd: number;
+}
+
+/**
+ * One step of an alignment: a pair, or an item present on one side only
+ */
+export interface AlignedPair {
+  readonly original?: number;
+  readonly modified?: number;
+}
+
+// =============================================================================
+// Object Types
+// =============================================================================
+
+/**
+ * An image, drawing or other embedded object. In extracted text each object
+ * is a single OBJECT_PLACEHOLDER character at [charStart, charEnd).
+ */
+export interface ObjectSnapshot extends TextRange {
+  /** Node type (e.g. "image") */
+  readonly type: string;
+  /** Index among the document's objects, in document order */
+  readonly index: number;
+  /** Hash of the object's source (or of its attributes when it has none) */
+  readonly hash: string;
+  readonly width?: number;
+  readonly height?: number;
+  /** Source to display the object from (data URI or URL), if known */
+  readonly src?: string;
+}
+
+/**
+ * Kind of object change
+ */
+export type ObjectChangeType = "objectAdded" | "objectRemoved" | "objectReplaced";
+
+/**
+ * An object added, removed or replaced by another.
+ * The range is the object's placeholder in the modified text; for a removed
+ * object it is empty, where the object used to be.
+ */
+export interface ObjectChange extends TextRange {
+  readonly id: string;
+  readonly type: ObjectChangeType;
+  /** The object in the original document (unset for added objects) */
+  readonly original?: ObjectSnapshot;
+  /** The object in the modified document (unset for removed objects) */
+  readonly modified?: ObjectSnapshot;
+}
+
+// =============================================================================
+// Revision Types
+// =============================================================================
+
+/**
+ * How revisions already tracked in an input document are treated before
+ * diffing: as if all were accepted, all rejected, or left as ordinary content
+ */
+export type RevisionView = "accepted" | "rejected" | "asIs";
+
+/**
+ * Revisions pending in a document, counted by their IDs
+ */
+export interface RevisionCount {
+  readonly insertions: number;
+  readonly deletions: number;
+  readonly formatting: number;
+  readonly total: number;
+}
+
+/**
+ * Kind of revision tracked in a document
+ */
+export type TrackedRevisionType = "insertion" | "deletion" | "formatting";
+
+/**
+ * A revision tracked in a document and where it is in the extracted text.
+ * Text with the same revision ID in consecutive nodes is one revision.
+ */
+export interface TrackedRevision extends TextRange {
+  readonly id: string;
+  readonly type: TrackedRevisionType;
+  /** The inserted, deleted or reformatted text */
+  readonly content: string;
+  readonly author?: string;
+  readonly date?: string;
+}
+
+// =============================================================================
+// Block Tree Types
+// =============================================================================
+
+/**
+ * A block node in the canonical extraction of a document, with the text it
+ * covers and where it is in the document
+ */
+export interface BlockTreeNode extends TextRange {
+  /** Node type name */
+  readonly type: string;
+  /**
+   * Path from the root by node type and child index, such as
+   * `table[1]/tableRow[0]/tableCell[2]/paragraph[0]` (the root's is "")
+   */
+  readonly path: string;
+  /** ProseMirror position before the node (-1 for the root) */
+  readonly pos: number;
+  readonly attrs?: ProseMirrorNodeAttrs;
+  /** Block children, in order (inline content is in the text) */
+  readonly children: ReadonlyArray<BlockTreeNode>;
+}
+
+/**
+ * Canonical extraction of a document: its text, with a newline before every
+ * block after the first, and everything recorded against that text
+ */
+export interface BlockTree extends PositionMapWithFormatting {
+  readonly root: BlockTreeNode;
+  readonly tables: ReadonlyArray<TableSnapshot>;
+  readonly blocks: ReadonlyArray<BlockSnapshot>;
+  readonly objects: ReadonlyArray<ObjectSnapshot>;
+  readonly revisions: ReadonlyArray<TrackedRevision>;
+}
+
+// =============================================================================
+// Document Part Types
+// =============================================================================
+
+/**
+ * Kind of document part outside the main body
+ */
+export type DocumentPartKind = "header" | "footer" | "footnote" | "endnote";
+
+/**
+ * A header, footer, footnote or endnote, extracted as its own document
+ */
+export interface DocumentPart {
+  /** Key pairing the part across documents: kind and one-based index, e.g. "footer-1" */
+  readonly id: string;
+  readonly kind: DocumentPartKind;
+  /** Display name, e.g. "Footer 1" */
+  readonly name: string;
+  /** ID of the part in its document (relationship ID or note ID) */
+  readonly sourceId: string;
+  /** The part's content as a ProseMirror document */
+  readonly json: ProseMirrorJsonNode;
+}
+
+/**
+ * Content changes within one document part
+ */
+export interface DocumentPartChanges {
+  /** The modified document's part (the original's if the part was removed) */
+  readonly part: Omit<DocumentPart, "json">;
+  /** Changes positioned in the part's text; IDs are prefixed with the part ID */
+  readonly changes: ChangeWithPosition[];
+}
+
+// =============================================================================
+// DOCX Import Types
+// =============================================================================
+
+/**
+ * An element of a parsed XML part. Names keep their namespace prefix
+ * ("w:p", "r:id"), as Word writes them.
+ */
+export interface XmlElement {
+  readonly name: string;
+  readonly attrs: Readonly<Record<string, string>>;
+  /** Child elements and text, in document order */
+  readonly children: ReadonlyArray<XmlElement | string>;
+}
+
+/**
+ * A relationship of a DOCX part: where it points and what kind of part it is
+ */
+export interface DocxRelationship {
+  /** Relationship type URI (e.g. ".../relationships/image") */
+  readonly type: string;
+  /** Package path for internal targets, the target as written for external ones */
+  readonly target: string;
+}
+
+/**
+ * A DOCX file read without an editor: the body as ProseMirror JSON, in the
+ * shape SuperDoc's `getJSON()` gives, plus its parts and media
+ */
+export interface ImportedDocx {
+  /** The document body */
+  readonly json: ProseMirrorJsonNode;
+  /** Headers, footers, footnotes and endnotes, numbered as extractDocumentParts numbers them */
+  readonly parts: ReadonlyArray<DocumentPart>;
+  /** Embedded media as data URIs, keyed by media path (e.g. "word/media/image1.png") */
+  readonly media: Readonly<Record<string, string>>;
+}
+
+/**
+ * Options for comparing two DOCX files. Table structure is read from the
+ * files, so it is not an option.
+ */
+export interface DocxComparisonOptions extends Omit<DiffOptions, "tables"> {
+  /** How revisions already in either document are treated (default: "asIs") */
+  readonly revisionView?: RevisionView;
+  /** Report only content changes the modified document does not track (default: false) */
+  readonly detectStealthEdits?: boolean;
+}
+
+/**
+ * Changes between two DOCX files, with their counts
+ */
+export interface DocxComparisonResult extends ComparisonResult {
+  readonly summary: DiffSummary;
+}
+
+// =============================================================================
+// DOCX Export Types
+// =============================================================================
+
+/**
+ * Options for writing a comparison of two DOCX files as a redline
+ */
+export interface DocxRedlineOptions extends DocxComparisonOptions {
+  /** Author of the revisions (default: "Comparison") */
+  readonly author?: string;
+  /** Date of the revisions, as an ISO 8601 date (default: now) */
+  readonly date?: string;
+}
+
+/**
+ * A comparison of two DOCX files, with the modified file rewritten so that
+ * every change is a tracked revision
+ */
+export interface DocxRedlineResult extends DocxComparisonResult {
+  /** The redline DOCX file */
+  readonly docx: Uint8Array;
+}
+
+// =============================================================================
+// Merge Types
+// =============================================================================
+
+/**
+ * Who made an edit in a three-way merge: our side, their side, or both
+ * sides making the same edit
+ */
+export type MergeSide = "ours" | "theirs" | "both";
+
+/**
+ * How a conflict is resolved: keep our version, their version, or both
+ * (ours first)
+ */
+export type ConflictResolution = "ours" | "theirs" | "both";
+
+/**
+ * A range of the base text replaced by one side. Positions are in the base
+ * text; an insertion has an empty range.
+ */
+export interface MergeEdit {
+  readonly id: string;
+  readonly side: MergeSide;
+  readonly baseStart: number;
+  readonly baseEnd: number;
+  /** Base text in the range */
+  readonly oldContent: string;
+  /** Text replacing it */
+  readonly content: string;
+}
+
+/**
+ * A base range both sides edited differently. Each side's version is the
+ * base range with that side's edits applied.
+ */
+export interface MergeConflict {
+  readonly id: string;
+  readonly baseStart: number;
+  readonly baseEnd: number;
+  readonly base: string;
+  readonly ours: string;
+  readonly theirs: string;
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface ThreeWayMergeResult {
+  /** Edits that merge without conflict, in base order */
+  readonly edits: MergeEdit[];
+  /** Ranges both sides edited differently, in base order */
+  readonly conflicts: MergeConflict[];
+}
+
+// =============================================================================
+// Version History Types
+// =============================================================================
+
+/**
+ * One version in an ordered series of versions of a document
+ */
+export interface VersionSnapshot {
+  /** Display name (typically the file name) */
+  readonly name: string;
+  /** Text extracted from the version */
+  readonly text: string;
+  /** Who made the version (defaults to a user named after the version) */
+  readonly author?: TrackChangeUser;
+  /** When the version was made, as an ISO 8601 date */
+  readonly date?: string;
+}
+
+/**
+ * The version a change was introduced in
+ */
+export interface ChangeAttribution {
+  /** Index of the version in the series */
+  readonly version: number;
+  /** Author put on the change's track marks */
+  readonly user: TrackChangeUser;
+  /** Date put on the change's track marks */
+  readonly date?: string;
 }
 
 // =============================================================================
@@ -295,6 +978,129 @@ export interface TrackChangesResult {
   readonly errors: ReadonlyArray<string>;
 }
 
+// =============================================================================
+// Comparison Worker Types
+// =============================================================================
+
+/**
+ * Stages of the comparison pipeline, in the order they run
+ */
+export type ComparisonStage =
+  | "extracting"
+  | "diffing"
+  | "formatting"
+  | "structure"
+  | "objects"
+  | "parts";
+
+/**
+ * Input to the comparison pipeline.
+ * The modified document is already extracted on the main thread because its
+ * position map must match the live editor.
+ */
+export interface ComparisonInput {
+  /** Original document as ProseMirror JSON */
+  readonly originalJson: ProseMirrorJsonNode;
+  /** Text extracted from the modified document */
+  readonly modifiedText: string;
+  /** Formatting spans extracted from the modified document */
+  readonly modifiedFormatting: ReadonlyArray<FormattingSpan>;
+  /** Tables extracted from the modified document (enables the table diff) */
+  readonly modifiedTables?: ReadonlyArray<TableSnapshot>;
+  /** Blocks extracted from the modified document (enables the structural diff) */
+  readonly modifiedBlocks?: ReadonlyArray<BlockSnapshot>;
+  /** Objects extracted from the modified document (enables the object diff) */
+  readonly modifiedObjects?: ReadonlyArray<ObjectSnapshot>;
+  /** Media of the original document, to resolve image sources given as media paths */
+  readonly originalMedia?: Readonly<Record<string, string>>;
+  /** Headers, footers and notes of the original document */
+  readonly originalParts?: ReadonlyArray<DocumentPart>;
+  /** Headers, footers and notes of the modified document */
+  readonly modifiedParts?: ReadonlyArray<DocumentPart>;
+  /** How revisions already in the original document and in all parts are treated */
+  readonly revisionView?: RevisionView;
+  /**
+   * Report only content changes the modified document does not track: diff
+   * against the modified document with its revisions rejected (stealth edit
+   * detection). The modified document's text is used as is; its parts are
+   * compared with their revisions rejected.
+   */
+  readonly detectStealthEdits?: boolean;
+  /** Revisions tracked in the modified document (needed for stealth edit detection) */
+  readonly modifiedRevisions?: ReadonlyArray<TrackedRevision>;
+  /**
+   * Every version from the original to the modified document, in order, to
+   * attribute each content change to the version that introduced it. The
+   * first and last versions' texts are replaced by the compared texts.
+   */
+  readonly versions?: ReadonlyArray<VersionSnapshot>;
+  /** Options for the content diff */
+  readonly options?: DiffOptions;
+}
+
+/**
+ * Output of the comparison pipeline
+ */
+export interface ComparisonResult {
+  readonly changes: ChangeWithPosition[];
+  readonly formattingChanges: FormattingChangeWithPosition[];
+  readonly structuralChanges: StructuralChangeWithPosition[];
+  readonly objectChanges: ObjectChange[];
+  /** Content changes in headers, footers and notes, per changed part */
+  readonly partChanges: DocumentPartChanges[];
+}
+
+/**
+ * Progress of a running comparison
+ */
+export interface ComparisonProgress {
+  /** Stage that just started */
+  readonly stage: ComparisonStage;
+  /** Number of stages completed before this one */
+  readonly completed: number;
+  /** Total number of stages */
+  readonly total: number;
+}
+
+/**
+ * Options for compareInWorker
+ */
+export interface CompareInWorkerOptions {
+  /** Called as each pipeline stage starts */
+  readonly onProgress?: (progress: ComparisonProgress) => void;
+  /** Aborting cancels the comparison and rejects with the abort reason */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Message sent from the main thread to the comparison worker
+ */
+export type ComparisonWorkerRequest = {
+  readonly type: "compare";
+  readonly requestId: number;
+  readonly input: ComparisonInput;
+};
+
+/**
+ * Message sent from the comparison worker to the main thread
+ */
+export type ComparisonWorkerResponse =
+  | {
+      readonly type: "progress";
+      readonly requestId: number;
+      readonly progress: ComparisonProgress;
+    }
+  | {
+      readonly type: "result";
+      readonly requestId: number;
+      readonly result: ComparisonResult;
+    }
+  | {
+      readonly type: "error";
+      readonly requestId: number;
+      readonly message: string;
+    };
+
 // =============================================================================
 // Component Props Types
 // =============================================================================
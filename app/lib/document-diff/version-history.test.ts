@@ -0,0 +1,117 @@
+/**
+ * Version History - Tests
+ *
+ * @module version-history
+ */
+
+import { describe, it, expect } from "vitest";
+import { computeChangesWithPositions } from "./diff-computation";
+import { attributeChanges, computeVersionHistoryChanges } from "./version-history";
+import type { VersionSnapshot } from "./types";
+
+function versions(...texts: string[]): VersionSnapshot[] {
+  return texts.map((text, i) => ({
+    name: `v${i + 1}.docx`,
+    text,
+    date: `2024-0${i + 1}-01T00:00:00.000Z`,
+  }));
+}
+
+describe("computeVersionHistoryChanges", () => {
+  it("should compare the first and last versions", () => {
+    const series = versions(
+      "Rent is due monthly.",
+      "Rent is due quarterly.",
+      "Rent is due quarterly in advance."
+    );
+
+    const changes = computeVersionHistoryChanges(series, { granularity: "word" });
+
+    expect(changes).toEqual(
+      computeChangesWithPositions(series[0].text, series[2].text, {
+        granularity: "word",
+      }).map((change) => ({ ...change, attribution: expect.any(Object) }))
+    );
+  });
+
+  it("should attribute each change to the version that introduced it", () => {
+    const series = versions(
+      "Rent is due monthly. Notices must be in writing.",
+      "Rent is due quarterly. Notices must be in writing.",
+      "Rent is due quarterly. Notices must be in writing.",
+      "Rent is due quarterly. Notices must be sent in writing."
+    );
+
+    const changes = computeVersionHistoryChanges(series, { granularity: "word" });
+
+    expect(changes.map((c) => [c.content, c.attribution?.version])).toEqual([
+      ["quarterly", 1],
+      ["sent", 3],
+    ]);
+    expect(changes[1].attribution).toEqual({
+      version: 3,
+      user: { name: "v4.docx", email: "" },
+      date: "2024-04-01T00:00:00.000Z",
+    });
+  });
+
+  it("should keep attributions when a version changes whitespace", () => {
+    const series = versions(
+      "Rent is due. Notices must be in writing.",
+      "Rent          is          due monthly. Notices must be in writing.",
+      "Rent is due monthly. Notices must be sent in writing."
+    );
+
+    const changes = computeVersionHistoryChanges(series, { granularity: "word" });
+
+    expect(changes.map((c) => [c.content, c.attribution?.version])).toEqual([
+      ["monthly", 1],
+      ["sent", 2],
+    ]);
+  });
+
+  it("should attribute a deletion to the version that deleted the text", () => {
+    const series = versions(
+      "The tenant pays rent promptly and in full.",
+      "The tenant pays rent promptly and in full.",
+      "The tenant pays rent in full."
+    );
+
+    const [deletion] = computeVersionHistoryChanges(series, { granularity: "word" });
+
+    expect(deletion.type).toBe("deletion");
+    expect(deletion.attribution?.version).toBe(2);
+  });
+
+  it("should attribute text rewritten twice to the last rewrite", () => {
+    const series = versions(
+      "Rent is due monthly.",
+      "Rent is due quarterly.",
+      "Rent is due weekly."
+    );
+
+    const [change] = computeVersionHistoryChanges(series, { granularity: "word" });
+
+    expect(change.content).toBe("weekly");
+    expect(change.attribution?.version).toBe(2);
+  });
+
+  it("should use the version's author when it has one", () => {
+    const author = { name: "Jane Counsel", email: "jane@example.com" };
+    const series = versions("Rent is due.", "Rent is due monthly.").map((v, i) =>
+      i === 1 ? { ...v, author } : v
+    );
+
+    const [change] = computeVersionHistoryChanges(series, { granularity: "word" });
+
+    expect(change.attribution?.user).toBe(author);
+  });
+});
+
+describe("attributeChanges", () => {
+  it("should leave changes unattributed without a series", () => {
+    const changes = computeChangesWithPositions("a b", "a c", { granularity: "word" });
+
+    expect(attributeChanges(changes, versions("a c"))).toEqual(changes);
+  });
+});
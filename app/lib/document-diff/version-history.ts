@@ -0,0 +1,211 @@
+/**
+ * Version History Utilities
+ *
+ * Agreements go through many versions, but a comparison only looks at two.
+ * These functions compare the first and last of an ordered series and
+ * attribute each change to the version that introduced it: every character
+ * of the last version is traced back through the versions in between to the
+ * one that added it, and every deletion to the one that removed the text.
+ */
+
+import { diffByBlocks, originalOffsets } from "./block-alignment";
+import { computeChangesWithPositions, computeRawDiff } from "./diff-computation";
+import type {
+  ChangeAttribution,
+  ChangeWithPosition,
+  DiffOptions,
+  TrackChangeUser,
+  VersionSnapshot,
+} from "./types";
+
+const WHITESPACE = /\s/;
+
+/**
+ * Where text of the first version was deleted: a position in the current
+ * text and the version that deleted it
+ */
+interface Deletion {
+  readonly at: number;
+  readonly version: number;
+}
+
+/**
+ * Which version introduced each character of the last version, and where
+ * text of the first version was deleted
+ */
+interface VersionTrace {
+  readonly origins: ReadonlyArray<number>;
+  readonly deletions: ReadonlyArray<Deletion>;
+}
+
+/**
+ * Trace each character through the versions, diffing each version against
+ * the one before it word by word
+ */
+function traceVersions(texts: ReadonlyArray<string>): VersionTrace {
+  let origins: number[] = new Array<number>(texts[0]?.length ?? 0).fill(0);
+  let deletions: Deletion[] = [];
+
+  for (let version = 1; version < texts.length; version++) {
+    const previous = texts[version - 1];
+    const parts = diffByBlocks(previous, texts[version], "word", computeRawDiff);
+    const nextOrigins: number[] = [];
+    const newDeletions: Deletion[] = [];
+    const offsets = originalOffsets(previous, parts);
+    // Position in the new text of each position in the previous text
+    const toNext: number[] = [];
+
+    for (const [index, part] of parts.entries()) {
+      if (part.added) {
+        for (let i = 0; i < part.value.length; i++) nextOrigins.push(version);
+        continue;
+      }
+      let oldIndex = offsets[index];
+      const oldEnd = offsets[index + 1];
+      if (part.removed) {
+        if (origins.slice(oldIndex, oldEnd).includes(0)) {
+          newDeletions.push({ at: nextOrigins.length, version });
+        }
+        for (; oldIndex < oldEnd; oldIndex++) toNext[oldIndex] = nextOrigins.length;
+        continue;
+      }
+      // Words match character for character; whitespace runs may differ in
+      // length, so surplus spaces on either side are skipped
+      for (let i = 0; i < part.value.length; i++) {
+        const space = WHITESPACE.test(part.value[i]);
+        while (!space && oldIndex < oldEnd && WHITESPACE.test(previous[oldIndex])) {
+          toNext[oldIndex++] = nextOrigins.length;
+        }
+        if (oldIndex < oldEnd && (!space || WHITESPACE.test(previous[oldIndex]))) {
+          toNext[oldIndex] = nextOrigins.length;
+          nextOrigins.push(origins[oldIndex++]);
+        } else {
+          nextOrigins.push(version);
+        }
+      }
+      for (; oldIndex < oldEnd; oldIndex++) toNext[oldIndex] = nextOrigins.length;
+    }
+    toNext[previous.length] = nextOrigins.length;
+
+    deletions = [
+      ...deletions.map((d) => ({ ...d, at: toNext[d.at] })),
+      ...newDeletions,
+    ];
+    origins = nextOrigins;
+  }
+
+  return { origins, deletions };
+}
+
+/**
+ * Version that introduced most of the characters in a range (the later one
+ * on a tie), or undefined if all of them are in the first version
+ */
+function introducingVersion(
+  origins: ReadonlyArray<number>,
+  charStart: number,
+  charEnd: number
+): number | undefined {
+  const counts = new Map<number, number>();
+  for (let i = charStart; i < charEnd; i++) {
+    if (origins[i] > 0) counts.set(origins[i], (counts.get(origins[i]) ?? 0) + 1);
+  }
+
+  let best: number | undefined;
+  let bestCount = 0;
+  for (const [version, count] of counts) {
+    if (count > bestCount || (count === bestCount && version > (best ?? 0))) {
+      best = version;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Version that deleted text at a position: the deletion nearest to it (the
+ * later one on a tie)
+ */
+function deletingVersion(
+  deletions: ReadonlyArray<Deletion>,
+  at: number
+): number | undefined {
+  let best: Deletion | undefined;
+  let bestDistance = Infinity;
+  for (const deletion of deletions) {
+    const distance = Math.abs(deletion.at - at);
+    if (distance < bestDistance || (distance === bestDistance && deletion.version > best!.version)) {
+      best = deletion;
+      bestDistance = distance;
+    }
+  }
+  return best?.version;
+}
+
+/**
+ * Author of a version, named after the version if it has none
+ */
+function versionAuthor(version: VersionSnapshot): TrackChangeUser {
+  return version.author ?? { name: version.name, email: "" };
+}
+
+/**
+ * Attribute changes between the first and last of a series of versions to
+ * the version that introduced each one.
+ *
+ * A change covering text is attributed to the version that added most of
+ * that text; a deletion to the version that deleted text of the first
+ * version nearest to where it was. Changes that cannot be traced (such as
+ * text only rearranged) are attributed to the last version.
+ *
+ * @param changes - Changes from the first version's text to the last's, positioned in the last
+ * @param versions - The versions, in order
+ * @returns The changes with their attribution
+ */
+export function attributeChanges(
+  changes: ReadonlyArray<ChangeWithPosition>,
+  versions: ReadonlyArray<VersionSnapshot>
+): ChangeWithPosition[] {
+  if (versions.length < 2) return [...changes];
+
+  const { origins, deletions } = traceVersions(versions.map((v) => v.text));
+  const last = versions.length - 1;
+
+  return changes.map((change) => {
+    const covered =
+      change.charStart !== undefined && change.charEnd !== undefined
+        ? introducingVersion(origins, change.charStart, change.charEnd)
+        : undefined;
+    const position = change.insertAt ?? change.charStart;
+    const version =
+      covered ??
+      (position !== undefined ? deletingVersion(deletions, position) : undefined) ??
+      last;
+
+    const attribution: ChangeAttribution = {
+      version,
+      user: versionAuthor(versions[version]),
+      date: versions[version].date,
+    };
+    return { ...change, attribution };
+  });
+}
+
+/**
+ * Compute the cumulative changes from the first to the last of a series of
+ * versions, each attributed to the version that introduced it
+ *
+ * @param versions - The versions, in order (at least two)
+ * @param options - Options for the diff between the first and last versions
+ * @returns Changes positioned in the last version's text
+ */
+export function computeVersionHistoryChanges(
+  versions: ReadonlyArray<VersionSnapshot>,
+  options: DiffOptions = {}
+): ChangeWithPosition[] {
+  if (versions.length < 2) return [];
+
+  const first = versions[0].text;
+  const last = versions[versions.length - 1].text;
+  return attributeChanges(computeChangesWithPositions(first, last, options), versions);
+}
@@ -6,6 +6,9 @@ export const openai = createOpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
+// Model used to summarize document changes
+export const SUMMARIZE_MODEL = "gpt-5.2";
+
 // System prompt for summarizing document changes
 export const SUMMARIZE_SYSTEM_PROMPT = `You are a document analyst. Summarize document changes BRIEFLY.
 
@@ -55,6 +58,36 @@ export interface SummarizeRequest {
   documentName?: string;
 }
 
+// Format the changes of a summarize request as the user message, one
+// numbered line per change
+export function formatSummarizePrompt({ changes, documentName }: SummarizeRequest): string {
+  const changesText = changes
+    .map((change, index) => {
+      let description = `${index + 1}. [${change.type.toUpperCase()}]`;
+      if (change.type === "split") {
+        description += ` Paragraph split before: "${change.content}"`;
+      } else if (change.type === "merge") {
+        description += ` Paragraphs merged at: "${change.content}"`;
+      } else if (change.oldContent) {
+        description += ` Changed from: "${change.oldContent}" to: "${change.content}"`;
+      } else if (change.type === "deletion") {
+        description += ` Removed: "${change.content}"`;
+      } else if (change.type === "move") {
+        description += ` Moved: "${change.content}"`;
+      } else if (change.type === "structure" || change.type === "object") {
+        description += ` ${change.content}`;
+      } else {
+        description += ` Added: "${change.content}"`;
+      }
+      return description;
+    })
+    .join("\n");
+
+  return documentName
+    ? `Document: ${documentName}\n\nChanges detected:\n${changesText}`
+    : `Changes detected:\n${changesText}`;
+}
+
 // Type for the summarize response (matches structured output)
 export interface SummarizeResponse extends ChangeSummaryOutput {
   bulletPoints: string[];
@@ -0,0 +1,151 @@
+/**
+ * compare CLI - Tests
+ *
+ * The CLI runs against DOCX files written to a temporary folder, with its
+ * output captured (hence the node environment).
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { docx, p } from "@/app/lib/document-diff/__fixtures__/docx";
+import { readZip } from "@/app/lib/document-diff/docx-package";
+import { globToRegExp, main } from "./compare-cli";
+
+let folder: string;
+
+/**
+ * Write a one-paragraph DOCX file per path under the temporary folder
+ */
+async function write(files: Record<string, string>) {
+  for (const [file, text] of Object.entries(files)) {
+    const target = at(file);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, await docx(p(text)));
+  }
+}
+
+/**
+ * A path in the temporary folder
+ */
+function at(file: string): string {
+  return path.join(folder, file);
+}
+
+/**
+ * Run the CLI on two paths relative to the temporary folder
+ */
+async function run(original: string, modified: string, ...options: string[]) {
+  let stdout = "";
+  let stderr = "";
+  const status = await main([at(original), at(modified), ...options], {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+  });
+  return { status, stdout, stderr };
+}
+
+beforeAll(async () => {
+  folder = await mkdtemp(path.join(tmpdir(), "compare-cli-"));
+  await write({
+    "v1/lease.docx": "Rent is due monthly.",
+    "v2/lease.docx": "Rent is due quarterly.",
+    "v1/annex/terms.docx": "Notices must be in writing.",
+    "v2/annex/terms.docx": "Notices must be in writing.",
+    "v1/retired.docx": "Old terms.",
+    "v2/notes.txt": "Not a document.",
+  });
+});
+
+afterAll(async () => {
+  await rm(folder, { recursive: true, force: true });
+});
+
+describe("compare CLI", () => {
+  it("should print a Markdown report of two files", async () => {
+    const { status, stdout } = await run("v1/lease.docx", "v2/lease.docx");
+
+    expect(status).toBe(0);
+    expect(stdout).toContain("# lease.docx → lease.docx");
+    expect(stdout).toContain("| 0 | 0 | 1 | 0 | 0 | 0 | 0 | 0 | 0 | 0 |");
+    expect(stdout).toContain('- Replaced "monthly" with "quarterly"');
+  });
+
+  it("should exit with status 1 when the differences exceed the threshold", async () => {
+    expect((await run("v1/lease.docx", "v2/lease.docx", "--threshold", "1")).status).toBe(0);
+    expect((await run("v1/lease.docx", "v2/lease.docx", "--threshold", "0")).status).toBe(1);
+  });
+
+  it("should write JSON in the /api/compare schema and a redline DOCX", async () => {
+    await run("v1/lease.docx", "v2/lease.docx", "--format", "json", "--out", at("out/report"));
+    await run("v1/lease.docx", "v2/lease.docx", "--format", "docx", "--out", at("out/redline.docx"));
+
+    const report = JSON.parse(await readFile(at("out/report.json"), "utf8"));
+    const redline = await readZip(await readFile(at("out/redline.docx")));
+    expect(report).toMatchObject({
+      version: 1,
+      modified: { name: "lease.docx" },
+      summary: { replacements: 1 },
+      changes: [{ type: "replacement", oldContent: "monthly", content: "quarterly" }],
+    });
+    expect(new TextDecoder().decode(redline.get("word/document.xml"))).toContain(
+      '<w:delText xml:space="preserve">monthly</w:delText>'
+    );
+  });
+
+  it("should compare matching files in two folders with a combined summary", async () => {
+    const { status, stdout } = await run("v1", "v2", "--out", at("batch"), "--format", "html");
+
+    expect(status).toBe(0);
+    expect(stdout).toMatch(/<td>annex\/terms.docx<\/td><td>0<\/td>/);
+    expect(stdout).toMatch(/<td>lease.docx<\/td><td>1<\/td>/);
+    expect(stdout).toContain("<td>retired.docx</td><td>Only in the original folder</td>");
+    expect(stdout).not.toContain("notes.txt");
+    expect(await readFile(at("batch/summary.html"), "utf8")).toBe(stdout);
+    expect(await readFile(at("batch/annex/terms.html"), "utf8")).toContain(
+      "No differences."
+    );
+  });
+
+  it("should count a file missing from one folder as over the threshold", async () => {
+    const { status } = await run("v1", "v2", "--pattern", "retired.docx", "--threshold", "0");
+
+    expect(status).toBe(1);
+  });
+
+  it("should exit with status 2 for files it cannot compare and bad arguments", async () => {
+    await writeFile(at("broken.docx"), "this is not a zip archive");
+
+    const broken = await run("v1/lease.docx", "broken.docx");
+    expect(broken.status).toBe(2);
+    expect(broken.stderr).toMatch(/Not a zip archive/);
+    expect((await run("v1/lease.docx", "v2/lease.docx", "--format", "pdf")).status).toBe(2);
+    expect((await run("v1/lease.docx", "v2/lease.docx", "--format", "docx")).status).toBe(2);
+    expect((await run("v1/lease.docx", "v2")).stderr).toMatch(/not a file with a folder/);
+  });
+
+  it("should exit with status 2 when it cannot write the output", async () => {
+    // A folder cannot be created under a file
+    const file = await run("v1/lease.docx", "v2/lease.docx", "--out", at("v1/lease.docx/report"));
+    const folders = await run("v1", "v2", "--out", at("v1/lease.docx/batch"));
+
+    expect(file.status).toBe(2);
+    expect(file.stderr).toMatch(/^compare: (EEXIST|ENOTDIR)/);
+    expect(folders.status).toBe(2);
+    expect(folders.stderr).toMatch(/^compare: (EEXIST|ENOTDIR)/);
+    expect(folders.stdout).toContain("lease.docx");
+  });
+});
+
+describe("globToRegExp", () => {
+  it("should match file names at any depth unless the pattern has a folder", () => {
+    expect(globToRegExp("*.docx").test("annex/terms.docx")).toBe(true);
+    expect(globToRegExp("annex/*.docx").test("terms.docx")).toBe(false);
+    expect(globToRegExp("**/terms.docx").test("a/b/terms.docx")).toBe(true);
+    expect(globToRegExp("lease?.docx").test("lease2.docx")).toBe(true);
+    expect(globToRegExp("*.docx").test("lease.docx.bak")).toBe(false);
+  });
+});
@@ -0,0 +1,445 @@
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  COMPARE_API_VERSION,
+  parseCompareOptions,
+  type CompareResponse,
+} from "@/app/lib/compare-api";
+import {
+  countDifferences,
+  renderBatchSummary,
+  renderReport,
+  toSummarizeChanges,
+  type BatchReportEntry,
+  type CompareReport,
+  type ReportFormat,
+} from "@/app/lib/compare-report";
+import {
+  compareImportedDocx,
+  createImportedRedlineDocx,
+  importDocx,
+  type DocxComparisonOptions,
+  type DocxComparisonResult,
+} from "@/app/lib/document-diff";
+
+// Command-line comparison of DOCX files, for scripts and CI. Compares two
+// files, or every pair of matching files in two folders, fully offline; the
+// AI summary is the only part that uses the network, and only when asked for.
+// Run it with `pnpm compare` (see scripts/compare.mjs).
+
+export const USAGE = `Usage: compare <original> <modified> [options]
+
+Compare two DOCX files, or each pair of files with the same relative path in
+two folders.
+
+Options:
+  --format <format>    Report format: json, html, docx (a redline) or md (default: md)
+  --out <path>         Write the report to this file (the format's extension is added
+                       when it has none); for folders, a directory for one report per
+                       pair and the combined summary
+  --threshold <count>  Exit with status 1 when a comparison finds more than <count>
+                       differences
+  --pattern <glob>     Files to compare in folders (default: *.docx); a pattern without
+                       "/" matches file names at any depth
+  --options <file>     Comparison options as JSON, as sent to /api/compare
+  --author <name>      Author of the redline's revisions (docx)
+  --date <date>        Date of the redline's revisions, as ISO 8601 (docx)
+  --ai-summary         Add an AI summary of the changes; sends them to OpenAI and
+                       needs OPENAI_API_KEY
+  --help               Show this help
+
+Exit status: 0 when every comparison is within the threshold, 1 when one
+exceeds it, 2 on usage errors, files that could not be compared or reports
+that could not be written.
+`;
+
+// Exit statuses, as diff(1) uses them
+const EXIT_OK = 0;
+const EXIT_DIFFERENT = 1;
+const EXIT_ERROR = 2;
+
+const FORMATS = ["json", "html", "docx", "md"] as const;
+type CliFormat = (typeof FORMATS)[number];
+
+// Where the CLI writes text; replaced in tests
+export interface CliOutput {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const processOutput: CliOutput = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+interface CliOptions {
+  format: CliFormat;
+  out?: string;
+  threshold?: number;
+  pattern: string;
+  comparison: DocxComparisonOptions;
+  author?: string;
+  date?: string;
+  aiSummary: boolean;
+}
+
+// A comparison of one pair of files, and the redline when one was written
+interface PairResult {
+  report: CompareReport;
+  docx?: Uint8Array;
+}
+
+type CliOptionsParseResult =
+  | { success: true; options: CliOptions }
+  | { success: false; error: string };
+
+// Parse the options given with the two paths
+async function parseOptions(
+  values: Record<string, string | boolean | undefined>
+): Promise<CliOptionsParseResult> {
+  const format = (values.format as string | undefined) ?? "md";
+  if (!(FORMATS as readonly string[]).includes(format)) {
+    return { success: false, error: `--format must be one of ${FORMATS.join(", ")}` };
+  }
+
+  let threshold: number | undefined;
+  if (values.threshold !== undefined) {
+    threshold = Number(values.threshold);
+    if (!Number.isInteger(threshold) || threshold < 0) {
+      return { success: false, error: "--threshold must be a whole number of differences" };
+    }
+  }
+
+  const date = values.date as string | undefined;
+  if (date !== undefined && Number.isNaN(Date.parse(date))) {
+    return {
+      success: false,
+      error: "--date must be an ISO 8601 date and time, such as 2026-03-01T09:30:00Z",
+    };
+  }
+
+  let optionsJson: string | null = null;
+  if (values.options !== undefined) {
+    try {
+      optionsJson = await readFile(values.options as string, "utf8");
+    } catch {
+      return { success: false, error: `Cannot read the options file ${values.options}` };
+    }
+  }
+  const comparison = parseCompareOptions(optionsJson);
+  if (!comparison.success) {
+    return {
+      success: false,
+      error: `Invalid comparison options:\n  ${comparison.errors.join("\n  ")}`,
+    };
+  }
+
+  if (values["ai-summary"] && !process.env.OPENAI_API_KEY) {
+    return { success: false, error: "--ai-summary needs the OPENAI_API_KEY environment variable" };
+  }
+
+  if (format === "docx" && values.out === undefined) {
+    return { success: false, error: "--format docx needs --out, the file to write the redline to" };
+  }
+
+  return {
+    success: true,
+    options: {
+      format: format as CliFormat,
+      out: values.out as string | undefined,
+      threshold,
+      pattern: (values.pattern as string | undefined) ?? "*.docx",
+      comparison: comparison.options,
+      author: values.author as string | undefined,
+      date: date && new Date(date).toISOString(),
+      aiSummary: Boolean(values["ai-summary"]),
+    },
+  };
+}
+
+// Glob to a regular expression over "/"-separated relative paths: "**/"
+// matches any number of folders, "*" anything but "/" and "?" one character
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (pattern.startsWith("**/", i)) {
+      source += "(?:.*/)?";
+      i += 2;
+    } else if (pattern.startsWith("**", i)) {
+      source += ".*";
+      i += 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern.includes("/") ? "" : "(?:.*/)?"}${source}$`);
+}
+
+// Files under a folder matching the pattern, as sorted "/"-separated paths
+// relative to it. Word's lock files ("~$name.docx") are skipped.
+async function listFiles(folder: string, pattern: RegExp): Promise<string[]> {
+  const entries = await readdir(folder, { recursive: true, withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile() && !entry.name.startsWith("~$"))
+    .map((entry) =>
+      path.relative(folder, path.join(entry.parentPath, entry.name)).split(path.sep).join("/")
+    )
+    .filter((file) => pattern.test(file))
+    .sort();
+}
+
+// Ask OpenAI for a summary of the changes. The AI SDK is only loaded here,
+// so comparisons without --ai-summary never load it.
+async function summarize(report: CompareResponse) {
+  const [{ generateObject }, ai] = await Promise.all([
+    import("ai"),
+    import("@/app/lib/openai"),
+  ]);
+  const { object } = await generateObject({
+    model: ai.openai(ai.SUMMARIZE_MODEL),
+    schema: ai.changeSummarySchema,
+    system: ai.SUMMARIZE_SYSTEM_PROMPT,
+    prompt: ai.formatSummarizePrompt({
+      changes: toSummarizeChanges(report),
+      documentName: report.modified.name,
+    }),
+  });
+  return object;
+}
+
+// Compare one pair of files; throws when either is not a readable DOCX file
+async function comparePair(
+  originalPath: string,
+  modifiedPath: string,
+  options: CliOptions
+): Promise<PairResult> {
+  const files = await Promise.all([readFile(originalPath), readFile(modifiedPath)]);
+  const [original, modified] = await Promise.all(files.map((data) => importDocx(data)));
+  const info = (file: string, data: Buffer) => ({ name: path.basename(file), size: data.length });
+
+  let docx: Uint8Array | undefined;
+  let result: DocxComparisonResult;
+  if (options.format === "docx") {
+    ({ docx, ...result } = await createImportedRedlineDocx(original, modified, files[1], {
+      ...options.comparison,
+      author: options.author,
+      date: options.date,
+    }));
+  } else {
+    result = compareImportedDocx(original, modified, options.comparison);
+  }
+
+  const report: CompareReport = {
+    version: COMPARE_API_VERSION,
+    original: info(originalPath, files[0]),
+    modified: info(modifiedPath, files[1]),
+    ...result,
+  };
+  if (options.aiSummary && countDifferences(report) > 0) {
+    report.aiSummary = await summarize(report);
+  }
+  return { report, docx };
+}
+
+// The report of one pair in the chosen format
+function reportContent({ report, docx }: PairResult, format: CliFormat): string | Uint8Array {
+  return format === "docx" ? docx! : renderReport(report, format);
+}
+
+// "report" -> "report.md"; a path with an extension is used as it is
+function withExtension(file: string, format: CliFormat): string {
+  return path.extname(file) ? file : `${file}.${format}`;
+}
+
+// Write a report, creating its folder; prints the error and resolves to false
+// when the file cannot be written
+async function writeOutput(
+  file: string,
+  content: string | Uint8Array,
+  output: CliOutput
+): Promise<boolean> {
+  try {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, content);
+    return true;
+  } catch (error) {
+    output.stderr(`compare: ${error instanceof Error ? error.message : String(error)}\n`);
+    return false;
+  }
+}
+
+async function compareFiles(
+  original: string,
+  modified: string,
+  options: CliOptions,
+  output: CliOutput
+): Promise<number> {
+  let pair: PairResult;
+  try {
+    pair = await comparePair(original, modified, options);
+  } catch (error) {
+    output.stderr(`compare: ${error instanceof Error ? error.message : String(error)}\n`);
+    return EXIT_ERROR;
+  }
+
+  const content = reportContent(pair, options.format);
+  if (options.out) {
+    if (!(await writeOutput(withExtension(options.out, options.format), content, output))) {
+      return EXIT_ERROR;
+    }
+  } else {
+    output.stdout(content as string);
+  }
+
+  const differences = countDifferences(pair.report);
+  return options.threshold !== undefined && differences > options.threshold
+    ? EXIT_DIFFERENT
+    : EXIT_OK;
+}
+
+async function compareFolders(
+  original: string,
+  modified: string,
+  options: CliOptions,
+  output: CliOutput
+): Promise<number> {
+  const pattern = globToRegExp(options.pattern);
+  const [originalFiles, modifiedFiles] = await Promise.all([
+    listFiles(original, pattern),
+    listFiles(modified, pattern),
+  ]);
+  const paths = [...new Set([...originalFiles, ...modifiedFiles])].sort();
+  if (paths.length === 0) {
+    output.stderr(`compare: No files match ${options.pattern} in ${original} or ${modified}\n`);
+    return EXIT_ERROR;
+  }
+
+  const entries: BatchReportEntry[] = [];
+  let status = EXIT_OK;
+  for (const file of paths) {
+    // A file on one side only is a difference, not an error
+    if (!originalFiles.includes(file) || !modifiedFiles.includes(file)) {
+      entries.push({
+        path: file,
+        onlyIn: originalFiles.includes(file) ? "original" : "modified",
+      });
+      if (options.threshold !== undefined && status === EXIT_OK) status = EXIT_DIFFERENT;
+      continue;
+    }
+
+    let pair: PairResult;
+    try {
+      pair = await comparePair(path.join(original, file), path.join(modified, file), options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      output.stderr(`compare: ${file}: ${message}\n`);
+      entries.push({ path: file, error: message });
+      status = EXIT_ERROR;
+      continue;
+    }
+    entries.push({ path: file, report: pair.report });
+
+    if (options.out) {
+      const name = file.replace(/\.docx$/i, "");
+      const report =
+        options.format === "docx" ? `${name}-redline.docx` : `${name}.${options.format}`;
+      const content = reportContent(pair, options.format);
+      if (!(await writeOutput(path.join(options.out, report), content, output))) {
+        status = EXIT_ERROR;
+      }
+    }
+    if (
+      options.threshold !== undefined &&
+      countDifferences(pair.report) > options.threshold &&
+      status === EXIT_OK
+    ) {
+      status = EXIT_DIFFERENT;
+    }
+  }
+
+  // The redline has no summary of its own, so a docx batch is summarized in Markdown
+  const summaryFormat: ReportFormat = options.format === "docx" ? "md" : options.format;
+  const summary = renderBatchSummary(entries, summaryFormat);
+  if (
+    options.out &&
+    !(await writeOutput(path.join(options.out, `summary.${summaryFormat}`), summary, output))
+  ) {
+    status = EXIT_ERROR;
+  }
+  output.stdout(summary);
+  return status;
+}
+
+// Print a command-line error with the usage
+function usageError(output: CliOutput, message: string): number {
+  output.stderr(`compare: ${message}\n\n${USAGE}`);
+  return EXIT_ERROR;
+}
+
+async function kindOf(file: string): Promise<"file" | "folder" | undefined> {
+  try {
+    return (await stat(file)).isDirectory() ? "folder" : "file";
+  } catch {
+    return undefined;
+  }
+}
+
+// Run the CLI with the arguments after the script name; resolves to the exit
+// status
+export async function main(args: string[], output: CliOutput = processOutput): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        format: { type: "string" },
+        out: { type: "string" },
+        threshold: { type: "string" },
+        pattern: { type: "string" },
+        options: { type: "string" },
+        author: { type: "string" },
+        date: { type: "string" },
+        "ai-summary": { type: "boolean" },
+        help: { type: "boolean" },
+      },
+    });
+  } catch (error) {
+    // Unknown options, or options missing their value
+    return usageError(output, error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    output.stdout(USAGE);
+    return EXIT_OK;
+  }
+  if (positionals.length !== 2) {
+    return usageError(output, "Give the original and the modified file or folder");
+  }
+
+  const options = await parseOptions(values);
+  if (!options.success) {
+    return usageError(output, options.error);
+  }
+
+  const [original, modified] = positionals;
+  const kinds = await Promise.all(positionals.map(kindOf));
+  const missing = positionals.find((_, index) => !kinds[index]);
+  if (missing) {
+    return usageError(output, `No such file or folder: ${missing}`);
+  }
+  if (kinds[0] !== kinds[1]) {
+    return usageError(output, "Compare two files or two folders, not a file with a folder");
+  }
+
+  return kinds[0] === "folder"
+    ? compareFolders(original, modified, options.options, output)
+    : compareFiles(original, modified, options.options, output);
+}
@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+// Entry point of the compare CLI (see scripts/compare-cli.ts). jiti compiles
+// the TypeScript sources on the fly and resolves the "@/" alias the way
+// tsconfig.json and vitest.config.ts do, so nothing needs building first.
+import { createJiti } from "jiti";
+import { fileURLToPath } from "node:url";
+
+const jiti = createJiti(import.meta.url, {
+  alias: { "@/": fileURLToPath(new URL("../", import.meta.url)) },
+});
+const { main } = await jiti.import("./compare-cli.ts");
+
+process.exitCode = await main(process.argv.slice(2));